@@ -6,6 +6,8 @@ import { createStackNavigator } from '@react-navigation/stack';
 // Import your screens
 import VoiceInterviewScreen from './src/screens/VoiceInterviewScreen';
 import { TestAudioStreamPage } from './src/screens/TestAudioStreamPage';
+import { ProgressScreen } from './src/screens/ProgressScreen';
+import { QuestionBankScreen } from './src/screens/QuestionBankScreen';
 
 const Stack = createStackNavigator();
 
@@ -28,6 +30,16 @@ export default function App() {
             headerTitleStyle: { fontWeight: 'bold' },
           }}
         />
+        <Stack.Screen
+          name="Progress"
+          component={ProgressScreen}
+          options={{ title: 'Progress' }}
+        />
+        <Stack.Screen
+          name="QuestionBank"
+          component={QuestionBankScreen}
+          options={{ title: 'Question Bank' }}
+        />
       </Stack.Navigator>
     </NavigationContainer>
   );
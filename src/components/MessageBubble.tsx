@@ -1,5 +1,5 @@
 import React, { useEffect } from 'react';
-import { StyleSheet, View, Text, Image } from 'react-native';
+import { StyleSheet, View, Text, Image, TextStyle } from 'react-native';
 import { useTypewriter } from '../hooks/useTypewriter';
 
 interface MessageBubbleProps {
@@ -9,10 +9,17 @@ interface MessageBubbleProps {
     isLatestAi?: boolean; // Trigger for typewriter
 }
 
+/**
+ * Text typed out character by character (latest AI message only - history
+ * bubbles render plain Text, without a 30ms timer each)
+ */
+const TypewriterText: React.FC<{ text: string; style: TextStyle[] }> = ({ text, style }) => {
+    const typedText = useTypewriter(text, 30);
+    return <Text style={style}>{typedText}</Text>;
+};
+
 export const MessageBubble: React.FC<MessageBubbleProps> = ({ role, text, avatar, isLatestAi }) => {
-    // Only apply typewriter if it's the latest AI message. 
-    // Otherwise show full text immediately (history).
-    const displayText = isLatestAi ? useTypewriter(text, 30) : text;
+    const textStyle = [styles.text, role === 'user' ? styles.userText : styles.aiText];
 
     return (
         <View style={[
@@ -25,12 +32,10 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ role, text, avatar
                 styles.bubble, 
                 role === 'user' ? styles.userBubble : styles.aiBubble
             ]}>
-                <Text style={[
-                    styles.text, 
-                    role === 'user' ? styles.userText : styles.aiText
-                ]}>
-                    {displayText}
-                </Text>
+                {/* Only the latest AI message is typed out; history shows the full text */}
+                {isLatestAi
+                    ? <TypewriterText text={text} style={textStyle} />
+                    : <Text style={textStyle}>{text}</Text>}
             </View>
         </View>
     );
@@ -26,6 +26,8 @@ import { Gesture, GestureDetector } from 'react-native-gesture-handler';
 import * as Haptics from 'expo-haptics';
 import { SessionCard } from './SessionCard';
 import { ResultsModal } from '../interview/ResultsModal';
+import { DeliveryChart } from '../interview/DeliveryChart';
+import { sessionDelivery } from '../../services/delivery-analytics';
 import {
     getHistory,
     deleteSession,
@@ -36,12 +38,16 @@ import { FinalInterviewReport } from '../../types';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
+const DELIVERY_TREND_SESSIONS = 8;
+
 interface HistoryPanelProps {
     visible: boolean;
     onClose: () => void;
+    onOpenProgress?: () => void;  // Progress dashboard (button hidden when not provided)
+    onOpenQuestionBank?: () => void;  // Question bank browser (button hidden when not provided)
 }
 
-export const HistoryPanel: React.FC<HistoryPanelProps> = ({ visible, onClose }) => {
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ visible, onClose, onOpenProgress, onOpenQuestionBank }) => {
     const [sessions, setSessions] = useState<InterviewSession[]>([]);
     const [selectedSession, setSelectedSession] = useState<InterviewSession | null>(null);
     const [showResultsModal, setShowResultsModal] = useState(false);
@@ -98,6 +104,17 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({ visible, onClose })
         }
     };
 
+    // Delivery over time: latest voice sessions, oldest first
+    const deliveryTrend = sessions
+        .map(session => ({ session, delivery: sessionDelivery(session.questions) }))
+        .filter(({ delivery }) => delivery !== null)
+        .slice(0, DELIVERY_TREND_SESSIONS)
+        .sort((a, b) => a.session.timestamp - b.session.timestamp)
+        .map(({ session, delivery }) => {
+            const date = new Date(session.timestamp);
+            return { label: `${date.getMonth() + 1}/${date.getDate()}`, delivery: delivery! };
+        });
+
     const handleSessionPress = (session: InterviewSession) => {
         // Convert InterviewSession to FinalInterviewReport format
         const report: FinalInterviewReport = {
@@ -197,9 +214,21 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({ visible, onClose })
                                 <Ionicons name="time-outline" size={24} color="#333" />
                                 <Text style={styles.modalTitle}>History</Text>
                             </View>
-                            <TouchableOpacity onPress={handleClose}>
-                                <Ionicons name="close" size={28} color="#333" />
-                            </TouchableOpacity>
+                            <View style={styles.headerTitleRow}>
+                                {onOpenProgress && sessions.length > 0 && (
+                                    <TouchableOpacity onPress={onOpenProgress}>
+                                        <Ionicons name="stats-chart-outline" size={24} color="#333" />
+                                    </TouchableOpacity>
+                                )}
+                                {onOpenQuestionBank && sessions.length > 0 && (
+                                    <TouchableOpacity onPress={onOpenQuestionBank}>
+                                        <Ionicons name="library-outline" size={24} color="#333" />
+                                    </TouchableOpacity>
+                                )}
+                                <TouchableOpacity onPress={handleClose}>
+                                    <Ionicons name="close" size={28} color="#333" />
+                                </TouchableOpacity>
+                            </View>
                         </View>
 
                         {/* Session List */}
@@ -225,6 +254,12 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({ visible, onClose })
                             ) : (
                                 <>
                                     {console.log('🎨 [HISTORY_PANEL] Rendering sessions list, count:', sessions.length)}
+                                    {deliveryTrend.length > 1 && (
+                                        <View style={styles.trendCard}>
+                                            <Text style={styles.sectionTitle}>DELIVERY OVER TIME</Text>
+                                            <DeliveryChart points={deliveryTrend} />
+                                        </View>
+                                    )}
                                     <Text style={styles.sectionTitle}>
                                         {sessions.length} SESSION{sessions.length !== 1 ? 'S' : ''}
                                     </Text>
@@ -278,10 +313,15 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({ visible, onClose })
                                 ...q.metrics,
                                 reasoning: q.metrics.reasoning || 'Historical session'
                             } : undefined,
+                            category: q.category,
+                            difficulty: q.difficulty,
+                            starAnalysis: q.starAnalysis,
+                            delivery: q.delivery,
                         })),
                         averageScore: selectedSession.totalScore,
                         overallSummary: selectedSession.overallSummary,
                         timestamp: selectedSession.timestamp,
+                        categoryLevels: selectedSession.categoryLevels,
                     }}
                     roleTitle={selectedSession.role}
                 />
@@ -345,6 +385,12 @@ const styles = StyleSheet.create({
         letterSpacing: 1,
         marginBottom: 12,
     },
+    trendCard: {
+        backgroundColor: 'rgba(255, 255, 255, 0.7)',
+        borderRadius: 16,
+        padding: 16,
+        marginBottom: 20,
+    },
     emptyContainer: {
         flex: 1,
         alignItems: 'center',
@@ -7,6 +7,7 @@ import { StyleSheet, View, Text, TouchableOpacity } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import { InterviewSession } from '../../services/history-storage';
+import { getScoringPolicy } from '../../services/scoring-policy';
 
 interface SessionCardProps {
     session: InterviewSession;
@@ -51,7 +52,11 @@ export const SessionCard: React.FC<SessionCardProps> = ({ session, onPress, onDe
                     <Text style={styles.roleText} numberOfLines={1}>
                         {session.role}
                     </Text>
-                    <Text style={styles.dateText}>{session.date}</Text>
+                    <Text style={styles.dateText}>
+                        {session.date} · {getScoringPolicy(session.scoringPolicyId).label}
+                        {session.language && session.language !== 'en' ? ` · ${session.language.toUpperCase()}` : ''}
+                        {session.inputMode === 'text' ? ' · Text' : ''}
+                    </Text>
                 </View>
 
                 {/* Score badge */}
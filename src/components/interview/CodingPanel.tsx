@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { CodingProblem } from '../../types';
+
+interface CodingPanelProps {
+    problem: CodingProblem;
+    code: string;
+    onChangeCode: (code: string) => void;
+    editable?: boolean;
+}
+
+const MONOSPACE_FONT = Platform.select({ ios: 'Menlo', android: 'monospace', default: 'monospace' });
+
+// ============================================
+// CODING PANEL (problem statement + editor)
+// ============================================
+//
+// Shown while the active topic is a 'Coding' topic. The editor contents are
+// submitted together with the candidate's next answer (spoken or typed).
+// ============================================
+
+export const CodingPanel: React.FC<CodingPanelProps> = ({ problem, code, onChangeCode, editable = true }) => {
+    const [isCollapsed, setIsCollapsed] = useState(false);
+
+    return (
+        <View style={styles.container}>
+            <TouchableOpacity style={styles.header} onPress={() => setIsCollapsed(prev => !prev)} activeOpacity={0.7}>
+                <Ionicons name="code-slash" size={16} color="#10B981" />
+                <Text style={styles.title} numberOfLines={1}>{problem.title}</Text>
+                <Text style={styles.language}>{problem.language}</Text>
+                <Ionicons name={isCollapsed ? "chevron-down" : "chevron-up"} size={16} color="#9CA3AF" />
+            </TouchableOpacity>
+
+            {!isCollapsed && (
+                <>
+                    <Text style={styles.statement}>{problem.statement}</Text>
+                    <TextInput
+                        style={styles.editor}
+                        value={code}
+                        onChangeText={onChangeCode}
+                        editable={editable}
+                        multiline
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        spellCheck={false}
+                        textAlignVertical="top"
+                        placeholder="// Write your solution, then explain it"
+                        placeholderTextColor="#6B7280"
+                    />
+                    <Text style={styles.hint}>Your code is sent with your next answer.</Text>
+                </>
+            )}
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        marginHorizontal: 16,
+        marginTop: 8,
+        padding: 12,
+        borderRadius: 12,
+        backgroundColor: '#F9FAFB',
+        borderWidth: 1,
+        borderColor: '#E5E7EB',
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    title: {
+        flex: 1,
+        fontSize: 15,
+        fontWeight: 'bold',
+        color: '#1F2937',
+    },
+    language: {
+        fontSize: 11,
+        color: '#10B981',
+        fontWeight: '600',
+        textTransform: 'uppercase',
+    },
+    statement: {
+        marginTop: 8,
+        fontSize: 14,
+        lineHeight: 20,
+        color: '#374151',
+    },
+    editor: {
+        marginTop: 10,
+        minHeight: 140,
+        maxHeight: 260,
+        padding: 10,
+        borderRadius: 8,
+        backgroundColor: '#111827',
+        color: '#F9FAFB',
+        fontFamily: MONOSPACE_FONT,
+        fontSize: 13,
+        lineHeight: 18,
+    },
+    hint: {
+        marginTop: 6,
+        fontSize: 11,
+        color: '#9CA3AF',
+    },
+});
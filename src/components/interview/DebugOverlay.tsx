@@ -3,6 +3,8 @@ import { View, Text, TouchableOpacity, ScrollView, StyleSheet, Modal, TouchableW
 import { Ionicons } from '@expo/vector-icons';
 import Slider from '@react-native-community/slider';
 import { VibeConfig, EvaluationMetrics, TTSProvider, OpenAIVoice } from '../../types';
+import { TTSFailover, describeFailover } from '../../services/tts-failover';
+import { TurnLatency, summarizeLatency } from '../../services/speculative-response';
 
 interface DebugOverlayProps {
     visible: boolean;
@@ -28,6 +30,12 @@ interface DebugOverlayProps {
     // NEW: TTS Provider props
     ttsProvider?: TTSProvider;
     openaiVoice?: OpenAIVoice;
+    ttsFailovers?: TTSFailover[];
+    turnLatencies?: TurnLatency[];
+    // Session recording & replay
+    isReplaying?: boolean;
+    onExportSessionLog?: () => Promise<void>;
+    onReplaySessionLog?: () => Promise<void>;
 }
 
 // ============================================
@@ -93,7 +101,13 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({
     metrics = null,
     // NEW: TTS Provider
     ttsProvider = 'cartesia',
-    openaiVoice = 'nova'
+    openaiVoice = 'nova',
+    ttsFailovers = [],
+    turnLatencies = [],
+    // Session recording & replay
+    isReplaying = false,
+    onExportSessionLog,
+    onReplaySessionLog
 }) => {
     if (!visible) return null;
 
@@ -153,6 +167,10 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({
         return '#EF4444';
     };
 
+    const latencySummary = summarizeLatency(turnLatencies);
+    const lastLatency = turnLatencies[turnLatencies.length - 1];
+    const formatLatency = (ms: number | null) => ms === null ? '—' : `${(ms / 1000).toFixed(2)}s`;
+
     const calculateOverall = () => {
         if (!metrics) return 0;
         return ((metrics.accuracy + metrics.depth + metrics.structure) / 3).toFixed(1);
@@ -323,6 +341,38 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({
                                             Voice: Victoria
                                         </Text>
                                     )}
+                                    {ttsFailovers.length > 0 && (
+                                        <Text style={styles.ttsFailoverActive}>
+                                            NOW: {ttsFailovers[ttsFailovers.length - 1].to.toUpperCase()}
+                                        </Text>
+                                    )}
+                                    {ttsFailovers.map((failover, index) => (
+                                        <Text key={index} style={styles.ttsFailoverLabel}>
+                                            {new Date(failover.at).toLocaleTimeString()} {describeFailover(failover)}
+                                            {failover.detail ? `: ${failover.detail}` : ''}
+                                        </Text>
+                                    ))}
+                                </View>
+                            </View>
+                        )}
+
+                        {/* Time to first audio: speculative vs streamed vs regular turns */}
+                        {turnLatencies.length > 0 && (
+                            <View style={styles.ttsInfoSection}>
+                                <Text style={styles.sectionTitle}>⚡ TIME TO FIRST AUDIO</Text>
+                                <View style={styles.ttsInfoCard}>
+                                    <Text style={styles.latencyLabel}>
+                                        Speculative: {formatLatency(latencySummary.speculativeMs)} ({latencySummary.hits} turns)
+                                    </Text>
+                                    <Text style={styles.latencyLabel}>
+                                        Streamed: {formatLatency(latencySummary.streamedMs)} ({latencySummary.streamed} turns)
+                                    </Text>
+                                    <Text style={styles.latencyLabel}>
+                                        Baseline: {formatLatency(latencySummary.baselineMs)} ({latencySummary.turns - latencySummary.hits - latencySummary.streamed} turns)
+                                    </Text>
+                                    <Text style={styles.ttsVoiceLabel}>
+                                        Last turn: {formatLatency(lastLatency.firstAudioMs)} ({lastLatency.outcome}{lastLatency.streamed ? ', streamed' : ''})
+                                    </Text>
                                 </View>
                             </View>
                         )}
@@ -430,6 +480,29 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({
                             </TouchableOpacity>
                         </View>
 
+                        {/* Session Log Row */}
+                        {(onExportSessionLog || onReplaySessionLog) && (
+                            <View style={styles.debugRow}>
+                                {onExportSessionLog && (
+                                    <TouchableOpacity
+                                        style={[styles.debugButton, { backgroundColor: '#5E5CE6' }]}
+                                        onPress={onExportSessionLog}
+                                    >
+                                        <Text style={styles.debugButtonText}>📼 EXPORT LOG</Text>
+                                    </TouchableOpacity>
+                                )}
+                                {onReplaySessionLog && (
+                                    <TouchableOpacity
+                                        style={[styles.debugButton, { backgroundColor: '#5E5CE6', marginRight: 0 }]}
+                                        onPress={onReplaySessionLog}
+                                        disabled={isReplaying}
+                                    >
+                                        <Text style={styles.debugButtonText}>{isReplaying ? "📼 REPLAYING..." : "▶️ REPLAY LOG"}</Text>
+                                    </TouchableOpacity>
+                                )}
+                            </View>
+                        )}
+
                         {/* Force Finish Button */}
                         <TouchableOpacity
                             style={[styles.debugButton, { backgroundColor: '#FF3B30', marginTop: 15, marginRight: 0 }]}
@@ -781,4 +854,22 @@ const styles = StyleSheet.create({
         marginTop: 4,
         fontWeight: '600',
     },
+    latencyLabel: {
+        fontSize: 13,
+        color: '#FFFFFF',
+        fontWeight: '600',
+        marginTop: 2,
+    },
+    ttsFailoverActive: {
+        fontSize: 12,
+        color: '#FF9F0A',
+        marginTop: 6,
+        fontWeight: 'bold',
+    },
+    ttsFailoverLabel: {
+        fontSize: 11,
+        color: '#FF9F0A',
+        marginTop: 2,
+        textAlign: 'center',
+    },
 });
@@ -0,0 +1,95 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { DeliveryMetrics } from '../../types';
+import { PACE_RANGE, fillersPerMinute } from '../../services/delivery-analytics';
+
+interface DeliveryChartProps {
+    points: Array<{ label: string; delivery: DeliveryMetrics }>;  // In display order (left → right)
+}
+
+const MAX_WPM = 220;
+const CHART_HEIGHT = 64;
+
+// ============================================
+// DELIVERY CHART (speech pace & fillers)
+// ============================================
+//
+// Two small bar charts: words per minute (green inside the conversational
+// pace band, orange outside) and fillers per minute. Used per topic in the
+// results and per session in the history panel.
+// ============================================
+
+export const DeliveryChart: React.FC<DeliveryChartProps> = ({ points }) => {
+    const fillerRates = points.map(point => fillersPerMinute(point.delivery));
+    const maxFillerRate = Math.max(...fillerRates, 1);
+
+    const renderBars = (values: number[], max: number, colorOf: (value: number) => string) => (
+        <View style={styles.barRow}>
+            {values.map((value, index) => (
+                <View key={index} style={styles.barColumn}>
+                    <Text style={styles.barValue}>{Math.round(value * 10) / 10}</Text>
+                    <View
+                        style={[
+                            styles.bar,
+                            {
+                                height: Math.max(2, Math.min(value / max, 1) * CHART_HEIGHT),
+                                backgroundColor: colorOf(value)
+                            }
+                        ]}
+                    />
+                    <Text style={styles.barLabel} numberOfLines={1}>{points[index].label}</Text>
+                </View>
+            ))}
+        </View>
+    );
+
+    return (
+        <View style={styles.container}>
+            <Text style={styles.chartTitle}>PACE · WORDS / MIN ({PACE_RANGE.slow}-{PACE_RANGE.fast} IS CONVERSATIONAL)</Text>
+            {renderBars(
+                points.map(point => point.delivery.wordsPerMinute),
+                MAX_WPM,
+                wpm => wpm >= PACE_RANGE.slow && wpm <= PACE_RANGE.fast ? '#10B981' : '#F59E0B'
+            )}
+
+            <Text style={styles.chartTitle}>FILLERS / MIN</Text>
+            {renderBars(fillerRates, maxFillerRate, () => '#A5B4FC')}
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        gap: 8,
+    },
+    chartTitle: {
+        fontSize: 11,
+        fontWeight: '600',
+        color: '#666',
+        letterSpacing: 1,
+    },
+    barRow: {
+        flexDirection: 'row',
+        alignItems: 'flex-end',
+        gap: 6,
+    },
+    barColumn: {
+        flex: 1,
+        alignItems: 'center',
+        justifyContent: 'flex-end',
+    },
+    barValue: {
+        fontSize: 10,
+        color: '#6B7280',
+        marginBottom: 2,
+    },
+    bar: {
+        width: '70%',
+        borderRadius: 3,
+    },
+    barLabel: {
+        marginTop: 4,
+        fontSize: 10,
+        color: '#9CA3AF',
+    },
+});
@@ -0,0 +1,107 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { DesignStage, InterviewTopic } from '../../types';
+
+interface DesignStagePanelProps {
+    topic: InterviewTopic;
+    currentStage: DesignStage;
+}
+
+// ============================================
+// DESIGN STAGE PANEL (system-design whiteboard round)
+// ============================================
+//
+// Shows the scenario and where the candidate is in the staged round.
+// Checklists stay hidden - they are the expected answers.
+// ============================================
+
+export const DesignStagePanel: React.FC<DesignStagePanelProps> = ({ topic, currentStage }) => {
+    const stages = topic.stages || [];
+    const currentIndex = stages.findIndex(stage => stage.id === currentStage.id);
+
+    return (
+        <View style={styles.container}>
+            <View style={styles.header}>
+                <Ionicons name="git-network-outline" size={16} color="#6366F1" />
+                <Text style={styles.title} numberOfLines={1}>{topic.topic}</Text>
+            </View>
+            <Text style={styles.scenario}>{topic.context}</Text>
+
+            <View style={styles.stageRow}>
+                {stages.map((stage, index) => (
+                    <View
+                        key={stage.id}
+                        style={[
+                            styles.stageStep,
+                            index < currentIndex && styles.stageStepDone,
+                            index === currentIndex && styles.stageStepActive
+                        ]}
+                    />
+                ))}
+            </View>
+            <Text style={styles.stageLabel}>
+                {currentIndex + 1}/{stages.length} · {currentStage.label}
+            </Text>
+            <Text style={styles.stageGoal}>{currentStage.goal}</Text>
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        marginHorizontal: 16,
+        marginTop: 8,
+        padding: 12,
+        borderRadius: 12,
+        backgroundColor: '#F9FAFB',
+        borderWidth: 1,
+        borderColor: '#E5E7EB',
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    title: {
+        flex: 1,
+        fontSize: 15,
+        fontWeight: 'bold',
+        color: '#1F2937',
+    },
+    scenario: {
+        marginTop: 6,
+        fontSize: 13,
+        lineHeight: 18,
+        color: '#374151',
+    },
+    stageRow: {
+        flexDirection: 'row',
+        gap: 6,
+        marginTop: 10,
+    },
+    stageStep: {
+        flex: 1,
+        height: 4,
+        borderRadius: 2,
+        backgroundColor: '#E5E7EB',
+    },
+    stageStepDone: {
+        backgroundColor: '#A5B4FC',
+    },
+    stageStepActive: {
+        backgroundColor: '#6366F1',
+    },
+    stageLabel: {
+        marginTop: 8,
+        fontSize: 12,
+        fontWeight: '600',
+        color: '#6366F1',
+        textTransform: 'uppercase',
+    },
+    stageGoal: {
+        marginTop: 2,
+        fontSize: 13,
+        color: '#6B7280',
+    },
+});
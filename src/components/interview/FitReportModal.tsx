@@ -0,0 +1,253 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Modal } from 'react-native';
+import { BlurView } from 'expo-blur';
+import { Ionicons } from '@expo/vector-icons';
+import { CategorizedSkill, FitAnalysis, InterviewPlan, InterviewTopic } from '../../types';
+import { skillToTopic } from '../../interview-planner';
+import { initialDifficulty } from '../../services/adaptive-difficulty';
+
+interface FitReportModalProps {
+    visible: boolean;
+    fit: FitAnalysis | null;
+    plan: InterviewPlan | null;                 // Editable queue (intro always stays)
+    onChangePlan: (plan: InterviewPlan) => void;
+    onStart: () => void;
+    onClose: () => void;
+}
+
+type SkillTopicType = 'Match' | 'Gap' | 'CoolSkill' | 'SoftSkill';
+
+// Topic types that come after the conversational technical topics
+const LATER_TYPES: InterviewTopic['type'][] = ['Coding', 'SystemDesign', 'SoftSkill'];
+
+const getScoreColor = (score: number): string => {
+    if (score >= 8) return '#10B981';
+    if (score >= 5) return '#F59E0B';
+    return '#EF4444';
+};
+
+// ============================================
+// FIT REPORT (resume vs JD, before the interview)
+// ============================================
+//
+// The planner's full analysis - matches, gaps, standout and soft skills with
+// relevance and category - plus a study list for the gaps. Every skill can
+// be added to or removed from the agenda; the edited plan is what starts.
+// ============================================
+
+export const FitReportModal: React.FC<FitReportModalProps> = ({ visible, fit, plan, onChangePlan, onStart, onClose }) => {
+    if (!fit || !plan) return null;
+
+    const { analysis, jobRole } = fit;
+    const isPlanned = (skill: string) =>
+        plan.queue.some(topic => topic.topic.toLowerCase() === skill.toLowerCase());
+
+    const removeTopic = (id: string) => {
+        onChangePlan({ ...plan, queue: plan.queue.filter(topic => topic.id !== id) });
+    };
+
+    // Technical topics go before coding / design / soft skills, soft skills last
+    const addSkill = (item: CategorizedSkill, type: SkillTopicType) => {
+        const difficulty = plan.queue.find(topic => topic.difficulty)?.difficulty ?? initialDifficulty(jobRole);
+        const topic = skillToTopic({ ...item, type }, `${type.toLowerCase()}_added_${Date.now()}`, difficulty);
+
+        const queue = [...plan.queue];
+        const laterIndex = queue.findIndex(t => LATER_TYPES.includes(t.type));
+        if (type === 'SoftSkill' || laterIndex === -1) queue.push(topic);
+        else queue.splice(laterIndex, 0, topic);
+        onChangePlan({ ...plan, queue });
+    };
+
+    const toggleSkill = (item: CategorizedSkill, type: SkillTopicType) => {
+        const planned = plan.queue.find(topic => topic.topic.toLowerCase() === item.skill.toLowerCase());
+        if (planned) removeTopic(planned.id);
+        else addSkill(item, type);
+    };
+
+    const renderSkills = (title: string, skills: CategorizedSkill[], type: SkillTopicType) => skills.length > 0 && (
+        <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{title}</Text>
+            {skills.map(item => {
+                const planned = isPlanned(item.skill);
+                return (
+                    <View key={item.skill} style={styles.skillRow}>
+                        <View style={styles.skillMain}>
+                            <Text style={styles.skillName} numberOfLines={1}>{item.skill}</Text>
+                            {!!item.category && <Text style={styles.caption} numberOfLines={1}>{item.category}</Text>}
+                        </View>
+                        {item.score !== undefined && (
+                            <Text style={[styles.skillScore, { color: getScoreColor(item.score) }]}>{item.score}</Text>
+                        )}
+                        <TouchableOpacity onPress={() => toggleSkill(item, type)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                            <Ionicons
+                                name={planned ? 'checkmark-circle' : 'add-circle-outline'}
+                                size={22}
+                                color={planned ? '#10B981' : '#999'}
+                            />
+                        </TouchableOpacity>
+                    </View>
+                );
+            })}
+        </View>
+    );
+
+    return (
+        <Modal visible={visible} animationType="fade" transparent>
+            <BlurView intensity={20} style={styles.blurContainer} tint="light">
+                <View style={styles.modalContainer}>
+                    <View style={styles.modalHeader}>
+                        <View style={styles.headerMain}>
+                            <Text style={styles.modalTitle}>Fit Report</Text>
+                            <Text style={styles.caption} numberOfLines={1}>
+                                {jobRole} · {analysis.matches.length} matches · {analysis.gaps.length} gaps
+                            </Text>
+                        </View>
+                        <TouchableOpacity onPress={onClose} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                            <Ionicons name="close" size={28} color="#333" />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView style={styles.modalContent}>
+                        {renderSkills('MATCHES', analysis.matches, 'Match')}
+                        {renderSkills('GAPS', analysis.gaps, 'Gap')}
+                        {renderSkills('STANDOUT SKILLS', analysis.cool_skills, 'CoolSkill')}
+                        {renderSkills('SOFT SKILLS', analysis.soft_skills, 'SoftSkill')}
+
+                        {/* Study List */}
+                        {analysis.gaps.length > 0 && (
+                            <View style={styles.section}>
+                                <Text style={styles.sectionTitle}>STUDY LIST</Text>
+                                {analysis.gaps.map((gap, index) => (
+                                    <Text key={gap.skill} style={styles.studyItem}>
+                                        {index + 1}. <Text style={styles.studySkill}>{gap.skill}</Text>
+                                        {' - '}{gap.study_tip || `Review the fundamentals of ${gap.skill} and prepare one example of using it.`}
+                                    </Text>
+                                ))}
+                            </View>
+                        )}
+
+                        {/* Agenda */}
+                        <View style={styles.section}>
+                            <Text style={styles.sectionTitle}>AGENDA · {plan.queue.length} TOPICS</Text>
+                            {plan.queue.map((topic, index) => (
+                                <View key={topic.id} style={styles.skillRow}>
+                                    <View style={styles.skillMain}>
+                                        <Text style={styles.skillName} numberOfLines={1}>{index + 1}. {topic.topic}</Text>
+                                        <Text style={styles.caption}>{topic.type}</Text>
+                                    </View>
+                                    {topic.type !== 'Intro' && (
+                                        <TouchableOpacity onPress={() => removeTopic(topic.id)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                                            <Ionicons name="remove-circle-outline" size={22} color="#EF4444" />
+                                        </TouchableOpacity>
+                                    )}
+                                </View>
+                            ))}
+                        </View>
+
+                        <TouchableOpacity
+                            style={[styles.startButton, plan.queue.length < 2 && styles.startButtonDisabled]}
+                            onPress={onStart}
+                            disabled={plan.queue.length < 2}
+                        >
+                            <Text style={styles.startButtonText}>START INTERVIEW</Text>
+                        </TouchableOpacity>
+                    </ScrollView>
+                </View>
+            </BlurView>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    blurContainer: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    modalContainer: {
+        backgroundColor: 'rgba(30,30,30,0.3)',
+        width: '90%',
+        borderRadius: 25,
+        maxHeight: '85%',
+        borderWidth: 1,
+        borderColor: 'rgba(255,255,255,0.1)',
+    },
+    modalHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        padding: 20,
+        borderBottomWidth: 1,
+        borderBottomColor: 'rgba(255,255,255,0.1)',
+    },
+    headerMain: {
+        flex: 1,
+        marginRight: 12,
+    },
+    modalTitle: {
+        fontSize: 24,
+        fontWeight: 'bold',
+    },
+    modalContent: {
+        padding: 20,
+    },
+    section: {
+        backgroundColor: 'rgba(255,255,255,0.5)',
+        borderRadius: 15,
+        padding: 15,
+        marginBottom: 15,
+    },
+    sectionTitle: {
+        fontSize: 12,
+        fontWeight: '600',
+        color: '#666',
+        letterSpacing: 1,
+        marginBottom: 8,
+    },
+    skillRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 6,
+        gap: 10,
+    },
+    skillMain: {
+        flex: 1,
+    },
+    skillName: {
+        fontSize: 14,
+        color: '#333',
+    },
+    skillScore: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    caption: {
+        fontSize: 12,
+        color: '#999',
+    },
+    studyItem: {
+        fontSize: 13,
+        color: '#333',
+        lineHeight: 19,
+        marginBottom: 6,
+    },
+    studySkill: {
+        fontWeight: '600',
+    },
+    startButton: {
+        backgroundColor: '#000',
+        paddingVertical: 18,
+        borderRadius: 15,
+        alignItems: 'center',
+        marginTop: 5,
+        marginBottom: 50,
+    },
+    startButtonDisabled: {
+        opacity: 0.4,
+    },
+    startButtonText: {
+        color: '#FFF',
+        fontSize: 18,
+        fontWeight: 'bold',
+    },
+});
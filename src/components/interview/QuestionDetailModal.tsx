@@ -1,6 +1,7 @@
 /**
  * QuestionDetailModal - Full detail view for a single question
- * Shows full question text, metrics, and AI feedback
+ * Shows full question text, metrics, AI feedback and, for behavioral
+ * answers, the STAR breakdown
  */
 
 import React from 'react';
@@ -17,6 +18,7 @@ import { BlurView } from 'expo-blur';
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import { QuestionResult } from '../../types';
+import { StarBreakdown } from './StarBreakdown';
 
 const { height: SCREEN_HEIGHT } = Dimensions.get('window');
 
@@ -161,6 +163,14 @@ export const QuestionDetailModal: React.FC<QuestionDetailModalProps> = ({
                             <Text style={styles.feedbackText}>{question.feedback}</Text>
                         </View>
 
+                        {/* STAR Breakdown (SoftSkill topics) */}
+                        {question.starAnalysis && (
+                            <View style={styles.feedbackSection}>
+                                <Text style={styles.sectionLabel}>STAR BREAKDOWN</Text>
+                                <StarBreakdown analysis={question.starAnalysis} />
+                            </View>
+                        )}
+
                         {/* User Answer Section (if available) */}
                         {question.userAnswer && (
                             <View style={styles.answerSection}>
@@ -28,7 +28,11 @@ import { FinalInterviewReport, QuestionResult } from '../../types';
 import { getFavoriteIds, toggleFavorite, FavoriteQuestion } from '../../services/favorites-storage';
 import { GeminiAgentService } from '../../services/gemini-agent';
 import { updateQuestionAdvice } from '../../services/history-storage';
+import { PROBE_CATALOG } from '../../services/follow-up-probes';
 import { ExpandableSection } from './ExpandableSection';
+import { StarBreakdown } from './StarBreakdown';
+import { DeliveryChart } from './DeliveryChart';
+import { fillersPerMinute, sessionDelivery } from '../../services/delivery-analytics';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
@@ -234,6 +238,114 @@ const DetailView: React.FC<DetailViewProps> = ({
                         </View>
                     </View>
 
+                    {/* CODE METRICS (Coding topics) */}
+                    {question.metrics?.correctness !== undefined && (
+                        <View style={styles.metricsBlock}>
+                            <Text style={styles.sectionTitle}>CODE METRICS</Text>
+                            <View style={styles.metricsRow}>
+                                {([
+                                    ['Correctness', question.metrics.correctness],
+                                    ['Complexity', question.metrics.complexity ?? 0],
+                                    ['Style', question.metrics.style ?? 0]
+                                ] as const).map(([label, value]) => (
+                                    <View key={label} style={[styles.metricPill, { backgroundColor: `${getScoreColor(value)}15` }]}>
+                                        <Text style={styles.metricLabel}>{label}</Text>
+                                        <Text style={[styles.metricValue, { color: getScoreColor(value) }]}>
+                                            {value}/10
+                                        </Text>
+                                    </View>
+                                ))}
+                            </View>
+                        </View>
+                    )}
+
+                    {/* DESIGN STAGES (SystemDesign topics) */}
+                    {question.designStages && question.designStages.length > 0 && (
+                        <View style={styles.metricsBlock}>
+                            <Text style={styles.sectionTitle}>DESIGN STAGES</Text>
+                            {question.designStages.map(stage => (
+                                <View key={stage.stage} style={styles.designStageRow}>
+                                    <View style={styles.designStageHeader}>
+                                        <Text style={styles.designStageLabel}>{stage.label}</Text>
+                                        <Text style={[styles.metricValue, { color: getScoreColor(stage.score) }]}>
+                                            {stage.score}/10
+                                        </Text>
+                                    </View>
+                                    <Text style={styles.designStageFeedback}>{stage.feedback}</Text>
+                                    {stage.missed.length > 0 && (
+                                        <Text style={styles.designStageMissed}>Missed: {stage.missed.join(', ')}</Text>
+                                    )}
+                                </View>
+                            ))}
+                        </View>
+                    )}
+
+                    {/* DRILL-DOWN (follow-up probes) */}
+                    {question.probes && question.probes.length > 0 && (
+                        <View style={styles.metricsBlock}>
+                            <Text style={styles.sectionTitle}>DRILL-DOWN · {question.probes.length} {question.probes.length === 1 ? 'PROBE' : 'PROBES'}</Text>
+                            {question.probes.map(probe => (
+                                <View key={probe.depth} style={styles.designStageRow}>
+                                    <View style={styles.designStageHeader}>
+                                        <Text style={styles.designStageLabel}>{probe.depth}. {PROBE_CATALOG[probe.kind].label}</Text>
+                                        {probe.score !== undefined && (
+                                            <Text style={[styles.metricValue, { color: getScoreColor(probe.score) }]}>
+                                                {probe.score.toFixed(1)}/10
+                                            </Text>
+                                        )}
+                                    </View>
+                                    <Text style={styles.probeQuestion}>Victoria: {probe.question}</Text>
+                                    <Text style={styles.designStageFeedback}>
+                                        {probe.answer !== undefined ? `You: ${probe.answer}` : 'Not answered - the topic ended here.'}
+                                    </Text>
+                                </View>
+                            ))}
+                        </View>
+                    )}
+
+                    {/* DELIVERY (voice answers) */}
+                    {question.delivery && (
+                        <View style={styles.metricsBlock}>
+                            <Text style={styles.sectionTitle}>DELIVERY</Text>
+                            <View style={styles.levelRow}>
+                                <Text style={styles.levelCategory}>Pace</Text>
+                                <Text style={styles.levelValue}>{question.delivery.wordsPerMinute} wpm</Text>
+                            </View>
+                            <View style={styles.levelRow}>
+                                <Text style={styles.levelCategory} numberOfLines={1}>
+                                    Fillers{question.delivery.fillerCount > 0
+                                        ? ` (${Object.entries(question.delivery.fillers)
+                                            .sort((a, b) => b[1] - a[1])
+                                            .slice(0, 3)
+                                            .map(([filler, count]) => `"${filler}" ×${count}`)
+                                            .join(', ')})`
+                                        : ''}
+                                </Text>
+                                <Text style={styles.levelValue}>{question.delivery.fillerCount}</Text>
+                            </View>
+                            <View style={styles.levelRow}>
+                                <Text style={styles.levelCategory}>Longest pause</Text>
+                                <Text style={styles.levelValue}>{question.delivery.longestPauseSec}s</Text>
+                            </View>
+                            <View style={styles.levelRow}>
+                                <Text style={styles.levelCategory}>Hesitation before answering</Text>
+                                <Text style={styles.levelValue}>{question.delivery.hesitationSec}s</Text>
+                            </View>
+                            <View style={styles.levelRow}>
+                                <Text style={styles.levelCategory}>Your share of talk time</Text>
+                                <Text style={styles.levelValue}>{Math.round(question.delivery.talkRatio * 100)}%</Text>
+                            </View>
+                        </View>
+                    )}
+
+                    {/* STAR BREAKDOWN (SoftSkill topics) */}
+                    {question.starAnalysis && (
+                        <View style={styles.metricsBlock}>
+                            <Text style={styles.sectionTitle}>STAR BREAKDOWN</Text>
+                            <StarBreakdown analysis={question.starAnalysis} />
+                        </View>
+                    )}
+
                     {/* AI Feedback */}
                     <View style={styles.feedbackBlock}>
                         <Text style={styles.sectionTitle}>AI FEEDBACK</Text>
@@ -275,6 +387,18 @@ const DetailView: React.FC<DetailViewProps> = ({
                             <Text style={styles.answerText}>{question.userAnswer}</Text>
                         </View>
                     )}
+
+                    {/* Submitted Code (Coding topics) */}
+                    {question.submittedCode && (
+                        <View style={styles.answerBlock}>
+                            <Text style={styles.sectionTitle}>
+                                SUBMITTED CODE{question.codeLanguage ? ` · ${question.codeLanguage.toUpperCase()}` : ''}
+                            </Text>
+                            <ScrollView horizontal style={styles.codeBlock} showsHorizontalScrollIndicator={false}>
+                                <Text style={styles.codeText}>{question.submittedCode}</Text>
+                            </ScrollView>
+                        </View>
+                    )}
                 </ScrollView>
             </View>
         </View>
@@ -421,6 +545,7 @@ export const ResultsModal: React.FC<ResultsModalProps> = ({
     const sessionDate = formatDate(report.timestamp || Date.now());
     const hasQuestions = report.questions && report.questions.length > 0;
     const briefSummary = report.overallSummary.split('.')[0] + '.';
+    const overallDelivery = sessionDelivery(report.questions || []);
 
     return (
         <Modal visible={visible} transparent animationType="fade">
@@ -567,6 +692,57 @@ export const ResultsModal: React.FC<ResultsModalProps> = ({
                                         </View>
                                     </View>
 
+                                    {/* Level by Category (adaptive difficulty) */}
+                                    {report.categoryLevels && report.categoryLevels.length > 0 && (
+                                        <View style={styles.summarySection}>
+                                            <Text style={styles.sectionTitle}>LEVEL BY CATEGORY</Text>
+                                            {report.categoryLevels.map(level => (
+                                                <View key={level.category} style={styles.levelRow}>
+                                                    <Text style={styles.levelCategory} numberOfLines={1}>{level.category}</Text>
+                                                    <Text style={styles.levelValue}>
+                                                        {level.label} · {level.level.toFixed(1)}/5
+                                                    </Text>
+                                                </View>
+                                            ))}
+                                        </View>
+                                    )}
+
+                                    {/* Delivery (voice answers) */}
+                                    {overallDelivery && (
+                                        <View style={styles.summarySection}>
+                                            <Text style={styles.sectionTitle}>DELIVERY</Text>
+                                            <View style={styles.levelRow}>
+                                                <Text style={styles.levelCategory}>Pace</Text>
+                                                <Text style={styles.levelValue}>{overallDelivery.wordsPerMinute} wpm</Text>
+                                            </View>
+                                            <View style={styles.levelRow}>
+                                                <Text style={styles.levelCategory}>Fillers</Text>
+                                                <Text style={styles.levelValue}>
+                                                    {overallDelivery.fillerCount} · {fillersPerMinute(overallDelivery)}/min
+                                                </Text>
+                                            </View>
+                                            <View style={styles.levelRow}>
+                                                <Text style={styles.levelCategory}>Longest pause</Text>
+                                                <Text style={styles.levelValue}>{overallDelivery.longestPauseSec}s</Text>
+                                            </View>
+                                            <View style={styles.levelRow}>
+                                                <Text style={styles.levelCategory}>Avg. hesitation</Text>
+                                                <Text style={styles.levelValue}>{overallDelivery.hesitationSec}s</Text>
+                                            </View>
+                                            <View style={styles.levelRow}>
+                                                <Text style={styles.levelCategory}>You vs Victoria</Text>
+                                                <Text style={styles.levelValue}>
+                                                    {Math.round(overallDelivery.talkRatio * 100)}% / {100 - Math.round(overallDelivery.talkRatio * 100)}%
+                                                </Text>
+                                            </View>
+                                            <DeliveryChart
+                                                points={report.questions
+                                                    .filter(q => q.delivery)
+                                                    .map(q => ({ label: q.topic, delivery: q.delivery! }))}
+                                            />
+                                        </View>
+                                    )}
+
                                     {/* AI Summary with ExpandableSection */}
                                     <View style={styles.summarySection}>
                                         <Text style={styles.sectionTitle}>AI SUMMARY</Text>
@@ -961,6 +1137,55 @@ const styles = StyleSheet.create({
         fontWeight: 'bold',
     },
 
+    // ===== DESIGN STAGES =====
+    designStageRow: {
+        paddingVertical: 10,
+        borderBottomWidth: StyleSheet.hairlineWidth,
+        borderBottomColor: 'rgba(0,0,0,0.1)',
+    },
+    designStageHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 4,
+    },
+    designStageLabel: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#333',
+    },
+    designStageFeedback: {
+        fontSize: 13,
+        color: '#555',
+        lineHeight: 19,
+    },
+    designStageMissed: {
+        marginTop: 4,
+        fontSize: 12,
+        color: '#999',
+    },
+
+    probeQuestion: {
+        fontSize: 13,
+        fontStyle: 'italic',
+        color: '#777',
+        lineHeight: 19,
+        marginBottom: 4,
+    },
+
+    // ===== SUBMITTED CODE =====
+    codeBlock: {
+        backgroundColor: '#111827',
+        borderRadius: 12,
+        padding: 12,
+    },
+    codeText: {
+        fontFamily: Platform.select({ ios: 'Menlo', android: 'monospace', default: 'monospace' }),
+        fontSize: 12,
+        lineHeight: 18,
+        color: '#F9FAFB',
+    },
+
     // ===== FEEDBACK =====
     feedbackBlock: {
         marginBottom: 24,
@@ -1138,6 +1363,23 @@ const styles = StyleSheet.create({
     expandableContainer: {
         marginTop: 8,
     },
+    levelRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingVertical: 6,
+    },
+    levelCategory: {
+        flex: 1,
+        fontSize: 14,
+        color: '#333',
+        marginRight: 12,
+    },
+    levelValue: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#6366F1',
+    },
 
     // ===== TOPICS VIEW STYLES =====
     topicsView: {
@@ -0,0 +1,159 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { StarAnalysis, StarSegment } from '../../types';
+
+interface StarBreakdownProps {
+    analysis: StarAnalysis;
+}
+
+const SEGMENTS: Array<{ id: StarSegment; label: string; color: string; highlight: string }> = [
+    { id: 'situation', label: 'Situation', color: '#3B82F6', highlight: 'rgba(59, 130, 246, 0.15)' },
+    { id: 'task', label: 'Task', color: '#8B5CF6', highlight: 'rgba(139, 92, 246, 0.15)' },
+    { id: 'action', label: 'Action', color: '#F59E0B', highlight: 'rgba(245, 158, 11, 0.18)' },
+    { id: 'result', label: 'Result', color: '#10B981', highlight: 'rgba(16, 185, 129, 0.15)' },
+];
+
+// Below this share of "I", the candidate's own contribution is hard to tell
+const LOW_I_SHARE = 0.4;
+
+// ============================================
+// STAR BREAKDOWN (SoftSkill answers)
+// ============================================
+//
+// The candidate's own sentences, highlighted by STAR segment, with the
+// missing segments flagged and the "I" vs "we" balance of the story.
+// ============================================
+
+export const StarBreakdown: React.FC<StarBreakdownProps> = ({ analysis }) => {
+    const { i, we, iShare } = analysis.pronouns;
+    const segmentOf = (id: StarSegment | 'other') => SEGMENTS.find(segment => segment.id === id);
+
+    return (
+        <View style={styles.container}>
+            {/* Legend: covered segments in color, missing ones flagged */}
+            <View style={styles.legendRow}>
+                {SEGMENTS.map(segment => {
+                    const missing = analysis.missing.includes(segment.id);
+                    return (
+                        <View
+                            key={segment.id}
+                            style={[
+                                styles.legendChip,
+                                { backgroundColor: missing ? 'rgba(239, 68, 68, 0.1)' : segment.highlight }
+                            ]}
+                        >
+                            <Ionicons
+                                name={missing ? 'close-circle' : 'checkmark-circle'}
+                                size={12}
+                                color={missing ? '#EF4444' : segment.color}
+                            />
+                            <Text style={[styles.legendText, { color: missing ? '#EF4444' : segment.color }]}>
+                                {segment.label}
+                            </Text>
+                        </View>
+                    );
+                })}
+            </View>
+
+            {/* The candidate's sentences, highlighted per segment */}
+            <Text style={styles.answerText}>
+                {analysis.sentences.map((sentence, index) => {
+                    const segment = segmentOf(sentence.segment);
+                    return (
+                        <Text
+                            key={index}
+                            style={segment ? { backgroundColor: segment.highlight, color: '#1F2937' } : styles.otherSentence}
+                        >
+                            {sentence.text}{index < analysis.sentences.length - 1 ? ' ' : ''}
+                        </Text>
+                    );
+                })}
+            </Text>
+
+            {/* "I" vs "we" */}
+            <View style={styles.pronounHeader}>
+                <Text style={styles.pronounLabel}>"I" vs "WE"</Text>
+                <Text style={styles.pronounCounts}>I ×{i} · we ×{we}</Text>
+            </View>
+            <View style={styles.pronounTrack}>
+                <View style={[styles.pronounFill, { flex: iShare }]} />
+                <View style={{ flex: 1 - iShare }} />
+            </View>
+            {iShare < LOW_I_SHARE && (
+                <Text style={styles.pronounHint}>
+                    Mostly "we" - say what you did yourself.
+                </Text>
+            )}
+
+            {analysis.feedback ? (
+                <Text style={styles.feedback}>{analysis.feedback}</Text>
+            ) : null}
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        gap: 10,
+    },
+    legendRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 6,
+    },
+    legendChip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: 8,
+        paddingVertical: 4,
+        borderRadius: 10,
+    },
+    legendText: {
+        fontSize: 11,
+        fontWeight: '700',
+    },
+    answerText: {
+        fontSize: 14,
+        lineHeight: 24,
+    },
+    otherSentence: {
+        color: '#9CA3AF',
+    },
+    pronounHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    },
+    pronounLabel: {
+        fontSize: 11,
+        fontWeight: '600',
+        color: '#666',
+        letterSpacing: 1,
+    },
+    pronounCounts: {
+        fontSize: 12,
+        color: '#6B7280',
+    },
+    pronounTrack: {
+        flexDirection: 'row',
+        height: 6,
+        borderRadius: 3,
+        backgroundColor: '#E5E7EB',
+        overflow: 'hidden',
+    },
+    pronounFill: {
+        backgroundColor: '#6366F1',
+    },
+    pronounHint: {
+        fontSize: 12,
+        color: '#F59E0B',
+    },
+    feedback: {
+        fontSize: 13,
+        color: '#374151',
+        lineHeight: 20,
+        fontStyle: 'italic',
+    },
+});
@@ -0,0 +1,19 @@
+import { InterviewTopic } from '../types';
+
+/**
+ * Follow-up Probe Configuration
+ *
+ * Maximum number of targeted follow-up probes Victoria asks per topic,
+ * by topic type. 0 disables drilling for that type (Victoria still
+ * rephrases or hints when she stays on a topic).
+ */
+export const PROBE_DEPTH_CONFIG: Record<InterviewTopic['type'], number> = {
+    Intro: 0,
+    Match: 2,
+    Gap: 2,
+    CoolSkill: 2,
+    SoftSkill: 1,
+    Coding: 1,
+    SystemDesign: 3,  // Whole round, shared across its stages
+    Outro: 0,
+};
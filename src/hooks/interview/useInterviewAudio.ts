@@ -2,16 +2,22 @@ import { useState, useRef, useEffect } from 'react';
 import { Alert, Platform, Animated } from 'react-native';
 import { useAudioRecorder, RecordingPresets, AudioModule, setAudioModeAsync, IOSOutputFormat } from 'expo-audio';
 import TTSService from '../../services/tts-service';
+import { InterviewLanguage } from '../../types';
+import { STTProvider, STTStream, STTWord } from '../../services/stt/STTProvider';
+import { createSTTProvider } from '../../services/stt/createSTTProvider';
+import { SpeechSample } from '../../services/delivery-analytics';
 
 // ============================================
 // TYPES
 // ============================================
 
 interface UseInterviewAudioOptions {
+  language?: InterviewLanguage; // STT language (default: English)
+  sttProvider?: STTProvider;    // Default: createSTTProvider() (env-selected)
   onTTSStart?: () => void;
   onTTSEnd?: () => void;
   onTranscriptUpdate?: (transcript: string, isFinal: boolean) => void;
-  onRecordingStop?: () => void; // Called when recording stops (for finalizeMessage)
+  onRecordingStop?: (speech: SpeechSample | null) => void; // Called when recording stops (for finalizeMessage); speech = word timings for delivery analytics
   onStatusChange?: (status: 'idle' | 'listening') => void; // For status updates
   onError?: (error: Error) => void;
 }
@@ -68,6 +74,8 @@ export const safeAudioModeSwitch = async (mode: 'recording' | 'playback'): Promi
 
 export const useInterviewAudio = (options: UseInterviewAudioOptions = {}): UseInterviewAudioReturn => {
   const {
+    language = 'en',
+    sttProvider,
     onTTSStart,
     onTTSEnd,
     onTranscriptUpdate,
@@ -83,93 +91,67 @@ export const useInterviewAudio = (options: UseInterviewAudioOptions = {}): UseIn
   const [error, setError] = useState<string | null>(null);
   const [permissionGranted, setPermissionGranted] = useState(false);
   const micScale = useRef(new Animated.Value(1)).current;
+  const [stt] = useState<STTProvider>(() => sttProvider || createSTTProvider()); // Created once
 
   // Refs
-  const ws = useRef<WebSocket | null>(null);
+  const sttStream = useRef<STTStream | null>(null);
   const recorder = useAudioRecorder(RecordingPresets.HIGH_QUALITY);
   const lastPosition = useRef(0);
   const streamInterval = useRef<NodeJS.Timeout | null>(null);
   const latestTranscriptRef = useRef('');
+  const speechWords = useRef<STTWord[]>([]);  // Final words of the current recording
+  const recordingStartedAt = useRef(0);
 
   // ============================================
-  // DEEPGRAM WEBSOCKET CONNECTION
+  // STT STREAM CONNECTION
   // ============================================
 
-  const connectToDeepgram = async (): Promise<void> => {
-    const API_KEY = process.env.EXPO_PUBLIC_DEEPGRAM_API_KEY || '';
-    const cleanKey = API_KEY.trim();
-
-    if (!cleanKey) {
-      const error = new Error('Deepgram API Key is missing');
-      setError(error.message);
-      onError?.(error);
-      Alert.alert('Configuration Error', error.message);
-      return;
-    }
-
-    const socketUrl = `wss://api.deepgram.com/v1/listen?model=nova-2&smart_format=true&filler_words=true&encoding=linear16&sample_rate=16000&container=wav&interim_results=true`;
+  /**
+   * Append a final transcript segment and notify the parent
+   */
+  const appendFinalTranscript = (text: string): void => {
+    setLiveTranscript(prev => {
+      const spacer = prev.length > 0 ? ' ' : '';
+      const newTranscript = prev + spacer + text.trim();
+      latestTranscriptRef.current = newTranscript;
+      onTranscriptUpdate?.(newTranscript, true);
+      return newTranscript;
+    });
+  };
 
+  const connectToSTT = async (): Promise<void> => {
     try {
-      const socket = new WebSocket(socketUrl, ['token', cleanKey]);
-      ws.current = socket;
-
-      socket.onopen = () => {
-        console.log('✅ WebSocket Connected');
-        setIsRecording(true);
-        onStatusChange?.('listening');
-        setError(null);
-      };
-
-      socket.onmessage = async (event) => {
-        try {
-          if (typeof event.data === 'string') {
-            const msg = JSON.parse(event.data);
-
-            if (msg.channel?.alternatives?.[0]?.transcript) {
-              const text = msg.channel.alternatives[0].transcript;
-
-              if (text.trim().length > 0) {
-                if (msg.is_final) {
-                  setLiveTranscript(prev => {
-                    const spacer = prev.length > 0 ? ' ' : '';
-                    const newTranscript = prev + spacer + text.trim();
-                    latestTranscriptRef.current = newTranscript;
-                    onTranscriptUpdate?.(newTranscript, true);
-                    return newTranscript;
-                  });
-                } else {
-                  // Interim result
-                  onTranscriptUpdate?.(text, false);
-                }
-              }
-            }
+      sttStream.current = await stt.openStream({ language }, {
+        onOpen: () => {
+          setIsRecording(true);
+          onStatusChange?.('listening');
+          setError(null);
+        },
+        onTranscript: (text, isFinal, words) => {
+          if (isFinal) {
+            appendFinalTranscript(text);
+            if (words) speechWords.current.push(...words);
+          } else {
+            // Interim result
+            onTranscriptUpdate?.(text, false);
           }
-        } catch (e) {
-          console.error('WS Message Error:', e);
-          const error = e instanceof Error ? e : new Error('WebSocket message parsing failed');
+        },
+        onError: (error) => {
+          console.error('STT Stream Error:', error);
           setError(error.message);
           onError?.(error);
+          stopRecording();
+        },
+        onClose: () => {
+          setIsRecording(false);
         }
-      };
-
-      socket.onerror = (e: any) => {
-        console.error('WebSocket Error:', e);
-        const error = new Error('WebSocket connection error');
-        setError(error.message);
-        onError?.(error);
-        stopRecording();
-      };
-
-      socket.onclose = () => {
-        console.log('🔌 WebSocket Closed');
-        setIsRecording(false);
-      };
+      });
     } catch (e) {
-      const error = e instanceof Error ? e : new Error('Failed to connect to Deepgram');
-      console.error('Deepgram Connection Error:', error);
+      const error = e instanceof Error ? e : new Error(`Failed to connect to ${stt.name} STT`);
+      console.error('STT Connection Error:', error);
       setError(error.message);
       onError?.(error);
-      throw error;
+      Alert.alert('Configuration Error', error.message);
     }
   };
 
@@ -207,6 +189,7 @@ export const useInterviewAudio = (options: UseInterviewAudioOptions = {}): UseIn
       // 5. Reset state
       setLiveTranscript('');
       latestTranscriptRef.current = '';
+      speechWords.current = [];
       lastPosition.current = 0;
       setError(null);
 
@@ -229,12 +212,12 @@ export const useInterviewAudio = (options: UseInterviewAudioOptions = {}): UseIn
       await new Promise(resolve => setTimeout(resolve, 150));
       console.log('✅ Audio mode applied');
 
-      // 9. Connect to Deepgram WebSocket
-      if (!ws.current || ws.current.readyState !== WebSocket.OPEN) {
-        await connectToDeepgram();
+      // 9. Open the STT stream (batch providers transcribe on stop instead)
+      if (stt.mode === 'streaming' && !sttStream.current?.isOpen) {
+        await connectToSTT();
       }
 
-      // 10. Prepare recorder with valid 16kHz config for Deepgram
+      // 10. Prepare recorder with valid 16kHz config for streaming STT
       console.log('🎙️ Preparing recorder...');
 
       await recorder.prepareToRecordAsync({
@@ -263,6 +246,7 @@ export const useInterviewAudio = (options: UseInterviewAudioOptions = {}): UseIn
 
       // 11. Start recording
       recorder.record();
+      recordingStartedAt.current = Date.now();
       console.log('🎙️ Recorder Started. URI:', recorder.uri);
       setIsRecording(true);
 
@@ -270,6 +254,10 @@ export const useInterviewAudio = (options: UseInterviewAudioOptions = {}): UseIn
       if (streamInterval.current) {
         clearInterval(streamInterval.current);
       }
+      if (stt.mode === 'batch') {
+        onStatusChange?.('listening');
+        return;
+      }
 
       streamInterval.current = setInterval(async () => {
         // Safety checks
@@ -280,12 +268,12 @@ export const useInterviewAudio = (options: UseInterviewAudioOptions = {}): UseIn
           const response = await fetch(recorder.uri);
           const blob = await response.blob();
 
-          // Send new data to Deepgram
+          // Send new data to the STT stream
           if (blob.size > lastPosition.current) {
             const chunk = blob.slice(lastPosition.current);
 
-            if (ws.current && ws.current.readyState === WebSocket.OPEN) {
-              ws.current.send(chunk);
+            if (sttStream.current?.isOpen) {
+              sttStream.current.send(chunk);
               setIsSendingData(true);
             }
 
@@ -317,7 +305,7 @@ export const useInterviewAudio = (options: UseInterviewAudioOptions = {}): UseIn
 
   const stopRecording = async (): Promise<void> => {
     // ✅ FIX: Guard against double calls (prevent infinite loop)
-    if (!isRecording && !recorder.isRecording && !ws.current) {
+    if (!isRecording && !recorder.isRecording && !sttStream.current) {
       console.log('⚠️ [STOP] Already stopped, ignoring duplicate call');
       return;
     }
@@ -338,14 +326,26 @@ export const useInterviewAudio = (options: UseInterviewAudioOptions = {}): UseIn
         console.log('✅ Recorder stopped');
       }
 
-      // 3. Close WebSocket
-      if (ws.current) {
-        if (ws.current.readyState === WebSocket.OPEN) {
-          ws.current.send(JSON.stringify({ type: 'CloseStream' }));
+      // 3. Close the STT stream, or transcribe the whole recording (batch)
+      if (sttStream.current) {
+        sttStream.current.finish();
+        sttStream.current = null;
+        console.log('✅ STT stream closed');
+      } else if (stt.mode === 'batch' && recorder.uri) {
+        try {
+          const { text, words } = await stt.transcribe(recorder.uri, { language });
+          speechWords.current.push(...words);
+          if (text.trim().length > 0) {
+            latestTranscriptRef.current = (latestTranscriptRef.current + ' ' + text.trim()).trim();
+            onTranscriptUpdate?.(latestTranscriptRef.current, true);
+          }
+          console.log(`✅ ${stt.name} batch transcription done`);
+        } catch (e) {
+          const err = e instanceof Error ? e : new Error('Batch transcription failed');
+          console.error('❌ Batch transcription failed:', err);
+          setError(err.message);
+          onError?.(err);
         }
-        ws.current.close();
-        ws.current = null;
-        console.log('✅ WebSocket closed');
       }
 
       // 4. Reset UI state
@@ -357,17 +357,21 @@ export const useInterviewAudio = (options: UseInterviewAudioOptions = {}): UseIn
       await new Promise(resolve => setTimeout(resolve, 200));
       console.log('✅ Audio device fully released');
 
-      // 6. Capture current transcript before clearing
+      // 6. Capture current transcript and word timings before clearing
       const transcriptToProcess = latestTranscriptRef.current;
-      console.log(`🎙️ [STOP] Transcript captured: "${transcriptToProcess.substring(0, 50)}..."`);
+      const speech: SpeechSample | null = speechWords.current.length > 0
+        ? { words: speechWords.current, startedAt: recordingStartedAt.current }
+        : null;
+      console.log(`🎙️ [STOP] Transcript captured: "${transcriptToProcess.substring(0, 50)}..." (${speechWords.current.length} timed words)`);
 
       // 7. Clear internal transcript state BEFORE notifying parent
       // This prevents the same transcript from being processed again
       setLiveTranscript('');
       latestTranscriptRef.current = '';
+      speechWords.current = [];
 
       // 8. Notify parent that recording stopped (for finalizeMessage)
-      onRecordingStop?.();
+      onRecordingStop?.(speech);
 
     } catch (error) {
       const err = error instanceof Error ? error : new Error('Failed to stop recording');
@@ -486,11 +490,11 @@ export const useInterviewAudio = (options: UseInterviewAudioOptions = {}): UseIn
         console.log('✅ Stream interval cleared on unmount');
       }
 
-      // 4. Close WebSocket
-      if (ws.current) {
-        ws.current.close();
-        ws.current = null;
-        console.log('✅ WebSocket closed on unmount');
+      // 4. Close STT stream
+      if (sttStream.current) {
+        sttStream.current.finish();
+        sttStream.current = null;
+        console.log('✅ STT stream closed on unmount');
       }
 
       console.log('✅ useInterviewAudio cleanup complete');
@@ -9,14 +9,51 @@ import {
   InterviewMode,
   ChatMessage,
   VibeConfig,
-  ResumeData
+  ResumeData,
+  ScoringPolicy,
+  ScoringPolicyId,
+  InterviewLanguage,
+  AnswerInputMode,
+  DesignStage,
+  AnalysisResponse,
+  AnswerIssue,
+  DifficultyLevel,
+  TTSProvider
 } from '../../types';
 import { GeminiAgentService } from '../../services/gemini-agent';
 import { generateInterviewPlan } from '../../interview-planner';
 import TTSService from '../../services/tts-service';
 import { safeAudioModeSwitch } from './useInterviewAudio';
 import { VibeCalculator } from '../../services/vibe-calculator';
+import { InterviewEngine, InterviewEngineState, TerminationReason, TopicOutcome, TransitionMode } from '../../services/interview-engine';
+import { SessionRecorder, SessionLog, eventsOfType } from '../../services/session-recorder';
+import { saveSessionLog } from '../../services/session-log-storage';
+import { LLMProvider } from '../../services/llm/LLMProvider';
+import { createLLMProvider } from '../../services/llm/createLLMProvider';
+import { DeferredRecording, RecordingProvider } from '../../services/llm/RecordingProvider';
+import { ReplayProvider } from '../../services/llm/ReplayProvider';
 import { getForceFinishMock } from '../../services/mock-history';
+import { getScoringPolicy, loadScoringPolicyId } from '../../services/scoring-policy';
+import { getInterviewLanguage, loadInterviewLanguage } from '../../services/interview-language';
+import { getTopicStage, stageCountOf } from '../../services/system-design';
+import { acceptProbe } from '../../services/follow-up-probes';
+import { DEFAULT_DIFFICULTY, estimateCategoryLevels } from '../../services/adaptive-difficulty';
+import { DEFAULT_INTERVIEWER_PROFILE, getInterviewerProfile, loadInterviewerProfileId } from '../../services/interviewer-profiles';
+import { ReplySpeech, SpeechSample, measureAnswer } from '../../services/delivery-analytics';
+import { StreamedReply } from '../../services/streaming-reply';
+import { BankQuestion, getQuestionBank } from '../../services/question-bank';
+import { TopicRecord, createTopicRecord, mergeTopicRecords } from '../../services/topic-results';
+import { PlayerErrorEvent } from '../../services/audio/StreamingTTSPlayer';
+import { FIRST_CHUNK_BUDGET_MS, MAX_UNDERRUNS_PER_REPLY, TTSEngine, TTSFailover, TTSFailoverReason, describeFailover } from '../../services/tts-failover';
+import {
+  MAX_SPECULATIONS_PER_TURN,
+  MIN_SPECULATION_WORDS,
+  SPECULATION_DEBOUNCE_MS,
+  SpeculationOutcome,
+  TurnLatency,
+  countWords,
+  isTrivialRevision
+} from '../../services/speculative-response';
 
 // ============================================
 // TYPES
@@ -31,6 +68,19 @@ interface UseInterviewLogicConfig {
   onInterviewComplete?: (results: FinalInterviewReport) => void;
 }
 
+/**
+ * Per-interview settings, fixed once the interview starts
+ */
+interface InterviewSettings {
+  scoringPolicyId?: ScoringPolicyId;  // Default: saved setting
+  language?: InterviewLanguage;       // Default: saved setting
+  inputMode?: AnswerInputMode;        // Default: 'voice'
+  speakReplies?: boolean;             // Play Victoria's replies through TTS (default: true)
+  interviewerProfileId?: string;      // Default: saved setting
+  presetPlan?: InterviewPlan;         // Skip the planner and run this plan (review drills, edited fit reports)
+  questionBank?: BankQuestion[];      // Default: saved question bank (replays pass the recorded one)
+}
+
 interface UseInterviewLogicReturn {
   // State
   messages: { id: string; text: string; sender: 'user' | 'ai' }[];
@@ -38,6 +88,7 @@ interface UseInterviewLogicReturn {
   engagement: number;                // NEW
   currentVibe: VibeConfig | null;    // NEW
   currentTopic: string;
+  currentStage: DesignStage | null;  // Staged topics (SystemDesign) only
   isProcessing: boolean;
   isFinished: boolean;
 
@@ -52,19 +103,88 @@ interface UseInterviewLogicReturn {
   isLobbyPhase: boolean;
   isPlanReady: boolean;
   finalReport: FinalInterviewReport | null;
+  scoringPolicy: ScoringPolicy;
+  interviewLanguage: InterviewLanguage;
+  inputMode: AnswerInputMode;
 
   // Functions
-  initializeInterview: (resume: string | ResumeData, jobDescription: string, mode: InterviewMode) => Promise<void>;
-  processUserInput: (text: string) => Promise<void>;
+  initializeInterview: (
+    resume: string | ResumeData,
+    jobDescription: string,
+    mode: InterviewMode,
+    settings?: InterviewSettings
+  ) => Promise<void>;
+  processUserInput: (text: string, code?: string, speechSample?: SpeechSample | null) => Promise<void>;  // code: editor contents (Coding topics only); speechSample: word timings of a voice answer
+  speculateAnswer: (transcript: string) => void;  // Interim transcript while the candidate is still speaking
   forceFinish: () => Promise<void>;
   restart: () => void;
   simulateAnswer: (intentType: string | number) => Promise<string | null>;  // Updated: now accepts number for score
   setEngagement: (value: number) => void;  // NEW: For debug overlay slider
 
+  // Session recording & replay
+  isReplaying: boolean;
+  startReplay: (log: SessionLog) => Promise<void>;
+  getSessionLog: () => SessionLog | null;
+
+  // TTS provider failovers this interview (DebugOverlay)
+  ttsFailovers: TTSFailover[];
+
+  // Time to first audio per turn, with and without speculation (DebugOverlay)
+  turnLatencies: TurnLatency[];
+
   // Computed
   progress: number;
 }
 
+/**
+ * How one streaming attempt at a reply ended
+ */
+type PlaybackOutcome =
+  | { ok: true; speech: ReplySpeech }
+  | { ok: false; provider: TTSEngine; reason: TTSFailoverReason; detail: string; speech: ReplySpeech | null };  // speech: reply was (partly) heard
+
+/**
+ * Evaluation + reply from evaluateAndRespond
+ */
+type UnifiedReply = Awaited<ReturnType<GeminiAgentService['evaluateAndRespond']>>;
+
+/**
+ * What a streaming attempt speaks: a known reply, or one still being
+ * generated (sentences as they complete, full text once it's done)
+ */
+type ReplySource = string | { sentences: AsyncIterable<string>; text: Promise<string> };
+
+/**
+ * Streamed reply already playing while the turn is being processed;
+ * playSynchronizedResponse() claims its outcome as the first attempt
+ */
+interface StreamedPlayback {
+  outcome: Promise<PlaybackOutcome>;
+  claimed: boolean;
+}
+
+/**
+ * Victoria's reply generated from an interim transcript. Its LLM calls
+ * reach the session log only if the turn reuses it
+ */
+interface Speculation {
+  text: string;
+  context: string;                        // Interview state it was generated in (see speculationContext)
+  reply: Promise<UnifiedReply | null>;    // null if the call failed
+  recording: DeferredRecording;
+}
+
+/**
+ * Active replay: the recorded log, its user inputs (fed back in order)
+ * and the LLM stub serving its recorded responses
+ */
+interface ReplayState {
+  log: SessionLog;
+  inputs: { text: string; code?: string }[];
+  provider: ReplayProvider;
+  mismatches: number;
+}
+
 const INITIAL_PLAN: InterviewPlan = {
   meta: { mode: 'short', total_estimated_time: '5m' },
   queue: [{
@@ -96,17 +216,43 @@ export const useInterviewLogic = (config: UseInterviewLogicConfig = {}): UseInte
   const [resumeText, setResumeText] = useState('');
   const [jobDescription, setJobDescription] = useState('');
   const [currentTopicIndex, setCurrentTopicIndex] = useState(0);
+  const [topicStage, setTopicStage] = useState(0);  // Staged topics (SystemDesign)
   const [isProcessing, setIsProcessing] = useState(false);
   const [isLobbyPhase, setIsLobbyPhase] = useState(true);
   const [isPlanReady, setIsPlanReady] = useState(false);
   const [finalReport, setFinalReport] = useState<FinalInterviewReport | null>(null);
-  const [previousTopicResult, setPreviousTopicResult] = useState<string | null>(null);
+  const [previousTopicResult, setPreviousTopicResult] = useState<TopicOutcome | null>(null);
+  const [difficulty, setDifficulty] = useState<DifficultyLevel>(DEFAULT_DIFFICULTY);  // Adaptive difficulty
+  const [rollingScore, setRollingScore] = useState<number | null>(null);
+  const [scoringPolicy, setScoringPolicy] = useState<ScoringPolicy>(getScoringPolicy());
+  const [interviewLanguage, setInterviewLanguage] = useState<InterviewLanguage>('en');
+  const [inputMode, setInputMode] = useState<AnswerInputMode>('voice');
 
   // Refs
   const agentRef = useRef<GeminiAgentService | null>(null);
   const historyBuffer = useRef<ChatMessage[]>([]);
   const bulkEvalPromise = useRef<Promise<QuestionResult[]> | null>(null);
+  const topicRecords = useRef<Map<string, TopicRecord>>(new Map());  // By topic id
+  const stageHistoryStart = useRef(0);  // historyBuffer index where the current stage began
+  const lastReplySpeech = useRef<ReplySpeech | null>(null);  // Victoria's last spoken reply (null if not spoken)
   const latestTranscriptRef = useRef('');
+  const speakRepliesRef = useRef(true);
+
+  // Session recording & replay
+  const [initialRecorder] = useState(() => new SessionRecorder());
+  const recorderRef = useRef(initialRecorder);
+  const replayRef = useRef<ReplayState | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [replayCursor, setReplayCursor] = useState(0);
+  const [ttsFailovers, setTtsFailovers] = useState<TTSFailover[]>([]);
+
+  // Speculative replies (live sessions only: replays run on recorded calls)
+  const recordingLLMRef = useRef<RecordingProvider | null>(null);
+  const speculationRef = useRef<Speculation | null>(null);
+  const speculationTimer = useRef<NodeJS.Timeout | null>(null);
+  const speculationCount = useRef(0);  // Speculations for the current answer
+  const startSpeculationRef = useRef<(transcript: string) => void>(() => {});
+  const [turnLatencies, setTurnLatencies] = useState<TurnLatency[]>([]);
 
   // ============================================
   // COMPUTED VALUES
@@ -116,6 +262,10 @@ export const useInterviewLogic = (config: UseInterviewLogicConfig = {}): UseInte
     ? plan.queue[Math.min(currentTopicIndex, plan.queue.length - 1)].topic
     : "Introduction";
 
+  const currentStage = plan && !isLobbyPhase
+    ? getTopicStage(plan.queue[Math.min(currentTopicIndex, plan.queue.length - 1)], topicStage)
+    : null;
+
   const progress = plan
     ? Math.min((currentTopicIndex / plan.queue.length) * 100, 100)
     : 0;
@@ -203,6 +353,201 @@ export const useInterviewLogic = (config: UseInterviewLogicConfig = {}): UseInte
     return rawExchange;
   }, []);
 
+  /**
+   * Show Victoria's reply in the chat (once per reply, when its audio starts)
+   */
+  const showReply = (text: string): void => {
+    const aiMessage = { id: Date.now().toString() + '_ai', text: text, sender: 'ai' as const };
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+    setMessages(prev => [...prev, aiMessage]);
+  };
+
+  /**
+   * Speak one reply with the active streaming provider.
+   * Resolves with how it ended instead of throwing, so the caller can fail over:
+   * - connection error (player 'error' / speak() rejection)
+   * - no 'playing' within the provider's first-chunk budget
+   * - too many buffer underruns (reply still finishes, next one switches)
+   * A reply that is still being generated is spoken sentence by sentence;
+   * its first-chunk budget starts with the first sentence, not the LLM call
+   */
+  const playStreamingAttempt = async (
+    source: ReplySource,
+    options: Parameters<typeof TTSService.getStreamingPlayerOptions>[0]
+  ): Promise<PlaybackOutcome> => {
+    const player = await TTSService.getStreamingPlayer();
+    const { provider, options: playerOptions } = TTSService.getStreamingPlayerOptions(options);
+    const text = typeof source === 'string' ? Promise.resolve(source) : source.text;
+
+    return new Promise<PlaybackOutcome>((resolve) => {
+      let speech: ReplySpeech | null = null;
+      let underruns = 0;
+      let settled = false;
+
+      const finish = (outcome: PlaybackOutcome) => {
+        if (settled) return;
+        settled = true;
+        if (outcome.speech) outcome.speech.endedAt = Date.now();
+        clearTimeout(firstChunkTimeout);
+        clearTimeout(timeout);
+        player.off('playing', playingListener);
+        player.off('done', doneListener);
+        player.off('error', errorListener);
+        player.off('underrun', underrunListener);
+        resolve(outcome);
+      };
+
+      const fail = (reason: TTSFailoverReason, detail: string) => {
+        if (settled) return;
+        finish({ ok: false, provider, reason, detail, speech });
+        if (!speech) player.stop(); // Abandon the stream (listeners already removed)
+      };
+
+      let firstChunkTimeout: ReturnType<typeof setTimeout> | undefined;
+      const startFirstChunkBudget = () => {
+        firstChunkTimeout = setTimeout(() => {
+          console.error(`⏰ [Sync] ${provider} produced no audio in ${FIRST_CHUNK_BUDGET_MS[provider]}ms`);
+          fail('first_chunk_timeout', `No audio after ${FIRST_CHUNK_BUDGET_MS[provider]}ms`);
+        }, FIRST_CHUNK_BUDGET_MS[provider]);
+      };
+
+      const timeout = setTimeout(() => {
+        console.error('⏰ [Sync] Playback timeout (60s)');
+        const wasPlaying = !!speech;
+        fail('connection_error', 'Playback timeout (60s)');
+        if (wasPlaying) player.stop();
+      }, 60000);
+
+      // Listen for 'playing' event → start typewriter
+      const playingListener = () => {
+        if (speech) return; // resume() emits 'playing' again
+        console.log('🎵 [Sync] Audio playing - starting typewriter');
+        speech = { startedAt: Date.now(), endedAt: Date.now() };
+        clearTimeout(firstChunkTimeout);
+        text.then(showReply);
+      };
+
+      // Listen for 'done' event → release microphone
+      const doneListener = () => {
+        console.log('✅ [Sync] Audio done - releasing microphone');
+        if (!speech) {
+          fail('connection_error', 'Finished without audio');
+        } else if (underruns >= MAX_UNDERRUNS_PER_REPLY) {
+          fail('underruns', `${underruns} buffer underruns`);
+        } else {
+          finish({ ok: true, speech });
+        }
+      };
+
+      // Listen for 'error' event → fail over
+      const errorListener = (error: PlayerErrorEvent) => {
+        console.error('❌ [Sync] Audio error:', error);
+        fail('connection_error', error.error);
+      };
+
+      const underrunListener = () => {
+        underruns++;
+      };
+
+      // Attach listeners
+      player.on('playing', playingListener);
+      player.on('done', doneListener);
+      player.on('error', errorListener);
+      player.on('underrun', underrunListener);
+
+      // Start playback (this triggers the event chain)
+      console.log(`💥 Sync: Starting streaming playback (${provider}${typeof source === 'string' ? '' : ', streamed text'})...`);
+      text.then(spoken => recorderRef.current.record({ type: 'tts', text: spoken, provider, options: playerOptions }));
+
+      let playback: Promise<void>;
+      if (typeof source === 'string') {
+        startFirstChunkBudget();
+        playback = player.speak(source, playerOptions);
+      } else {
+        const sentences = source.sentences;
+        playback = player.speakStream((async function* () {
+          for await (const sentence of sentences) {
+            if (!firstChunkTimeout) startFirstChunkBudget();
+            yield sentence;
+          }
+        })(), playerOptions);
+      }
+
+      playback.catch((error: unknown) => {
+        console.error('❌ [Sync] Speak error:', error);
+        fail('connection_error', error instanceof Error ? error.message : String(error));
+      });
+    });
+  };
+
+  /**
+   * Speak one reply with the device's own TTS (last link of the failover
+   * chain). There are no word timings: the reply appears when speech starts
+   */
+  const playDeviceAttempt = (
+    text: string,
+    options: Parameters<typeof TTSService.getStreamingPlayerOptions>[0]
+  ): Promise<PlaybackOutcome> => {
+    let speech: ReplySpeech | null = null;
+    console.log('💥 Sync: Starting device speech...');
+
+    const speaking = TTSService.speakOnDevice(text, { speed: options?.speed }, () => {
+      speech = { startedAt: Date.now(), endedAt: Date.now() };
+      showReply(text);
+    });
+
+    return new Promise<PlaybackOutcome>((resolve) => {
+      const startTimeout = setTimeout(() => {
+        if (speech) return;
+        console.error(`⏰ [Sync] Device speech didn't start in ${FIRST_CHUNK_BUDGET_MS.device}ms`);
+        TTSService.stop();
+        resolve({ ok: false, provider: 'device', reason: 'device_error', detail: `No speech after ${FIRST_CHUNK_BUDGET_MS.device}ms`, speech });
+      }, FIRST_CHUNK_BUDGET_MS.device);
+
+      speaking
+        .then(() => {
+          clearTimeout(startTimeout);
+          const spoken: ReplySpeech | null = speech;
+          if (spoken) {
+            spoken.endedAt = Date.now();
+            resolve({ ok: true, speech: spoken });
+          } else {
+            resolve({ ok: false, provider: 'device', reason: 'device_error', detail: 'Finished without speech', speech: null });
+          }
+        })
+        .catch((error: unknown) => {
+          clearTimeout(startTimeout);
+          console.error('❌ [Sync] Device speech error:', error);
+          resolve({ ok: false, provider: 'device', reason: 'device_error', detail: error instanceof Error ? error.message : String(error), speech });
+        });
+    });
+  };
+
+  /**
+   * Start speaking a reply while it is still being generated (see
+   * GeminiAgentService.streamEvaluateAndRespond). The microphone is released
+   * by the playSynchronizedResponse() that claims it
+   */
+  const startStreamedReply = (
+    sentences: AsyncIterable<string>,
+    reply: Promise<UnifiedReply>,
+    options: Parameters<typeof TTSService.getStreamingPlayerOptions>[0]
+  ): StreamedPlayback => {
+    // Notify audio hook to stop recording (prevent echo)
+    onAIStart?.();
+
+    const outcome = (async () => {
+      // Force speaker output before TTS playback
+      await safeAudioModeSwitch('playback');
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      return playStreamingAttempt({ sentences, text: reply.then(r => r.voiceResponse) }, options);
+    })();
+    outcome.catch(() => {}); // Rethrown where it's claimed
+
+    return { outcome, claimed: false };
+  };
+
   const playSynchronizedResponse = async (
     text: string,
     options?: {
@@ -210,7 +555,8 @@ export const useInterviewLogic = (config: UseInterviewLogicConfig = {}): UseInte
       speed?: number;
       emotionLevel?: string[];
       vibe?: VibeConfig;  // 🎭 Add vibe for OpenAI emotion support
-    }
+    },
+    streamed?: StreamedPlayback | null  // This reply, already playing (see startStreamedReply)
   ): Promise<void> => {
     // ⏱️ TTS TIMING: Start timing
     const ttsStart = Date.now();
@@ -219,127 +565,60 @@ export const useInterviewLogic = (config: UseInterviewLogicConfig = {}): UseInte
 
     setIsProcessing(true);
 
-    // Notify audio hook to stop recording (prevent echo)
-    onAIStart?.();
+    // Replay (TTS stubbed out) or muted text mode: show the text and move on
+    if (replayRef.current || !speakRepliesRef.current) {
+      lastReplySpeech.current = null;
+      historyBuffer.current.push({ role: 'assistant', content: text });
+      setMessages(prev => [...prev, { id: Date.now().toString() + '_ai', text, sender: 'ai' }]);
+      setIsProcessing(false);
+      return;
+    }
+
+    // Notify audio hook to stop recording (prevent echo) - a streamed reply already did
+    if (streamed) streamed.claimed = true;
+    else onAIStart?.();
 
     try {
       console.log("🔄 Sync: Setting up event-driven playback...");
 
-      // Force speaker mode before TTS playback
-      console.log("🔊 Forcing speaker output for TTS...");
-      await safeAudioModeSwitch('playback');
-
-      // Small delay to ensure audio mode is applied
-      await new Promise(resolve => setTimeout(resolve, 100));
+      if (!streamed) {
+        // Force speaker output before TTS playback
+        await safeAudioModeSwitch('playback');
 
-      // Get the appropriate streaming player
-      const player = await TTSService.getStreamingPlayer();
+        // Small delay to ensure audio mode is applied
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
 
       // Append to History Buffer
       historyBuffer.current.push({ role: 'assistant', content: text });
 
-      // Set up event listeners BEFORE starting playback
-      return new Promise<void>((resolve, reject) => {
-        const timeout = setTimeout(() => {
-          console.error('⏰ [Sync] Playback timeout (60s)');
-          reject(new Error('Playback timeout (60s)'));
-        }, 60000);
-
-        // Listen for 'playing' event → start typewriter
-        const playingListener = () => {
-          console.log('🎵 [Sync] Audio playing - starting typewriter');
-
-          // NOW add message to trigger typewriter
-          const aiMessage = { id: Date.now().toString() + '_ai', text: text, sender: 'ai' as const };
-          LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
-          setMessages(prev => [...prev, aiMessage]);
-        };
-
-        // Listen for 'done' event → release microphone
-        const doneListener = () => {
-          clearTimeout(timeout);
-          console.log('✅ [Sync] Audio done - releasing microphone');
-
-          // Cleanup listeners
-          player.off('playing', playingListener);
-          player.off('done', doneListener);
-          player.off('error', errorListener);
-
-          resolve();
-        };
-
-        // Listen for 'error' event → handle gracefully
-        const errorListener = (error: any) => {
-          clearTimeout(timeout);
-          console.error('❌ [Sync] Audio error:', error);
-
-          // Cleanup listeners
-          player.off('playing', playingListener);
-          player.off('done', doneListener);
-          player.off('error', errorListener);
-
-          reject(error);
-        };
-
-        // Attach listeners
-        player.on('playing', playingListener);
-        player.on('done', doneListener);
-        player.on('error', errorListener);
-
-        // Start playback (this triggers the event chain)
-        console.log("💥 Sync: Starting streaming playback...");
-
-        // Build player options
-        const playerOptions: any = {};
-
-        // Map emotions for Cartesia
-        if (options?.emotion || options?.emotionLevel) {
-          playerOptions.emotion = options.emotionLevel || (options.emotion ? [options.emotion] : undefined);
-        }
-
-        // Map speed for all providers
-        if (options?.speed) {
-          if (TTSService.getTtsProvider() === 'cartesia') {
-            // Map speed number to Cartesia speed string
-            if (options.speed <= 0.75) playerOptions.speed = 'slowest';
-            else if (options.speed <= 0.9) playerOptions.speed = 'slow';
-            else if (options.speed >= 1.25) playerOptions.speed = 'fastest';
-            else if (options.speed >= 1.1) playerOptions.speed = 'fast';
-            else playerOptions.speed = 'normal';
-          } else {
-            playerOptions.speed = options.speed;
-          }
-        }
-
-        // Add vibe for OpenAI emotion support
-        if (options?.vibe && TTSService.getTtsProvider() === 'openai') {
-          const { VibeCalculator } = require('../../services/vibe-calculator');
-          const openaiConfig = VibeCalculator.getOpenAIConfig(options.vibe.label);
-          playerOptions.instructions = openaiConfig.instructions;
-          playerOptions.speed = playerOptions.speed ?? openaiConfig.speed;
-        }
-
-        // Add voiceId
-        if (TTSService.getTtsProvider() === 'cartesia') {
-          playerOptions.voiceId = process.env.EXPO_PUBLIC_CARTESIA_VOICE_ID;
-        } else if (TTSService.getTtsProvider() === 'openai') {
-          playerOptions.voiceId = TTSService.getOpenaiVoice();
-        } else if (TTSService.getTtsProvider() === 'deepgram') {
-          playerOptions.voiceId = TTSService.getDeepgramVoice();
-        }
-
-        player.speak(text, playerOptions).catch((error: any) => {
-          clearTimeout(timeout);
-          console.error('❌ [Sync] Speak error:', error);
-
-          // Cleanup listeners
-          player.off('playing', playingListener);
-          player.off('done', doneListener);
-          player.off('error', errorListener);
+      let speech: ReplySpeech | null = null;
+
+      // Failover chain: retry the reply with the next provider until one plays it
+      // (a streamed reply's playback is the first attempt, device speech the last)
+      let attempt = streamed?.outcome ?? null;
+      while (attempt || !TTSService.isTextOnly()) {
+        const outcome = await (attempt ?? (TTSService.usesDeviceSpeech()
+          ? playDeviceAttempt(text, options)
+          : playStreamingAttempt(text, options)));
+        attempt = null;
+        speech = outcome.speech;
+        if (outcome.ok) break;
+
+        const from = outcome.provider;
+        const to = TTSService.failover(from);
+        const failover: TTSFailover = { from, to, reason: outcome.reason, detail: outcome.detail, at: Date.now() };
+        console.warn(`⚠️ [Sync] TTS failover: ${describeFailover(failover)} - ${outcome.detail}`);
+        recorderRef.current.record({ type: 'tts_failover', from, to, reason: outcome.reason, detail: outcome.detail });
+        setTtsFailovers(prev => [...prev, failover]);
+
+        // Already heard (underruns, mid-reply error): the next reply uses the new provider
+        if (outcome.speech) break;
+      }
 
-          reject(error);
-        });
-      });
+      // Device speech failed too: the reply appears without audio
+      lastReplySpeech.current = speech;
+      if (!speech) showReply(text);
 
     } catch (e) {
       console.error("❌ Sync Error:", e);
@@ -360,10 +639,437 @@ export const useInterviewLogic = (config: UseInterviewLogicConfig = {}): UseInte
     }
   };
 
+  // ============================================
+  // ENGINE ADAPTER
+  // ============================================
+
+  /**
+   * Snapshot of React state in InterviewEngine form
+   */
+  const getEngineState = (): InterviewEngineState => ({
+    isLobbyPhase,
+    isFinished,
+    topicIndex: currentTopicIndex,
+    topicStage,
+    topicSuccess,
+    topicPatience,
+    anger,
+    engagement,
+    previousTopicResult,
+    difficulty,
+    rollingScore
+  });
+
+  /**
+   * Push an engine state back into React state
+   */
+  const applyEngineState = (next: InterviewEngineState): void => {
+    setIsLobbyPhase(next.isLobbyPhase);
+    setIsFinished(next.isFinished);
+    setCurrentTopicIndex(next.topicIndex);
+    setTopicStage(next.topicStage);
+    setTopicSuccess(next.topicSuccess);
+    setTopicPatience(next.topicPatience);
+    setAnger(next.anger);
+    setEngagement(next.engagement);
+    setPreviousTopicResult(next.previousTopicResult);
+    setDifficulty(next.difficulty);
+    setRollingScore(next.rollingScore);
+  };
+
+  /**
+   * Record of a plan topic (created on first use)
+   */
+  const topicRecord = (topic: InterviewTopic): TopicRecord => {
+    let record = topicRecords.current.get(topic.id);
+    if (!record) {
+      record = createTopicRecord(topic);
+      topicRecords.current.set(topic.id, record);
+    }
+    return record;
+  };
+
+  /**
+   * Sub-score the stage that just ended (runs in the background, awaited by
+   * the report)
+   */
+  const closeDesignStage = (topic: InterviewTopic, stageIndex: number): void => {
+    const stage = getTopicStage(topic, stageIndex);
+    if (!stage || !agentRef.current) return;
+
+    const exchanges = historyBuffer.current.slice(stageHistoryStart.current);
+    topicRecord(topic).designStages.set(stage.id, agentRef.current.evaluateDesignStage(topic, stage, exchanges));
+  };
+
+  /**
+   * Follow-up probe bookkeeping for one evaluated topic answer: the answer
+   * closes the pending probe, and the probe Victoria's reply asks (if the
+   * topic stays, the answer was an attempt and the depth budget allows it)
+   * opens the next one
+   */
+  const recordProbe = (
+    topic: InterviewTopic,
+    analysis: AnalysisResponse,
+    answer: string,
+    asked: UnifiedReply['probe'],
+    transitionMode: TransitionMode
+  ): void => {
+    const { probes } = topicRecord(topic);
+    const pending = probes[probes.length - 1];
+    if (pending && pending.answer === undefined) {
+      pending.answer = answer;
+      pending.score = analysis.compositeScore;
+    }
+
+    const isAttempt = analysis.intent === 'STRONG_ATTEMPT' || analysis.intent === 'WEAK_ATTEMPT';
+    const probe = asked && transitionMode === 'STAY' && isAttempt
+      ? acceptProbe(asked.kind, probes, topic)
+      : null;
+    if (probe && asked) {
+      probes.push({ ...probe, depth: probes.length + 1, question: asked.question });
+      console.log(`🔎 [PROBE] ${topic.topic}: ${probe.kind} (${probe.issue}), depth ${probes.length}`);
+    } else if (asked) {
+      console.log(`🔎 [PROBE] ${topic.topic}: ${asked.kind} not recorded (topic moved on, non-attempt or budget used up)`);
+    }
+  };
+
+  /**
+   * STAR-analyze the candidate's answers on a SoftSkill topic that just ended
+   * (runs in the background, awaited by the report)
+   */
+  const closeBehavioralTopic = (topic: InterviewTopic): void => {
+    if (!agentRef.current) return;
+
+    const answers = historyBuffer.current
+      .slice(stageHistoryStart.current)
+      .filter(msg => msg.role === 'user')
+      .map(msg => msg.content);
+    if (answers.length === 0) return;
+
+    topicRecord(topic).starAnalysis = agentRef.current.analyzeStar(topic, answers);
+  };
+
+  /**
+   * Remember the issues of one evaluated answer (each issue once per topic)
+   */
+  const recordIssues = (topic: InterviewTopic, issues: AnswerIssue[]): void => {
+    if (issues.length === 0) return;
+    const record = topicRecord(topic);
+    issues.forEach(issue => {
+      if (!record.issues.includes(issue)) record.issues.push(issue);
+    });
+  };
+
+  /**
+   * Delivery metrics of one voice answer on a topic (answers without word
+   * timings are skipped)
+   */
+  const recordDelivery = (topic: InterviewTopic, speech: SpeechSample): void => {
+    const metrics = measureAnswer(speech, interviewLanguage, lastReplySpeech.current);
+    if (!metrics) return;
+
+    topicRecord(topic).delivery.push(metrics);
+    console.log(`🗣️ [DELIVERY] ${topic.topic}: ${metrics.wordsPerMinute} wpm, ${metrics.fillerCount} fillers, hesitation ${metrics.hesitationSec}s`);
+  };
+
+  /**
+   * Everything evaluated outside the batch evaluation, folded into the report
+   */
+  const enrichResults = (results: QuestionResult[]): Promise<QuestionResult[]> =>
+    mergeTopicRecords(results, Array.from(topicRecords.current.values()));
+
+  /**
+   * Minimal report for interviews that ended early (anger or patience limit)
+   */
+  const buildTerminationReport = async (reason: TerminationReason): Promise<FinalInterviewReport> => {
+    const partialQuestions: QuestionResult[] = [];
+
+    // Include any questions answered so far from history
+    if (historyBuffer.current.length > 0 && agentRef.current) {
+      console.log("📊 [TERMINATE] Processing partial history for report...");
+      try {
+        const results = await agentRef.current.evaluateBatch(historyBuffer.current, plan?.queue || []);
+        partialQuestions.push(...await enrichResults(results));
+      } catch (e) {
+        console.error("❌ [TERMINATE] Failed to evaluate partial history:", e);
+      }
+    }
+
+    const covered = `Only ${currentTopicIndex} out of ${plan?.queue.length || 0} topics were covered.`;
+
+    return {
+      questions: partialQuestions,
+      averageScore: partialQuestions.length > 0
+        ? Number((partialQuestions.reduce((sum, q) => sum + q.score, 0) / partialQuestions.length).toFixed(1))
+        : 0,
+      overallSummary: reason === 'anger_limit'
+        ? `Interview was terminated early due to high frustration level. ${covered} The candidate's responses did not meet expectations.`
+        : `Interview was terminated early due to accumulated frustration. ${covered}`,
+      timestamp: Date.now(),
+      wasForceFinished: false,
+      terminationReason: reason,
+      scoringPolicyId: scoringPolicy.id,
+      language: interviewLanguage,
+      inputMode,
+      categoryLevels: estimateCategoryLevels(partialQuestions)
+    };
+  };
+
+  /**
+   * Full report: background batch results for earlier topics + Pro evaluation
+   * of the final topic, both enriched with raw Q&A exchanges
+   */
+  const buildFinalReport = async (lastAnswer: string): Promise<FinalInterviewReport> => {
+    if (!agentRef.current || !plan) throw new Error("Interview not initialized");
+
+    const previousResults = bulkEvalPromise.current
+      ? await bulkEvalPromise.current
+      : [];
+
+    // Enrich batch results with raw exchanges
+    const enrichedPreviousResults = previousResults.map((result, index) => ({
+      ...result,
+      rawExchange: extractTopicMessages(historyBuffer.current, result.topic, index, plan.queue)
+    }));
+    console.log(`✅ Enriched ${enrichedPreviousResults.length} batch results with raw exchanges`);
+
+    const lastInteraction = { role: 'user' as const, content: lastAnswer };
+    const finalResult = await agentRef.current.evaluateFinal(lastInteraction, enrichedPreviousResults);
+
+    // Enrich final question with raw exchange
+    const enrichedFinalQuestion = {
+      ...finalResult.finalQuestion,
+      topicId: plan.queue[plan.queue.length - 1].id,
+      rawExchange: extractTopicMessages(
+        historyBuffer.current,
+        finalResult.finalQuestion.topic,
+        plan.queue.length - 1, // Final question is the last topic
+        plan.queue
+      )
+    };
+
+    const allResults = await enrichResults([...enrichedPreviousResults, enrichedFinalQuestion]);
+    const avg = allResults.length > 0
+      ? allResults.reduce((a, b) => a + b.score, 0) / allResults.length
+      : 0;
+
+    return {
+      questions: allResults,
+      averageScore: Number(avg.toFixed(1)),
+      overallSummary: finalResult.overallSummary,
+      timestamp: Date.now(),
+      wasForceFinished: false,
+      terminationReason: 'completed',
+      scoringPolicyId: scoringPolicy.id,
+      language: interviewLanguage,
+      inputMode,
+      categoryLevels: estimateCategoryLevels(allResults)
+    };
+  };
+
+  // ============================================
+  // TURN INPUT
+  // ============================================
+
+  /**
+   * Topic an answer is evaluated against and the one after it
+   */
+  const resolveTurnTopics = (phase: ReturnType<typeof InterviewEngine.phaseOf>, currentPlan: InterviewPlan) => {
+    if (phase === 'lobby') {
+      return {
+        // Use a dummy topic for analysis context
+        evalTopic: { id: 'lobby', type: 'Intro', topic: "Lobby Check", context: "User is in the waiting lobby.", estimated_time: '0m' } as InterviewTopic,
+        nextTopicData: currentPlan.queue[0] as InterviewTopic | null // Intro topic
+      };
+    }
+    return {
+      evalTopic: currentPlan.queue[Math.min(currentTopicIndex, currentPlan.queue.length - 1)],
+      nextTopicData: currentPlan.queue[currentTopicIndex + 1] || null
+    };
+  };
+
+  /**
+   * evaluateAndRespond() arguments for an answer.
+   * `history` must already end with the answer
+   */
+  const replyArguments = (
+    answerText: string,
+    state: InterviewEngineState,
+    currentPlan: InterviewPlan,
+    history: ChatMessage[]
+  ): Parameters<GeminiAgentService['evaluateAndRespond']> => {
+    const phase = InterviewEngine.phaseOf(state);
+    const { evalTopic, nextTopicData } = resolveTurnTopics(phase, currentPlan);
+    const lastAiText = history.filter(msg => msg.role === 'assistant').slice(-1)[0]?.content;
+
+    return [
+      answerText,
+      evalTopic,
+      lastAiText || (phase === 'lobby' ? "Welcome to the lobby." : "Start of topic"),
+      {
+        nextTopic: nextTopicData,
+        angerLevel: phase === 'topic' ? state.anger : 0, // Lobby & intro have no anger
+        engagementLevel: phase === 'intro' ? undefined : state.engagement,
+        vibe: phase === 'intro' ? undefined : currentVibe || undefined,
+        historyBuffer: history,
+        isIntro: phase === 'intro', // ← CRITICAL: Prevents "Hello" repetition
+        currentTopicIndex: phase === 'lobby' ? -1 : state.topicIndex,
+        totalTopics: currentPlan.queue.length,
+        stageIndex: state.topicStage,
+        probes: phase === 'topic' ? topicRecords.current.get(evalTopic.id)?.probes : undefined,
+        difficulty: state.difficulty,
+        rollingScore: state.rollingScore
+      }
+    ];
+  };
+
+  /**
+   * ⭐ UNIFIED CALL: Single API call for evaluation + voice.
+   * `history` must already end with the answer
+   */
+  const requestReply = (
+    agent: GeminiAgentService,
+    answerText: string,
+    state: InterviewEngineState,
+    currentPlan: InterviewPlan,
+    history: ChatMessage[]
+  ): Promise<UnifiedReply> => {
+    return agent.evaluateAndRespond(...replyArguments(answerText, state, currentPlan, history));
+  };
+
+  /**
+   * Streamed unified call, for replies that are spoken right away: null if
+   * the reply isn't played as generated (lobby small talk may be replaced by
+   * the intro, replay and text mode don't speak) or the LLM can't stream
+   */
+  const streamReply = (
+    agent: GeminiAgentService,
+    answerText: string,
+    state: InterviewEngineState,
+    currentPlan: InterviewPlan,
+    history: ChatMessage[]
+  ): StreamedReply | null => {
+    if (InterviewEngine.phaseOf(state) === 'lobby') return null;
+    // Device speech reads whole replies
+    if (replayRef.current || !speakRepliesRef.current || TTSService.isTextOnly() || TTSService.usesDeviceSpeech()) return null;
+    return agent.streamEvaluateAndRespond(...replyArguments(answerText, state, currentPlan, history));
+  };
+
+  /**
+   * TTS options of Victoria's reply in a phase (lobby small talk only passes the vibe)
+   */
+  const replyVoiceOptions = (phase: ReturnType<typeof InterviewEngine.phaseOf>) => phase === 'lobby'
+    ? { vibe: currentVibe || undefined }
+    : {
+      emotion: currentVibe?.cartesiaEmotion,
+      speed: currentVibe?.speed,
+      emotionLevel: currentVibe?.emotionLevel,
+      vibe: currentVibe || undefined  // 🎭 Add vibe for OpenAI
+    };
+
+  // ============================================
+  // SPECULATIVE REPLIES
+  // ============================================
+
+  /**
+   * Everything a reply depends on besides the answer: a speculation made
+   * in another state (new topic, vibe, plan...) is never reused
+   */
+  const speculationContext = (): string => JSON.stringify([
+    isLobbyPhase,
+    currentTopicIndex,
+    topicStage,
+    anger,
+    engagement,
+    difficulty,
+    currentVibe?.label ?? null,
+    plan?.queue.length ?? 0,
+    historyBuffer.current.length
+  ]);
+
+  /**
+   * Generate Victoria's reply to an interim transcript and pre-synthesize
+   * its audio
+   */
+  const startSpeculation = (transcript: string): void => {
+    const text = transcript.trim();
+    const recordingLLM = recordingLLMRef.current;
+    if (!agentRef.current || !recordingLLM || replayRef.current || isProcessing || isFinished) return;
+    if (countWords(text) < MIN_SPECULATION_WORDS || speculationCount.current >= MAX_SPECULATIONS_PER_TURN) return;
+
+    const state = getEngineState();
+    const phase = InterviewEngine.phaseOf(state);
+    if (phase !== 'lobby' && !plan) return;
+    const currentPlan = plan || INITIAL_PLAN;
+
+    // Coding answers travel with the editor contents - not known yet
+    if (phase !== 'lobby' && resolveTurnTopics(phase, currentPlan).evalTopic.type === 'Coding') return;
+
+    const context = speculationContext();
+    const previous = speculationRef.current;
+    if (previous && previous.context === context && isTrivialRevision(previous.text, text)) return;
+
+    speculationCount.current++;
+    console.log(`🔮 [SPECULATE] #${speculationCount.current} on "${text.substring(0, 40)}..."`);
+
+    const recording = recordingLLM.deferred();
+    const history: ChatMessage[] = [...historyBuffer.current, { role: 'user', content: text }];
+    const speculation: Speculation = {
+      text,
+      context,
+      recording,
+      reply: requestReply(agentRef.current.withProvider(recording.provider), text, state, currentPlan, history)
+        .catch(error => {
+          console.warn('⚠️ [SPECULATE] Reply failed:', error);
+          return null;
+        })
+    };
+    speculationRef.current = speculation;
+
+    // Pre-synthesize the reply while the candidate finishes speaking
+    speculation.reply.then(async reply => {
+      if (!reply || speculationRef.current !== speculation) return;
+      if (!speakRepliesRef.current || TTSService.isTextOnly() || TTSService.usesDeviceSpeech()) return;
+
+      const player = await TTSService.getStreamingPlayer();
+      const { options } = TTSService.getStreamingPlayerOptions(replyVoiceOptions(phase));
+      await player.prefetch(reply.voiceResponse, options);
+    }).catch(error => {
+      console.warn('⚠️ [SPECULATE] Prefetch failed:', error);
+    });
+  };
+  startSpeculationRef.current = startSpeculation;
+
+  /**
+   * Interim transcript update: speculate once it has been stable for a moment
+   */
+  const speculateAnswer = useCallback((transcript: string): void => {
+    if (speculationTimer.current) clearTimeout(speculationTimer.current);
+    speculationTimer.current = setTimeout(() => {
+      speculationTimer.current = null;
+      startSpeculationRef.current(transcript);
+    }, SPECULATION_DEBOUNCE_MS);
+  }, []);
+
+  /**
+   * Hand over the current speculation (if any) to the turn processing the
+   * final transcript
+   */
+  const takeSpeculation = (): Speculation | null => {
+    if (speculationTimer.current) {
+      clearTimeout(speculationTimer.current);
+      speculationTimer.current = null;
+    }
+    const speculation = speculationRef.current;
+    speculationRef.current = null;
+    speculationCount.current = 0;
+    return speculation;
+  };
+
   // Track last processed input to prevent duplicate processing
   const lastProcessedInput = useRef<string>('');
 
-  const processUserInput = async (text: string): Promise<void> => {
+  const processUserInput = async (text: string, code?: string, speechSample?: SpeechSample | null): Promise<void> => {
     const textToFinalize = text.trim();
 
     // ✅ FIX: Guard against processing the same text twice (prevents infinite loop)
@@ -376,752 +1082,301 @@ export const useInterviewLogic = (config: UseInterviewLogicConfig = {}): UseInte
     const startTime = Date.now();
 
     if (isProcessing) return;
+    if (textToFinalize.length === 0 || !agentRef.current) return;
 
-    if (textToFinalize.length > 0) {
-      // Mark this input as being processed
-      lastProcessedInput.current = textToFinalize;
+    // Mark this input as being processed
+    lastProcessedInput.current = textToFinalize;
 
-      console.log(`⏱️ [TIMING] Victoria response cycle STARTED at ${new Date(startTime).toISOString()}`);
+    console.log(`⏱️ [TIMING] Victoria response cycle STARTED at ${new Date(startTime).toISOString()}`);
 
-      LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
-      setMessages(prev => [...prev, { id: Date.now().toString(), text: textToFinalize, sender: 'user' }]);
+    const state = getEngineState();
+    const phase = InterviewEngine.phaseOf(state);
+    const currentPlan = plan || INITIAL_PLAN;
 
-      // Append to History Buffer
-      historyBuffer.current.push({ role: 'user', content: textToFinalize });
+    // Coding topics: the editor contents travel with the explanation
+    const activeTopic = phase === 'lobby' ? null : currentPlan.queue[Math.min(currentTopicIndex, currentPlan.queue.length - 1)];
+    const submittedCode = activeTopic?.type === 'Coding' && code?.trim() ? code.trim() : undefined;
+    const answerText = submittedCode
+      ? `${textToFinalize}\n\n[Submitted code]\n${submittedCode}`
+      : textToFinalize;
 
-      // ✅ STEP 1: Calculate next topic BEFORE any API calls (for context)
-      let nextIndex = currentTopicIndex + 1;
-      let nextTopicData: InterviewTopic | null = null;
-      if (plan && nextIndex < plan.queue.length) {
-        nextTopicData = plan.queue[nextIndex];
-      }
-      console.log(`📍 [NEXT_TOPIC] Predicted next: ${nextTopicData ? `"${nextTopicData.topic}" (Index ${nextIndex})` : "None (final)"}`);
+    // Speculative reply: reusable if made in this state from (nearly) this answer
+    const speculation = takeSpeculation();
+    const reusable = speculation && !submittedCode
+      && speculation.context === speculationContext()
+      && isTrivialRevision(speculation.text, textToFinalize)
+      ? speculation
+      : null;
+    let speculationOutcome: SpeculationOutcome = speculation ? 'miss' : 'none';
+    let streamedPlayback: StreamedPlayback | null = null;
 
-      if (agentRef.current) {
-        setIsProcessing(true);
-        try {
-          // --- LOBBY PHASE LOGIC ---
-          if (isLobbyPhase) {
-            console.log("🏨 [LOBBY] Processing lobby input...");
-
-            // Use a dummy topic for analysis context
-            const lobbyTopic: any = { topic: "Lobby Check", context: "User is in the waiting lobby." };
-            const lastAiText = historyBuffer.current.length > 1
-              ? historyBuffer.current.filter(msg => msg.role === 'assistant').slice(-1)[0]?.content || "Welcome to the lobby."
-              : "Welcome to the lobby.";
-
-            const currentPlan = plan || INITIAL_PLAN;
-
-            // ⭐ UNIFIED CALL: Single API call for evaluation + voice
-            console.log("🔍 [UNIFIED] Starting evaluation and voice generation...");
-            console.log(`📍 [UNIFIED] Context: Lobby phase`);
-            console.log(`📍 [UNIFIED] Next Topic: "${currentPlan.queue[0].topic}" (Intro)`);
-
-            const unified = await agentRef.current.evaluateAndRespond(
-              textToFinalize,
-              lobbyTopic,
-              lastAiText,
-              {
-                nextTopic: currentPlan.queue[0], // Intro topic
-                angerLevel: 0, // Lobby has no anger
-                engagementLevel: engagement,           // ← ADD
-                vibe: currentVibe || undefined,        // ← ADD
-                historyBuffer: historyBuffer.current,
-                isIntro: false,
-                currentTopicIndex: -1, // Before intro
-                totalTopics: currentPlan.queue.length
-              }
-            );
-
-            const analysis = unified.evaluation;
-            const speech = unified.voiceResponse;
-
-            console.log(`📊 [UNIFIED] Evaluation: Intent ${analysis.intent}`);
-            console.log(`💬 [UNIFIED] Response: "${speech.substring(0, 60)}..."`);
-
-            if (analysis.intent === 'READY_CONFIRM') {
-              // User is ready to start
-              console.log("✅ [LOBBY] User Ready -> STARTING INTRO");
-
-              // Initialize Agent Context properly
-              const initialContext = {
-                currentTopic: currentPlan.queue[0],
-                previousResult: null,
-                angerLevel: 0,
-                isLastTopic: false
-              };
-
-              // Call Start Interview Logic
-              const introResponse = await agentRef.current.startInterview(resumeText, "Candidate", initialContext);
-              let introMsg = "";
-              if (typeof introResponse === 'string') {
-                introMsg = introResponse;
-              } else {
-                introMsg = introResponse.message;
-              }
-
-              setIsLobbyPhase(false);
-              setCurrentTopicIndex(0);
-
-              await playSynchronizedResponse(introMsg, {
-                vibe: currentVibe || undefined
-              });
-
-            } else {
-              console.log("🗣️ [LOBBY] Small Talk - playing unified response");
-              await playSynchronizedResponse(speech, {
-                vibe: currentVibe || undefined
-              });
-            }
-
-            setIsProcessing(false);
-            return; // EXIT LOBBY LOGIC
-          }
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+    setMessages(prev => [...prev, { id: Date.now().toString(), text: answerText, sender: 'user' }]);
 
-          // --- REGULAR INTERVIEW LOGIC ---
-          if (!plan) return;
-
-          // --- SPECIAL CASE: INTRO (Index 0) ---
-          if (currentTopicIndex === 0) {
-            console.log("🎯 [INTRO] Special handling activated");
-
-            const introTopic = plan.queue[0];
-            const nextTopic = plan.queue[1];
-
-            // ✅ FIX: Validate nextTopic before using it
-            if (!nextTopic) {
-              console.warn(`⚠️ [INTRO] No next topic available (likely last question or single topic plan)`);
-            }
-
-            const introLastAiText = historyBuffer.current.filter(msg => msg.role === 'assistant').slice(-1)[0]?.content || "Start of intro";
-
-            // ⭐ UNIFIED CALL: Single API call for evaluation + voice
-            console.log("🔍 [UNIFIED] Starting evaluation and voice generation...");
-            console.log(`📍 [UNIFIED] Current: "${introTopic.topic}" (Index 0 - Intro)`);
-            console.log(`📍 [UNIFIED] Next: "${nextTopic?.topic || 'final question'}"`);
-
-            const introUnified = await agentRef.current.evaluateAndRespond(
-              textToFinalize,
-              introTopic,
-              introLastAiText,
-              {
-                nextTopic: nextTopic,
-                angerLevel: 0, // Intro has no anger
-                historyBuffer: historyBuffer.current,
-                isIntro: true, // ← CRITICAL: Prevents "Hello" repetition
-                currentTopicIndex: 0,
-                totalTopics: plan.queue.length
-              }
-            );
-
-            const introAnalysis = introUnified.evaluation;
-            const introSpeech = introUnified.voiceResponse;
-
-            console.log(`📊 [UNIFIED] Evaluation: Score ${introAnalysis.compositeScore.toFixed(1)}, Level: ${introAnalysis.level}, Intent: ${introAnalysis.intent}`);
-            console.log(`💬 [UNIFIED] Response: "${introSpeech.substring(0, 60)}..."`);
-
-            // EXCEPTION: Clarification on Intro should stay
-            if (introAnalysis.intent === 'CLARIFICATION') {
-              console.log("🤔 [INTRO] Clarification requested - staying on intro");
-              console.log("🔊 [STATE SYNC] Playing voice (no state change)");
-              await playSynchronizedResponse(introSpeech, {
-                vibe: currentVibe || undefined
-              });
-              setIsProcessing(false);
-              return;
-            }
-
-            // RULE: All other responses on Intro auto-advance
-            console.log("✅ [INTRO] Auto-advancing to Topic 1");
-
-            // Apply metrics
-            setCurrentMetrics(introAnalysis.metrics);
-
-            // Handle NONSENSE - still applies anger penalty but advances
-            if (introAnalysis.intent === 'NONSENSE') {
-              console.log("🤡 [INTRO] Nonsense detected - advancing with anger penalty");
-              setAnger(prev => Math.min(100, prev + 35));
-            }
-
-            // ✅ FIX: Play voice FIRST, then advance state
-            console.log("🔊 [STATE SYNC] Playing voice BEFORE state advance");
-            console.log(`📍 [STATE SYNC] Current index: 0 (locked until voice plays)`);
-
-            // Use unified TTSService with emotion options
-            await playSynchronizedResponse(introSpeech, {
-              emotion: currentVibe?.cartesiaEmotion,
-              speed: currentVibe?.speed,
-              emotionLevel: currentVibe?.emotionLevel,
-              vibe: currentVibe || undefined  // 🎭 Add vibe for OpenAI
-            });
-
-            console.log("✅ [STATE SYNC] Voice playing, now safe to advance state");
-            console.log("📍 [STATE SYNC] Advancing to index 1");
-
-            // ✅ FIX: Add defensive logging for next topic
-            const nextTopicData = plan.queue[1];
-            console.log(`📍 [STATE SYNC] Predicted next: ${nextTopicData ? `"${nextTopicData.topic}" (Index 1)` : "None (final)"}`);
-
-            if (nextTopicData) {
-              console.log(`📍 [STATE SYNC] New topic: "${nextTopicData.topic}"`);
-            } else {
-              console.warn(`📍 [STATE SYNC] No next topic available (index: 1)`);
-            }
-
-            console.log("✅ [STATE SYNC] UI and AI state synchronized");
-
-            // ✅ FIX: AFTER voice plays, advance state
-            setCurrentTopicIndex(1);
-            setTopicSuccess(0); // Reset for new topic
-            setTopicPatience(0); // Reset for new topic
-            // Anger carries forward (don't reset)
-
-            console.log(`🔄 [INTRO] Transition complete. Anger: ${anger}`);
-            setIsProcessing(false);
-            return; // Exit early
-          }
+    // Append to History Buffer
+    historyBuffer.current.push({ role: 'user', content: answerText });
+    const turn = recorderRef.current.recordUserInput(textToFinalize, submittedCode);
 
-          // --- REGULAR TOPICS (Index >= 1) ---
-          const regularSafeIndex = Math.min(currentTopicIndex, plan.queue.length - 1);
-          const regularCurrentTopic = plan.queue[regularSafeIndex];
-          const regularLastAiText = historyBuffer.current.filter(msg => msg.role === 'assistant').slice(-1)[0]?.content || "Start of topic";
-
-          // ⭐ UNIFIED CALL: Single API call for evaluation + voice
-          console.log("🔍 [UNIFIED] Starting evaluation and voice generation...");
-          console.log(`📍 [UNIFIED] Current: "${regularCurrentTopic.topic}" (Index ${currentTopicIndex})`);
-          console.log(`📍 [UNIFIED] Next: ${nextTopicData ? `"${nextTopicData.topic}"` : "None (final)"}`);
-
-          const regularUnified = await agentRef.current.evaluateAndRespond(
-            textToFinalize,
-            regularCurrentTopic,
-            regularLastAiText,
-            {
-              nextTopic: nextTopicData,
-              angerLevel: anger,
-              engagementLevel: engagement,              // ← ADD
-              vibe: currentVibe || undefined,           // ← ADD
-              historyBuffer: historyBuffer.current,
-              isIntro: false,
-              currentTopicIndex: currentTopicIndex,
-              totalTopics: plan.queue.length
-            }
-          );
-
-          const analysis = regularUnified.evaluation;
-          const speech = regularUnified.voiceResponse;
-
-          console.log(`📊 [UNIFIED] Evaluation complete`);
-          console.log(`   Score: ${analysis.compositeScore.toFixed(1)}`);
-          console.log(`   Level: ${analysis.level}`);
-          console.log(`   Intent: ${analysis.intent}`);
-          console.log(`💬 [UNIFIED] Response: "${speech.substring(0, 60)}..."`);
-
-          // ============================================
-          // ENGAGEMENT & VIBE SYSTEM
-          // ============================================
-
-          console.log("📊 [EMOTIONS] Calculating engagement delta...");
-
-          // Step 1: Calculate engagement change
-          const engagementDelta = VibeCalculator.calculateEngagementDelta(
-            analysis.compositeScore,
-            analysis.intent
-          );
-
-          // Step 2: Update engagement (clamp 0-100)
-          const oldEngagement = engagement;
-          const newEngagement = Math.max(0, Math.min(100, engagement + engagementDelta));
-          setEngagement(newEngagement);
-
-          console.log(`📊 [EMOTIONS] Engagement: ${oldEngagement} → ${newEngagement} (${engagementDelta >= 0 ? '+' : ''}${engagementDelta})`);
-
-          // Step 3: Detect absurd errors (for Amused vibe)
-          const isAbsurd = VibeCalculator.detectAbsurdError(
-            textToFinalize,
-            analysis.issues || [] // ⬅️ FIX: Provide empty array if issues is undefined
-          );
-
-          if (isAbsurd) {
-            console.log("🤪 [VIBE] Absurd error detected (potential Amused state)");
-          }
+    // Regular interview logic needs the real plan
+    if (phase !== 'lobby' && !plan) return;
 
-          // Step 4: Determine Victoria's emotional state
-          const vibe = VibeCalculator.determineVibe(
-            anger,  // Use existing anger variable
-            newEngagement,
-            {
-              isAbsurdError: isAbsurd,
-              intent: analysis.intent
-            }
-          );
-
-          // Step 5: Update vibe state
-          setCurrentVibe(vibe);
-
-          // Step 6: Log vibe details
-          console.log(`🎭 [VIBE] ${vibe.label} (${vibe.cartesiaEmotion})`);
-          console.log(`🎭 [VIBE] Speed: ${vibe.speed}x`);
-          if (vibe.emotionLevel && vibe.emotionLevel.length > 0) {
-            console.log(`🎭 [VIBE] Emotion Levels: ${vibe.emotionLevel.join(', ')}`);
-          }
-          console.log(`🎭 [VIBE] Description: ${vibe.description}`);
-          console.log(`🎭 [VIBE] Prompt Modifier: ${vibe.promptModifier.substring(0, 80)}...`);
-
-          // ============================================
-          // END ENGAGEMENT & VIBE SYSTEM
-          // ============================================
-
-          // --- BLOCKING CLARIFICATION CHECK ---
-          if (analysis.intent === 'CLARIFICATION') {
-            console.log("🤔 [CLARIFICATION] Staying on topic, no state change");
-            console.log("✅ [CLARIFICATION] State preserved:");
-            console.log(`   Success: ${topicSuccess} (unchanged)`);
-            console.log(`   Patience: ${topicPatience} (unchanged)`);
-            console.log(`   Anger: ${anger} (unchanged)`);
-
-            // Use unified TTSService with emotion options
-            await playSynchronizedResponse(speech, {
-              emotion: currentVibe?.cartesiaEmotion,
-              speed: currentVibe?.speed,
-              emotionLevel: currentVibe?.emotionLevel,
-              vibe: currentVibe || undefined  // 🎭 Add vibe for OpenAI
-            });
-            setIsProcessing(false);
-            return;
-          }
+    setIsProcessing(true);
+    try {
+      // ✅ STEP 1: Resolve topics BEFORE any API calls (for context)
+      const { evalTopic, nextTopicData } = resolveTurnTopics(phase, currentPlan);
 
-          setCurrentMetrics(analysis.metrics);
+      console.log(`📍 [UNIFIED] Phase: ${phase}, Current: "${evalTopic.topic}" (Index ${phase === 'lobby' ? -1 : currentTopicIndex})`);
+      console.log(`📍 [UNIFIED] Next: ${nextTopicData ? `"${nextTopicData.topic}"` : "None (final)"}`);
 
-          // --- 2. GAME LOGIC PHASE ---
-          let transitionMode: 'STAY' | 'NEXT_FAIL' | 'NEXT_PASS' | 'NEXT_EXPLAIN' | 'FINISH_INTERVIEW' | 'TERMINATE_ANGER' = 'STAY';
-          let shouldFinishInterview = false;
+      if (phase === 'topic') topicRecord(evalTopic).difficulty = state.difficulty;
 
-          let newSuccess = topicSuccess;
-          let newPatience = topicPatience;
-          let newAnger = anger;
-          let effectiveTopicIndex = currentTopicIndex;
+      // Code is scored separately (correctness/complexity/style) in the
+      // background while Victoria reacts to it - the report awaits it
+      if (submittedCode) {
+        topicRecord(evalTopic).code = {
+          code: submittedCode,
+          evaluation: agentRef.current.evaluateCode(evalTopic, submittedCode, textToFinalize)
+        };
+      }
 
-          if (analysis.intent === 'GIVE_UP') {
-            console.log("🏳️ User GAVE UP.");
-            newPatience = 110;
-          }
-          else if (analysis.intent === 'SHOW_ANSWER') {
-            console.log("💡 User asked for ANSWER.");
-            newPatience = 110;
-            transitionMode = 'NEXT_EXPLAIN';
-          }
-          else if (analysis.intent === 'SHOW_ANSWER_STAY') {
-            console.log("💡 User asked for ANSWER (STAY MODE).");
-            newPatience = 110;
-            transitionMode = 'STAY';  // ← КРИТИЧНО: НЕ ПЕРЕХОДИМ!
-            // НЕ меняем currentTopicIndex - остаемся на том же вопросе
-            // НЕ меняем topicSuccess или topicPatience - пользователь ещё не ответил
-          }
-          else if (analysis.intent === 'SHOW_ANSWER_PREVIOUS') {
-            console.log("↩️ User asked to GO BACK to PREVIOUS question.");
-            newPatience = 110;
-            transitionMode = 'STAY';  // ← КРИТИЧНО: НЕ ПЕРЕХОДИМ ВПЕРЁД!
-
-            // ВАЛИДАЦИЯ: Можно ли вернуться назад?
-            if (currentTopicIndex > 0) {
-              effectiveTopicIndex = currentTopicIndex - 1;  // ← Идём на один вопрос назад
-              console.log("↩️ [GO_BACK] Moving from topic", currentTopicIndex, "to", effectiveTopicIndex);
-            } else {
-              // Если это первый вопрос - объясняем текущий
-              console.log("⚠️ [GO_BACK] Cannot go back from first topic, staying on current.");
-              effectiveTopicIndex = currentTopicIndex;
-            }
-          }
-          else if (analysis.intent === 'NONSENSE') {
-            console.log("🤡 User is Trolling/Nonsense.");
+      // Reuse the speculative reply (its calls join the log now), or ask for
+      // one - streamed, so Victoria starts talking at its first sentence
+      let unified = reusable ? await reusable.reply : null;
+      if (reusable && unified) {
+        reusable.recording.commit();
+        speculationOutcome = 'hit';
+        console.log(`🔮 [SPECULATE] Reusing reply (speculated on "${reusable.text.substring(0, 40)}...")`);
+      } else {
+        const streamedReply = streamReply(agentRef.current, answerText, state, currentPlan, historyBuffer.current);
+        if (streamedReply) {
+          streamedPlayback = startStreamedReply(streamedReply.sentences, streamedReply.reply, replyVoiceOptions(phase));
+          unified = await streamedReply.reply;
+        } else {
+          unified = await requestReply(agentRef.current, answerText, state, currentPlan, historyBuffer.current);
+        }
+      }
 
-            newPatience += 50;
-            newAnger += 35;
+      const analysis = unified.evaluation;
+      const speech = unified.voiceResponse;
+      recorderRef.current.record({ type: 'evaluation', turn, analysis, voiceResponse: speech });
 
-            transitionMode = 'STAY';
+      console.log(`📊 [UNIFIED] Evaluation: Score ${analysis.compositeScore.toFixed(1)}, Level: ${analysis.level}, Intent: ${analysis.intent}`);
+      console.log(`💬 [UNIFIED] Response: "${speech.substring(0, 60)}..."`);
 
-            setCurrentMetrics({ accuracy: 0, depth: 0, structure: 0, reasoning: "Response was identified as nonsense/irrelevant." });
-          }
-          else if (analysis.intent === 'STRONG_ATTEMPT' || analysis.intent === 'WEAK_ATTEMPT') {
-            // ATTEMPT -> Normal Scoring using new compositeScore when available
-            // Fall back to calculated overall for backward compatibility
-            const { accuracy, depth, structure } = analysis.metrics;
-            const calculatedOverall = (accuracy + depth + structure) / 3;
-
-            // Use compositeScore from new evaluation system if available, else fallback
-            const overall = analysis.compositeScore !== undefined ? analysis.compositeScore : calculatedOverall;
-
-            console.log(`🔹 [MATH] Overall: ${overall.toFixed(1)} (compositeScore: ${analysis.compositeScore?.toFixed(1) || 'N/A'})`);
-
-            // Log new evaluation fields if available
-            if (analysis.level) {
-              console.log(`📊 [LEVEL] Quality Level: ${analysis.level}`);
-            }
-            if (analysis.issues && analysis.issues.length > 0) {
-              console.log(`⚠️ [ISSUES] ${analysis.issues.join(', ')}`);
-            }
-            if (analysis.suggestedFeedback) {
-              console.log(`💬 [FEEDBACK] "${analysis.suggestedFeedback}"`);
-            }
-
-            // Rule 2: Anger does NOT increase on poor attempts (only NONSENSE or NEXT_FAIL)
-            if (overall < 5) {
-              // E. Poor answer - only patience grows, NO anger
-              newPatience += ((10 - overall) * 7);
-              console.log(`📉 [SCORE] Poor (${overall.toFixed(1)}) - Patience +${((10 - overall) * 7).toFixed(0)}, Anger unchanged`);
-            } else if (overall < 7) {
-              // F. Mediocre answer
-              newSuccess += (overall * 7);
-              newPatience += 10;
-              console.log(`📊 [SCORE] Mediocre (${overall.toFixed(1)}) - Success +${(overall * 7).toFixed(0)}, Patience +10`);
-            } else if (overall <= 8.9) {
-              // G. Good answer (adjusted threshold to match new quality levels)
-              newSuccess += (overall * 13);
-              newPatience -= (overall * 3);
-              console.log(`📈 [SCORE] Good (${overall.toFixed(1)}) - Success +${(overall * 13).toFixed(0)}, Patience -${(overall * 3).toFixed(0)}`);
-            } else {
-              // H. Excellent answer (>=9) - ONLY case where anger reduces
-              newSuccess += (overall * 13);
-              newPatience -= (overall * 3);
-              newAnger -= 5; // ⬅️ ONLY REDUCTION for excellent answers
-              console.log(`🌟 [SCORE] Excellent (${overall.toFixed(1)}) - Success +${(overall * 13).toFixed(0)}, Anger -5`);
-            }
-          }
+      // ✅ STEP 2: Pure state transition
+      const step = InterviewEngine.step(state, {
+        analysis,
+        userText: textToFinalize,
+        totalTopics: currentPlan.queue.length,
+        stageCount: phase === 'topic' ? stageCountOf(evalTopic) : 1,
+        policy: scoringPolicy
+      });
+      const next = step.state;
+
+      if (phase === 'topic') recordProbe(evalTopic, analysis, textToFinalize, unified.probe, step.transitionMode);
+      if (phase === 'topic') recordIssues(evalTopic, analysis.issues);
+      if (phase === 'topic' && speechSample) recordDelivery(evalTopic, speechSample);
+
+      // Staged topics: sub-score each finished stage in the background
+      // (SoftSkill topics have one stage: their STAR breakdown runs here too)
+      if (next.topicStage !== state.topicStage || next.topicIndex !== state.topicIndex || next.isFinished) {
+        if (evalTopic.stages) closeDesignStage(evalTopic, state.topicStage);
+        if (evalTopic.type === 'SoftSkill') closeBehavioralTopic(evalTopic);
+        stageHistoryStart.current = historyBuffer.current.length;
+      }
 
-          // Clamp
-          newSuccess = Math.min(Math.max(newSuccess, 0), 100);
-          newPatience = Math.min(Math.max(newPatience, 0), 100);
-          newAnger = Math.min(Math.max(newAnger, 0), 100);
-
-          // Update UI State
-          setTopicSuccess(newSuccess);
-          setTopicPatience(newPatience);
-          setAnger(newAnger);
-
-          // --- 3. TRANSITION CHECK ---
-          let nextIndex = effectiveTopicIndex;
-
-          // PRIORITY 1: GLOBAL KILL SWITCH (Termination)
-          if (newAnger >= 100) {
-            console.log("🤬 Anger Limit Reached. Initiating Termination.");
-
-            // Use unified TTSService with emotion options
-            await playSynchronizedResponse(speech, {
-              emotion: currentVibe?.cartesiaEmotion,
-              speed: currentVibe?.speed,
-              emotionLevel: currentVibe?.emotionLevel,
-              vibe: currentVibe || undefined  // 🎭 Add vibe for OpenAI
-            });
-
-            // ✅ FIX BUG 3: Generate minimal report on early termination
-            const partialQuestions: QuestionResult[] = [];
-
-            // Include any questions answered so far from history
-            if (historyBuffer.current.length > 0) {
-              console.log("📊 [TERMINATE] Processing partial history for report...");
-              try {
-                const results = await agentRef.current.evaluateBatch(historyBuffer.current);
-                partialQuestions.push(...results);
-              } catch (e) {
-                console.error("❌ [TERMINATE] Failed to evaluate partial history:", e);
-              }
-            }
-
-            const terminationReport: FinalInterviewReport = {
-              questions: partialQuestions,
-              averageScore: partialQuestions.length > 0
-                ? Number((partialQuestions.reduce((sum, q) => sum + q.score, 0) / partialQuestions.length).toFixed(1))
-                : 0,
-              overallSummary: `Interview was terminated early due to high frustration level. Only ${currentTopicIndex} out of ${plan?.queue.length || 0} topics were covered. The candidate's responses did not meet expectations.`,
-              timestamp: Date.now(),
-              wasForceFinished: false,
-              terminationReason: 'anger_limit'
-            };
+      recorderRef.current.record({ type: 'transition', turn, transitionMode: step.transitionMode, state: next });
+      recorderRef.current.record({
+        type: 'voice_context',
+        turn,
+        context: {
+          currentTopic: evalTopic,
+          nextTopic: nextTopicData,
+          transitionMode: step.transitionMode,
+          angerLevel: next.anger,
+          engagementLevel: next.engagement,
+          vibe: step.vibe || currentVibe || undefined
+        }
+      });
+      checkReplayTransition(turn, step.transitionMode);
 
-            console.log("📊 [TERMINATE] Setting termination report");
-            setFinalReport(terminationReport);
-            onInterviewComplete?.(terminationReport);
+      console.log(`🔀 [ENGINE] ${step.transitionMode}: Success ${state.topicSuccess} → ${next.topicSuccess}, Patience ${state.topicPatience} → ${next.topicPatience}, Anger ${state.anger} → ${next.anger}`);
 
-            setIsFinished(true);
-            return;
-          }
-          else if (newSuccess >= 100) {
-            console.log("➡️ [TRANSITION] Moving to next topic (SUCCESS)");
-            transitionMode = 'NEXT_PASS';
-            nextIndex++;
-            setPreviousTopicResult("PASSED_SUCCESS");
-
-            // ⚠️ CRITICAL: Reset per-topic metrics
-            setTopicSuccess(0);
-            setTopicPatience(0);
-            // ⚠️ CRITICAL: Anger is NOT reset (carries through entire interview)
-
-            console.log("🔄 [RESET] Success and Patience reset to 0");
-            console.log(`💢 [CARRY] Anger remains at ${newAnger}`);
-          }
-          else if (newPatience >= 100) {
-            console.log("➡️ [TRANSITION] Moving to next topic (PATIENCE LIMIT)");
-
-            // SHOW_ANSWER mercy rule
-            if (transitionMode === 'NEXT_EXPLAIN') {
-              console.log("😇 [MERCY] SHOW_ANSWER - No anger penalty");
-              nextIndex++;
-              setPreviousTopicResult("EXPLAINED");
-              setTopicSuccess(0);
-              setTopicPatience(0);
-              // ⚠️ NO anger penalty (mercy rule)
-            } else {
-              // Regular patience fail - PRE-FLIGHT CHECK for termination
-              const tempAnger = newAnger + 35;
-              console.log(`⚠️ [PRE-FLIGHT] Checking anger: ${newAnger} + 35 = ${tempAnger}`);
-
-              if (tempAnger >= 100) {
-                // ABORT! This would terminate!
-                console.log("🤬 [ABORT] Anger would exceed 100! Terminating instead.");
-                transitionMode = 'TERMINATE_ANGER';
-                newAnger = 100;
-                setAnger(100);
-
-                // Use unified TTSService with emotion options
-                await playSynchronizedResponse(speech, {
-                  emotion: currentVibe?.cartesiaEmotion,
-                  speed: currentVibe?.speed,
-                  emotionLevel: currentVibe?.emotionLevel
-                });
-
-                // ✅ FIX BUG 3: Generate minimal report on patience-triggered termination
-                const partialQuestions: QuestionResult[] = [];
-
-                if (historyBuffer.current.length > 0) {
-                  console.log("📊 [TERMINATE] Processing partial history for report...");
-                  try {
-                    const results = await agentRef.current.evaluateBatch(historyBuffer.current);
-                    partialQuestions.push(...results);
-                  } catch (e) {
-                    console.error("❌ [TERMINATE] Failed to evaluate partial history:", e);
-                  }
-                }
-
-                const terminationReport: FinalInterviewReport = {
-                  questions: partialQuestions,
-                  averageScore: partialQuestions.length > 0
-                    ? Number((partialQuestions.reduce((sum, q) => sum + q.score, 0) / partialQuestions.length).toFixed(1))
-                    : 0,
-                  overallSummary: `Interview was terminated early due to accumulated frustration. Only ${currentTopicIndex} out of ${plan?.queue.length || 0} topics were covered.`,
-                  timestamp: Date.now(),
-                  wasForceFinished: false,
-                  terminationReason: 'patience_limit'
-                };
-
-                console.log("📊 [TERMINATE] Setting termination report");
-                setFinalReport(terminationReport);
-                onInterviewComplete?.(terminationReport);
-
-                setIsFinished(true);
-                return;
-              } else {
-                // Safe to proceed with NEXT_FAIL
-                transitionMode = 'NEXT_FAIL';
-                nextIndex++;
-                setPreviousTopicResult("FAILED_PATIENCE");
-
-                // ⬅️ ANGER PENALTY APPLIED HERE!
-                newAnger += 35;
-                setAnger(newAnger);
-                console.log(`💢 [ANGER] Patience fail penalty: Anger is now ${newAnger}`);
-
-                // Reset per-topic metrics
-                setTopicSuccess(0);
-                setTopicPatience(0);
-                console.log("🔄 [RESET] Success and Patience reset to 0");
-              }
-            }
-          }
+      if (step.vibe) {
+        setCurrentVibe(step.vibe);
+        if (step.vibe.label !== currentVibe?.label) {
+          recorderRef.current.record({ type: 'vibe_change', turn, vibe: step.vibe });
+        }
+        console.log(`🎭 [VIBE] ${step.vibe.label} (${step.vibe.cartesiaEmotion}), Engagement: ${state.engagement} → ${next.engagement}`);
+      }
+      if (step.metrics) setCurrentMetrics(step.metrics);
+
+      // --- LOBBY ---
+      if (phase === 'lobby') {
+        if (step.startInterview) {
+          console.log("✅ [LOBBY] User Ready -> STARTING INTRO");
+
+          // Initialize Agent Context properly
+          const initialContext = {
+            currentTopic: currentPlan.queue[0],
+            previousResult: null,
+            angerLevel: 0,
+            isLastTopic: false
+          };
+
+          const introResponse = await agentRef.current.startInterview(resumeText, "Candidate", initialContext);
+          const introMsg = typeof introResponse === 'string' ? introResponse : introResponse.message;
+
+          applyEngineState(next);
+          await playSynchronizedResponse(introMsg, replyVoiceOptions(phase));
+        } else {
+          console.log("🗣️ [LOBBY] Small Talk - playing unified response");
+          await playSynchronizedResponse(speech, replyVoiceOptions(phase));
+        }
+        return;
+      }
 
-          // CHECK FOR END OF INTERVIEW
-          // ============================================
-          // DIAGNOSTIC LOGGING FOR VICTORIA "THANK YOU" BUG
-          // ============================================
-          console.log('═══════════════════════════════════════');
-          console.log('🎤 [INTERVIEW STATE] Checking if interview should finish');
-          console.log('─────────────────────────────────────────');
-          console.log('📊 Topic Progress:');
-          console.log(`   Current Index: ${currentTopicIndex}`);
-          console.log(`   Next Index: ${nextIndex}`);
-          console.log(`   Total Topics: ${plan?.queue.length || 0}`);
-          console.log(`   Is Last Topic: ${currentTopicIndex === (plan?.queue.length || 0) - 1}`);
-          console.log('─────────────────────────────────────────');
-          console.log('🎯 Current Topic:', plan?.queue[currentTopicIndex]?.topic || 'N/A');
-          console.log('⏭️  Next Topic:', plan?.queue[nextIndex]?.topic || 'NONE (would finish)');
-          console.log('─────────────────────────────────────────');
-          console.log('🔀 Transition Mode:', transitionMode);
-          console.log('   STAY = ask follow-up question');
-          console.log('   NEXT_PASS/NEXT_FAIL = move to next topic');
-          console.log('   FINISH_INTERVIEW = end interview');
-          console.log('─────────────────────────────────────────');
-          console.log('⚠️  FINISH_INTERVIEW should ONLY trigger when:');
-          console.log(`   nextIndex (${nextIndex}) >= total topics (${plan?.queue.length || 0})`);
-          console.log(`   Result: ${nextIndex >= (plan?.queue.length || 0)}`);
-          console.log('═══════════════════════════════════════');
-
-          if (plan && nextIndex >= plan.queue.length) {
-            console.log("🏁 End of Interview Detected.");
-            console.log(`✅ [FINISH] nextIndex (${nextIndex}) >= queue length (${plan.queue.length})`);
-            transitionMode = 'FINISH_INTERVIEW';
-            shouldFinishInterview = true;
-          } else {
-            // Trigger batch evaluation for previous topics
-            if (plan && nextIndex === plan.queue.length - 1) {
-              console.log("🚀 Triggering Background Batch Eval for previous topics...");
-              const historySnapshot = [...historyBuffer.current];
-              bulkEvalPromise.current = agentRef.current.evaluateBatch(historySnapshot);
-            }
-          }
+      // --- TERMINATION (anger or patience limit) ---
+      if (step.terminationReason) {
+        console.log(`🤬 [TERMINATE] ${step.terminationReason}`);
+        // Results modal opens only once the report is ready
+        applyEngineState({ ...next, isFinished: false });
+
+        // Use unified TTSService with emotion options
+        await playSynchronizedResponse(speech, replyVoiceOptions(phase), streamedPlayback);
+
+        const terminationReport = await buildTerminationReport(step.terminationReason);
+        console.log("📊 [TERMINATE] Setting termination report");
+        setFinalReport(terminationReport);
+        onInterviewComplete?.(terminationReport);
+        finishRecording(terminationReport);
+        setIsFinished(true);
+        return;
+      }
 
-          // ✅ FIX: Play voice BEFORE advancing state
-          console.log("🔊 [STATE SYNC] Playing voice BEFORE state advance");
-          console.log(`📍 [STATE SYNC] Current index: ${currentTopicIndex} (locked until voice plays)`);
+      if (step.triggerBatchEval) {
+        console.log("🚀 Triggering Background Batch Eval for previous topics...");
+        const historySnapshot = [...historyBuffer.current];
+        bulkEvalPromise.current = agentRef.current.evaluateBatch(historySnapshot, currentPlan.queue);
+      }
 
-          // Use unified TTSService with emotion options
-          await playSynchronizedResponse(speech, {
-            emotion: currentVibe?.cartesiaEmotion,
-            speed: currentVibe?.speed,
-            emotionLevel: currentVibe?.emotionLevel
-          });
+      // ✅ FIX: Play voice BEFORE advancing topic index (score/anger update right away)
+      applyEngineState({ ...next, topicIndex: state.topicIndex, isFinished: false });
 
-          console.log("✅ [STATE SYNC] Voice playing, now safe to advance state");
-
-          // ✅ FIX: Advance state AFTER voice plays
-          if (effectiveTopicIndex !== currentTopicIndex) {
-            if (!shouldFinishInterview) {
-              console.log(`📍 [STATE SYNC] Updating index from ${currentTopicIndex} to ${effectiveTopicIndex}`);
-              console.log(`📍 [STATE SYNC] Topic: "${plan.queue[effectiveTopicIndex].topic}"`);
-              setCurrentTopicIndex(effectiveTopicIndex);
-              console.log("✅ [STATE SYNC] UI and AI state synchronized");
-            } else {
-              console.log("🏁 [STATE] Interview finished, not advancing index");
-              console.log(`📍 [STATE] Final index: ${currentTopicIndex} (last topic completed)`);
-            }
-          } else {
-            console.log(`📍 [STATE SYNC] Staying on index ${currentTopicIndex}`);
-            const stayTopic = plan.queue[currentTopicIndex];
-            console.log(`📍 [STATE SYNC] Topic: "${stayTopic.topic}"`);
-          }
+      await playSynchronizedResponse(speech, replyVoiceOptions(phase), streamedPlayback);
 
-          // GENERATE FINAL REPORT
-          if (shouldFinishInterview) {
-            console.log("📊 Generating Final Report...");
-            setIsProcessing(true);
-
-            try {
-              const previousResults = bulkEvalPromise.current
-                ? await bulkEvalPromise.current
-                : [];
-
-              // Enrich batch results with raw exchanges
-              console.log('🔄 Enriching batch results with raw Q&A exchanges...');
-              const enrichedPreviousResults = previousResults.map((result, index) => {
-                const rawExchange = extractTopicMessages(
-                  historyBuffer.current,
-                  result.topic,
-                  index,
-                  plan.queue
-                );
-                return {
-                  ...result,
-                  rawExchange
-                };
-              });
-              console.log(`✅ Enriched ${enrichedPreviousResults.length} batch results with raw exchanges`);
-
-              const lastInteraction = { role: 'user' as const, content: textToFinalize };
-
-              const finalResult = await agentRef.current.evaluateFinal(lastInteraction, enrichedPreviousResults);
-
-              // Enrich final question with raw exchange
-              console.log('🔄 Enriching final question with raw Q&A exchange...');
-              const finalQuestionRawExchange = extractTopicMessages(
-                historyBuffer.current,
-                finalResult.finalQuestion.topic,
-                plan.queue.length - 1, // Final question is the last topic
-                plan.queue
-              );
-              const enrichedFinalQuestion = {
-                ...finalResult.finalQuestion,
-                rawExchange: finalQuestionRawExchange
-              };
-              console.log(`✅ Enriched final question with ${finalQuestionRawExchange.length} raw exchange messages`);
-
-              const allResults = [...enrichedPreviousResults, enrichedFinalQuestion];
-
-              // Log summary of raw exchange data
-              const totalMessages = allResults.reduce((sum, result) => sum + (result.rawExchange?.length || 0), 0);
-              console.log(`📊 Total raw exchange messages captured: ${totalMessages}`);
-
-              const avg = allResults.length > 0
-                ? allResults.reduce((a, b) => a + b.score, 0) / allResults.length
-                : 0;
-
-              const report: FinalInterviewReport = {
-                questions: allResults,
-                averageScore: Number(avg.toFixed(1)),
-                overallSummary: finalResult.overallSummary,
-                timestamp: Date.now(),
-                wasForceFinished: false,
-                terminationReason: 'completed'
-              };
-
-              console.log("✅ Final Report Ready:", JSON.stringify(report, null, 2));
-              setFinalReport(report);
-              onInterviewComplete?.(report);
-
-            } catch (err) {
-              console.error("Report Gen Error:", err);
-            }
-
-            setIsFinished(true);
-            console.log("✅ [FINISH] Interview complete. Report set.");
-            setIsProcessing(false);
-            return;
-          }
-        } catch (error) {
-          console.error("Agent Error:", error);
-          Alert.alert("Error", "An error occurred during the interview. Please try again.");
-        } finally {
-          // ⏱️ DEBUG TIMING: Log total response time with breakdown
-          const endTime = Date.now();
-          const duration = endTime - startTime;
-          console.log(`⏱️ [TIMING] Victoria response cycle COMPLETED in ${duration}ms (${(duration / 1000).toFixed(2)}s)`);
-          console.log(`   Unified call: ~5-6s (evaluation + voice generation)`);
-          console.log(`   State calculation: ~0.01s (client-side)`);
-          console.log(`   TTS playback: ~${Math.max(0, duration - 6000)}ms`);
-
-          setIsProcessing(false);
+      if (next.topicIndex !== state.topicIndex) {
+        console.log(`📍 [STATE SYNC] Advancing from ${state.topicIndex} to ${next.topicIndex}: "${currentPlan.queue[next.topicIndex]?.topic}"`);
+        setCurrentTopicIndex(next.topicIndex);
+      }
+
+      // GENERATE FINAL REPORT
+      if (step.transitionMode === 'FINISH_INTERVIEW') {
+        console.log("📊 Generating Final Report...");
+        setIsProcessing(true);
+
+        try {
+          const report = await buildFinalReport(answerText);
+          console.log("✅ Final Report Ready:", JSON.stringify(report, null, 2));
+          setFinalReport(report);
+          onInterviewComplete?.(report);
+          finishRecording(report);
+        } catch (err) {
+          console.error("Report Gen Error:", err);
         }
+
+        setIsFinished(true);
+        console.log("✅ [FINISH] Interview complete. Report set.");
+      }
+    } catch (error) {
+      console.error("Agent Error:", error);
+      Alert.alert("Error", "An error occurred during the interview. Please try again.");
+    } finally {
+      // ⏱️ DEBUG TIMING: Log total response time
+      const duration = Date.now() - startTime;
+      console.log(`⏱️ [TIMING] Victoria response cycle COMPLETED in ${duration}ms (${(duration / 1000).toFixed(2)}s)`);
+
+      // Time to first audio of this turn's reply (not spoken: nothing to measure)
+      const replySpeech = lastReplySpeech.current;
+      if (replySpeech && replySpeech.startedAt >= startTime) {
+        const firstAudioMs = replySpeech.startedAt - startTime;
+        const streamed = streamedPlayback !== null;
+        console.log(`⏱️ [TIMING] First audio after ${firstAudioMs}ms (speculation: ${speculationOutcome}${streamed ? ', streamed' : ''})`);
+        setTurnLatencies(prev => [...prev, { turn, outcome: speculationOutcome, streamed, firstAudioMs }]);
+      }
+
+      persistRecording();
+
+      // Turn failed with the streamed reply still playing: release the microphone once it ends
+      const unclaimed = streamedPlayback;
+      if (unclaimed && !unclaimed.claimed) {
+        unclaimed.outcome.catch(() => null).then(() => onAIEnd?.());
       }
+
+      setIsProcessing(false);
     }
   };
 
   const initializeInterview = async (
     resume: string | ResumeData,
     jobDescription: string,
-    mode: InterviewMode
+    mode: InterviewMode,
+    settings: InterviewSettings = {}
   ): Promise<void> => {
     try {
-      // 1. Initialize Agent
-      agentRef.current = new GeminiAgentService();
+      // 0. Scoring policy, language, answer mode and interviewer profile are fixed for the whole interview
+      const policy = getScoringPolicy(settings.scoringPolicyId ?? await loadScoringPolicyId());
+      setScoringPolicy(policy);
+      console.log(`⚖️ [INIT] Scoring policy: ${policy.label}`);
+
+      const lang = getInterviewLanguage(settings.language ?? await loadInterviewLanguage());
+      setInterviewLanguage(lang.code);
+      TTSService.setLanguage(lang.code);
+      TTSService.resetFailover();
+      setTtsFailovers([]);
+      console.log(`🌐 [INIT] Interview language: ${lang.promptName}`);
+
+      const answerMode = settings.inputMode ?? 'voice';
+      setInputMode(answerMode);
+      speakRepliesRef.current = settings.speakReplies ?? true;
+      console.log(`⌨️ [INIT] Answer mode: ${answerMode}${speakRepliesRef.current ? '' : ' (replies muted)'}`);
+
+      const profile = await getInterviewerProfile(settings.interviewerProfileId ?? await loadInterviewerProfileId());
+      console.log(`🎭 [INIT] Interviewer profile: ${profile.name}`);
+
+      const questionBank = settings.questionBank ?? await getQuestionBank();
+      console.log(`🗃️ [INIT] Question bank: ${questionBank.length} question(s)`);
+
+      // 1. Initialize Agent (LLM calls are recorded, or served from the log in replay)
+      abandonRecording();
+      recorderRef.current = new SessionRecorder();
+      recordingLLMRef.current = null;
+      setTurnLatencies([]);
+      let llm: LLMProvider;
+      if (replayRef.current) {
+        llm = replayRef.current.provider;
+      } else {
+        const baseProvider = createLLMProvider();
+        recorderRef.current.start({
+          resume,
+          jobDescription,
+          mode,
+          llmProvider: baseProvider.name,
+          scoringPolicyId: policy.id,
+          language: lang.code,
+          inputMode: answerMode,
+          interviewerProfileId: profile.id,
+          presetPlan: settings.presetPlan,
+          questionBank
+        });
+        recordingLLMRef.current = new RecordingProvider(baseProvider, recorderRef.current);
+        llm = recordingLLMRef.current;
+      }
+      agentRef.current = new GeminiAgentService(llm, lang.code, profile);
 
       // 2. Reset State
-      setCurrentTopicIndex(0);
-      setPreviousTopicResult(null);
-      setTopicSuccess(0);
-      setTopicPatience(0);
-      setAnger(0);
-      setEngagement(50);      // Reset to neutral
-      setCurrentVibe(null);   // Clear vibe
-      setIsFinished(false);
-      setFinalReport(null);
-      historyBuffer.current = [];
+      applyEngineState(InterviewEngine.initialState()); // Lobby, first stage, neutral engagement, no rolling score
+      resetSession();
 
       // ============================================
       // PDF RESUME SUPPORT LOGIC
@@ -1150,14 +1405,22 @@ export const useInterviewLogic = (config: UseInterviewLogicConfig = {}): UseInte
       setIsLobbyPhase(true);
       setMessages([]);
 
+      // Review drills and edited fit-report agendas come with their plan - no planner call
+      const planReady = settings.presetPlan
+        ? Promise.resolve(settings.presetPlan)
+        : generateInterviewPlan(resume, jobDescription, mode, questionBank, llm, lang.code, profile);
+
       // ✅ NEW: Start plan generation IMMEDIATELY (non-blocking)
       // This runs in background while greeting plays
-      console.log("🎰 [INIT] Starting plan generation in background...");
-      generateInterviewPlan(resume, jobDescription, mode)
+      console.log(`🎰 [INIT] ${settings.presetPlan ? 'Using preset plan' : 'Starting plan generation in background'}...`);
+      planReady
         .then(generatedPlan => {
           console.log("✅ [PLAN] Generated:", generatedPlan.queue.length, "topics");
+          recorderRef.current.record({ type: 'plan_ready', plan: generatedPlan });
+          // Adaptive difficulty starts at the planned level of the first scored topic
+          setDifficulty(generatedPlan.queue[1]?.difficulty ?? DEFAULT_DIFFICULTY);
           setPlan(prev => {
-            if (!prev) return generatedPlan;
+            if (!prev || settings.presetPlan) return generatedPlan;
             return {
               ...generatedPlan,
               queue: [prev.queue[0], ...generatedPlan.queue.slice(1)]
@@ -1169,6 +1432,7 @@ export const useInterviewLogic = (config: UseInterviewLogicConfig = {}): UseInte
           console.error("❌ [PLAN] Generation failed:", err);
           console.log("⚠️ [PLAN] Using fallback plan...");
           // Use fallback plan instead of showing error
+          setDifficulty(DEFAULT_DIFFICULTY);
           setPlan({
             meta: { mode, total_estimated_time: '20m' },
             queue: [
@@ -1181,8 +1445,7 @@ export const useInterviewLogic = (config: UseInterviewLogicConfig = {}): UseInte
         });
 
       // 4. Play immediate greeting (don't wait for plan)
-      const greeting = "Hello, I'm Victoria. I'll be conducting your technical interview today. I have your details in front of me. Whenever you're ready to begin, just let me know.";
-      await playSynchronizedResponse(greeting, {
+      await playSynchronizedResponse(lang.greeting, {
         vibe: currentVibe || undefined
       });
 
@@ -1233,7 +1496,7 @@ export const useInterviewLogic = (config: UseInterviewLogicConfig = {}): UseInte
       try {
         if (agentRef.current) {
           console.log("🤖 [FORCE_FINISH] Calling evaluateBatch()...");
-          const results = await agentRef.current.evaluateBatch(historyBuffer.current);
+          const results = await enrichResults(await agentRef.current.evaluateBatch(historyBuffer.current, plan?.queue || []));
 
           console.log(`✅ [FORCE_FINISH] evaluateBatch() returned ${results.length} results`);
 
@@ -1312,7 +1575,11 @@ export const useInterviewLogic = (config: UseInterviewLogicConfig = {}): UseInte
       overallSummary,
       timestamp,
       wasForceFinished: true,
-      terminationReason: 'force_finished'
+      terminationReason: 'force_finished',
+      scoringPolicyId: scoringPolicy.id,
+      language: interviewLanguage,
+      inputMode,
+      categoryLevels: estimateCategoryLevels(partialQuestions)
     };
 
     console.log("📊 [FORCE_FINISH] Partial Report Created:");
@@ -1324,29 +1591,127 @@ export const useInterviewLogic = (config: UseInterviewLogicConfig = {}): UseInte
       setFinalReport(partialReport);
       setIsFinished(true);
       onInterviewComplete?.(partialReport);
+      finishRecording(partialReport);
       console.log("✅ [FORCE_FINISH] Report set, interview marked as finished");
     }, 500);
   };
 
-  const restart = (): void => {
-    setIsFinished(false);
+  /**
+   * Drop everything the previous interview left behind (topic ids repeat
+   * between plans, so stale topic records would merge into the next report)
+   */
+  const resetSession = (): void => {
     setMessages([]);
-    setPlan(null);
-    setCurrentTopicIndex(0);
-    setPreviousTopicResult(null);
-    setTopicSuccess(0);
-    setTopicPatience(0);
-    setAnger(0);
-    setEngagement(50);      // Reset to neutral
     setCurrentVibe(null);   // Clear vibe
     setCurrentMetrics(null);
     setFinalReport(null);
-    setIsLobbyPhase(true);
     setIsPlanReady(false);
     historyBuffer.current = [];
+    stageHistoryStart.current = 0;  // Stage sub-scores slice historyBuffer from here
     bulkEvalPromise.current = null;
+    topicRecords.current.clear();
+    lastReplySpeech.current = null;
+    takeSpeculation();
+  };
+
+  const restart = (): void => {
+    abandonRecording();
+    applyEngineState(InterviewEngine.initialState()); // Lobby, neutral engagement
+    resetSession();
+    setPlan(null);
+    replayRef.current = null;
+    setIsReplaying(false);
   };
 
+  // ============================================
+  // SESSION RECORDING & REPLAY
+  // ============================================
+
+  /**
+   * Close the session log and persist it (no-op during replay)
+   */
+  const finishRecording = (report: FinalInterviewReport): void => {
+    if (replayRef.current) {
+      const replay = replayRef.current;
+      console.log(`📼 [REPLAY] Finished with ${replay.mismatches} transition mismatch(es)`);
+      console.log(`📼 [REPLAY] Unused recorded LLM responses:`, replay.provider.getUnusedCounts());
+      return;
+    }
+
+    const log = recorderRef.current.finish(report);
+    if (log) saveSessionLog(log);
+  };
+
+  /**
+   * Save the session log as it stands (still open) after every turn, so an
+   * interview that crashes or is abandoned still leaves a log to replay
+   */
+  const persistRecording = (): void => {
+    const log = recorderRef.current.getLog();
+    if (log && recorderRef.current.isRecording) saveSessionLog(log);
+  };
+
+  /**
+   * Close an unfinished session log without a report (restart, new
+   * interview, unmount) and persist it
+   */
+  const abandonRecording = (): void => {
+    if (!recorderRef.current.isRecording) return;
+    console.log('📼 [RECORDER] Interview left unfinished - saving log');
+    const log = recorderRef.current.finish();
+    if (log) saveSessionLog(log);
+  };
+
+  /**
+   * During replay, compare a transition with the recorded one for the same turn
+   */
+  const checkReplayTransition = (turn: number, transitionMode: string): void => {
+    const replay = replayRef.current;
+    if (!replay) return;
+
+    const recorded = eventsOfType(replay.log, 'transition').find(e => e.turn === turn);
+    if (recorded && recorded.transitionMode !== transitionMode) {
+      replay.mismatches++;
+      console.warn(`⚠️ [REPLAY] Turn ${turn}: recorded ${recorded.transitionMode}, replayed ${transitionMode}`);
+    }
+  };
+
+  /**
+   * Re-run a recorded session: same inputs, recorded LLM responses, no audio.
+   * User inputs are fed one by one by the replay effect below.
+   */
+  const startReplay = async (log: SessionLog): Promise<void> => {
+    const start = eventsOfType(log, 'session_start')[0];
+    if (!start) {
+      Alert.alert("Invalid Log", "The session log has no session_start event.");
+      return;
+    }
+
+    console.log(`📼 [REPLAY] Starting replay of ${log.id} (${log.events.length} events)`);
+
+    replayRef.current = {
+      log,
+      inputs: eventsOfType(log, 'user_input').map(e => ({ text: e.text, code: e.code })),
+      provider: new ReplayProvider(log),
+      mismatches: 0
+    };
+    lastProcessedInput.current = '';
+    setReplayCursor(0);
+    setIsReplaying(true);
+
+    // Older logs predate scoring policies, languages, text mode, profiles and the question bank: realistic rules, English, voice, standard, empty bank
+    await initializeInterview(start.resume, start.jobDescription, start.mode, {
+      scoringPolicyId: start.scoringPolicyId ?? 'realistic',
+      language: start.language ?? 'en',
+      inputMode: start.inputMode ?? 'voice',
+      interviewerProfileId: start.interviewerProfileId ?? DEFAULT_INTERVIEWER_PROFILE.id,
+      presetPlan: start.presetPlan,
+      questionBank: start.questionBank ?? []
+    });
+  };
+
+  const getSessionLog = (): SessionLog | null => recorderRef.current.getLog();
+
   // ============================================
   // SIMULATE ANSWER (for DEV Tools)
   // ============================================
@@ -1553,12 +1918,34 @@ export const useInterviewLogic = (config: UseInterviewLogicConfig = {}): UseInte
     // Only recalculate if we have existing vibe data (interview is active)
     if (currentVibe && !isLobbyPhase) {
       console.log(`🔄 [VIBE] Manual engagement change detected: ${engagement}`);
-      const newVibe = VibeCalculator.determineVibe(anger, engagement, {});
+      const newVibe = VibeCalculator.determineVibe(anger, engagement, {}, scoringPolicy);
       setCurrentVibe(newVibe);
       console.log(`🎭 [VIBE] Updated to: ${newVibe.label} (${newVibe.cartesiaEmotion})`);
     }
   }, [engagement]); // Only trigger on engagement changes
 
+  // ============================================
+  // REPLAY DRIVER
+  // ============================================
+
+  useEffect(() => {
+    const replay = replayRef.current;
+    // Wait for the plan so topic counts match the recording
+    if (!isReplaying || !replay || isProcessing || isFinished || !isPlanReady) return;
+
+    if (replayCursor >= replay.inputs.length) {
+      console.log(`📼 [REPLAY] All ${replay.inputs.length} inputs replayed`);
+      setIsReplaying(false);
+      return;
+    }
+
+    const input = replay.inputs[replayCursor];
+    console.log(`📼 [REPLAY] Input ${replayCursor + 1}/${replay.inputs.length}: "${input.text.substring(0, 40)}..."`);
+    setReplayCursor(replayCursor + 1);
+    lastProcessedInput.current = ''; // Recorded duplicates are intentional
+    processUserInput(input.text, input.code);
+  }, [isReplaying, isProcessing, isFinished, isPlanReady, replayCursor]);
+
   // ============================================
   // CLEANUP
   // ============================================
@@ -1566,6 +1953,7 @@ export const useInterviewLogic = (config: UseInterviewLogicConfig = {}): UseInte
   useEffect(() => {
     return () => {
       console.log('🧹 useInterviewLogic: Cleaning up...');
+      abandonRecording();
       TTSService.stop().catch(e => console.warn('⚠️ TTS stop failed on unmount:', e));
     };
   }, []);
@@ -1581,6 +1969,7 @@ export const useInterviewLogic = (config: UseInterviewLogicConfig = {}): UseInte
     engagement,                // NEW
     currentVibe,              // NEW
     currentTopic,
+    currentStage,
     isProcessing,
     isFinished,
 
@@ -1595,15 +1984,27 @@ export const useInterviewLogic = (config: UseInterviewLogicConfig = {}): UseInte
     isLobbyPhase,
     isPlanReady,
     finalReport,
+    scoringPolicy,
+    interviewLanguage,
+    inputMode,
 
     // Functions
     initializeInterview,
     processUserInput,
+    speculateAnswer,
     forceFinish,
     restart,
     simulateAnswer,  // NEW: For DEV tools smart simulation
     setEngagement,   // NEW: For debug overlay slider
 
+    // Session recording & replay
+    isReplaying,
+    startReplay,
+    getSessionLog,
+
+    ttsFailovers,
+    turnLatencies,
+
     // Computed
     progress,
   };
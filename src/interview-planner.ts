@@ -1,26 +1,47 @@
-import { GoogleGenAI } from "@google/genai";
-import { softSkillsDB } from "./soft-skills-db";
-import { InterviewMode, InterviewPlan, InterviewTopic, GeminiAnalysisResult, ResumeData } from "./types";
-
-// USE ENV VAR
-const GEMINI_API_KEY = process.env.EXPO_PUBLIC_GEMINI_API_KEY || ""; 
-if (!GEMINI_API_KEY) console.warn("Gemini API Key missing in .env");
-
-const ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY });
+import { softSkillsDB, localizeSoftSkill } from "./soft-skills-db";
+import { InterviewMode, InterviewPlan, InterviewTopic, GeminiAnalysisResult, ResumeData, InterviewLanguage, InterviewerProfile, FitAnalysis, DifficultyLevel } from "./types";
+import { LLMProvider, LLMAttachment, promptRequest } from "./services/llm/LLMProvider";
+import { createLLMProvider } from "./services/llm/createLLMProvider";
+import { generateStructured, LLMOutputError } from "./services/llm/structuredOutput";
+import { GeminiAnalysisResultSchema } from "./services/llm/schemas";
+import { getInterviewLanguage } from "./services/interview-language";
+import { buildDesignStages } from "./services/system-design";
+import { initialDifficulty } from "./services/adaptive-difficulty";
+import { DEFAULT_INTERVIEWER_PROFILE, interviewerPlanInstruction } from "./services/interviewer-profiles";
+import { BankQuestion, PlannedQuestion, questionHash, rankPlannedQuestions, recentlyAskedQuestions } from "./services/question-bank";
 
 export async function generateInterviewPlan(
   resume: string | ResumeData,
   jd: string,
   mode: InterviewMode,
-  previousQuestionIds: string[] = []
+  questionBank: BankQuestion[] = [],
+  llm: LLMProvider = createLLMProvider(),
+  language: InterviewLanguage = 'en',
+  profile: InterviewerProfile = DEFAULT_INTERVIEWER_PROFILE
 ): Promise<InterviewPlan> {
+  const fit = await analyzeResumeFit(resume, jd, questionBank, llm, language, profile);
+  return buildInterviewPlan(fit, mode, questionBank, language, profile);
+}
+
+/**
+ * Resume vs JD analysis: job role, matches, gaps, cool/soft skills with
+ * relevance scores and generated questions (empty lists if the LLM fails)
+ */
+export async function analyzeResumeFit(
+  resume: string | ResumeData,
+  jd: string,
+  questionBank: BankQuestion[] = [],
+  llm: LLMProvider = createLLMProvider(),
+  language: InterviewLanguage = 'en',
+  profile: InterviewerProfile = DEFAULT_INTERVIEWER_PROFILE
+): Promise<FitAnalysis> {
   // ============================================
   // PDF RESUME SUPPORT LOGIC
   // ============================================
   
   // Обработка ResumeData (PDF) или string (legacy)
   let resumeTextForPrompt = "";
-  let pdfPart: any = null;
+  let pdfAttachment: LLMAttachment | null = null;
 
   if (typeof resume === 'string') {
     // Legacy: строка с текстом резюме
@@ -30,12 +51,10 @@ export async function generateInterviewPlan(
     // PDF: загрузка через inlineData
     resumeTextForPrompt = resume.text || "PDF resume loaded";
     
-    // Создаем часть с inlineData для PDF
-    pdfPart = {
-      inlineData: {
-        mimeType: "application/pdf",
-        data: resume.pdfBase64
-      }
+    // Прикрепляем PDF к запросу (inlineData у Gemini)
+    pdfAttachment = {
+      mimeType: "application/pdf",
+      data: resume.pdfBase64
     };
     
     console.log(`📄 [INTERVIEW_PLANNER] Using PDF resume (inlineData)`);
@@ -46,6 +65,19 @@ export async function generateInterviewPlan(
     console.log("📄 [INTERVIEW_PLANNER] Using ResumeData text fallback");
   }
 
+  // Non-English interviews: topics and questions are shown/spoken in the interview language
+  const { promptName } = getInterviewLanguage(language);
+  const languageInstruction = language === 'en' ? '' : `
+  LANGUAGE: The interview is held in ${promptName}. Write every "skill", "category", "question_script", "title", "statement", "scenario" and checklist value in ${promptName} (keep technology and product names like "React" or "Kubernetes" as they are). "job_role" and all JSON keys stay in English.
+  `;
+
+  // Questions asked in earlier sessions - generate fresh ones for the same skills
+  const askedBefore = recentlyAskedQuestions(questionBank);
+  const repeatInstruction = askedBefore.length === 0 ? '' : `
+  ALREADY ASKED in earlier sessions - do not repeat or rephrase these, ask about a different scenario:
+  ${askedBefore.map(question => `- ${question}`).join('\n  ')}
+  `;
+
   // Logic Step 1: Gemini Prompt Update - DYNAMIC CATEGORIZATION & ROLE EXTRACTION
   const prompt = `Analyze this Resume vs JD. 
   
@@ -63,71 +95,107 @@ export async function generateInterviewPlan(
   - GENERATE "question_script": A highly specific, role-based scenario question for this skill.
     - For Technical Skills: Create a debugging scenario or architecture challenge. (e.g. "Your React app has a memory leak in a large list. How do you debug it?")
     - For Soft Skills: Create a conflict/leadership scenario. (e.g. "A stakeholder wants to release a feature you know is buggy. How do you handle it?")
-  
+  - For gaps only, add "study_tip": one sentence on what to study or build to close the gap before the interview.
+
+  Finally, coding_problem: ONLY if the Job Role writes code day-to-day, one live-coding exercise (solvable in ~15 minutes, ~20-40 lines) built around the strongest technical match.
+  Shape: { "skill": "Matching Skill", "category": "Specific Domain", "title": "Short title", "statement": "Problem statement with 1-2 input/output examples", "language": "Main language from the JD", "starter_code": "Function signature only" }.
+  For non-coding roles (PM, design, support, management) set coding_problem to null.
+
+  And system_design: ONLY if the Job Role is senior (Senior, Staff, Lead, Principal, Architect), one system-design round built from the JD's domain.
+  Shape: { "skill": "Matching Skill", "category": "Specific Domain", "title": "Short title", "scenario": "What to design, with scale (users, requests, data)", "checklists": { "requirements": [...], "high_level": [...], "deep_dive": [...], "tradeoffs": [...] } }.
+  Each checklist holds 3-5 short components a strong candidate would mention in that stage (e.g. "Read/write ratio", "CDN", "Sharding key", "Consistency vs availability").
+  For non-senior roles set system_design to null.
+  ${interviewerPlanInstruction(profile)}
+  ${repeatInstruction}
+  ${languageInstruction}
   ${typeof resume === 'string' ? `Resume: ${resume}` : 'Resume: Provided as PDF - analyze the attached PDF document.'}
   JD: ${jd}
   
-  Return strictly raw JSON with keys: job_role, matches, gaps, cool_skills, soft_skills. 
-  Each skill array must contain objects: { "skill": "Skill Name", "category": "Specific Domain", "score": number, "question_script": "The generated question" }.
+  Return strictly raw JSON with keys: job_role, matches, gaps, cool_skills, soft_skills, coding_problem, system_design. 
+  Each skill array must contain objects: { "skill": "Skill Name", "category": "Specific Domain", "score": number, "question_script": "The generated question" } (gaps also "study_tip").
   Do not use Markdown formatting.`;
 
-  // Helper: Call Gemini with Retry Logic
-  async function callGeminiWithRetry(promptText: string, pdfInlineData: any = null): Promise<string> {
+  // Helper: Call the LLM with Retry Logic
+  async function callLLMWithRetry(promptText: string, attachment: LLMAttachment | null = null): Promise<GeminiAnalysisResult> {
     const maxRetries = 3;
     const delays = [2000, 4000]; // 2s, 4s
 
     const delay = (ms: number) => new Promise(res => setTimeout(res, ms));
 
+    // Если есть PDF, добавляем его в запрос
+    if (attachment) {
+      console.log("📄 [INTERVIEW_PLANNER] Added PDF attachment to request");
+    }
+
+    const request = promptRequest('plan', promptText, {
+      tier: 'pro',  // gemini-2.5-pro for Gemini
+      attachments: attachment ? [attachment] : undefined
+    });
+
     for (let attempt = 0; attempt < maxRetries; attempt++) {
       try {
-        // Создаем массив parts для запроса
-        const parts: any[] = [{ text: promptText }];
-        
-        // Если есть PDF, добавляем его в запрос
-        if (pdfInlineData) {
-          parts.push(pdfInlineData);
-          console.log("📄 [INTERVIEW_PLANNER] Added PDF inlineData to request");
-        }
-
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-pro",  //dont touch this model! it is only working dont change to 1.5
-            contents: [{ role: "user", parts: parts }],
-        });
-        
-        // Google GenAI SDK (v0.1.0+) structure check
-        if (response && response.candidates && response.candidates.length > 0) {
-            const candidate = response.candidates[0];
-            if (candidate.content && candidate.content.parts && candidate.content.parts.length > 0) {
-                 return candidate.content.parts[0].text || "";
-            }
-        }
-        return "";
+        return await generateStructured(llm, request, GeminiAnalysisResultSchema);
       } catch (error: any) {
-        console.warn(`Gemini API Attempt ${attempt + 1} failed:`, error.message);
+        console.warn(`LLM (${llm.name}) Attempt ${attempt + 1} failed:`, error.message);
         
-        if (attempt === maxRetries - 1) throw error;
+        // Bad output was already repaired once - only retry transport errors
+        if (error instanceof LLMOutputError || attempt === maxRetries - 1) throw error;
 
         const waitTime = delays[attempt] || 4000;
         console.log(`Waiting ${waitTime}ms before retry...`);
         await delay(waitTime);
       }
     }
-    return ""; 
+    throw new Error("Interview plan analysis failed");
   }
 
   let analysis: GeminiAnalysisResult = { matches: [], gaps: [], cool_skills: [], transferable_skills: [], soft_skills: [] };
   let jobRole = "Senior Technical Lead"; 
 
   try {
-    const text = await callGeminiWithRetry(prompt, pdfPart);
-    const jsonStr = text.replace(/```json/g, '').replace(/```/g, '').trim();
-    const result = JSON.parse(jsonStr);
+    const result = await callLLMWithRetry(prompt, pdfAttachment);
     analysis = result;
     if (result.job_role) jobRole = result.job_role;
   } catch (error) {
-    console.error("Error analyzing with Gemini:", error);
+    console.error(`Error analyzing with ${llm.name}:`, error);
   }
 
+  return { jobRole, analysis };
+}
+
+/**
+ * Topic for one skill of the analysis (or a question from the bank)
+ */
+export function skillToTopic(item: PlannedQuestion, id: string, difficulty: DifficultyLevel): InterviewTopic {
+  const fallback = item.type === 'SoftSkill'
+    ? `Tell me about a time you used ${item.skill}.`
+    : `Tell me about your experience with ${item.skill}.`;
+  return {
+    id,
+    type: item.type as InterviewTopic['type'],
+    topic: item.skill,
+    category: item.category,
+    context: item.question_script || fallback, // Use Pre-Generated Script
+    estimated_time: '5m',
+    score: item.score,
+    difficulty,
+    questionId: item.question_script ? item.question_id || questionHash(item.question_script) : undefined
+  };
+}
+
+/**
+ * Interview queue for a mode from a fit analysis: intro, top technical
+ * topics (bank-ranked), coding / system-design rounds, soft skills
+ */
+export function buildInterviewPlan(
+  fit: FitAnalysis,
+  mode: InterviewMode,
+  questionBank: BankQuestion[] = [],
+  language: InterviewLanguage = 'en',
+  profile: InterviewerProfile = DEFAULT_INTERVIEWER_PROFILE
+): InterviewPlan {
+  const { analysis, jobRole } = fit;
+
   // --- PHASE 1: BUILD RAW POOL ---
   
   // Helpers to sanitize input and filter by relevance
@@ -205,6 +273,17 @@ export async function generateInterviewPlan(
       softLimit = 5;
   }
 
+  // Interviewer profile can rebalance technical vs behavioral topics (same total)
+  const softSkillShare = profile.questionBias.softSkillShare;
+  if (softSkillShare !== undefined) {
+      const total = technicalLimit + softLimit;
+      softLimit = Math.round(total * softSkillShare);
+      technicalLimit = total - softLimit;
+  }
+
+  // Starting difficulty of every scored topic (the interview engine adapts it live)
+  const difficulty = initialDifficulty(jobRole);
+
   // Build Final Agenda (Topics Only)
   let finalQueue: InterviewTopic[] = [];
 
@@ -224,23 +303,54 @@ export async function generateInterviewPlan(
       ...gaps.slice(0, 5).map(g => ({ type: 'Gap', ...g })),
       ...coolSkills.slice(0, 2).map(c => ({ type: 'CoolSkill', ...c }))
   ];
-  // Sort by score
+  // Sort by score, then let the question bank reorder it (pinned/weak/unseen first, retired dropped)
   technicalPool.sort((a, b) => (b.score || 0) - (a.score || 0));
+  const rankedTechnical = rankPlannedQuestions(technicalPool, questionBank, jobRole, ['Match', 'Gap', 'CoolSkill']);
   
+  // Coding exercise (technical roles) and system-design round (senior roles) take one technical slot each
+  const codingProblem = analysis.coding_problem;
+  const systemDesign = analysis.system_design;
+  const codingSlots = (codingProblem ? 1 : 0) + (systemDesign ? 1 : 0);
+
   // Take top N technical
   let techCount = 0;
-  for (const item of technicalPool) {
-      if (techCount >= technicalLimit) break;
+  for (const item of rankedTechnical) {
+      if (techCount >= technicalLimit - codingSlots) break;
+      finalQueue.push(skillToTopic(item, `${item.type.toLowerCase()}_${techCount}`, difficulty));
+      techCount++;
+  }
+
+  // 2b. Add Coding Exercise (after the conversational technical topics)
+  if (codingProblem) {
       finalQueue.push({
-          id: `${item.type.toLowerCase()}_${techCount}`,
-          type: item.type as any,
-          topic: item.skill,
-          category: item.category,
-          context: item.question_script || `Tell me about your experience with ${item.skill}.`, // Use Pre-Generated Script
-          estimated_time: '5m',
-          score: item.score
+          id: 'coding_0',
+          type: 'Coding',
+          topic: codingProblem.title,
+          category: codingProblem.category,
+          context: `Live coding exercise (${codingProblem.skill}): ${codingProblem.statement} The candidate writes the solution in the editor and explains their approach out loud.`,
+          estimated_time: '15m',
+          problem: {
+              title: codingProblem.title,
+              statement: codingProblem.statement,
+              language: codingProblem.language,
+              starterCode: codingProblem.starter_code
+          },
+          difficulty
+      });
+  }
+
+  // 2c. Add System-Design Round (one topic, answered in stages)
+  if (systemDesign) {
+      finalQueue.push({
+          id: 'system_design_0',
+          type: 'SystemDesign',
+          topic: systemDesign.title,
+          category: systemDesign.category,
+          context: systemDesign.scenario,
+          estimated_time: '25m',
+          stages: buildDesignStages(systemDesign.checklists),
+          difficulty
       });
-      techCount++;
   }
 
   // 3. Add Soft Skills (Now using PRO-generated list)
@@ -255,36 +365,34 @@ export async function generateInterviewPlan(
       for (let i = 0; i < 5; i++) {
           const cat = softSkillCategories[Math.floor(Math.random() * softSkillCategories.length)];
           // @ts-ignore
-          const skill = softSkillsDB[cat][Math.floor(Math.random() * softSkillsDB[cat].length)];
+          const skill = localizeSoftSkill(softSkillsDB[cat][Math.floor(Math.random() * softSkillsDB[cat].length)], language);
           poolSoftSkills.push({ 
               skill, 
               category: "Soft Skills", 
               score: 5, 
-              question_script: `Tell me about a time you demonstrated ${skill} in a professional setting.` 
+              question_script: getInterviewLanguage(language).softSkillQuestion(skill) 
           });
       }
       softSkillsFromAI.push(...poolSoftSkills);
   }
 
-  for (const item of softSkillsFromAI) {
+  for (const item of rankPlannedQuestions(softSkillsFromAI, questionBank, jobRole, ['SoftSkill'])) {
       if (softCount >= softLimit) break;
-      finalQueue.push({
-          id: `soft_${softCount}`,
-          type: 'SoftSkill',
-          topic: item.skill,
-          category: item.category,
-          context: item.question_script || `Tell me about a time you used ${item.skill}.`,
-          estimated_time: '5m',
-          score: item.score
-      });
+      finalQueue.push(skillToTopic({ ...item, type: 'SoftSkill' }, `soft_${softCount}`, difficulty));
       softCount++;
   }
 
+  const askedIds = new Set(questionBank.filter(q => q.timesAsked > 0).map(q => q.id));
+  console.log(`🗃️ [INTERVIEW_PLANNER] ${finalQueue.filter(q => q.questionId && askedIds.has(q.questionId)).length} question(s) from earlier sessions`);
+
   return {
     meta: {
       mode,
       total_estimated_time: mode === 'short' ? '15m' : mode === 'medium' ? '30m' : 'Unlimited',
-      new_question_ids: finalQueue.map(q => q.id)
+      new_question_ids: finalQueue
+        .filter(q => q.questionId && !askedIds.has(q.questionId))
+        .map(q => q.questionId!),
+      job_role: jobRole
     },
     queue: finalQueue
   };
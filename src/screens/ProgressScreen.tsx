@@ -0,0 +1,346 @@
+/**
+ * Progress Screen
+ *
+ * Cross-session analytics built on the saved history: score trend, averages
+ * per skill category, most frequent answer issues, skills that improved (or
+ * slipped) between sessions, the roles practised and, for sessions started
+ * from the resume library, the performance per target job.
+ */
+
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { getHistory } from '../services/history-storage';
+import { ISSUE_LABELS, ProgressReport, buildProgressReport } from '../services/progress-analytics';
+import { getResumeLibrary } from '../services/resume-library';
+
+const TREND_SESSIONS = 12;
+const TREND_HEIGHT = 80;
+
+const getScoreColor = (score: number): string => {
+  if (score >= 8) return '#10B981';
+  if (score >= 5) return '#F59E0B';
+  return '#EF4444';
+};
+
+const formatShortDate = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getMonth() + 1}/${date.getDate()}`;
+};
+
+export const ProgressScreen: React.FC = () => {
+  const [report, setReport] = useState<ProgressReport | null>(null);
+  const [jobNames, setJobNames] = useState<Record<string, string>>({});
+
+  // Reload whenever the screen is shown (a session may have just been saved)
+  useFocusEffect(
+    useCallback(() => {
+      let active = true;
+      getHistory()
+        .then(history => {
+          if (active) setReport(buildProgressReport(history));
+        })
+        .catch(error => {
+          console.error('❌ [PROGRESS] Failed to load history:', error);
+          if (active) setReport(buildProgressReport([]));
+        });
+      getResumeLibrary().then(library => {
+        if (active) setJobNames(Object.fromEntries(library.jobDescriptions.map(jd => [jd.id, jd.name])));
+      });
+      return () => { active = false; };
+    }, [])
+  );
+
+  if (!report) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color="#6366F1" />
+      </View>
+    );
+  }
+
+  if (report.sessions === 0) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="stats-chart-outline" size={64} color="#CCC" />
+        <Text style={styles.emptyText}>No sessions yet.</Text>
+        <Text style={styles.emptySubtext}>Complete an interview to start tracking progress.</Text>
+      </View>
+    );
+  }
+
+  const trend = report.scoreTrend.slice(-TREND_SESSIONS);
+  const first = report.scoreTrend[0].score;
+  const latest = report.scoreTrend[report.scoreTrend.length - 1].score;
+  const change = Number((latest - first).toFixed(1));
+  const maxIssueCount = Math.max(...report.topIssues.map(issue => issue.count), 1);
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {/* Score Trend */}
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.sectionTitle}>SCORE TREND</Text>
+          {report.scoreTrend.length > 1 && (
+            <Text style={[styles.changeText, { color: change >= 0 ? '#10B981' : '#EF4444' }]}>
+              {change >= 0 ? '+' : ''}{change} since first session
+            </Text>
+          )}
+        </View>
+        <View style={styles.trendRow}>
+          {trend.map(point => (
+            <View key={point.timestamp} style={styles.trendColumn}>
+              <Text style={styles.trendValue}>{point.score.toFixed(1)}</Text>
+              <View
+                style={[
+                  styles.trendBar,
+                  {
+                    height: Math.max(2, (point.score / 10) * TREND_HEIGHT),
+                    backgroundColor: getScoreColor(point.score)
+                  }
+                ]}
+              />
+              <Text style={styles.trendLabel}>{formatShortDate(point.timestamp)}</Text>
+            </View>
+          ))}
+        </View>
+        <Text style={styles.caption}>
+          {report.sessions} session{report.sessions !== 1 ? 's' : ''}
+          {report.scoreTrend.length > TREND_SESSIONS ? ` · last ${TREND_SESSIONS} shown` : ''}
+        </Text>
+      </View>
+
+      {/* Category Averages */}
+      {report.categoryAverages.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>AVERAGE BY CATEGORY</Text>
+          {report.categoryAverages.map(category => (
+            <View key={category.category} style={styles.meterRow}>
+              <View style={styles.meterHeader}>
+                <Text style={styles.rowLabel} numberOfLines={1}>{category.category}</Text>
+                <Text style={[styles.rowValue, { color: getScoreColor(category.average) }]}>
+                  {category.average}/10
+                </Text>
+              </View>
+              <View style={styles.meterTrack}>
+                <View
+                  style={[
+                    styles.meterFill,
+                    { width: `${category.average * 10}%`, backgroundColor: getScoreColor(category.average) }
+                  ]}
+                />
+              </View>
+              <Text style={styles.caption}>{category.answers} answer{category.answers !== 1 ? 's' : ''}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Most Frequent Issues */}
+      {report.topIssues.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>MOST FREQUENT ISSUES</Text>
+          {report.topIssues.map(({ issue, count }) => (
+            <View key={issue} style={styles.meterRow}>
+              <View style={styles.meterHeader}>
+                <Text style={styles.rowLabel}>{ISSUE_LABELS[issue]}</Text>
+                <Text style={styles.rowValue}>×{count}</Text>
+              </View>
+              <View style={styles.meterTrack}>
+                <View style={[styles.meterFill, { width: `${(count / maxIssueCount) * 100}%`, backgroundColor: '#A5B4FC' }]} />
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Skill Progress */}
+      {report.skills.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>REPEATED SKILLS</Text>
+          {report.skills.map(skill => (
+            <View key={skill.skill} style={styles.listRow}>
+              <View style={styles.listMain}>
+                <Text style={styles.rowLabel} numberOfLines={1}>{skill.skill}</Text>
+                <Text style={styles.caption}>
+                  {skill.sessions} sessions · {skill.firstScore.toFixed(1)} → {skill.latestScore.toFixed(1)}
+                </Text>
+              </View>
+              <Text style={[styles.rowValue, { color: skill.change >= 0 ? '#10B981' : '#EF4444' }]}>
+                {skill.change >= 0 ? '+' : ''}{skill.change}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Target Jobs */}
+      {report.targetJobs.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>BY TARGET JOB</Text>
+          {report.targetJobs.map(job => (
+            <View key={job.jobDescriptionId} style={styles.listRow}>
+              <View style={styles.listMain}>
+                <Text style={styles.rowLabel} numberOfLines={1}>
+                  {jobNames[job.jobDescriptionId] || 'Deleted job description'}
+                </Text>
+                <Text style={styles.caption}>
+                  {job.sessions} session{job.sessions !== 1 ? 's' : ''} · latest {job.latestScore.toFixed(1)} · last {formatShortDate(job.lastPractised)}
+                </Text>
+              </View>
+              <Text style={[styles.rowValue, { color: getScoreColor(job.averageScore) }]}>
+                {job.averageScore.toFixed(1)}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Roles Practised */}
+      {report.roles.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>ROLES PRACTISED</Text>
+          {report.roles.map(role => (
+            <View key={role.role} style={styles.listRow}>
+              <View style={styles.listMain}>
+                <Text style={styles.rowLabel} numberOfLines={1}>{role.role}</Text>
+                <Text style={styles.caption}>
+                  {role.sessions} session{role.sessions !== 1 ? 's' : ''} · last {formatShortDate(role.lastPractised)}
+                </Text>
+              </View>
+              <Text style={[styles.rowValue, { color: getScoreColor(role.averageScore) }]}>
+                {role.averageScore.toFixed(1)}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+    paddingBottom: 40,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+    backgroundColor: '#F3F4F6',
+  },
+  emptyText: {
+    marginTop: 16,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#666',
+  },
+  emptySubtext: {
+    marginTop: 6,
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    gap: 10,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+    letterSpacing: 1,
+  },
+  changeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  trendRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 6,
+    marginTop: 4,
+  },
+  trendColumn: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+  },
+  trendValue: {
+    fontSize: 10,
+    color: '#6B7280',
+    marginBottom: 2,
+  },
+  trendBar: {
+    width: '70%',
+    borderRadius: 3,
+  },
+  trendLabel: {
+    marginTop: 4,
+    fontSize: 10,
+    color: '#9CA3AF',
+  },
+  caption: {
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+  meterRow: {
+    gap: 4,
+  },
+  meterHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  meterTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#E5E7EB',
+    overflow: 'hidden',
+  },
+  meterFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  listMain: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowLabel: {
+    flexShrink: 1,
+    fontSize: 14,
+    color: '#333',
+    marginRight: 12,
+  },
+  rowValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6366F1',
+  },
+});
@@ -0,0 +1,319 @@
+/**
+ * Question Bank Screen
+ *
+ * Browse every question the planner has generated, grouped by role, with how
+ * often it was asked and the last score. Questions can be edited, pinned
+ * (always preferred for their role) or retired (never planned again).
+ */
+
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { BankQuestion, getQuestionBank, roleKey, updateBankQuestion } from '../services/question-bank';
+
+type BankFilter = 'active' | 'pinned' | 'retired';
+
+const FILTERS: Array<{ id: BankFilter; label: string }> = [
+  { id: 'active', label: 'Active' },
+  { id: 'pinned', label: 'Pinned' },
+  { id: 'retired', label: 'Retired' },
+];
+
+const getScoreColor = (score: number): string => {
+  if (score >= 8) return '#10B981';
+  if (score >= 5) return '#F59E0B';
+  return '#EF4444';
+};
+
+const matchesFilter = (question: BankQuestion, filter: BankFilter): boolean => {
+  if (filter === 'retired') return question.retired;
+  if (filter === 'pinned') return question.pinned && !question.retired;
+  return !question.retired;
+};
+
+// One section per role, pinned first, then most recently asked
+const groupByRole = (questions: BankQuestion[]): Array<{ role: string; questions: BankQuestion[] }> => {
+  const byRole = new Map<string, { role: string; questions: BankQuestion[] }>();
+  questions.forEach(question => {
+    const key = roleKey(question.role);
+    const group = byRole.get(key) || { role: question.role, questions: [] };
+    group.questions.push(question);
+    byRole.set(key, group);
+  });
+
+  return Array.from(byRole.values())
+    .map(group => ({
+      ...group,
+      questions: group.questions.sort((a, b) =>
+        Number(b.pinned) - Number(a.pinned) || (b.lastAsked || 0) - (a.lastAsked || 0))
+    }))
+    .sort((a, b) => b.questions.length - a.questions.length);
+};
+
+export const QuestionBankScreen: React.FC = () => {
+  const [questions, setQuestions] = useState<BankQuestion[] | null>(null);
+  const [filter, setFilter] = useState<BankFilter>('active');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  useFocusEffect(
+    useCallback(() => {
+      let active = true;
+      getQuestionBank()
+        .then(bank => {
+          if (active) setQuestions(bank);
+        })
+        .catch(error => {
+          console.error('❌ [QUESTION_BANK] Failed to load question bank:', error);
+          if (active) setQuestions([]);
+        });
+      return () => { active = false; };
+    }, [])
+  );
+
+  const update = async (id: string, changes: Parameters<typeof updateBankQuestion>[1]) => {
+    setQuestions(await updateBankQuestion(id, changes));
+  };
+
+  const startEditing = (question: BankQuestion) => {
+    setEditingId(question.id);
+    setDraft(question.question);
+  };
+
+  const saveEdit = async () => {
+    if (editingId && draft.trim().length > 0) {
+      await update(editingId, { question: draft.trim() });
+    }
+    setEditingId(null);
+  };
+
+  if (!questions) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color="#6366F1" />
+      </View>
+    );
+  }
+
+  if (questions.length === 0) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="library-outline" size={64} color="#CCC" />
+        <Text style={styles.emptyText}>No questions yet.</Text>
+        <Text style={styles.emptySubtext}>Questions are saved here after each interview.</Text>
+      </View>
+    );
+  }
+
+  const groups = groupByRole(questions.filter(question => matchesFilter(question, filter)));
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {/* Filter */}
+      <View style={styles.filterRow}>
+        {FILTERS.map(option => (
+          <TouchableOpacity
+            key={option.id}
+            style={[styles.filterChip, filter === option.id && styles.filterChipActive]}
+            onPress={() => setFilter(option.id)}
+          >
+            <Text style={[styles.filterText, filter === option.id && styles.filterTextActive]}>
+              {option.label} ({questions.filter(question => matchesFilter(question, option.id)).length})
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {groups.length === 0 && (
+        <Text style={styles.emptySubtext}>Nothing here.</Text>
+      )}
+
+      {groups.map(group => (
+        <View key={group.role} style={styles.card}>
+          <Text style={styles.sectionTitle}>{group.role.toUpperCase()}</Text>
+          {group.questions.map(question => (
+            <View key={question.id} style={styles.questionRow}>
+              {editingId === question.id ? (
+                <TextInput
+                  style={styles.editInput}
+                  value={draft}
+                  onChangeText={setDraft}
+                  multiline
+                  autoFocus
+                />
+              ) : (
+                <Text style={[styles.questionText, question.retired && styles.retiredText]}>
+                  {question.question}
+                </Text>
+              )}
+
+              <Text style={styles.caption}>
+                {question.skill}
+                {question.category ? ` · ${question.category}` : ''}
+                {question.difficulty ? ` · L${question.difficulty}` : ''}
+                {` · asked ${question.timesAsked}×`}
+                {question.lastScore !== undefined && (
+                  <Text style={{ color: getScoreColor(question.lastScore) }}>
+                    {` · last ${question.lastScore.toFixed(1)}`}
+                  </Text>
+                )}
+              </Text>
+
+              <View style={styles.actionRow}>
+                {editingId === question.id ? (
+                  <>
+                    <TouchableOpacity style={styles.actionButton} onPress={() => setEditingId(null)}>
+                      <Text style={styles.actionText}>Cancel</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.actionButton} onPress={saveEdit}>
+                      <Text style={[styles.actionText, styles.actionTextPrimary]}>Save</Text>
+                    </TouchableOpacity>
+                  </>
+                ) : (
+                  <>
+                    {!question.retired && (
+                      <TouchableOpacity style={styles.actionButton} onPress={() => update(question.id, { pinned: !question.pinned })}>
+                        <Ionicons name={question.pinned ? 'pin' : 'pin-outline'} size={18} color="#6366F1" />
+                      </TouchableOpacity>
+                    )}
+                    <TouchableOpacity style={styles.actionButton} onPress={() => startEditing(question)}>
+                      <Ionicons name="create-outline" size={18} color="#6B7280" />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.actionButton}
+                      onPress={() => update(question.id, { retired: !question.retired, pinned: false })}
+                    >
+                      <Ionicons
+                        name={question.retired ? 'arrow-undo-outline' : 'archive-outline'}
+                        size={18}
+                        color={question.retired ? '#10B981' : '#EF4444'}
+                      />
+                    </TouchableOpacity>
+                  </>
+                )}
+              </View>
+            </View>
+          ))}
+        </View>
+      ))}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+    paddingBottom: 40,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+    backgroundColor: '#F3F4F6',
+  },
+  emptyText: {
+    marginTop: 16,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#666',
+  },
+  emptySubtext: {
+    marginTop: 6,
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  filterChipActive: {
+    backgroundColor: '#6366F1',
+  },
+  filterText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  filterTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    gap: 10,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+    letterSpacing: 1,
+  },
+  questionRow: {
+    gap: 4,
+    paddingVertical: 8,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#E5E7EB',
+  },
+  questionText: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+  },
+  retiredText: {
+    color: '#9CA3AF',
+    textDecorationLine: 'line-through',
+  },
+  editInput: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+    borderWidth: 1,
+    borderColor: '#A5B4FC',
+    borderRadius: 8,
+    padding: 8,
+  },
+  caption: {
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 4,
+  },
+  actionButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  actionText: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  actionTextPrimary: {
+    color: '#6366F1',
+    fontWeight: '600',
+  },
+});
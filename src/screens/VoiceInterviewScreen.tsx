@@ -1,24 +1,58 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { StyleSheet, View, Text, TouchableOpacity, ScrollView, Alert, LayoutAnimation, Platform, UIManager, SafeAreaView, Modal, StatusBar, ActivityIndicator, Image, Animated, TextInput } from 'react-native';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView, Alert, LayoutAnimation, Platform, UIManager, SafeAreaView, Modal, StatusBar, ActivityIndicator, Image, Animated, TextInput, Switch, KeyboardAvoidingView } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import * as DocumentPicker from 'expo-document-picker';
-import { File } from 'expo-file-system';
 import * as Clipboard from 'expo-clipboard';
 import { BlurView } from 'expo-blur';
 import Slider from '@react-native-community/slider';
-import { InterviewMode, ResumeData } from '../types';
+import { InterviewMode, ResumeData, FitAnalysis, InterviewPlan } from '../types';
 import * as Haptics from 'expo-haptics';
 import { GestureDetector, Gesture } from 'react-native-gesture-handler';
 
 import { useTypewriter } from '../hooks/useTypewriter';
+import { MessageBubble } from '../components/MessageBubble';
 import { useInterviewAudio } from '../hooks/interview/useInterviewAudio';
 import { useInterviewLogic } from '../hooks/interview/useInterviewLogic';
 import { DebugOverlay } from '../components/interview/DebugOverlay';
 import { ResultsModal } from '../components/interview/ResultsModal';
+import { CodingPanel } from '../components/interview/CodingPanel';
+import { DesignStagePanel } from '../components/interview/DesignStagePanel';
+import { FitReportModal } from '../components/interview/FitReportModal';
 import { HistoryPanel } from '../components/history/HistoryPanel';
 import * as historyStorage from '../services/history-storage';
+import * as sessionLogStorage from '../services/session-log-storage';
+import { SessionLog } from '../services/session-recorder';
+import { ReviewItem, DRILL_SIZE, buildDrillPlan, getDueItems, recordDrillResults } from '../services/spaced-repetition';
+import { getQuestionBank, recordPlanQuestions } from '../services/question-bank';
+import { analyzeResumeFit, buildInterviewPlan } from '../interview-planner';
+import { createLLMProvider } from '../services/llm/createLLMProvider';
+import {
+    ResumeLibrary,
+    SavedResume,
+    SavedJobDescription,
+    getResumeLibrary,
+    addPdfResume,
+    addJobDescription,
+    loadResumeInput,
+    renameLibraryEntry,
+    deleteLibraryEntry,
+    loadSelectedLibraryIds,
+    saveSelectedResumeId,
+    saveSelectedJobDescriptionId
+} from '../services/resume-library';
 import TTSService from '../services/tts-service';
-import { TTSProvider, OpenAIVoice, DeepgramVoice } from '../types';
+import { TTSProvider, OpenAIVoice, DeepgramVoice, ScoringPolicyId, InterviewLanguage, AnswerInputMode, InterviewerProfile } from '../types';
+import { SCORING_POLICIES, DEFAULT_SCORING_POLICY_ID, loadScoringPolicyId, saveScoringPolicyId } from '../services/scoring-policy';
+import { INTERVIEW_LANGUAGES, DEFAULT_INTERVIEW_LANGUAGE, loadInterviewLanguage, saveInterviewLanguage } from '../services/interview-language';
+import {
+    BUILT_IN_PROFILES,
+    DEFAULT_INTERVIEWER_PROFILE,
+    getInterviewerProfiles,
+    loadInterviewerProfileId,
+    saveInterviewerProfileId,
+    importInterviewerProfile,
+    exportInterviewerProfile
+} from '../services/interviewer-profiles';
 
 // Enable LayoutAnimation for Android
 if (Platform.OS === 'android') {
@@ -40,6 +74,8 @@ import type { RouteProp } from '@react-navigation/native';
 type RootStackParamList = {
   Interview: undefined;
   TestAudioStream: undefined;
+  Progress: undefined;
+  QuestionBank: undefined;
 };
 
 type NavigationProp = StackNavigationProp<RootStackParamList, 'Interview'>;
@@ -60,6 +96,34 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
     const [sliderValue, setSliderValue] = useState(0);
     const [resumeFile, setResumeFile] = useState<any>(null);
     const [resumeData, setResumeData] = useState<ResumeData | string | null>(null);
+    const [scoringPolicyId, setScoringPolicyId] = useState<ScoringPolicyId>(DEFAULT_SCORING_POLICY_ID);
+    const [language, setLanguage] = useState<InterviewLanguage>(DEFAULT_INTERVIEW_LANGUAGE);
+    const [answerMode, setAnswerMode] = useState<AnswerInputMode>('voice');
+    const [speakReplies, setSpeakReplies] = useState(true);
+    const [interviewerProfileId, setInterviewerProfileId] = useState(DEFAULT_INTERVIEWER_PROFILE.id);
+    const [interviewerProfiles, setInterviewerProfiles] = useState<InterviewerProfile[]>(BUILT_IN_PROFILES);
+
+    // Resume Library State (saved resumes / JDs and the selected pair)
+    const [library, setLibrary] = useState<ResumeLibrary>({ resumes: [], jobDescriptions: [] });
+    const [selectedResumeId, setSelectedResumeId] = useState<string | null>(null);
+    const [selectedJdId, setSelectedJdId] = useState<string | null>(null);
+    // Library entries the running interview started with (closure-safe, linked to the saved session)
+    const sessionLibraryIdsRef = useRef<{ resumeId: string | null; jobDescriptionId: string | null }>({ resumeId: null, jobDescriptionId: null });
+
+    // Fit Report State (analysis + the agenda being edited before the interview)
+    const [fitReport, setFitReport] = useState<FitAnalysis | null>(null);
+    const [fitPlan, setFitPlan] = useState<InterviewPlan | null>(null);
+
+    // Review Drill State (ref for closure-safe access in onInterviewComplete)
+    const [dueReviewItems, setDueReviewItems] = useState<ReviewItem[]>([]);
+    const drillItemsRef = useRef<ReviewItem[] | null>(null);
+
+    // Text Mode State
+    const [typedAnswer, setTypedAnswer] = useState("");
+
+    // Coding Topic State (ref for closure-safe access in onRecordingStop)
+    const [codeDraft, setCodeDraft] = useState("");
+    const codeDraftRef = useRef("");
 
     // Dev Tools State
     const [debugValue, setDebugValue] = useState("10");
@@ -89,6 +153,7 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
         isSendingData,
         transcript,
     } = useInterviewAudio({
+        language,
         onTranscriptUpdate: (text, isFinal) => {
             if (isFinal) {
                 LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
@@ -97,17 +162,22 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
                     const newValue = prev + spacer + text.trim();
                     // ✅ FIX: Keep ref in sync with state
                     liveTranscriptRef.current = newValue;
+                    speculateAnswer(newValue);
                     return newValue;
                 });
+            } else {
+                // Speculative reply from what has been said so far
+                speculateAnswer(`${liveTranscriptRef.current} ${text}`);
             }
         },
-        onRecordingStop: () => {
+        onRecordingStop: (speech) => {
             // ✅ FIX: Read from ref instead of state to avoid stale closure
             const currentTranscript = liveTranscriptRef.current;
             console.log(`🎙️ [RECORDING_STOP] Transcript to process: "${currentTranscript.substring(0, 50)}..."`);
 
             if (currentTranscript.trim().length > 0) {
-                processUserInput(currentTranscript);
+                // Editor contents are only used while a Coding topic is active
+                processUserInput(currentTranscript, codeDraftRef.current || undefined, speech);
 
                 // Clear both state and ref
                 setLiveTranscript("");
@@ -130,6 +200,7 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
         engagement,              // ← NEW
         currentVibe,            // ← NEW
         currentTopic,
+        currentStage,
         isProcessing,
         isFinished,
         metrics,
@@ -140,13 +211,20 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
         isLobbyPhase,
         isPlanReady,
         finalReport,
+        inputMode,
         initializeInterview,
         processUserInput,
+        speculateAnswer,
         forceFinish,
         restart,
         progress,
         simulateAnswer,  // NEW: For smart AI simulation
         setEngagement,   // ← NEW: For debug overlay slider
+        isReplaying,
+        startReplay,
+        getSessionLog,
+        ttsFailovers,
+        turnLatencies,
     } = useInterviewLogic({
         onAIStart: async () => {
             // Stop recording when AI starts speaking
@@ -165,11 +243,30 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
             console.log('✅ [INTERVIEW] Interview Complete Callback TRIGGERED!');
             console.log('📊 [INTERVIEW] Results:', JSON.stringify(results, null, 2));
 
+            // Replays reproduce an existing session - don't add it to history again
+            if (isReplaying) {
+                console.log('📼 [REPLAY] Replay complete, not saving to history');
+                return;
+            }
+
             // Save to history
             try {
                 console.log('💾 [HISTORY] Attempting to save session...');
 
-                const roleTitle = resumeFile?.name || jdText.substring(0, 50) || "Interview Session";
+                // Review drills reschedule the drilled items from the new scores
+                if (drillItemsRef.current) {
+                    await recordDrillResults(drillItemsRef.current, results.questions);
+                }
+
+                // Asked questions update the question bank (times asked, last score)
+                if (plan) {
+                    await recordPlanQuestions(plan, results.questions);
+                }
+
+                const isDrill = !!drillItemsRef.current;
+                const roleTitle = isDrill
+                    ? "Review Drill"
+                    : selectedJd?.name || resumeFile?.name || jdText.substring(0, 50) || "Interview Session";
                 console.log(`💾 [HISTORY] Role Title: ${roleTitle}`);
                 console.log(`💾 [HISTORY] Average Score: ${results.averageScore}`);
                 console.log(`💾 [HISTORY] Questions Count: ${results.questions.length}`);
@@ -179,7 +276,14 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
                     roleTitle,
                     results.averageScore,
                     results.overallSummary,
-                    results.questions
+                    results.questions,
+                    results.scoringPolicyId,
+                    results.language,
+                    results.inputMode,
+                    results.categoryLevels,
+                    sessionLibraryIdsRef.current.resumeId || undefined,
+                    sessionLibraryIdsRef.current.jobDescriptionId || undefined,
+                    isDrill ? undefined : plan?.meta.job_role
                 );
 
                 console.log('✅ [HISTORY] Session saved SUCCESSFULLY!');
@@ -194,6 +298,20 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
         }
     });
 
+    // Coding topics show the problem and an editor above the chat
+    const activeTopicData = plan && !isLobbyPhase ? plan.queue[currentTopicIndex] : undefined;
+    const codingProblem = activeTopicData?.type === 'Coding' ? activeTopicData.problem : undefined;
+
+    const handleCodeChange = (code: string) => {
+        setCodeDraft(code);
+        codeDraftRef.current = code;
+    };
+
+    // Fresh editor (starter code) for every topic
+    useEffect(() => {
+        handleCodeChange(codingProblem?.starterCode || "");
+    }, [activeTopicData?.id]);
+
     // Typewriter effect for AI messages
     const latestAiMessage = messages.length > 0 && messages[messages.length - 1].sender === 'ai'
         ? messages[messages.length - 1].text
@@ -214,6 +332,12 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
             setTtsProviderState(currentProvider);
             setOpenaiVoice(currentVoice);
             setOpenaiInstructionsState(currentInstructions);
+            loadScoringPolicyId().then(setScoringPolicyId);
+            loadInterviewLanguage().then(setLanguage);
+            loadInterviewerProfileId().then(setInterviewerProfileId);
+            getInterviewerProfiles().then(setInterviewerProfiles);
+            getDueItems(Infinity).then(setDueReviewItems);
+            loadLibrary();
         }
     }, [showSettings]);
 
@@ -245,6 +369,55 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     };
 
+    // Handle scoring policy change (applies from the next interview)
+    const handleScoringPolicyChange = (id: ScoringPolicyId) => {
+        setScoringPolicyId(id);
+        saveScoringPolicyId(id);
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    };
+
+    // Selected interviewer profile (unknown ids fall back to the standard interview)
+    const selectedProfile = interviewerProfiles.find(profile => profile.id === interviewerProfileId) || DEFAULT_INTERVIEWER_PROFILE;
+
+    // Handle interviewer profile change (applies from the next interview)
+    const handleInterviewerProfileChange = (id: string) => {
+        setInterviewerProfileId(id);
+        saveInterviewerProfileId(id);
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    };
+
+    // Import a team-written profile JSON and select it
+    const handleImportInterviewerProfile = async () => {
+        const profile = await importInterviewerProfile();
+        if (!profile) return;
+
+        setInterviewerProfiles(await getInterviewerProfiles());
+        handleInterviewerProfileChange(profile.id);
+    };
+
+    // Handle interview language change (applies from the next interview)
+    const handleLanguageChange = (code: InterviewLanguage) => {
+        setLanguage(code);
+        saveInterviewLanguage(code);
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    };
+
+    // Handle answer mode change (applies from the next interview)
+    const handleAnswerModeChange = (value: AnswerInputMode) => {
+        setAnswerMode(value);
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    };
+
+    // Text mode: send the typed answer through the same pipeline as voice transcripts
+    const handleSendTypedAnswer = () => {
+        const answer = typedAnswer.trim();
+        if (!answer || isProcessing || isFinished) return;
+
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        setTypedAnswer("");
+        processUserInput(answer, codeDraft || undefined);
+    };
+
     // Handle OpenAI voice change
     const handleOpenaiVoiceChange = async (voice: OpenAIVoice) => {
         setOpenaiVoice(voice);
@@ -293,6 +466,119 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
         setMode(getModeFromSlider(val));
     };
 
+    // ============================================
+    // RESUME LIBRARY
+    // ============================================
+
+    // Load saved resumes / JDs, restoring the last selection on first open
+    const loadLibrary = async () => {
+        const saved = await getResumeLibrary();
+        setLibrary(saved);
+        if (selectedResumeId || selectedJdId) return;
+
+        const { resumeId, jobDescriptionId } = await loadSelectedLibraryIds();
+        const resume = saved.resumes.find(r => r.id === resumeId);
+        const jobDescription = saved.jobDescriptions.find(jd => jd.id === jobDescriptionId);
+        if (resume) selectResume(resume);
+        if (jobDescription) selectJobDescription(jobDescription);
+    };
+
+    const selectResume = (resume: SavedResume) => {
+        try {
+            const input = loadResumeInput(resume);
+            setResumeData(typeof input === 'string' ? null : input);
+            setResumeText(typeof input === 'string' ? input : `✅ PDF Loaded: ${resume.fileName || resume.name}`);
+            setResumeFile({ name: resume.name });
+            setSelectedResumeId(resume.id);
+            saveSelectedResumeId(resume.id);
+            console.log(`📚 [LIBRARY] Selected resume "${resume.name}"`);
+        } catch (error) {
+            console.error("❌ [LIBRARY] Failed to load resume:", error);
+            Alert.alert("Error Reading PDF", `Could not read "${resume.name}". Delete it and upload it again.`);
+        }
+    };
+
+    const selectJobDescription = (jobDescription: SavedJobDescription) => {
+        setJdText(jobDescription.text);
+        setSelectedJdId(jobDescription.id);
+        saveSelectedJobDescriptionId(jobDescription.id);
+        console.log(`📚 [LIBRARY] Selected job description "${jobDescription.name}"`);
+    };
+
+    // Names are edited in place and saved when editing ends
+    const handleRenameLocally = (id: string, name: string) => {
+        setLibrary(prev => ({
+            resumes: prev.resumes.map(r => r.id === id ? { ...r, name } : r),
+            jobDescriptions: prev.jobDescriptions.map(jd => jd.id === id ? { ...jd, name } : jd)
+        }));
+    };
+
+    const handleDeleteLibraryEntry = (entry: { id: string; name: string }) => {
+        Alert.alert(`Delete "${entry.name}"?`, "Saved sessions keep their scores.", [
+            { text: "Cancel", style: "cancel" },
+            {
+                text: "Delete",
+                style: "destructive",
+                onPress: async () => {
+                    setLibrary(await deleteLibraryEntry(entry.id));
+
+                    // Deleting the selected entry falls back to the sample resume / JD
+                    if (entry.id === selectedResumeId) {
+                        setResumeData(null);
+                        setResumeText(MOCK_RESUME);
+                        setResumeFile(null);
+                        setSelectedResumeId(null);
+                        saveSelectedResumeId(null);
+                    }
+                    if (entry.id === selectedJdId) {
+                        setJdText(MOCK_JOB_DESCRIPTION);
+                        setSelectedJdId(null);
+                        saveSelectedJobDescriptionId(null);
+                    }
+                }
+            }
+        ]);
+    };
+
+    const selectedResume = library.resumes.find(r => r.id === selectedResumeId);
+    const selectedJd = library.jobDescriptions.find(jd => jd.id === selectedJdId);
+
+    // Saved entries as chips (tap to select, long-press to delete)
+    const renderLibraryChips = <T extends { id: string; name: string }>(
+        entries: T[],
+        selectedId: string | null,
+        onSelect: (entry: T) => void
+    ) => entries.length > 0 && (
+        <View style={[styles.chipRow, { marginTop: -5, marginBottom: 8 }]}>
+            {entries.map(entry => {
+                const isActive = entry.id === selectedId;
+                return (
+                    <TouchableOpacity
+                        key={entry.id}
+                        style={[styles.voiceChip, styles.chipRowItem, isActive && styles.voiceChipActive]}
+                        onPress={() => onSelect(entry)}
+                        onLongPress={() => handleDeleteLibraryEntry(entry)}
+                    >
+                        <Text style={[styles.voiceChipText, isActive && styles.voiceChipTextActive]} numberOfLines={1}>
+                            {entry.name}
+                        </Text>
+                    </TouchableOpacity>
+                );
+            })}
+        </View>
+    );
+
+    const renderLibraryNameInput = (entry: { id: string; name: string }) => (
+        <TextInput
+            style={styles.libraryNameInput}
+            value={entry.name}
+            onChangeText={name => handleRenameLocally(entry.id, name)}
+            onEndEditing={event => renameLibraryEntry(entry.id, event.nativeEvent.text).then(setLibrary)}
+            placeholder="Name (e.g. Senior RN dev @ fintech)"
+            placeholderTextColor="#999"
+        />
+    );
+
     const pickResume = async () => {
         try {
             const result = await DocumentPicker.getDocumentAsync({
@@ -313,27 +599,10 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
                 setResumeText("Reading PDF...");
 
                 try {
-                    // Создаем экземпляр File из URI
-                    const fileInstance = new File(file.uri);
-
-                    // Читаем PDF как base64 используя новый API
-                    const pdfBase64 = fileInstance.base64Sync();
-
-                    console.log("📄 [PICK_RESUME] PDF read successfully");
-                    console.log(`📄 [PICK_RESUME] Base64 length: ${pdfBase64.length}`);
-
-                    // Создаем ResumeData объект
-                    const resumeDataObj: ResumeData = {
-                        text: "PDF Resume Loaded", // Fallback текст
-                        pdfUri: file.uri,
-                        pdfBase64: pdfBase64,
-                        usePdfDirectly: true,
-                        fileSize: fileSize
-                    };
-
-                    // Сохраняем ResumeData для инициализации интервью
-                    setResumeData(resumeDataObj);
-                    setResumeText(`✅ PDF Loaded: ${file.name} (${(fileSize / 1024).toFixed(0)} KB)`);
+                    // Keep a named copy in the library, then load it like any saved resume
+                    const saved = await addPdfResume(file.uri, file.name, fileSize);
+                    setLibrary(await getResumeLibrary());
+                    selectResume(saved);
 
                     console.log("📄 [PICK_RESUME] ResumeData created successfully");
 
@@ -356,8 +625,10 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
         try {
             const text = await Clipboard.getStringAsync();
             if (text) {
-                setJdText(text);
-                Alert.alert("Success", "Job Description pasted!");
+                const saved = await addJobDescription(text);
+                setLibrary(await getResumeLibrary());
+                selectJobDescription(saved);
+                Alert.alert("Success", `Job Description saved as "${saved.name}". You can rename it below.`);
             } else {
                 Alert.alert("Clipboard Empty", "No text found.");
             }
@@ -369,6 +640,8 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
     const handleSaveAndRestart = async () => {
         setIsGenerating(true);
         setShowSettings(false);
+        drillItemsRef.current = null;
+        sessionLibraryIdsRef.current = { resumeId: selectedResumeId, jobDescriptionId: selectedJdId };
 
         try {
             // Передаем ResumeData или string в зависимости от типа
@@ -377,7 +650,57 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
             console.log("📄 [START_INTERVIEW] Resume input type:", typeof resumeInput);
             console.log("📄 [START_INTERVIEW] Using PDF:", typeof resumeInput === 'object' && 'usePdfDirectly' in resumeInput);
 
-            await initializeInterview(resumeInput, jdText, mode);
+            await initializeInterview(resumeInput, jdText, mode, {
+                scoringPolicyId,
+                language,
+                inputMode: answerMode,
+                // Voice answers always get spoken replies
+                speakReplies: answerMode === 'voice' || speakReplies,
+                interviewerProfileId
+            });
+        } catch (error) {
+            Alert.alert("Error", "Failed to initialize interview.");
+            console.error(error);
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    // Analyze resume vs JD first and let the user edit the agenda before starting
+    const handleReviewFit = async () => {
+        setIsGenerating(true);
+        try {
+            const questionBank = await getQuestionBank();
+            const fit = await analyzeResumeFit(resumeData || resumeText, jdText, questionBank, createLLMProvider(), language, selectedProfile);
+            setFitPlan(buildInterviewPlan(fit, mode, questionBank, language, selectedProfile));
+            setFitReport(fit);
+            setShowSettings(false);
+        } catch (error) {
+            Alert.alert("Error", "Failed to analyze the resume.");
+            console.error(error);
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    const handleStartFromFit = async () => {
+        const presetPlan = fitPlan;
+        if (!presetPlan) return;
+
+        setFitReport(null);
+        setIsGenerating(true);
+        drillItemsRef.current = null;
+        sessionLibraryIdsRef.current = { resumeId: selectedResumeId, jobDescriptionId: selectedJdId };
+
+        try {
+            await initializeInterview(resumeData || resumeText, jdText, mode, {
+                scoringPolicyId,
+                language,
+                inputMode: answerMode,
+                speakReplies: answerMode === 'voice' || speakReplies,
+                interviewerProfileId,
+                presetPlan
+            });
         } catch (error) {
             Alert.alert("Error", "Failed to initialize interview.");
             console.error(error);
@@ -386,6 +709,36 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
         }
     };
 
+    /**
+     * Short interview over the most overdue review items (weak answers and favorites)
+     */
+    const handleStartDrill = async () => {
+        const items = dueReviewItems.slice(0, DRILL_SIZE);
+        if (items.length === 0) return;
+
+        setIsGenerating(true);
+        setShowSettings(false);
+        drillItemsRef.current = items;
+        // Drills aren't practice for a target job
+        sessionLibraryIdsRef.current = { resumeId: null, jobDescriptionId: null };
+
+        try {
+            await initializeInterview(resumeData || resumeText, jdText, 'short', {
+                scoringPolicyId,
+                language,
+                inputMode: answerMode,
+                speakReplies: answerMode === 'voice' || speakReplies,
+                interviewerProfileId,
+                presetPlan: buildDrillPlan(items)
+            });
+        } catch (error) {
+            Alert.alert("Error", "Failed to start the review drill.");
+            console.error(error);
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
     const handleReturnToSettings = () => {
         restart();
         setShowSettings(true);
@@ -419,6 +772,35 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
         await forceFinish();
     };
 
+    const handleExportSessionLog = async () => {
+        const log = getSessionLog() || await sessionLogStorage.getLatestSessionLog();
+        if (!log) {
+            Alert.alert("No Session Log", "Start an interview first - sessions are recorded automatically.");
+            return;
+        }
+        await sessionLogStorage.exportSessionLog(log);
+    };
+
+    const runReplay = async (log: SessionLog | null) => {
+        if (!log) return;
+        setShowDebug(false);
+        setShowSettings(false);
+        restart();
+        try {
+            await startReplay(log);
+        } catch (error) {
+            console.error("❌ [REPLAY] Failed to start:", error);
+        }
+    };
+
+    const handleReplaySessionLog = async () => {
+        Alert.alert("Replay Session", "Feed a recorded session back through the interview (no LLM or TTS calls).", [
+            { text: "Cancel", style: "cancel" },
+            { text: "Pick File…", onPress: async () => runReplay(await sessionLogStorage.importSessionLog()) },
+            { text: "Latest Session", onPress: async () => runReplay(await sessionLogStorage.getLatestSessionLog()) }
+        ]);
+    };
+
     const handleSimulate = async () => {
         if (!plan) return;
         if (isSimulating) return;
@@ -517,6 +899,12 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
                     // NEW: TTS Provider props
                     ttsProvider={ttsProvider}
                     openaiVoice={openaiVoice}
+                    ttsFailovers={ttsFailovers}
+                    turnLatencies={turnLatencies}
+                    // Session recording & replay
+                    isReplaying={isReplaying}
+                    onExportSessionLog={handleExportSessionLog}
+                    onReplaySessionLog={handleReplaySessionLog}
                 />
 
                 <View style={styles.header}>
@@ -593,6 +981,49 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
                                 </View>
 
 
+                                <Text style={styles.sectionTitle}>Interview Language</Text>
+                                <View style={[styles.chipRow, { marginBottom: 12 }]}>
+                                    {Object.values(INTERVIEW_LANGUAGES).map(lang => {
+                                        const isActive = lang.code === language;
+                                        return (
+                                            <TouchableOpacity
+                                                key={lang.code}
+                                                style={[styles.voiceChip, styles.chipRowItem, isActive && styles.voiceChipActive]}
+                                                onPress={() => handleLanguageChange(lang.code)}
+                                            >
+                                                <Text style={[styles.voiceChipText, isActive && styles.voiceChipTextActive]}>
+                                                    {lang.label}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        );
+                                    })}
+                                </View>
+
+                                <Text style={styles.sectionTitle}>Answer Mode</Text>
+                                <View style={styles.chipRow}>
+                                    {([['voice', 'Voice'], ['text', 'Text']] as const).map(([value, label]) => {
+                                        const isActive = value === answerMode;
+                                        return (
+                                            <TouchableOpacity
+                                                key={value}
+                                                style={[styles.voiceChip, styles.chipRowItem, isActive && styles.voiceChipActive]}
+                                                onPress={() => handleAnswerModeChange(value)}
+                                            >
+                                                <Text style={[styles.voiceChipText, isActive && styles.voiceChipTextActive]}>
+                                                    {label}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        );
+                                    })}
+                                </View>
+                                {answerMode === 'text' && (
+                                    <View style={styles.switchRow}>
+                                        <Text style={styles.switchRowLabel}>Read Victoria's replies aloud</Text>
+                                        <Switch value={speakReplies} onValueChange={setSpeakReplies} />
+                                    </View>
+                                )}
+                                <View style={{ marginBottom: 12 }} />
+
                                 <Text style={styles.sectionTitle}>1. Setup</Text>
                                 <TouchableOpacity style={styles.glassButton} onPress={pickResume}>
                                     <Ionicons name="document-text-outline" size={24} color="#333" />
@@ -601,21 +1032,76 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
                                     </Text>
                                     {resumeFile && <Ionicons name="checkmark-circle" size={20} color="#4CAF50" style={{ marginLeft: 10 }} />}
                                 </TouchableOpacity>
+                                {renderLibraryChips(library.resumes, selectedResumeId, selectResume)}
+                                {selectedResume && renderLibraryNameInput(selectedResume)}
 
                                 <TouchableOpacity style={styles.glassButton} onPress={pasteJD}>
                                     <Ionicons name="clipboard-outline" size={24} color="#333" />
                                     <Text style={styles.glassButtonText}>
-                                        {jdText !== MOCK_JOB_DESCRIPTION ? "JD Pasted!" : "Paste Job Description"}
+                                        {selectedJd ? `JD: ${selectedJd.name}` : jdText !== MOCK_JOB_DESCRIPTION ? "JD Pasted!" : "Paste Job Description"}
                                     </Text>
                                     {jdText !== MOCK_JOB_DESCRIPTION && <Ionicons name="checkmark-circle" size={20} color="#4CAF50" style={{ marginLeft: 10 }} />}
                                 </TouchableOpacity>
+                                {renderLibraryChips(library.jobDescriptions, selectedJdId, selectJobDescription)}
+                                {selectedJd && renderLibraryNameInput(selectedJd)}
 
                                 <Text style={styles.sectionTitle}>2. Duration</Text>
                                 {renderSlider()}
 
+                                <Text style={styles.sectionTitle}>3. Scoring</Text>
+                                <View style={styles.chipRow}>
+                                    {Object.values(SCORING_POLICIES).map(policy => {
+                                        const isActive = policy.id === scoringPolicyId;
+                                        return (
+                                            <TouchableOpacity
+                                                key={policy.id}
+                                                style={[styles.voiceChip, styles.chipRowItem, isActive && styles.voiceChipActive]}
+                                                onPress={() => handleScoringPolicyChange(policy.id)}
+                                            >
+                                                <Text style={[styles.voiceChipText, isActive && styles.voiceChipTextActive]}>
+                                                    {policy.label}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        );
+                                    })}
+                                </View>
+                                <Text style={styles.scoringPolicyDescription}>
+                                    {SCORING_POLICIES[scoringPolicyId].description}
+                                </Text>
+
+                                <Text style={styles.sectionTitle}>4. Interview Style</Text>
+                                <View style={styles.chipRow}>
+                                    {interviewerProfiles.map(profile => {
+                                        const isActive = profile.id === selectedProfile.id;
+                                        return (
+                                            <TouchableOpacity
+                                                key={profile.id}
+                                                style={[styles.voiceChip, styles.chipRowItem, isActive && styles.voiceChipActive]}
+                                                onPress={() => handleInterviewerProfileChange(profile.id)}
+                                            >
+                                                <Text style={[styles.voiceChipText, isActive && styles.voiceChipTextActive]}>
+                                                    {profile.name}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        );
+                                    })}
+                                    <TouchableOpacity
+                                        style={[styles.voiceChip, styles.chipRowItem]}
+                                        onPress={handleImportInterviewerProfile}
+                                    >
+                                        <Text style={styles.voiceChipText}>Import…</Text>
+                                    </TouchableOpacity>
+                                </View>
+                                <Text style={styles.scoringPolicyDescription}>
+                                    {selectedProfile.description}{' '}
+                                    <Text style={styles.linkText} onPress={() => exportInterviewerProfile(selectedProfile)}>
+                                        Share JSON
+                                    </Text>
+                                </Text>
+
                                 {plan && (
                                     <View style={{ marginTop: 20 }}>
-                                        <Text style={styles.sectionTitle}>3. Agenda Preview</Text>
+                                        <Text style={styles.sectionTitle}>5. Agenda Preview</Text>
                                         <View style={styles.planPreview}>
                                             {plan.queue.map((item, i) => (
                                                 <Text key={item.id} style={{ fontSize: 14, color: '#333', marginBottom: 5 }}>
@@ -626,6 +1112,32 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
                                     </View>
                                 )}
 
+                                {dueReviewItems.length > 0 && (
+                                    <TouchableOpacity
+                                        style={styles.modalDrillButton}
+                                        onPress={handleStartDrill}
+                                        disabled={isGenerating}
+                                    >
+                                        <Text style={styles.modalDrillButtonText}>
+                                            REVIEW DRILL · {dueReviewItems.length} DUE
+                                        </Text>
+                                        <Text style={styles.modalDrillButtonHint}>
+                                            {dueReviewItems.slice(0, DRILL_SIZE).map(item => item.topic).join(' · ')}
+                                        </Text>
+                                    </TouchableOpacity>
+                                )}
+
+                                <TouchableOpacity
+                                    style={styles.modalDrillButton}
+                                    onPress={handleReviewFit}
+                                    disabled={isGenerating}
+                                >
+                                    <Text style={styles.modalDrillButtonText}>REVIEW FIT FIRST</Text>
+                                    <Text style={styles.modalDrillButtonHint}>
+                                        See matches, gaps and a study list, then edit the agenda
+                                    </Text>
+                                </TouchableOpacity>
+
                                 <TouchableOpacity
                                     style={styles.modalGenerateButton}
                                     onPress={handleSaveAndRestart}
@@ -652,6 +1164,21 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
                     </View>
                 )}
 
+                {/* Coding Exercise */}
+                {codingProblem && (
+                    <CodingPanel
+                        problem={codingProblem}
+                        code={codeDraft}
+                        onChangeCode={handleCodeChange}
+                        editable={!isProcessing && !isFinished}
+                    />
+                )}
+
+                {/* System-Design Stages */}
+                {activeTopicData?.type === 'SystemDesign' && currentStage && (
+                    <DesignStagePanel topic={activeTopicData} currentStage={currentStage} />
+                )}
+
                 {/* Chat Container */}
                 <View style={styles.chatContainer}>
                     <ScrollView
@@ -660,7 +1187,17 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
                         ref={ref => ref?.scrollToEnd({ animated: true })}
                         showsVerticalScrollIndicator={false}
                     >
-                        {messages.map((msg, index) => (
+                        {inputMode === 'text' && messages.map((msg, index) => (
+                            <MessageBubble
+                                key={msg.id}
+                                role={msg.sender}
+                                text={msg.text}
+                                avatar={VICTORIA_AVATAR_URL}
+                                isLatestAi={msg.sender === 'ai' && index === messages.length - 1}
+                            />
+                        ))}
+
+                        {inputMode === 'voice' && messages.map((msg, index) => (
                             <View key={msg.id} style={[
                                 styles.messageRow,
                                 msg.sender === 'user' ? styles.rowRight : styles.rowLeft
@@ -698,7 +1235,9 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
 
                         {messages.length === 0 && displayTranscript.length === 0 && (
                             <View style={styles.placeholderContainer}>
-                                <Text style={styles.placeholderText}>Tap the mic to begin.</Text>
+                                <Text style={styles.placeholderText}>
+                                    {inputMode === 'text' ? "Type your answer below to begin." : "Tap the mic to begin."}
+                                </Text>
                             </View>
                         )}
                     </ScrollView>
@@ -713,42 +1252,99 @@ function VoiceInterviewScreen({ navigation }: { navigation: NavigationProp }) {
                     roleTitle={resumeFile?.name || "Interview Session"}
                 />
 
-                {/* Mic Controls */}
-                <View style={styles.controls}>
-                    <TouchableOpacity
-                        onPress={toggleRecording}
-                        disabled={isProcessing}
-                        activeOpacity={0.7}
+                {/* Text Controls */}
+                {inputMode === 'text' && (
+                    <KeyboardAvoidingView
+                        style={styles.textControls}
+                        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
                     >
-                        <Animated.View style={[
-                            styles.micButton,
-                            isRecording ? styles.recording : null,
-                            isProcessing ? styles.micButtonDisabled : null,
-                            { transform: [{ scale: micScale }] }
-                        ]}>
-                            {isProcessing ? (
-                                <ActivityIndicator color="#FFF" />
-                            ) : (
-                                <Ionicons name={isRecording ? "stop" : "mic"} size={32} color="#FFF" />
-                            )}
-                        </Animated.View>
-                    </TouchableOpacity>
+                        <View style={styles.textComposer}>
+                            <TextInput
+                                style={styles.textComposerInput}
+                                value={typedAnswer}
+                                onChangeText={setTypedAnswer}
+                                placeholder="Type your answer..."
+                                placeholderTextColor="#9CA3AF"
+                                multiline
+                                editable={!isFinished}
+                            />
+                            <TouchableOpacity
+                                style={[
+                                    styles.sendButton,
+                                    (isProcessing || !typedAnswer.trim()) ? styles.micButtonDisabled : null
+                                ]}
+                                onPress={handleSendTypedAnswer}
+                                disabled={isProcessing || isFinished || !typedAnswer.trim()}
+                                activeOpacity={0.7}
+                            >
+                                {isProcessing ? (
+                                    <ActivityIndicator color="#FFF" />
+                                ) : (
+                                    <Ionicons name="arrow-up" size={22} color="#FFF" />
+                                )}
+                            </TouchableOpacity>
+                        </View>
+                    </KeyboardAvoidingView>
+                )}
 
-                    {isRecording && (
-                        <View style={[
-                            styles.vadPixel,
-                            {
-                                backgroundColor: isProcessing ? '#10B981' : (isSendingData ? '#A855F7' : '#FACC15'),
-                                shadowColor: isProcessing ? '#10B981' : (isSendingData ? '#A855F7' : '#FACC15'),
-                            }
-                        ]} />
-                    )}
-                </View>
+                {/* Mic Controls */}
+                {inputMode === 'voice' && (
+                    <View style={styles.controls}>
+                        <TouchableOpacity
+                            onPress={toggleRecording}
+                            disabled={isProcessing}
+                            activeOpacity={0.7}
+                        >
+                            <Animated.View style={[
+                                styles.micButton,
+                                isRecording ? styles.recording : null,
+                                isProcessing ? styles.micButtonDisabled : null,
+                                { transform: [{ scale: micScale }] }
+                            ]}>
+                                {isProcessing ? (
+                                    <ActivityIndicator color="#FFF" />
+                                ) : (
+                                    <Ionicons name={isRecording ? "stop" : "mic"} size={32} color="#FFF" />
+                                )}
+                            </Animated.View>
+                        </TouchableOpacity>
+
+                        {isRecording && (
+                            <View style={[
+                                styles.vadPixel,
+                                {
+                                    backgroundColor: isProcessing ? '#10B981' : (isSendingData ? '#A855F7' : '#FACC15'),
+                                    shadowColor: isProcessing ? '#10B981' : (isSendingData ? '#A855F7' : '#FACC15'),
+                                }
+                            ]} />
+                        )}
+                    </View>
+                )}
+
+                <FitReportModal
+                    visible={!!fitReport}
+                    fit={fitReport}
+                    plan={fitPlan}
+                    onChangePlan={setFitPlan}
+                    onStart={handleStartFromFit}
+                    onClose={() => {
+                        setFitReport(null);
+                        setShowSettings(true);
+                    }}
+                />
 
                 {/* HISTORY PANEL - MUST BE LAST for proper z-index */}
                 <HistoryPanel
                     visible={showHistory}
                     onClose={() => setShowHistory(false)}
+                    onOpenProgress={() => {
+                        setShowHistory(false);
+                        navigation.navigate('Progress');
+                    }}
+                    onOpenQuestionBank={() => {
+                        setShowHistory(false);
+                        navigation.navigate('QuestionBank');
+                    }}
                 />
             </SafeAreaView>
         </GestureDetector>
@@ -875,6 +1471,43 @@ const styles = StyleSheet.create({
         backgroundColor: '#6B7280',
         opacity: 0.8,
     },
+    textControls: {
+        position: 'absolute',
+        left: 0,
+        right: 0,
+        bottom: 0,
+    },
+    textComposer: {
+        flexDirection: 'row',
+        alignItems: 'flex-end',
+        paddingHorizontal: 16,
+        paddingTop: 10,
+        paddingBottom: 30,
+        backgroundColor: '#FFF',
+        borderTopWidth: 1,
+        borderTopColor: '#E5E7EB',
+    },
+    textComposerInput: {
+        flex: 1,
+        minHeight: 44,
+        maxHeight: 120,
+        paddingHorizontal: 14,
+        paddingTop: 12,
+        paddingBottom: 12,
+        marginRight: 10,
+        borderRadius: 22,
+        backgroundColor: '#F3F4F6',
+        fontSize: 16,
+        color: '#1F2937',
+    },
+    sendButton: {
+        width: 44,
+        height: 44,
+        borderRadius: 22,
+        backgroundColor: '#000',
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
     blurContainer: {
         flex: 1,
         justifyContent: 'center',
@@ -966,6 +1599,26 @@ const styles = StyleSheet.create({
         fontSize: 18,
         fontWeight: 'bold',
     },
+    modalDrillButton: {
+        borderWidth: 2,
+        borderColor: '#000',
+        paddingVertical: 14,
+        paddingHorizontal: 16,
+        borderRadius: 15,
+        alignItems: 'center',
+        marginTop: 20,
+    },
+    modalDrillButtonText: {
+        color: '#000',
+        fontSize: 16,
+        fontWeight: 'bold',
+    },
+    modalDrillButtonHint: {
+        marginTop: 4,
+        fontSize: 12,
+        color: '#666',
+        textAlign: 'center',
+    },
     planPreview: {
         backgroundColor: 'rgba(255,255,255,0.5)',
         padding: 15,
@@ -1045,6 +1698,40 @@ const styles = StyleSheet.create({
         color: '#999',
         marginTop: 2,
     },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+    },
+    chipRowItem: {
+        marginBottom: 8,
+    },
+    switchRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        marginTop: 4,
+    },
+    switchRowLabel: {
+        fontSize: 14,
+        color: '#333',
+    },
+    libraryNameInput: {
+        fontSize: 13,
+        color: '#333',
+        borderBottomWidth: 1,
+        borderBottomColor: '#E0E0E0',
+        paddingVertical: 6,
+        marginBottom: 15,
+    },
+    scoringPolicyDescription: {
+        fontSize: 12,
+        color: '#666',
+        marginBottom: 20,
+    },
+    linkText: {
+        color: '#007AFF',
+        fontWeight: '600',
+    },
     // NEW: Muted banner styles
     mutedBanner: {
         flexDirection: 'row',
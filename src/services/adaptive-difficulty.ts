@@ -0,0 +1,121 @@
+import { CategoryLevel, DifficultyLevel, QuestionResult } from '../types';
+
+// ============================================
+// LEVELS
+// ============================================
+
+export const DIFFICULTY_LABELS: Record<DifficultyLevel, string> = {
+  1: 'Entry',
+  2: 'Junior',
+  3: 'Mid',
+  4: 'Senior',
+  5: 'Staff'
+};
+
+export const DEFAULT_DIFFICULTY: DifficultyLevel = 3;
+
+const MIN_DIFFICULTY: DifficultyLevel = 1;
+const MAX_DIFFICULTY: DifficultyLevel = 5;
+
+const clampLevel = (level: number): DifficultyLevel =>
+  Math.min(Math.max(Math.round(level), MIN_DIFFICULTY), MAX_DIFFICULTY) as DifficultyLevel;
+
+/**
+ * Starting difficulty from the job title (the rolling score takes over
+ * after the first scored topic)
+ */
+export function initialDifficulty(jobRole: string): DifficultyLevel {
+  const role = jobRole.toLowerCase();
+  if (/\b(staff|principal|architect)\b/.test(role)) return 5;
+  if (/\b(senior|sr\.?|lead)\b/.test(role)) return 4;
+  if (/\b(junior|jr\.?|intern|trainee|graduate)\b/.test(role)) return 2;
+  return DEFAULT_DIFFICULTY;
+}
+
+// ============================================
+// STAIRCASE (computerized-adaptive-testing style)
+// ============================================
+//
+// Every scored answer feeds an exponential moving average of compositeScore.
+// When a topic ends, the next topic's difficulty moves one step:
+// - rolling score >= STEP_UP_AT  → harder
+// - rolling score <  STEP_DOWN_BELOW → easier
+// - otherwise the candidate stays at the current level
+// ============================================
+
+const ROLLING_WEIGHT = 0.5;   // Weight of the newest answer
+const STEP_UP_AT = 7.5;
+const STEP_DOWN_BELOW = 5;
+
+/**
+ * Rolling compositeScore after one more scored answer
+ */
+export function updateRollingScore(rollingScore: number | null, score: number): number {
+  if (rollingScore === null) return score;
+  return Number(((1 - ROLLING_WEIGHT) * rollingScore + ROLLING_WEIGHT * score).toFixed(2));
+}
+
+/**
+ * Difficulty of the next topic
+ */
+export function nextDifficulty(difficulty: DifficultyLevel, rollingScore: number | null): DifficultyLevel {
+  if (rollingScore === null) return difficulty;
+  if (rollingScore >= STEP_UP_AT) return clampLevel(difficulty + 1);
+  if (rollingScore < STEP_DOWN_BELOW) return clampLevel(difficulty - 1);
+  return difficulty;
+}
+
+/**
+ * What the answer being evaluated would do to the next topic's difficulty,
+ * as compositeScore thresholds (lets Victoria phrase the next question at the
+ * level the engine will settle on). up/down are null when out of reach.
+ */
+export function difficultyThresholds(
+  difficulty: DifficultyLevel,
+  rollingScore: number | null
+): { up: number | null; down: number | null } {
+  // Score s gives rolling = previous × (1 - w) + s × w (or s for the first answer)
+  const scoreFor = (rolling: number) => rollingScore === null
+    ? rolling
+    : (rolling - (1 - ROLLING_WEIGHT) * rollingScore) / ROLLING_WEIGHT;
+
+  const up = Math.max(0, Math.ceil(scoreFor(STEP_UP_AT) * 10) / 10);
+  const down = Math.min(10, Math.ceil(scoreFor(STEP_DOWN_BELOW) * 10) / 10);
+
+  return {
+    up: difficulty < MAX_DIFFICULTY && up <= 10 ? up : null,
+    down: difficulty > MIN_DIFFICULTY && down > 0 ? down : null
+  };
+}
+
+// ============================================
+// REPORT
+// ============================================
+
+/**
+ * Level shown by one scored topic: a 5/10 answer confirms the difficulty it
+ * was asked at, 10/10 is one level above, 0/10 one level below
+ */
+const levelShown = (difficulty: DifficultyLevel, score: number): number =>
+  difficulty - 1 + (score / 10) * 2;
+
+/**
+ * Estimated level per skill category (topics without a difficulty are skipped)
+ */
+export function estimateCategoryLevels(results: QuestionResult[]): CategoryLevel[] {
+  const byCategory = new Map<string, number[]>();
+
+  results.forEach(result => {
+    if (!result.difficulty) return;
+    const category = result.category || 'General';
+    const levels = byCategory.get(category) || [];
+    levels.push(levelShown(result.difficulty, result.score));
+    byCategory.set(category, levels);
+  });
+
+  return Array.from(byCategory.entries()).map(([category, levels]) => {
+    const average = levels.reduce((sum, level) => sum + level, 0) / levels.length;
+    const level = Number(Math.min(Math.max(average, MIN_DIFFICULTY), MAX_DIFFICULTY).toFixed(1));
+    return { category, level, label: DIFFICULTY_LABELS[clampLevel(level)], topics: levels.length };
+  });
+}
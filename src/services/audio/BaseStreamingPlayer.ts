@@ -0,0 +1,1208 @@
+/**
+ * Base Streaming Player - The Shared Playout Engine
+ *
+ * TRUE streaming audio player using react-native-audio-api.
+ * Plays chunks as they arrive - NO accumulation of all chunks!
+ *
+ * Architecture:
+ * Provider chunk source (PCM16 @ sourceSampleRate)
+ *    ↓
+ * FIFOQueue (ordering)
+ *    ↓
+ * PCM16Resampler (only if sourceSampleRate ≠ sampleRate)
+ *    ↓
+ * Int16ToFloat32Converter
+ *    ↓
+ * JitterBuffer (pre-buffer 500ms)
+ *    ↓
+ * ZeroCrossingAligner (artifact-free)
+ *    ↓
+ * AudioContextManager (playout)
+ *
+ * Subclasses implement resolveOptions() and openStream() (and optionally
+ * abortStream()); state machine, buffering, scheduling, metrics and events
+ * all live here. Short lines are cached on disk per provider and resolved
+ * options: a cache hit replaces the provider stream, the rest is unchanged.
+ * Likewise a prefetch() of the same utterance (speculative replies) is
+ * adopted by speak(), even while it is still streaming.
+ *
+ * @depends react-native-audio-api
+ */
+
+import { Int16ToFloat32Converter } from '../../utils/audio/Int16ToFloat32Converter';
+import { PCM16Resampler } from '../../utils/audio/PCM16Resampler';
+import { FIFOQueue } from '../../utils/audio/FIFOQueue';
+import { JitterBuffer, BufferState, UnderrunStrategy } from '../../utils/audio/JitterBuffer';
+import { ZeroCrossingAligner, AlignmentMode } from '../../utils/audio/ZeroCrossingAligner';
+import { AudioContextManager } from '../../utils/audio/AudioContextManager';
+import { AudioChunk, TTSProvider, WordTimestamp } from '../../types';
+import { CachedSpeech, getCachedSpeech, isCacheableText, storeCachedSpeech, ttsCacheKey } from '../tts-cache';
+import {
+  PlayerEvent,
+  PlayerEventListener,
+  PlayerEventMap,
+  PlayerMetrics,
+  PlayerState,
+  StreamingPlayerConfig,
+  StreamingTTSPlayer,
+} from './StreamingTTSPlayer';
+
+/**
+ * Callbacks a chunk source reports into (metrics and word timing)
+ */
+export interface ChunkSourceHooks {
+  onFirstChunk: (latency: number) => void;
+  onChunk: (chunk: AudioChunk) => void;
+  onWords: (words: WordTimestamp[]) => void;
+}
+
+/**
+ * Utterance synthesized ahead of speak(): chunks so far and whether the
+ * provider stream has ended
+ */
+interface Prefetch {
+  key: string;
+  chunks: AudioChunk[];
+  words: WordTimestamp[];
+  done: boolean;
+  discarded: boolean;
+  error: unknown;
+  wake: (() => void) | null;
+}
+
+/**
+ * Listeners by event, typed by the event's payload
+ */
+interface PlayerEventListeners extends Map<PlayerEvent, Set<PlayerEventListener<PlayerEvent>>> {
+  get<E extends PlayerEvent>(event: E): Set<PlayerEventListener<E>> | undefined;
+  set<E extends PlayerEvent>(event: E, listeners: Set<PlayerEventListener<E>>): this;
+}
+
+/**
+ * Default configuration
+ *
+ * - sampleRate: 16000 (pipeline rate; sources at other rates are resampled)
+ * - chunkSize: 2048 samples (~128ms at 16kHz) - reduces CPU overhead
+ * - preBufferThreshold: 500ms (balance between latency and stability)
+ * - processingInterval: 50ms (20Hz processing ticks)
+ */
+export const DEFAULT_PLAYER_CONFIG: Required<StreamingPlayerConfig> = {
+  sampleRate: 16000,
+  preBufferThreshold: 500,  // 500ms pre-buffer (in milliseconds)
+  maxBufferSize: 5,         // 5 seconds max buffer
+  underrunStrategy: UnderrunStrategy.SILENCE,
+  initialGain: 1.0,
+  useZeroCrossing: true,
+  chunkSize: 2048,          // ~128ms at 16kHz (increased for stability)
+  fifoMaxSize: 500,         // Larger FIFO for stability
+  processingInterval: 50,   // 20Hz processing
+  useCache: true,
+};
+
+const DRAIN_TIMEOUT_MS = 60000;
+
+/**
+ * Base Streaming Player Class
+ *
+ * The real streaming engine that plays audio chunks as they arrive.
+ */
+export abstract class BaseStreamingPlayer<TOptions> implements StreamingTTSPlayer<TOptions> {
+  // Provider tuning (override in subclasses)
+  /** Provider name (part of the cache key) */
+  protected abstract readonly provider: TTSProvider;
+  /** Sample rate of the PCM16 the source delivers */
+  protected readonly sourceSampleRate: number = DEFAULT_PLAYER_CONFIG.sampleRate;
+  /** Minimum delay between stop() and the next speak() */
+  protected readonly restartDelayMs: number = 0;
+  /** Give up (or force start) if still buffering after this long */
+  protected readonly bufferingTimeoutMs: number = 3000;
+
+  // Components
+  private converter: Int16ToFloat32Converter;
+  private fifoQueue: FIFOQueue<ArrayBuffer>;
+  private jitterBuffer: JitterBuffer;
+  private audioContext: AudioContextManager;
+  private zeroCrossingAligner: ZeroCrossingAligner;
+
+  // State
+  private state: PlayerState = PlayerState.IDLE;
+  protected config: Required<StreamingPlayerConfig>;
+  private isPlaying: boolean = false;
+  private isPaused: boolean = false;
+  private isStreaming: boolean = false;
+  private isAwaitingText: boolean = false;  // speakStream(): waiting for the caller's next sentence
+
+  // Timers
+  private processingTimer: NodeJS.Timeout | null = null;
+  private metricsTimer: NodeJS.Timeout | null = null;
+  private bufferingTimer: NodeJS.Timeout | null = null;
+
+  // Event listeners
+  private eventListeners: PlayerEventListeners = new Map() as PlayerEventListeners;
+
+  // Metrics tracking
+  private startTime: number = 0;
+  private firstChunkTime: number = 0;
+  private firstSoundTime: number = 0;
+  private chunksReceived: number = 0;
+  private chunksReceivedLastSecond: number = 0;
+  private chunksPlayed: number = 0;
+  private lastChunksPerSecondCheck: number = 0;
+  private fromCache: boolean = false;
+
+  // Abort control
+  private abortController: AbortController | null = null;
+  private lastStopTime: number = 0;
+
+  // Track cumulative scheduled time to prevent chunks playing simultaneously
+  private nextScheduledTime: number = 0;
+
+  // Word timing: audio-clock time of the first sample, words not yet emitted
+  private playbackStartTime: number = 0;
+  private pendingWords: WordTimestamp[] = [];
+  private wordsEmitted: number = 0;
+
+  // Track if 'done' event was already emitted to prevent duplicates
+  private doneEmitted: boolean = false;
+
+  // Speculative synthesis waiting for its speak()
+  private prefetched: Prefetch | null = null;
+
+  constructor(protected readonly tag: string, config?: Partial<StreamingPlayerConfig>) {
+    this.config = { ...DEFAULT_PLAYER_CONFIG, ...config };
+
+    this.converter = new Int16ToFloat32Converter({
+      sampleRate: this.config.sampleRate,
+      validate: true,
+      clamp: true,
+    });
+
+    this.fifoQueue = new FIFOQueue<ArrayBuffer>({
+      maxSize: this.config.fifoMaxSize,
+      maxBytes: 5 * 1024 * 1024, // 5MB
+      dropOldest: true,
+    });
+
+    this.jitterBuffer = new JitterBuffer({
+      preBufferThreshold: this.config.preBufferThreshold,
+      maxBufferSize: this.config.maxBufferSize,
+      sampleRate: this.config.sampleRate,
+      underrunStrategy: this.config.underrunStrategy,
+    });
+
+    this.audioContext = AudioContextManager.getInstance({
+      sampleRate: this.config.sampleRate,
+      initialGain: this.config.initialGain,
+    });
+
+    this.zeroCrossingAligner = new ZeroCrossingAligner();
+
+    console.log(`[${this.tag}] Initialized with config:`, this.config);
+  }
+
+  // ============================================
+  // PROVIDER CHUNK SOURCE
+  // ============================================
+
+  /**
+   * Fill in provider defaults (voice, speed...). The result keys the cache,
+   * so everything that changes the audio must be in it
+   */
+  protected abstract resolveOptions(options: TOptions | undefined): TOptions;
+
+  /**
+   * Open the provider stream: PCM16 chunks at sourceSampleRate
+   */
+  protected abstract openStream(
+    text: string,
+    options: TOptions,
+    hooks: ChunkSourceHooks
+  ): AsyncGenerator<AudioChunk>;
+
+  /**
+   * Open the provider stream for text that arrives sentence by sentence.
+   * Default: wait for the whole text and synthesize it in one request
+   * (providers that take the full input up front); WebSocket providers
+   * override this to synthesize each sentence as soon as it arrives
+   */
+  protected async *openTextStream(
+    sentences: AsyncIterable<string>,
+    options: TOptions,
+    hooks: ChunkSourceHooks
+  ): AsyncGenerator<AudioChunk> {
+    const parts: string[] = [];
+    for await (const sentence of sentences) parts.push(sentence);
+
+    const text = parts.join(' ').trim();
+    if (text) yield* this.openStream(text, options, hooks);
+  }
+
+  /**
+   * Cancel the provider request on stop() (the generator is abandoned either way)
+   */
+  protected abortStream(): void {}
+
+  /**
+   * Replay a cached utterance as a chunk source (everything arrives at once)
+   */
+  private async *cachedStream(cached: CachedSpeech, hooks: ChunkSourceHooks): AsyncGenerator<AudioChunk> {
+    hooks.onFirstChunk(Date.now() - this.startTime);
+    hooks.onWords(cached.words);
+
+    const bytesPerChunk = this.config.chunkSize * 2; // PCM16
+    let sequence = 0;
+    for (let offset = 0; offset < cached.pcm.byteLength; offset += bytesPerChunk) {
+      const data = cached.pcm.slice(offset, offset + bytesPerChunk);
+      const chunk: AudioChunk = { data, timestamp: Date.now(), sequence: sequence++, sizeBytes: data.byteLength };
+      hooks.onChunk(chunk);
+      yield chunk;
+    }
+  }
+
+  /**
+   * Replay a prefetch as a chunk source, waiting for chunks it hasn't received yet
+   */
+  private async *prefetchedStream(prefetch: Prefetch, hooks: ChunkSourceHooks): AsyncGenerator<AudioChunk> {
+    let nextChunk = 0;
+    let nextWord = 0;
+
+    while (true) {
+      if (nextWord < prefetch.words.length) {
+        hooks.onWords(prefetch.words.slice(nextWord));
+        nextWord = prefetch.words.length;
+      }
+
+      if (nextChunk < prefetch.chunks.length) {
+        const chunk = prefetch.chunks[nextChunk++];
+        if (nextChunk === 1) hooks.onFirstChunk(Date.now() - this.startTime);
+        hooks.onChunk(chunk);
+        yield chunk;
+        continue;
+      }
+
+      if (prefetch.error) throw prefetch.error;
+      if (prefetch.done) return;
+      await new Promise<void>(resolve => { prefetch.wake = resolve; });
+    }
+  }
+
+  /**
+   * Pass provider chunks through and cache the utterance once it completed
+   * (stopped or failed streams are partial and never stored)
+   */
+  private async *cachingStream(
+    stream: AsyncGenerator<AudioChunk>,
+    cacheKey: string,
+    words: WordTimestamp[],
+    signal: AbortSignal
+  ): AsyncGenerator<AudioChunk> {
+    const chunks: ArrayBuffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk.data);
+      yield chunk;
+    }
+
+    if (!signal.aborted && chunks.length > 0) {
+      storeCachedSpeech(cacheKey, chunks, this.sourceSampleRate, words);
+    }
+  }
+
+  // ============================================
+  // PLAYBACK
+  // ============================================
+
+  /**
+   * Whether the shared AudioContext is still usable (singletons recreate the player if not)
+   */
+  hasValidAudioContext(): boolean {
+    return this.audioContext.isValid();
+  }
+
+  /**
+   * Ensure AudioContext is valid, recreate if destroyed
+   */
+  private ensureAudioContextValid(): void {
+    if (!this.audioContext.isValid()) {
+      console.log(`[${this.tag}] AudioContext destroyed, recreating...`);
+      this.audioContext = AudioContextManager.getInstance({
+        sampleRate: this.config.sampleRate,
+        initialGain: this.config.initialGain,
+      });
+    }
+  }
+
+  /**
+   * Key of an utterance (cache and prefetch). The source rate is part of it:
+   * stored PCM never needs a different conversion
+   */
+  private utteranceKey(text: string, resolved: TOptions): string {
+    return ttsCacheKey(this.provider, { ...resolved, sampleRate: this.sourceSampleRate }, text);
+  }
+
+  /**
+   * Synthesize text in the background (nothing is played). A later speak()
+   * with the same text and options plays it; anything else discards it
+   *
+   * @param text - Text to synthesize
+   * @param options - Provider speak options
+   */
+  async prefetch(text: string, options?: TOptions): Promise<void> {
+    const resolved = this.resolveOptions(options);
+    const key = this.utteranceKey(text, resolved);
+    if (this.prefetched?.key === key) return;
+    this.cancelPrefetch();
+
+    const prefetch: Prefetch = { key, chunks: [], words: [], done: false, discarded: false, error: null, wake: null };
+    const wake = () => {
+      const resolve = prefetch.wake;
+      prefetch.wake = null;
+      resolve?.();
+    };
+    this.prefetched = prefetch;
+    console.log(`[${this.tag}] Prefetching: "${text.substring(0, 50)}..."`);
+
+    try {
+      const stream = this.openStream(text, resolved, {
+        onFirstChunk: () => {},
+        onChunk: () => {},
+        onWords: (words) => {
+          prefetch.words.push(...words);
+        },
+      });
+
+      for await (const chunk of stream) {
+        if (prefetch.discarded) break;
+        prefetch.chunks.push(chunk);
+        wake();
+      }
+    } catch (error) {
+      console.warn(`[${this.tag}] Prefetch failed:`, error);
+      prefetch.error = error;
+    } finally {
+      prefetch.done = true;
+      wake();
+    }
+  }
+
+  /**
+   * Drop a prefetch that speak() didn't ask for
+   */
+  private cancelPrefetch(): void {
+    if (!this.prefetched) return;
+
+    console.log(`[${this.tag}] Discarding prefetch`);
+    this.prefetched.discarded = true;
+    this.prefetched = null;
+    if (!this.isStreaming) this.abortStream();
+  }
+
+  /**
+   * Speak text with streaming playback
+   *
+   * @param text - Text to speak
+   * @param options - Provider speak options
+   */
+  async speak(text: string, options?: TOptions): Promise<void> {
+    await this.play(text.substring(0, 50) + '...', async (hooks, words, signal) => {
+      // Prefetched or cached utterance
+      const resolved = this.resolveOptions(options);
+      const key = this.utteranceKey(text, resolved);
+      const prefetch = this.prefetched?.key === key ? this.prefetched : null;
+      if (prefetch) {
+        this.prefetched = null;
+      } else {
+        this.cancelPrefetch();
+      }
+
+      const cacheKey = this.config.useCache && isCacheableText(text) ? key : null;
+      const cached = cacheKey && !prefetch ? await getCachedSpeech(cacheKey) : null;
+      if (signal.aborted) return null;
+
+      // Get stream from the cache, the prefetch or the provider
+      if (cached) {
+        console.log(`[${this.tag}] 💾 Cache hit (${(cached.pcm.byteLength / 1024).toFixed(0)}KB)`);
+        this.fromCache = true;
+        return this.cachedStream(cached, hooks);
+      }
+
+      if (prefetch) {
+        console.log(`[${this.tag}] ⚡ Using prefetch (${prefetch.chunks.length} chunks ready${prefetch.done ? ', complete' : ''})`);
+      }
+      const source = prefetch ? this.prefetchedStream(prefetch, hooks) : this.openStream(text, resolved, hooks);
+      return cacheKey ? this.cachingStream(source, cacheKey, words, signal) : source;
+    });
+  }
+
+  /**
+   * Speak text that is still being written (streamed LLM output), starting
+   * with the first sentence. Never cached or prefetched: the text isn't known
+   * up front
+   *
+   * @param sentences - Sentences in order; playback ends after the last one
+   * @param options - Provider speak options
+   */
+  async speakStream(sentences: AsyncIterable<string>, options?: TOptions): Promise<void> {
+    await this.play('streamed text', async (hooks) => {
+      this.cancelPrefetch();
+      return this.openTextStream(this.trackTextWaits(sentences), this.resolveOptions(options), hooks);
+    });
+  }
+
+  /**
+   * Pass sentences through, flagging the time spent waiting for the next
+   * one: the buffer running dry then is the text source's delay, not the
+   * provider's, so it raises no 'underrun'
+   */
+  private async *trackTextWaits(sentences: AsyncIterable<string>): AsyncGenerator<string> {
+    const iterator = sentences[Symbol.asyncIterator]();
+    try {
+      while (true) {
+        this.isAwaitingText = true;
+        const next = await iterator.next();
+        this.isAwaitingText = false;
+        if (next.done) return;
+        yield next.value;
+      }
+    } finally {
+      this.isAwaitingText = false;
+    }
+  }
+
+  /**
+   * Shared playback: reset, open the chunk source, run the streaming loop
+   *
+   * @param label - What is being spoken (events and logs)
+   * @param openSource - Chunk source for this utterance (null if stopped meanwhile);
+   *   `words` collects the word timestamps it reports
+   */
+  private async play(
+    label: string,
+    openSource: (
+      hooks: ChunkSourceHooks,
+      words: WordTimestamp[],
+      signal: AbortSignal
+    ) => Promise<AsyncGenerator<AudioChunk> | null>
+  ): Promise<void> {
+    // Debounce: some providers misbehave on rapid restarts
+    const timeSinceLastStop = Date.now() - this.lastStopTime;
+    if (timeSinceLastStop < this.restartDelayMs) {
+      const delayMs = this.restartDelayMs - timeSinceLastStop;
+      console.log(`[${this.tag}] Debouncing restart: waiting ${delayMs}ms`);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+
+    // ✅ Validate AudioContext BEFORE stopping
+    this.ensureAudioContextValid();
+
+    // Cleanup previous
+    this.stop();
+
+    // Reset done flag for new playback
+    this.doneEmitted = false;
+
+    // Setup abort
+    this.abortController = new AbortController();
+    const signal = this.abortController.signal;
+
+    // Reset metrics
+    this.startTime = Date.now();
+    this.firstChunkTime = 0;
+    this.firstSoundTime = 0;
+    this.chunksReceived = 0;
+    this.chunksReceivedLastSecond = 0;
+    this.chunksPlayed = 0;
+    this.lastChunksPerSecondCheck = Date.now();
+    this.pendingWords = [];
+    this.wordsEmitted = 0;
+    this.fromCache = false;
+
+    // Clear buffers
+    this.fifoQueue.clear();
+    this.jitterBuffer.reset();
+
+    try {
+      this.setState(PlayerState.CONNECTING);
+      this.emit('connecting', { text: label });
+
+      // ✅ Validate AudioContext again after stop() (defensive)
+      this.ensureAudioContextValid();
+
+      // Initialize audio context
+      try {
+        if (!this.audioContext.isReady()) {
+          await this.audioContext.initialize();
+          console.log(`[${this.tag}] Audio context initialized`);
+        }
+      } catch (error) {
+        // If initialization fails with destroyed error, try recreating
+        if (error instanceof Error && error.message.includes('destroyed')) {
+          console.log(`[${this.tag}] Initialization failed, recreating AudioContext`);
+          this.ensureAudioContextValid();
+          await this.audioContext.initialize();
+        } else {
+          throw error;
+        }
+      }
+
+      const streamWords: WordTimestamp[] = [];
+      const hooks: ChunkSourceHooks = {
+        onFirstChunk: (latency) => {
+          this.firstChunkTime = Date.now();
+          console.log(`[${this.tag}] First chunk latency: ${latency}ms`);
+        },
+        onChunk: () => {
+          this.chunksReceived++;
+        },
+        onWords: (words) => {
+          this.pendingWords.push(...words);
+          streamWords.push(...words);
+        },
+      };
+
+      const stream = await openSource(hooks, streamWords, signal);
+      if (!stream) return;
+      this.isStreaming = true;
+
+      this.emit('connected', { text: label });
+      this.setState(PlayerState.BUFFERING);
+      this.emit('buffering', { timestamp: Date.now() });
+
+      // Start the streaming loop
+      await this.streamingLoop(stream, signal);
+
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[${this.tag}] Error:`, errorMsg);
+      this.setState(PlayerState.ERROR);
+      this.emit('error', { error: errorMsg });
+      throw error;
+    }
+  }
+
+  /**
+   * Main streaming loop - receives chunks and feeds the pipeline
+   */
+  private async streamingLoop(
+    stream: AsyncGenerator<AudioChunk>,
+    signal: AbortSignal
+  ): Promise<void> {
+    // Start processing timer
+    this.startProcessing();
+
+    let receivedFirstChunk = false;
+
+    try {
+      for await (const chunk of stream) {
+        if (signal.aborted) {
+          console.log(`[${this.tag}] Stream aborted`);
+          break;
+        }
+
+        if (!receivedFirstChunk) {
+          receivedFirstChunk = true;
+          console.log(`[${this.tag}] First chunk received (${chunk.data.byteLength} bytes)`);
+        }
+
+        // FIFO stores the ArrayBuffer directly (it wraps entries itself)
+        this.fifoQueue.enqueue(chunk.data);
+      }
+
+      // Stream complete naturally
+      if (!signal.aborted) {
+        console.log(`[${this.tag}] Stream complete, draining buffers...`);
+
+        // Drain FIFO first: sources that download everything at once may end
+        // the stream before a single processing tick
+        this.fifoToJitterBuffer();
+        this.isStreaming = false;
+
+        if (this.state === PlayerState.BUFFERING && this.jitterBuffer.canStartPlayback()) {
+          console.log(`[${this.tag}] Stream ended while buffering - starting playback now`);
+          this.startPlayback();
+        }
+
+        // Wait for buffers to drain (may have already completed via processCycle)
+        await this.drainBuffers();
+
+        // Only emit 'done' if processCycle hasn't already done so
+        this.emitDone();
+      }
+
+    } catch (error) {
+      if (!signal.aborted) {
+        console.error(`[${this.tag}] Stream error:`, error);
+        throw error;
+      }
+    } finally {
+      this.isStreaming = false;
+    }
+  }
+
+  /**
+   * Start processing chunks from FIFO to jitter buffer to audio
+   */
+  private startProcessing(): void {
+    if (this.processingTimer) {
+      return;
+    }
+
+    console.log(`[${this.tag}] Starting processing loop`);
+
+    this.processingTimer = setInterval(() => {
+      this.processCycle();
+    }, this.config.processingInterval);
+
+    // Buffering timeout protection
+    this.bufferingTimer = setTimeout(() => {
+      this.bufferingTimer = null;
+      if (this.state !== PlayerState.BUFFERING) return;
+
+      const health = this.jitterBuffer.getBufferHealth();
+      console.error(`[${this.tag}] ⚠️ BUFFERING TIMEOUT (${this.bufferingTimeoutMs}ms)!`, {
+        fifoSize: this.fifoQueue.size(),
+        bufferDuration: health.currentDuration,
+        threshold: this.config.preBufferThreshold,
+        samplesAvailable: health.availableSamples,
+        chunksReceived: this.chunksReceived,
+        isStreaming: this.isStreaming,
+      });
+
+      // Try to force start if we have ANY data
+      if (health.availableSamples > 0) {
+        console.warn(`[${this.tag}] 🚨 Force starting with partial buffer`);
+        this.startPlayback();
+      } else {
+        // No data at all - something is wrong
+        this.setState(PlayerState.ERROR);
+        this.emit('error', {
+          error: 'Buffering timeout - no data received',
+          debug: {
+            fifoSize: this.fifoQueue.size(),
+            chunksReceived: this.chunksReceived,
+            isStreaming: this.isStreaming,
+          }
+        });
+      }
+    }, this.bufferingTimeoutMs);
+
+    // Start metrics timer (every 100ms)
+    this.metricsTimer = setInterval(() => {
+      this.emit('metrics', this.getMetrics());
+
+      // Calculate chunks per second
+      const now = Date.now();
+      if (now - this.lastChunksPerSecondCheck >= 1000) {
+        this.lastChunksPerSecondCheck = now;
+        this.chunksReceivedLastSecond = this.chunksReceived;
+      }
+    }, 100);
+  }
+
+  /**
+   * Stop processing, metrics and buffering timers
+   */
+  private stopTimers(): void {
+    if (this.processingTimer) {
+      clearInterval(this.processingTimer);
+      this.processingTimer = null;
+    }
+    if (this.metricsTimer) {
+      clearInterval(this.metricsTimer);
+      this.metricsTimer = null;
+    }
+    if (this.bufferingTimer) {
+      clearTimeout(this.bufferingTimer);
+      this.bufferingTimer = null;
+    }
+  }
+
+  /**
+   * Single processing cycle - moves data through the pipeline
+   */
+  private processCycle(): void {
+    // Phase 1: Move chunks from FIFO to JitterBuffer
+    this.fifoToJitterBuffer();
+    const health = this.jitterBuffer.getBufferHealth();
+
+    // Phase 2: Check if we can start playback
+    if (!this.isPlaying && !this.isPaused && this.jitterBuffer.canStartPlayback()) {
+      console.log('[ProcessCycle] ✅ Threshold reached - starting playback!');
+      this.startPlayback();
+    }
+
+    // Phase 3: Schedule next chunk if playing
+    if (this.isPlaying && !this.isPaused) {
+      const hasData = health.availableSamples > 0;
+
+      if (this.isStreaming || hasData) {
+        this.scheduleNextChunk();
+        this.emitDueWords();
+      } else {
+        // No more data and stream ended - emit done event
+        this.isPlaying = false;
+        this.stopTimers();
+        this.emitDone();
+      }
+    }
+
+    // Phase 4: Check for underrun (only during active playback with active stream,
+    // and not while streamed text is still on its way to the provider)
+    if (this.isPlaying && this.isStreaming && !this.isAwaitingText && this.jitterBuffer.getState() === BufferState.UNDERRUN) {
+      this.emit('underrun', this.getMetrics());
+      console.warn('[ProcessCycle] ⚠️ Buffer underrun!');
+    }
+  }
+
+  /**
+   * Move chunks from FIFO queue to jitter buffer (resampling if needed)
+   *
+   * Implements flow control to prevent buffer overflow:
+   * - During buffering: aggressive draining to reach threshold ASAP
+   * - During playback: conservative draining to maintain stable buffer
+   * - Stops transferring if buffer exceeds limit (leaves rest in FIFO)
+   */
+  private fifoToJitterBuffer(): void {
+    const isBuffering = !this.isPlaying && !this.isPaused;
+    const threshold = this.config.preBufferThreshold;
+    const maxBufferMs = isBuffering && this.jitterBuffer.getBufferHealth().currentDuration < threshold
+      ? threshold + 200
+      : 1000;
+
+    let drained = 0;
+    while (!this.fifoQueue.isEmpty()) {
+      const health = this.jitterBuffer.getBufferHealth();
+
+      // Stop if buffer would exceed limit
+      if (health.currentDuration > maxBufferMs) {
+        break;
+      }
+
+      const entry = this.fifoQueue.dequeue();
+      if (!entry) break;
+      if (entry.data.byteLength === 0) continue;
+
+      try {
+        const pcm = this.sourceSampleRate === this.config.sampleRate
+          ? entry.data
+          : PCM16Resampler.resample(new Int16Array(entry.data), this.sourceSampleRate, this.config.sampleRate).buffer as ArrayBuffer;
+        const result = this.converter.convert(pcm);
+
+        if (!this.jitterBuffer.addChunk(result.data)) {
+          console.warn(`[${this.tag}] JitterBuffer rejected chunk (full?)`);
+          break;
+        }
+
+        drained++;
+      } catch (error) {
+        console.error(`[${this.tag}] Conversion error:`, error);
+      }
+    }
+
+    // Log progress during buffering
+    if (isBuffering && drained > 0) {
+      const health = this.jitterBuffer.getBufferHealth();
+      const progress = (health.currentDuration / threshold) * 100;
+      console.log(
+        `[fifoToJitterBuffer] Drained ${drained} chunks → ` +
+        `${health.currentDuration.toFixed(0)}ms / ${threshold}ms (${progress.toFixed(0)}%)`
+      );
+    }
+  }
+
+  /**
+   * Start audio playback
+   */
+  private startPlayback(): void {
+    console.log(`[${this.tag}] 🎵 Starting playback`);
+
+    this.isPlaying = true;
+    this.isPaused = false;
+
+    // Track first sound latency
+    if (this.firstSoundTime === 0) {
+      this.firstSoundTime = Date.now();
+      console.log(`[${this.tag}] ⏱️ First sound latency: ${this.firstSoundTime - this.startTime}ms`);
+    }
+
+    // Initialize cumulative scheduled time (50ms in future for buffer)
+    this.nextScheduledTime = this.audioContext.getPlaybackTime() + 0.05;
+    this.playbackStartTime = this.nextScheduledTime;
+
+    this.jitterBuffer.setState(BufferState.PLAYING);
+    this.setState(PlayerState.PLAYING);
+
+    if (this.bufferingTimer) {
+      clearTimeout(this.bufferingTimer);
+      this.bufferingTimer = null;
+    }
+    this.emit('playing', this.getMetrics());
+
+    // ✅ DON'T schedule here - let processCycle() handle it in next tick
+    // This prevents double-scheduling bug
+  }
+
+  /**
+   * Schedule next audio chunk for playback
+   */
+  private scheduleNextChunk(): void {
+    if (!this.isPlaying || this.isPaused) {
+      return;
+    }
+
+    const result = this.jitterBuffer.getNextChunk(this.config.chunkSize);
+    if (result.samplesRead === 0) {
+      // No data available - might be underrun
+      return;
+    }
+
+    let data = result.data;
+
+    // Apply zero-crossing alignment for first chunk only
+    if (this.config.useZeroCrossing && this.chunksPlayed === 0) {
+      const aligned = this.zeroCrossingAligner.align(data, AlignmentMode.START);
+      data = aligned.data;
+    }
+
+    try {
+      // CRITICAL: Pass sampleRate explicitly to ensure buffer plays at correct speed
+      // Without this, AudioContext uses device sampleRate causing pitch/speed issues
+      const buffer = this.audioContext.createBuffer(data, this.config.sampleRate);
+
+      // Schedule at cumulative time to prevent chunks playing simultaneously
+      this.audioContext.scheduleBuffer(buffer, this.nextScheduledTime);
+      this.nextScheduledTime += data.length / this.config.sampleRate;
+
+      this.chunksPlayed++;
+    } catch (error) {
+      console.error(`[${this.tag}] Schedule error:`, error);
+    }
+  }
+
+  /**
+   * Emit 'word' for every word whose start time the audio clock has passed
+   */
+  private emitDueWords(flushAll: boolean = false): void {
+    if (this.pendingWords.length === 0) return;
+
+    const elapsed = this.audioContext.getPlaybackTime() - this.playbackStartTime;
+    while (this.pendingWords.length > 0 && (flushAll || this.pendingWords[0].start <= elapsed)) {
+      const word = this.pendingWords.shift()!;
+      this.emit('word', { ...word, index: this.wordsEmitted++ });
+    }
+  }
+
+  /**
+   * Emit 'done' once per speak()
+   */
+  private emitDone(): void {
+    if (this.doneEmitted) return;
+
+    this.emitDueWords(true);
+    this.doneEmitted = true;
+    this.setState(PlayerState.DONE);
+    this.emit('done', this.getMetrics());
+    console.log(`[${this.tag}] ✅ Playback complete - emitted done event`);
+  }
+
+  /**
+   * Drain remaining buffers after stream completes
+   * Waits for AudioContext to actually finish playing all audio
+   */
+  private async drainBuffers(): Promise<void> {
+    return new Promise<void>((resolve) => {
+      const finish = () => {
+        clearInterval(drainInterval);
+        clearTimeout(drainTimeout);
+        this.stopTimers();
+        this.isPlaying = false;
+        resolve();
+      };
+
+      const drainInterval = setInterval(() => {
+        // Move remaining chunks from FIFO to JitterBuffer
+        this.fifoToJitterBuffer();
+
+        const fifoEmpty = this.fifoQueue.isEmpty();
+        const jitterEmpty = this.jitterBuffer.getBufferHealth().availableSamples === 0;
+
+        // AudioContextManager tracks all playing sources and removes them on 'onEnded'
+        const audioFinished = this.audioContext.getMetrics().activeSources === 0;
+
+        if (fifoEmpty && jitterEmpty && audioFinished) {
+          console.log(`[${this.tag}] Buffers drained, all audio sources finished`);
+          finish();
+          return;
+        }
+
+        // Only schedule if we have data in jitter buffer
+        if (this.isPlaying && !jitterEmpty) {
+          this.scheduleNextChunk();
+        }
+      }, 50);
+
+      // Emit 'done' even on timeout to unlock microphone
+      const drainTimeout = setTimeout(() => {
+        console.log(`[${this.tag}] Drain timeout`);
+        finish();
+        this.emitDone();
+      }, DRAIN_TIMEOUT_MS);
+    });
+  }
+
+  /**
+   * Stop playback and cleanup
+   */
+  stop(): void {
+    console.log(`[${this.tag}] Stopping`);
+
+    // Remember if we were playing to emit 'done' for mic unlock
+    const wasPlaying = this.isPlaying;
+    const hadNotEmittedDone = !this.doneEmitted;
+
+    // Abort current stream (a pending prefetch keeps going)
+    this.lastStopTime = Date.now();
+    this.abortController?.abort();
+    if (this.isStreaming) this.abortStream();
+    this.stopTimers();
+
+    // Stop audio
+    this.isPlaying = false;
+    this.isPaused = false;
+    this.isStreaming = false;
+    this.isAwaitingText = false;
+    this.audioContext.stopAll();
+    this.nextScheduledTime = 0;
+    this.pendingWords = [];
+
+    // Clear buffers
+    this.fifoQueue.clear();
+    this.jitterBuffer.reset();
+
+    this.setState(PlayerState.STOPPED);
+    this.emit('stopped', this.getMetrics());
+
+    // Also emit 'done' if playback was in progress (to unlock microphone)
+    if (wasPlaying && hadNotEmittedDone) {
+      this.doneEmitted = true;
+      this.emit('done', this.getMetrics());
+      console.log(`[${this.tag}] Emitted done event on stop`);
+    }
+  }
+
+  /**
+   * Pause playback
+   */
+  pause(): void {
+    if (!this.isPlaying || this.isPaused) {
+      return;
+    }
+
+    console.log(`[${this.tag}] Pausing`);
+
+    this.isPaused = true;
+    this.audioContext.suspend();
+
+    this.jitterBuffer.setState(BufferState.IDLE);
+    this.setState(PlayerState.PAUSED);
+    this.emit('paused', this.getMetrics());
+  }
+
+  /**
+   * Resume playback
+   */
+  resume(): void {
+    if (!this.isPaused) {
+      return;
+    }
+
+    console.log(`[${this.tag}] Resuming`);
+
+    this.isPaused = false;
+    this.audioContext.resume();
+
+    this.jitterBuffer.setState(BufferState.PLAYING);
+    this.setState(PlayerState.PLAYING);
+    this.emit('playing', this.getMetrics());
+
+    this.scheduleNextChunk();
+  }
+
+  /**
+   * Set volume
+   *
+   * @param level - Volume level (0.0 - 1.0)
+   * @param rampTime - Optional ramp time in seconds
+   */
+  setVolume(level: number, rampTime?: number): void {
+    const clampedLevel = Math.max(0, Math.min(1, level));
+    this.audioContext.setGain(clampedLevel, rampTime);
+    this.config.initialGain = clampedLevel;
+  }
+
+  // ============================================
+  // STATE & METRICS
+  // ============================================
+
+  /**
+   * Get current metrics
+   */
+  getMetrics(): PlayerMetrics {
+    const health = this.jitterBuffer.getBufferHealth();
+    const audioMetrics = this.audioContext.getMetrics();
+
+    return {
+      state: this.state,
+      bufferDuration: health.currentDuration,
+      thresholdDuration: health.thresholdDuration,
+      bufferPercent: health.thresholdPercent,
+      samplesQueued: health.availableSamples,
+      playbackPosition: health.playbackPosition,
+      firstChunkLatency: this.firstChunkTime > 0 ? this.firstChunkTime - this.startTime : 0,
+      playbackLatency: this.firstSoundTime > 0 ? this.firstSoundTime - this.startTime : 0,
+      droppedChunks: health.droppedChunks,
+      underrunCount: health.underrunCount,
+      gain: audioMetrics.gain,
+      chunksReceived: this.chunksReceived,
+      chunksPlayed: this.chunksPlayed,
+      chunksPerSecond: this.chunksReceivedLastSecond,
+      fifoQueueSize: this.fifoQueue.size(),
+      isStreaming: this.isStreaming,
+      sourceSampleRate: this.sourceSampleRate,
+      fromCache: this.fromCache,
+    };
+  }
+
+  /**
+   * Get current state
+   */
+  getState(): PlayerState {
+    return this.state;
+  }
+
+  /**
+   * Debug helper - print current player state
+   * @internal Use only for debugging
+   */
+  public debugState(): void {
+    const health = this.jitterBuffer.getBufferHealth();
+
+    console.log(`[${this.tag}] Debug state:`, {
+      state: this.state,
+      isPlaying: this.isPlaying,
+      isPaused: this.isPaused,
+      isStreaming: this.isStreaming,
+      fifoQueue: this.fifoQueue.size(),
+      bufferDuration: Math.round(health.currentDuration),
+      threshold: this.config.preBufferThreshold,
+      canStart: this.jitterBuffer.canStartPlayback(),
+      chunksReceived: this.chunksReceived,
+      chunksPlayed: this.chunksPlayed,
+      underruns: health.underrunCount,
+      dropped: health.droppedChunks,
+    });
+  }
+
+  /**
+   * Check if currently playing
+   */
+  isCurrentlyPlaying(): boolean {
+    return this.isPlaying && !this.isPaused;
+  }
+
+  /**
+   * Check if currently streaming
+   */
+  isCurrentlyStreaming(): boolean {
+    return this.isStreaming;
+  }
+
+  /**
+   * Set player state
+   */
+  private setState(state: PlayerState): void {
+    const oldState = this.state;
+    this.state = state;
+
+    if (oldState !== state) {
+      console.log(`[${this.tag}] State: ${oldState} → ${state}`);
+    }
+  }
+
+  // ============================================
+  // EVENTS
+  // ============================================
+
+  /**
+   * Add event listener
+   *
+   * @param event - Event name
+   * @param listener - Callback function
+   */
+  on<E extends PlayerEvent>(event: E, listener: PlayerEventListener<E>): void {
+    if (!this.eventListeners.has(event)) {
+      this.eventListeners.set(event, new Set());
+    }
+    this.eventListeners.get(event)!.add(listener);
+  }
+
+  /**
+   * Add event listener that fires only once
+   *
+   * @param event - Event name
+   * @param listener - Callback function
+   */
+  once<E extends PlayerEvent>(event: E, listener: PlayerEventListener<E>): void {
+    const onceListener: PlayerEventListener<E> = (data) => {
+      listener(data);
+      this.off(event, onceListener);
+    };
+    this.on(event, onceListener);
+  }
+
+  /**
+   * Remove event listener
+   *
+   * @param event - Event name
+   * @param listener - Callback function
+   */
+  off<E extends PlayerEvent>(event: E, listener: PlayerEventListener<E>): void {
+    this.eventListeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Remove all event listeners for an event
+   */
+  removeAllListeners(event?: PlayerEvent): void {
+    if (event) {
+      this.eventListeners.delete(event);
+    } else {
+      this.eventListeners.clear();
+    }
+  }
+
+  /**
+   * Emit event to listeners
+   */
+  private emit<E extends PlayerEvent>(event: E, data: PlayerEventMap[E]): void {
+    this.eventListeners.get(event)?.forEach((listener) => {
+      try {
+        listener(data);
+      } catch (error) {
+        console.error(`[${this.tag}] Error in ${event} listener:`, error);
+      }
+    });
+  }
+
+  /**
+   * Dispose of resources
+   */
+  async dispose(): Promise<void> {
+    console.log(`[${this.tag}] Disposing`);
+
+    this.stop();
+
+    // Don't dispose shared AudioContext singleton
+    // (Other players might still need it)
+    this.eventListeners.clear();
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Streaming TTS Player - Shared Contract
+ *
+ * Every streaming provider (Cartesia, Deepgram, OpenAI) is driven through the
+ * same StreamingTTSPlayer interface: speak/stop/dispose, typed events and one
+ * PlayerMetrics shape. The playout pipeline lives in BaseStreamingPlayer;
+ * providers only supply a PCM16 chunk source.
+ *
+ * @see BaseStreamingPlayer
+ */
+
+import { UnderrunStrategy } from '../../utils/audio/JitterBuffer';
+import { DeepgramVoice, OpenAIVoice, WordTimestamp } from '../../types';
+
+/**
+ * Player state machine
+ */
+export enum PlayerState {
+  IDLE = 'idle',
+  CONNECTING = 'connecting',
+  BUFFERING = 'buffering',
+  PLAYING = 'playing',
+  PAUSED = 'paused',
+  STOPPED = 'stopped',
+  DONE = 'done',
+  ERROR = 'error',
+}
+
+/**
+ * Comprehensive player metrics
+ */
+export interface PlayerMetrics {
+  /** Current player state */
+  state: PlayerState;
+  /** Buffer duration in milliseconds */
+  bufferDuration: number;
+  /** Pre-buffer threshold in milliseconds */
+  thresholdDuration: number;
+  /** Buffer fill percentage */
+  bufferPercent: number;
+  /** Number of samples queued in jitter buffer */
+  samplesQueued: number;
+  /** Playback position in samples */
+  playbackPosition: number;
+  /** Current latency in milliseconds (time to first chunk) */
+  firstChunkLatency: number;
+  /** Total playback latency (time to first sound) */
+  playbackLatency: number;
+  /** Number of chunks dropped from jitter buffer */
+  droppedChunks: number;
+  /** Number of buffer underruns */
+  underrunCount: number;
+  /** Current gain (volume) */
+  gain: number;
+  /** Total chunks received */
+  chunksReceived: number;
+  /** Total chunks played */
+  chunksPlayed: number;
+  /** Chunks per second rate */
+  chunksPerSecond: number;
+  /** FIFO queue size */
+  fifoQueueSize: number;
+  /** Is currently streaming */
+  isStreaming: boolean;
+  /** Sample rate the provider delivers (resampled to sampleRate if different) */
+  sourceSampleRate: number;
+  /** Current utterance is played from the TTS cache */
+  fromCache: boolean;
+}
+
+/**
+ * Player configuration
+ */
+export interface StreamingPlayerConfig {
+  /** Sample rate in Hz (pipeline rate, after resampling) */
+  sampleRate: number;
+  /** Pre-buffer threshold in milliseconds */
+  preBufferThreshold: number;
+  /** Maximum buffer size in seconds */
+  maxBufferSize: number;
+  /** Underrun strategy */
+  underrunStrategy: UnderrunStrategy;
+  /** Initial gain (0.0 - 1.0) */
+  initialGain: number;
+  /** Whether to align to zero-crossing */
+  useZeroCrossing: boolean;
+  /** Playback chunk size in samples */
+  chunkSize: number;
+  /** FIFO queue max size */
+  fifoMaxSize: number;
+  /** Processing interval in ms */
+  processingInterval: number;
+  /** Play short repeated lines from the on-disk TTS cache (see tts-cache.ts) */
+  useCache: boolean;
+}
+
+// ============================================
+// EVENTS
+// ============================================
+
+export interface PlayerErrorEvent {
+  error: string;
+  debug?: {
+    fifoSize: number;
+    chunksReceived: number;
+    isStreaming: boolean;
+  };
+}
+
+/**
+ * A word reaching the speaker (providers with word timestamps only)
+ */
+export interface PlayerWordEvent extends WordTimestamp {
+  index: number;
+}
+
+/**
+ * Payload of every player event
+ */
+export interface PlayerEventMap {
+  connecting: { text: string };
+  connected: { text: string };
+  buffering: { timestamp: number };
+  playing: PlayerMetrics;
+  paused: PlayerMetrics;
+  stopped: PlayerMetrics;
+  done: PlayerMetrics;
+  underrun: PlayerMetrics;
+  error: PlayerErrorEvent;
+  metrics: PlayerMetrics;
+  word: PlayerWordEvent;
+}
+
+export type PlayerEvent = keyof PlayerEventMap;
+
+export type PlayerEventListener<E extends PlayerEvent> = (data: PlayerEventMap[E]) => void;
+
+// ============================================
+// SPEAK OPTIONS
+// ============================================
+
+export type CartesiaSpeed = 'slowest' | 'slow' | 'normal' | 'fast' | 'fastest';
+
+export interface CartesiaSpeakOptions {
+  voiceId?: string;
+  emotion?: string[];
+  speed?: CartesiaSpeed;
+  language?: string;
+}
+
+export interface DeepgramSpeakOptions {
+  voiceId?: DeepgramVoice;
+}
+
+export interface OpenAISpeakOptions {
+  voiceId?: OpenAIVoice;
+  speed?: number;
+  instructions?: string; // Voice style instructions (gpt-4o-mini-tts only)
+}
+
+/**
+ * speak() options of whichever provider is active
+ */
+export type StreamingSpeakOptions = CartesiaSpeakOptions | DeepgramSpeakOptions | OpenAISpeakOptions;
+
+// ============================================
+// PLAYER
+// ============================================
+
+export interface StreamingTTSPlayer<TOptions = StreamingSpeakOptions> {
+  /** Stream and play text; resolves once playback has drained (or was stopped) */
+  speak(text: string, options?: TOptions): Promise<void>;
+  /** Stream and play text that is still being written, sentence by sentence (streamed LLM replies) */
+  speakStream(sentences: AsyncIterable<string>, options?: TOptions): Promise<void>;
+  /** Start synthesizing text without playing it; a speak() of the same text and options picks it up */
+  prefetch(text: string, options?: TOptions): Promise<void>;
+  /** Stop playback (emits 'done' if audio was playing, to release the microphone) */
+  stop(): void;
+  pause(): void;
+  resume(): void;
+  setVolume(level: number, rampTime?: number): void;
+  dispose(): Promise<void>;
+
+  getState(): PlayerState;
+  getMetrics(): PlayerMetrics;
+  isCurrentlyPlaying(): boolean;
+  isCurrentlyStreaming(): boolean;
+
+  on<E extends PlayerEvent>(event: E, listener: PlayerEventListener<E>): void;
+  once<E extends PlayerEvent>(event: E, listener: PlayerEventListener<E>): void;
+  off<E extends PlayerEvent>(event: E, listener: PlayerEventListener<E>): void;
+  removeAllListeners(event?: PlayerEvent): void;
+}
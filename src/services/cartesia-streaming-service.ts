@@ -30,6 +30,24 @@ import { DEBUG_CONFIG, debugLog, debugError, debugWarn } from '../config/debug-c
  */
 type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error';
 
+/**
+ * Generation request fields shared by every message of a context
+ * (the transcript is added per message)
+ */
+type CartesiaGenerationRequest = {
+    context_id: string;
+    model_id: string;
+    voice: object;
+    output_format: {
+        container: 'raw';
+        encoding: 'pcm_s16le';
+        sample_rate: number;
+    };
+    add_timestamps: boolean;
+    speed?: CartesiaStreamingOptions['speed'];
+    language?: string;
+};
+
 /**
  * Main WebSocket service class
  */
@@ -309,6 +327,60 @@ class CartesiaStreamingService {
      */
     async* generateAudioStream(
         options: CartesiaStreamingOptions
+    ): AsyncGenerator<AudioChunk, void, unknown> {
+        debugLog('CARTESIA', `📝 [Cartesia WS] Text: "${options.text.substring(0, 50)}${options.text.length > 50 ? '...' : ''}"`);
+
+        yield* this.runGeneration(options, async (request) => {
+            try {
+                this.ws?.send(JSON.stringify({ ...request, transcript: options.text }));
+                debugLog('CARTESIA', '📤 [Cartesia WS] Request sent');
+            } catch (error) {
+                debugError('❌ [Cartesia WS] Send error:', error);
+                throw new Error('Failed to send generation request');
+            }
+        });
+    }
+
+    /**
+     * Generate audio for text that arrives sentence by sentence (streamed LLM
+     * output). Every sentence continues the same context as soon as it is
+     * complete, so Cartesia starts speaking before the rest has been written
+     * and keeps prosody across sentences. The context ends with the text stream
+     */
+    async* generateAudioStreamFromText(
+        sentences: AsyncIterable<string>,
+        options: Omit<CartesiaStreamingOptions, 'text'>
+    ): AsyncGenerator<AudioChunk, void, unknown> {
+        yield* this.runGeneration(options, async (request) => {
+            let sentenceCount = 0;
+            for await (const sentence of sentences) {
+                // Consumer gone (stopped or cancelled) - stop sending
+                if (!this.activeContextIds.has(request.context_id)) return;
+                if (!sentence.trim()) continue;
+
+                this.ws?.send(JSON.stringify({
+                    ...request,
+                    transcript: `${sentence.trim()} `, // Trailing space: the next sentence continues after it
+                    continue: true,
+                    max_buffer_delay_ms: 0             // Whole sentences already - don't wait for more text
+                }));
+                sentenceCount++;
+                debugLog('CARTESIA', `📤 [Cartesia WS] Sentence ${sentenceCount} sent: "${sentence.substring(0, 50)}"`);
+            }
+
+            if (!this.activeContextIds.has(request.context_id)) return;
+            this.ws?.send(JSON.stringify({ ...request, transcript: '', continue: false }));
+            debugLog('CARTESIA', `📤 [Cartesia WS] Text stream complete (${sentenceCount} sentences)`);
+        });
+    }
+
+    /**
+     * One generation context: routes its messages and yields its chunks while
+     * `send` delivers the transcript (all at once, or over time)
+     */
+    private async* runGeneration(
+        options: Omit<CartesiaStreamingOptions, 'text'>,
+        send: (request: CartesiaGenerationRequest) => Promise<void>
     ): AsyncGenerator<AudioChunk, void, unknown> {
         // Ensure connected
         if (!this.isConnected()) {
@@ -322,7 +394,6 @@ class CartesiaStreamingService {
 
         debugLog('CARTESIA', `🎙️ [Cartesia WS] Starting generation`);
         debugLog('CARTESIA', `🆔 [Cartesia WS] Context: ${contextId}`);
-        debugLog('CARTESIA', `📝 [Cartesia WS] Text: "${options.text.substring(0, 50)}${options.text.length > 50 ? '...' : ''}"`);
 
         // Chunk queue
         const chunkQueue: AudioChunk[] = [];
@@ -416,11 +487,10 @@ class CartesiaStreamingService {
         // Register handler
         this.messageHandlers.set(contextId, handler);
 
-        // Send generation request WITH add_timestamps
-        const request = {
+        // Generation request WITH add_timestamps (send() adds the transcript)
+        const request: CartesiaGenerationRequest = {
             context_id: contextId,
             model_id: 'sonic-3',
-            transcript: options.text,
             voice: {
                 mode: 'id' as const,
                 id: options.voiceId,
@@ -437,16 +507,15 @@ class CartesiaStreamingService {
                 sample_rate: 16000  // MUST match CartesiaStreamingPlayer sampleRate
             },
             add_timestamps: true, // ⭐ ENABLE WORD TIMESTAMPS FOR SENTENCE CHUNKING
-            ...(options.speed && { speed: options.speed })
+            ...(options.speed && { speed: options.speed }),
+            ...(options.language && { language: options.language })
         };
 
-        try {
-            this.ws?.send(JSON.stringify(request));
-            debugLog('CARTESIA', '📤 [Cartesia WS] Request sent');
-        } catch (error) {
-            debugError('❌ [Cartesia WS] Send error:', error);
-            throw new Error('Failed to send generation request');
-        }
+        // Not awaited: a streamed transcript keeps arriving while chunks play
+        send(request).catch((error) => {
+            generationError = error instanceof Error ? error : new Error('Failed to send generation request');
+            isGenerating = false;
+        });
 
         // Yield chunks as they arrive
         try {
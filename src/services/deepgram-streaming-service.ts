@@ -426,6 +426,19 @@ class DeepgramStreamingService {
      */
     async* generateAudioStream(
         options: DeepgramStreamingOptions
+    ): AsyncGenerator<AudioChunk, void, unknown> {
+        debugLog('DEEPGRAM', `📝 [Deepgram WS] Text: "${options.text.substring(0, 50)}${options.text.length > 50 ? '...' : ''}"`);
+        yield* this.generateAudioStreamFromText([options.text], options);
+    }
+
+    /**
+     * Generate audio for text that arrives sentence by sentence (streamed LLM
+     * output): each sentence gets its own Speak + Flush as soon as it is
+     * complete, and the stream ends once every flush has been answered
+     */
+    async* generateAudioStreamFromText(
+        sentences: AsyncIterable<string> | Iterable<string>,
+        options: Omit<DeepgramStreamingOptions, 'text'>
     ): AsyncGenerator<AudioChunk, void, unknown> {
         // Ensure connected (with voice ID in URL)
         if (!this.isConnected()) {
@@ -440,47 +453,64 @@ class DeepgramStreamingService {
 
         debugLog('DEEPGRAM', `🎙️ [Deepgram WS] Starting generation`);
         debugLog('DEEPGRAM', `🆔 [Deepgram WS] Stream: ${streamId}`);
-        debugLog('DEEPGRAM', `📝 [Deepgram WS] Text: "${options.text.substring(0, 50)}${options.text.length > 50 ? '...' : ''}"`);
         debugLog('DEEPGRAM', `🎤 [Deepgram WS] Voice: ${options.voiceId}`);
 
         const chunkQueue = this.chunkQueues.get(streamId)!;
-        let isGenerating = true;
-        let generationError: Error | null = null;
         const generationStart = Date.now();
 
+        // Text side: filled in while chunks are already being yielded
+        const input = { done: false, flushes: 0, error: null as Error | null };
+
+        const sendSentences = async () => {
+            try {
+                for await (const text of sentences) {
+                    // Consumer gone (stopped or cancelled) - stop sending
+                    if (!this.activeStreamIds.has(streamId)) return;
+                    if (!text.trim()) continue;
+
+                    // CRITICAL: Deepgram requires a Speak message with text,
+                    // followed by a Flush message to trigger audio generation
+                    // Reference: https://developers.deepgram.com/docs/streaming-text-to-speech
+
+                    // Step 1: Send Speak message
+                    const speakMsg: DeepgramSpeakMessage = {
+                        type: 'Speak',
+                        text
+                    };
+                    this.ws?.send(JSON.stringify(speakMsg));
+                    debugLog('DEEPGRAM', '📤 [Deepgram WS] Speak message sent');
+
+                    // Step 2: Send Flush message to trigger audio generation
+                    const flushMsg: DeepgramFlushMessage = {
+                        type: 'Flush'
+                    };
+                    this.ws?.send(JSON.stringify(flushMsg));
+                    input.flushes++;
+                    debugLog('DEEPGRAM', '📤 [Deepgram WS] Flush message sent');
+                }
+            } catch (error) {
+                input.error = error instanceof Error ? error : new Error('Failed to send text');
+            } finally {
+                input.done = true;
+            }
+        };
+
         try {
-            // CRITICAL: Deepgram requires a Speak message with text,
-            // followed by a Flush message to trigger audio generation
-            // Reference: https://developers.deepgram.com/docs/streaming-text-to-speech
-
-            // Step 1: Send Speak message
-            const speakMsg: DeepgramSpeakMessage = {
-                type: 'Speak',
-                text: options.text
-            };
-            this.ws?.send(JSON.stringify(speakMsg));
-            debugLog('DEEPGRAM', '📤 [Deepgram WS] Speak message sent');
-
-            // Step 2: Send Flush message to trigger audio generation
-            const flushMsg: DeepgramFlushMessage = {
-                type: 'Flush'
-            };
-            this.ws?.send(JSON.stringify(flushMsg));
-            debugLog('DEEPGRAM', '📤 [Deepgram WS] Flush message sent');
+            sendSentences();
 
             // Yield chunks as they arrive
             let chunkSequence = 0;
             let firstChunkReceived = false;
+            let flushesAnswered = 0;
 
-            while (isGenerating) {
+            while (!input.done || flushesAnswered < input.flushes) {
                 if (chunkQueue.length > 0) {
                     const chunk = chunkQueue.shift()!;
 
-                    // Check for completion sentinel (sequence: -1 from done message)
+                    // Completion sentinel (sequence: -1 from a Flushed message)
                     if (chunk.sequence === -1) {
-                        debugLog('DEEPGRAM', '✅ [Deepgram WS] Stream complete, ending generation');
-                        isGenerating = false;
-                        break;
+                        flushesAnswered++;
+                        continue;
                     }
 
                     chunk.sequence = chunkSequence++;
@@ -507,18 +537,20 @@ class DeepgramStreamingService {
                 }
 
                 // Check for errors
-                if (generationError) {
-                    throw generationError;
+                if (input.error) {
+                    throw input.error;
                 }
             }
 
+            debugLog('DEEPGRAM', `✅ [Deepgram WS] Stream complete, ending generation (${input.flushes} flushes)`);
+
             if (options.onComplete) {
                 options.onComplete();
             }
 
         } catch (error) {
             debugError('❌ [Deepgram WS] Generation error:', error);
-            generationError = error instanceof Error ? error : new Error('Unknown generation error');
+            const generationError = error instanceof Error ? error : new Error('Unknown generation error');
 
             if (options.onError) {
                 options.onError(generationError);
@@ -0,0 +1,152 @@
+import { DeliveryMetrics, InterviewLanguage, QuestionResult } from '../types';
+import { STTWord } from './stt/STTProvider';
+import { getInterviewLanguage } from './interview-language';
+
+// ============================================
+// SAMPLES
+// ============================================
+
+/**
+ * One voice answer as the STT provider heard it
+ */
+export interface SpeechSample {
+  words: STTWord[];     // Final words, times relative to startedAt
+  startedAt: number;    // Epoch ms the recording started
+}
+
+/**
+ * When Victoria's question was played (epoch ms), null if it wasn't spoken
+ */
+export interface ReplySpeech {
+  startedAt: number;
+  endedAt: number;
+}
+
+// Conversational pace used for the chart bands
+export const PACE_RANGE = { slow: 110, fast: 170 };
+
+const round = (value: number, digits: number = 1): number => Number(value.toFixed(digits));
+
+const normalize = (word: string): string =>
+  word.toLowerCase().replace(/[.,!?;:"“”«»¿¡()…]+/g, '');
+
+// ============================================
+// FILLERS
+// ============================================
+
+/**
+ * Count filler words and phrases ("you know" is matched as two words),
+ * longest phrase first so "i mean" isn't split
+ */
+export function countFillers(words: STTWord[], language: InterviewLanguage = 'en'): Record<string, number> {
+  const tokens = words.map(w => normalize(w.word)).filter(token => token.length > 0);
+  const fillers = getInterviewLanguage(language).fillerWords
+    .map(filler => filler.split(' '))
+    .sort((a, b) => b.length - a.length);
+  const counts: Record<string, number> = {};
+
+  for (let i = 0; i < tokens.length; i++) {
+    const match = fillers.find(parts => parts.every((part, offset) => tokens[i + offset] === part));
+    if (!match) continue;
+
+    const filler = match.join(' ');
+    counts[filler] = (counts[filler] || 0) + 1;
+    i += match.length - 1;
+  }
+
+  return counts;
+}
+
+// ============================================
+// METRICS
+// ============================================
+
+/**
+ * Delivery metrics of one voice answer (null when no word timings arrived,
+ * e.g. a provider without word-level output)
+ */
+export function measureAnswer(
+  sample: SpeechSample,
+  language: InterviewLanguage,
+  reply: ReplySpeech | null
+): DeliveryMetrics | null {
+  const words = [...sample.words].sort((a, b) => a.start - b.start);
+  if (words.length === 0) return null;
+
+  const first = words[0];
+  const last = words[words.length - 1];
+  const talkTimeSec = Math.max(last.end - first.start, 0.1);
+
+  let longestPauseSec = 0;
+  for (let i = 1; i < words.length; i++) {
+    longestPauseSec = Math.max(longestPauseSec, words[i].start - words[i - 1].end);
+  }
+
+  // Hesitation counts from the end of Victoria's question when she spoke it,
+  // otherwise from the moment the mic opened
+  const firstWordAt = sample.startedAt + first.start * 1000;
+  const hesitationSec = reply
+    ? Math.max((firstWordAt - reply.endedAt) / 1000, 0)
+    : first.start;
+  const interviewerTimeSec = reply ? Math.max((reply.endedAt - reply.startedAt) / 1000, 0) : 0;
+
+  const fillers = countFillers(words, language);
+
+  return {
+    answers: 1,
+    wordsPerMinute: Math.round(words.length / (talkTimeSec / 60)),
+    fillerCount: Object.values(fillers).reduce((sum, count) => sum + count, 0),
+    fillers,
+    longestPauseSec: round(longestPauseSec),
+    hesitationSec: round(hesitationSec),
+    talkTimeSec: round(talkTimeSec),
+    interviewerTimeSec: round(interviewerTimeSec),
+    talkRatio: round(talkTimeSec / (talkTimeSec + interviewerTimeSec), 2)
+  };
+}
+
+/**
+ * Combine several answers (a topic's, or a whole session's) into one set of
+ * metrics: pace weighted by speaking time, counts summed, worst pause kept
+ */
+export function combineDelivery(metrics: DeliveryMetrics[]): DeliveryMetrics | null {
+  if (metrics.length === 0) return null;
+
+  const answers = metrics.reduce((sum, m) => sum + m.answers, 0);
+  const talkTimeSec = metrics.reduce((sum, m) => sum + m.talkTimeSec, 0);
+  const interviewerTimeSec = metrics.reduce((sum, m) => sum + m.interviewerTimeSec, 0);
+  const fillers: Record<string, number> = {};
+  metrics.forEach(m => Object.entries(m.fillers).forEach(([filler, count]) => {
+    fillers[filler] = (fillers[filler] || 0) + count;
+  }));
+
+  return {
+    answers,
+    wordsPerMinute: talkTimeSec > 0
+      ? Math.round(metrics.reduce((sum, m) => sum + m.wordsPerMinute * m.talkTimeSec, 0) / talkTimeSec)
+      : 0,
+    fillerCount: metrics.reduce((sum, m) => sum + m.fillerCount, 0),
+    fillers,
+    longestPauseSec: Math.max(...metrics.map(m => m.longestPauseSec)),
+    hesitationSec: round(metrics.reduce((sum, m) => sum + m.hesitationSec * m.answers, 0) / answers),
+    talkTimeSec: round(talkTimeSec),
+    interviewerTimeSec: round(interviewerTimeSec),
+    talkRatio: talkTimeSec + interviewerTimeSec > 0 ? round(talkTimeSec / (talkTimeSec + interviewerTimeSec), 2) : 0
+  };
+}
+
+/**
+ * Whole-session delivery from the report results (null for text-only sessions)
+ */
+export function sessionDelivery(results: Array<Pick<QuestionResult, 'delivery'>>): DeliveryMetrics | null {
+  return combineDelivery(results
+    .map(result => result.delivery)
+    .filter((delivery): delivery is DeliveryMetrics => !!delivery));
+}
+
+/**
+ * Fillers per minute of speaking time (compares sessions of different length)
+ */
+export function fillersPerMinute(metrics: DeliveryMetrics): number {
+  return metrics.talkTimeSec > 0 ? round(metrics.fillerCount / (metrics.talkTimeSec / 60)) : 0;
+}
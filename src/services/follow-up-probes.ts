@@ -0,0 +1,77 @@
+import { AnswerIssue, FollowUpProbe, InterviewTopic, ProbeKind } from '../types';
+import { PROBE_DEPTH_CONFIG } from '../config/probe-config';
+
+// ============================================
+// PROBE CATALOG
+// ============================================
+
+/**
+ * What each probe asks for (label for the report, instruction for Victoria)
+ */
+export const PROBE_CATALOG: Record<ProbeKind, { label: string; instruction: string }> = {
+  CONCRETE_EXAMPLE: {
+    label: 'Concrete example',
+    instruction: 'Ask for one concrete example from their own experience (project, numbers, outcome).'
+  },
+  SCALE: {
+    label: 'Scale & failure',
+    instruction: 'Push one level deeper: what would break at 10x load, or what happens when a component fails?'
+  },
+  SPECIFICS: {
+    label: 'Specifics',
+    instruction: 'Ask them to be specific: which tool, which numbers, which exact step.'
+  },
+  ALTERNATIVE: {
+    label: 'Alternative',
+    instruction: 'Challenge the choice: why this and not the standard alternative? Name the alternative.'
+  },
+  MISSING_PART: {
+    label: 'Missing part',
+    instruction: 'Point at the part they skipped and ask them to finish it.'
+  },
+  FOCUS: {
+    label: 'Focus',
+    instruction: 'Ask for the core idea in one or two sentences.'
+  }
+};
+
+/**
+ * Probe for each answer issue (OFF_TOPIC has none - Victoria redirects instead)
+ */
+export const ISSUE_PROBES: Partial<Record<AnswerIssue, ProbeKind>> = {
+  NO_EXAMPLE: 'CONCRETE_EXAMPLE',
+  SHALLOW: 'SCALE',
+  TOO_VAGUE: 'SPECIFICS',
+  WRONG_CONCEPT: 'ALTERNATIVE',
+  INCOMPLETE: 'MISSING_PART',
+  RAMBLING: 'FOCUS'
+};
+
+// ============================================
+// SELECTION
+// ============================================
+
+/**
+ * Maximum probe depth for a topic (see config/probe-config.ts)
+ */
+export function maxProbeDepth(topic: InterviewTopic, limits: Record<InterviewTopic['type'], number> = PROBE_DEPTH_CONFIG): number {
+  return limits[topic.type] ?? 0;
+}
+
+/**
+ * Check the probe Victoria says she asked against the topic's probe budget:
+ * null once the depth is used up or if that probe was already asked on the
+ * topic. The probe is attributed to the issue it answers (see ISSUE_PROBES).
+ */
+export function acceptProbe(
+  kind: ProbeKind,
+  asked: FollowUpProbe[],
+  topic: InterviewTopic,
+  limits?: Record<InterviewTopic['type'], number>
+): { kind: ProbeKind; issue: AnswerIssue } | null {
+  if (asked.length >= maxProbeDepth(topic, limits)) return null;
+  if (asked.some(probe => probe.kind === kind)) return null;
+
+  const issue = (Object.keys(ISSUE_PROBES) as AnswerIssue[]).find(candidate => ISSUE_PROBES[candidate] === kind);
+  return issue ? { kind, issue } : null;
+}
@@ -1,6 +1,43 @@
-const MODEL_ID = "gemini-2.5-flash";// ⛔️ DO NOT CHANGE THIS MODEL! 
-// "gemini-2.5-flash" is the ONLY stable model for this API.
-// Using "1.5" or others will BREAK the app.
+import {
+  AiResponse,
+  AnalysisResponse,
+  ChatMessage,
+  DesignStage,
+  DesignStageResult,
+  DifficultyLevel,
+  FollowUpProbe,
+  InterviewContext,
+  InterviewLanguage,
+  InterviewerProfile,
+  InterviewTopic,
+  QualityLevel,
+  QuestionResult,
+  ResumeData,
+  StarAnalysis,
+  VibeConfig,
+  VoiceGenerationContext
+} from '../types';
+import { LLMProvider, LLMAttachment, LLMMessage, LLMRequest, promptRequest } from './llm/LLMProvider';
+import { createLLMProvider } from './llm/createLLMProvider';
+import { generateStructured, LLMOutputError, parseStructured, repairStructured } from './llm/structuredOutput';
+import {
+  AnalysisResponseSchema,
+  CodeEvaluationSchema,
+  DesignStageEvaluationSchema,
+  FinalEvaluationSchema,
+  QuestionResultsSchema,
+  StarLabelsSchema,
+  UnifiedEvaluation,
+  UnifiedEvaluationSchema
+} from './llm/schemas';
+import { getInterviewLanguage, languagePromptInstruction } from './interview-language';
+import { getTopicStage } from './system-design';
+import { ISSUE_PROBES, PROBE_CATALOG, maxProbeDepth } from './follow-up-probes';
+import { DIFFICULTY_LABELS, difficultyThresholds, nextDifficulty, updateRollingScore } from './adaptive-difficulty';
+import { DEFAULT_INTERVIEWER_PROFILE, interviewerProfileInstruction } from './interviewer-profiles';
+import { buildStarAnalysis, splitSentences } from './star-analysis';
+import { SentenceQueue, SpokenFieldReader, StreamedReply } from './streaming-reply';
+import { keepPlanTopicIds } from './topic-results';
 
 // ============================================
 // DEBUG SIMULATION TYPE SYSTEM
@@ -145,17 +182,108 @@ const SPECIAL_ACTIONS: Record<SpecialAction, string> = {
     - After explanation: Return to previous topic, wait for user to answer that PREVIOUS question`
 };
 
+// ============================================
+// UNIFIED EVALUATION
+// ============================================
+
+/**
+ * Interview state evaluateAndRespond() judges an answer in
+ */
+type UnifiedContext = {
+  nextTopic: InterviewTopic | null,
+  angerLevel: number,
+  engagementLevel?: number,      // ← NEW: Optional engagement metric (0-100)
+  vibe?: VibeConfig,             // ← NEW: Optional current emotional state
+  historyBuffer: ChatMessage[],
+  isIntro: boolean,
+  currentTopicIndex: number,
+  totalTopics: number,
+  stageIndex?: number,           // Staged topics (SystemDesign): current stage
+  probes?: FollowUpProbe[],      // Follow-up probes already asked on this topic
+  difficulty?: DifficultyLevel,  // Adaptive difficulty of the current topic
+  rollingScore?: number | null   // Rolling compositeScore the next difficulty is derived from
+};
+
+// Reply when evaluation fails entirely
+const unifiedFallback = (): UnifiedEvaluation => ({
+  evaluation: {
+    metrics: { accuracy: 0, depth: 0, structure: 0, reasoning: "Evaluation error" },
+    compositeScore: 0,
+    level: 'fail',
+    issues: [],
+    intent: 'WEAK_ATTEMPT',
+    suggestedFeedback: "Let's move on."
+  },
+  voiceResponse: "I'm having trouble processing that. Could you rephrase your answer?",
+  probe: null
+});
+
+// Evaluation when a streamed reply fails after part of it was spoken: the
+// answer was already acknowledged aloud, so it counts as a clarification
+// (no score, no penalty, the topic stays)
+const unifiedNeutralFallback = (voiceResponse: string): UnifiedEvaluation => ({
+  evaluation: {
+    metrics: { accuracy: 0, depth: 0, structure: 0, reasoning: "Evaluation unavailable" },
+    compositeScore: 0,
+    level: 'fail',
+    issues: [],
+    intent: 'CLARIFICATION',
+    suggestedFeedback: ""
+  },
+  voiceResponse,
+  probe: null
+});
+
+/**
+ * Victoria's brain: every prompt of the interview (judge, voice actor, simulator).
+ * The backend is pluggable - pass any LLMProvider, or let createLLMProvider()
+ * pick one from the environment (Gemini by default).
+ * Prompts are written in English; `language` only switches what Victoria
+ * says and writes (see languagePromptInstruction). `profile` sets her
+ * persona, tone and rubric (see services/interviewer-profiles.ts).
+ */
 export class GeminiAgentService {
-  private apiKey: string;
+  private llm: LLMProvider;
+  private language: InterviewLanguage;
+  private profile: InterviewerProfile;
   private history: any[] = [];
   private resume: string = "";
   private role: string = "";
 
-  private baseUrl = `https://generativelanguage.googleapis.com/v1beta/models/${MODEL_ID}:generateContent`;
-  constructor() {
-    // Prefer environment variable
-    this.apiKey = process.env.EXPO_PUBLIC_GEMINI_API_KEY || "";
-    if (!this.apiKey) console.error("API Key missing! Check .env file.");
+  constructor(
+    llm: LLMProvider = createLLMProvider(),
+    language: InterviewLanguage = 'en',
+    profile: InterviewerProfile = DEFAULT_INTERVIEWER_PROFILE
+  ) {
+    this.llm = llm;
+    this.language = language;
+    this.profile = profile;
+  }
+
+  /**
+   * Append the interview-language instruction (no-op for English)
+   */
+  private localize(prompt: string): string {
+    return prompt + languagePromptInstruction(this.language);
+  }
+
+  /**
+   * Name of the active LLM backend (for logs and debug UI)
+   */
+  getProviderName(): string {
+    return this.llm.name;
+  }
+
+  /**
+   * Same interviewer (language, profile, resume context) on another LLM
+   * provider - speculative calls go through a deferred recording
+   */
+  withProvider(llm: LLMProvider): GeminiAgentService {
+    const agent = new GeminiAgentService(llm, this.language, this.profile);
+    agent.history = this.history;
+    agent.resume = this.resume;
+    agent.role = this.role;
+    return agent;
   }
 
   async startInterview(
@@ -169,7 +297,7 @@ export class GeminiAgentService {
     
     // Обработка ResumeData (PDF) или string (legacy)
     let resumeTextForContext = "";
-    let pdfPart: any = null;
+    let pdfAttachment: LLMAttachment | null = null;
 
     if (typeof resume === 'string') {
       // Legacy: строка с текстом резюме
@@ -181,12 +309,10 @@ export class GeminiAgentService {
       resumeTextForContext = resume.text || "PDF resume loaded";
       this.resume = resume.text || "PDF resume loaded";
       
-      // Создаем часть с inlineData для PDF
-      pdfPart = {
-        inlineData: {
-          mimeType: "application/pdf",
-          data: resume.pdfBase64
-        }
+      // Прикрепляем PDF к запросу (inlineData у Gemini)
+      pdfAttachment = {
+        mimeType: "application/pdf",
+        data: resume.pdfBase64
       };
       
       console.log(`📄 [START_INTERVIEW] Using PDF resume (inlineData)`);
@@ -206,12 +332,13 @@ export class GeminiAgentService {
     // to create a natural, professional transition into the introduction question.
 
     const prompt = `
-      You are Victoria, a Principal Software Engineer conducting a technical interview.
+      You are Victoria, conducting an interview.
+      ${interviewerProfileInstruction(this.profile)}
       
       CONTEXT:
       - The user just said "I'm ready" to begin the interview.
       - You have ALREADY introduced yourself in the lobby (do NOT say hello or introduce yourself again).
-      - The first topic is "Introduction" - asking the candidate to introduce themselves.
+      - The first topic is "${initialContext.currentTopic.topic}": ${initialContext.currentTopic.context}
       
       CANDIDATE RESUME CONTEXT (use to personalize if possible):
       ${resumeTextForContext.substring(0, 500)}
@@ -219,7 +346,7 @@ export class GeminiAgentService {
       TASK:
       Generate a natural, professional transition (1-2 sentences) that:
       1. Acknowledges their readiness briefly
-      2. Asks them to tell you about themselves and their background
+      2. Asks the first topic's question (for "Introduction": tell you about themselves and their background)
       3. Sounds conversational and human (not robotic)
       
       CONSTRAINT:
@@ -230,28 +357,24 @@ export class GeminiAgentService {
       Return ONLY the spoken response (no explanations, no quotes).
     `;
 
-    // Создаем массив parts для запроса
-    const parts: any[] = [{ text: prompt }];
-    
     // Если есть PDF, добавляем его в запрос
-    if (pdfPart) {
-      parts.push(pdfPart);
-      console.log("📄 [START_INTERVIEW] Added PDF inlineData to request");
+    if (pdfAttachment) {
+      console.log("📄 [START_INTERVIEW] Added PDF attachment to request");
     }
 
-    const payload = {
-      contents: [{ role: "user", parts: parts }],
-      generationConfig: { temperature: 0.7 }
-    };
+    const request = promptRequest('start_interview', this.localize(prompt), {
+      temperature: 0.7,
+      attachments: pdfAttachment ? [pdfAttachment] : undefined
+    });
 
     try {
-      const response = await this.callGemini(payload);
-      console.log("✅ [START_INTERVIEW] Gemini generated intro:", response);
+      const response = await this.llm.generate(request);
+      console.log("✅ [START_INTERVIEW] LLM generated intro:", response);
       return response;
     } catch (e) {
-      console.error("❌ [START_INTERVIEW] Gemini call failed:", e);
+      console.error("❌ [START_INTERVIEW] LLM call failed:", e);
       // Fallback to a simple but not hardcoded response
-      return "Great, let's begin. Please start by telling me a bit about yourself and your professional background.";
+      return getInterviewLanguage(this.language).introFallback;
     }
   }
 
@@ -275,21 +398,106 @@ export class GeminiAgentService {
     userText: string,
     currentTopic: InterviewTopic,
     lastAiQuestion: string,
-    context: {
-      nextTopic: InterviewTopic | null,
-      angerLevel: number,
-      engagementLevel?: number,      // ← NEW: Optional engagement metric (0-100)
-      vibe?: VibeConfig,             // ← NEW: Optional current emotional state
-      historyBuffer: ChatMessage[],
-      isIntro: boolean,
-      currentTopicIndex: number,
-      totalTopics: number
+    context: UnifiedContext
+  ): Promise<UnifiedEvaluation> {
+    const request = this.buildUnifiedRequest(userText, currentTopic, lastAiQuestion, context, false);
+
+    try {
+      const unified = await generateStructured(this.llm, request, UnifiedEvaluationSchema);
+
+      console.log(`📊 [UNIFIED] Evaluation: Score ${unified.evaluation.compositeScore.toFixed(1)}, Level: ${unified.evaluation.level}, Intent: ${unified.evaluation.intent}`);
+      console.log(`💬 [UNIFIED] Response: "${unified.voiceResponse.substring(0, 60)}..."`);
+
+      return unified;
+
+    } catch (e) {
+      if (e instanceof LLMOutputError) {
+        console.error(`❌ [UNIFIED] Invalid ${e.schema} (${e.code}):`, e.issues);
+      } else {
+        console.error("❌ [UNIFIED] Call failed:", e);
+      }
+      
+      return unifiedFallback();
     }
-  ): Promise<{
-    evaluation: AnalysisResponse,
-    voiceResponse: string
-  }> {
-    const { nextTopic, angerLevel, engagementLevel, vibe, historyBuffer, isIntro, currentTopicIndex, totalTopics } = context;
+  }
+
+  /**
+   * Streaming evaluateAndRespond(): the model writes voiceResponse first and
+   * its sentences are handed out (for TTS) as soon as each one is complete,
+   * while the evaluation is still being generated.
+   * Returns null when the LLM provider can't stream (replay, OpenAI, Groq...)
+   *
+   * A stream that fails or doesn't parse before anything was spoken is
+   * retried without streaming. Once a sentence has gone out, the reply can't
+   * change: an invalid evaluation is repaired around the spoken reply, and a
+   * failed stream gets a neutral evaluation. The sentences always end with
+   * the reply that is returned.
+   */
+  streamEvaluateAndRespond(
+    userText: string,
+    currentTopic: InterviewTopic,
+    lastAiQuestion: string,
+    context: UnifiedContext
+  ): StreamedReply | null {
+    const llm = this.llm;
+    if (!llm.stream) return null;
+
+    const request = this.buildUnifiedRequest(userText, currentTopic, lastAiQuestion, context, true);
+    const sentences = new SentenceQueue();
+    const reader = new SpokenFieldReader('voiceResponse');
+    const streamStart = Date.now();
+
+    const reply = (async (): Promise<UnifiedEvaluation> => {
+      let raw = "";
+      let unified: UnifiedEvaluation;
+
+      try {
+        for await (const delta of llm.stream!(request)) {
+          if (!raw) console.log(`⚡ [UNIFIED] First tokens in ${Date.now() - streamStart}ms`);
+          raw += delta;
+          reader.read(raw).forEach(sentence => sentences.push(sentence));
+        }
+
+        const parsed = parseStructured(raw, UnifiedEvaluationSchema);
+        if (parsed.ok) {
+          unified = parsed.value;
+        } else if (reader.spoken) {
+          console.warn(`⚠️ [UNIFIED] Streamed response invalid (${parsed.code}), repairing the evaluation:`, parsed.errors);
+          unified = await repairStructured(llm, request, raw, parsed.errors, UnifiedEvaluationSchema,
+            'Keep "voiceResponse" exactly as it is - it has already been spoken.');
+        } else {
+          console.warn(`⚠️ [UNIFIED] Streamed response invalid (${parsed.code}), retrying without streaming:`, parsed.errors);
+          unified = await generateStructured(llm, request, UnifiedEvaluationSchema);
+        }
+      } catch (e) {
+        if (e instanceof LLMOutputError) {
+          console.error(`❌ [UNIFIED] Invalid ${e.schema} (${e.code}):`, e.issues);
+        } else {
+          console.error("❌ [UNIFIED] Streaming call failed:", e);
+        }
+        unified = reader.spoken ? unifiedNeutralFallback(reader.spoken) : unifiedFallback();
+      }
+
+      reader.finish(raw, unified.voiceResponse).forEach(sentence => sentences.push(sentence));
+      sentences.close();
+
+      console.log(`📊 [UNIFIED] Evaluation: Score ${unified.evaluation.compositeScore.toFixed(1)}, Level: ${unified.evaluation.level}, Intent: ${unified.evaluation.intent} (${Date.now() - streamStart}ms)`);
+
+      // What the candidate heard is what goes into the history
+      return { ...unified, voiceResponse: reader.spoken };
+    })();
+
+    return { sentences, reply };
+  }
+
+  private buildUnifiedRequest(
+    userText: string,
+    currentTopic: InterviewTopic,
+    lastAiQuestion: string,
+    context: UnifiedContext,
+    voiceFirst: boolean
+  ): LLMRequest {
+    const { nextTopic, angerLevel, engagementLevel, vibe, historyBuffer, isIntro, currentTopicIndex, totalTopics, stageIndex = 0, probes = [], difficulty, rollingScore = null } = context;
     
     console.log(`🔍 [UNIFIED] Starting evaluation and voice generation...`);
     console.log(`📍 [UNIFIED] Current Topic: "${currentTopic.topic}" (Index ${currentTopicIndex}/${totalTopics})`);
@@ -305,6 +513,18 @@ export class GeminiAgentService {
     // Build intro warning
     const introWarning = isIntro ? "⚠️ You ALREADY introduced yourself in lobby. DO NOT say 'Hello' or state your name again." : "";
 
+    // Staged topics: evaluate the answer against the current stage only
+    const stage = getTopicStage(currentTopic, stageIndex);
+    const stageContext = stage && currentTopic.stages ? this.buildStageContext(currentTopic, stage, stageIndex) : "";
+
+    // Scored topics: targeted follow-up probes when Victoria stays on the topic
+    const probeContext = isIntro || currentTopicIndex < 0 ? "" : this.buildProbeContext(currentTopic, probes);
+
+    // Adaptive difficulty: level of follow-ups and of the next topic's question
+    const difficultyContext = difficulty && currentTopicIndex >= 0
+      ? this.buildDifficultyContext(difficulty, rollingScore, nextTopic !== null, isIntro)
+      : "";
+
     // ============================================
     // BUILD EMOTIONAL CONTEXT (if vibe available)
     // ============================================
@@ -390,7 +610,9 @@ Neutral: "Thank you for that answer. Let's move to the next topic."
     // ============================================
 
     const prompt = `
-ROLE: Victoria - Principal Software Engineer & Technical Interviewer
+ROLE: Victoria - ${this.profile.persona}
+
+${interviewerProfileInstruction(this.profile)}
 
 You are performing TWO tasks in a SINGLE response (atomic operation):
 1. EVALUATE the candidate's answer quality
@@ -553,6 +775,12 @@ Response strategy based on intent and score:
 
 ${nextTopic?.type === 'SoftSkill' ? `For next topic (SoftSkill: "${nextTopic.topic}"), generate situational question related to candidate's role.` : ""}
 ${nextTopic && (nextTopic?.type === 'Match' || nextTopic?.type === 'Gap' || nextTopic?.type === 'CoolSkill') ? `For next topic (Technical: "${nextTopic.topic}"), choose scenario or experience question.` : ""}
+${nextTopic?.type === 'Coding' ? `For next topic (Coding exercise: "${nextTopic.topic}"), briefly read out the problem and ask the candidate to write the solution in the editor and talk through their approach.` : ""}
+${stageContext}
+${probeContext}
+${difficultyContext}
+${nextTopic?.type === 'SystemDesign' ? `For next topic (System design: "${nextTopic.topic}"), present the scenario (${nextTopic.context}) and start with the requirements: ask the candidate what they would clarify first.` : ""}
+${currentTopic.type === 'Coding' ? `Current topic is a live coding exercise: the answer may contain "[Submitted code]" - judge the algorithm and the explanation, not syntax. Without submitted code, treat it as thinking out loud (stay on topic unless the candidate gives up).` : ""}
 
 ===== OUTPUT JSON SCHEMA =====
 
@@ -570,50 +798,19 @@ ${nextTopic && (nextTopic?.type === 'Match' || nextTopic?.type === 'Gap' || next
     "intent": "STRONG_ATTEMPT" | "WEAK_ATTEMPT" | "CLARIFICATION" | "GIVE_UP" | "SHOW_ANSWER" | "SHOW_ANSWER_STAY" | "SHOW_ANSWER_PREVIOUS" | "NONSENSE" | "READY_CONFIRM",
     "suggestedFeedback": "string (5-10 words)"
   },
-  "voiceResponse": "string (2-4 sentences, natural spoken)"
+  "voiceResponse": "string (2-4 sentences, natural spoken)",
+  "probe": { "kind": "CONCRETE_EXAMPLE" | "SCALE" | "SPECIFICS" | "ALTERNATIVE" | "MISSING_PART" | "FOCUS", "question": "string (the probe question exactly as in voiceResponse)" } | null
 }
 
+"probe": the FOLLOW-UP PROBE your voiceResponse asks, or null if it asks none.
 Return ONLY valid JSON with no extra text.
+${voiceFirst ? `Write "voiceResponse" FIRST, before "evaluation" - it is spoken aloud while the evaluation is still being written.` : ""}
     `;
 
-    const payload = {
-      contents: [{ role: "user", parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: 0.4,
-        responseMimeType: "application/json"
-      }
-    };
-
-    try {
-      console.log(`🤖 [GEMINI] Calling model: ${MODEL_ID}`);
-      const raw = await this.callGemini(payload);
-      const clean = this.cleanJson(raw);
-      const unified = JSON.parse(clean) as {
-        evaluation: AnalysisResponse,
-        voiceResponse: string
-      };
-
-      console.log(`📊 [UNIFIED] Evaluation: Score ${unified.evaluation.compositeScore.toFixed(1)}, Level: ${unified.evaluation.level}, Intent: ${unified.evaluation.intent}`);
-      console.log(`💬 [UNIFIED] Response: "${unified.voiceResponse.substring(0, 60)}..."`);
-
-      return unified;
-
-    } catch (e) {
-      console.error("❌ [UNIFIED] Call failed:", e);
-      
-      // Fallback response
-      return {
-        evaluation: {
-          metrics: { accuracy: 0, depth: 0, structure: 0, reasoning: "Evaluation error" },
-          compositeScore: 0,
-          level: 'fail',
-          issues: [],
-          intent: 'WEAK_ATTEMPT',
-          suggestedFeedback: "Let's move on."
-        },
-        voiceResponse: "I'm having trouble processing that. Could you rephrase your answer?"
-      };
-    }
+    return promptRequest('evaluate_and_respond', this.localize(prompt), {
+      temperature: 0.4,
+      responseFormat: 'json_object'
+    });
   }
 
   // --- 1. ANALYSIS JUDGE ---
@@ -805,20 +1002,15 @@ Return ONLY valid JSON with no extra text.
       }
       `;
 
-    const payload = {
-      contents: [{ role: "user", parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: 0.1,  // Keep strict for analysis
-        responseMimeType: "application/json"
-      }
-    };
+    const request = promptRequest('evaluate_answer', this.localize(prompt), {
+      temperature: 0.1,  // Keep strict for analysis
+      responseFormat: 'json_object'
+    });
 
     try {
-      const raw = await this.callGemini(payload);
-      const clean = this.cleanJson(raw);
-      const parsed = JSON.parse(clean) as AnalysisResponse;
+      const parsed = await generateStructured(this.llm, request, AnalysisResponseSchema);
 
-      // Validation: ensure compositeScore matches level and log results
+      // Log validated results
       console.log(`📊 [EVALUATION] Score: ${parsed.compositeScore.toFixed(1)}, Level: ${parsed.level}, Intent: ${parsed.intent}`);
       if (parsed.issues.length > 0) {
         console.log(`⚠️ [EVALUATION] Issues: ${parsed.issues.join(', ')}`);
@@ -828,7 +1020,11 @@ Return ONLY valid JSON with no extra text.
       return parsed;
 
     } catch (e) {
-      console.error("❌ [EVALUATION] Failed:", e);
+      if (e instanceof LLMOutputError) {
+        console.error(`❌ [EVALUATION] Invalid ${e.schema} (${e.code}):`, e.issues);
+      } else {
+        console.error("❌ [EVALUATION] Failed:", e);
+      }
       // Fallback with new structure
       return {
         metrics: { accuracy: 0, depth: 0, structure: 0, reasoning: "Evaluation error" },
@@ -842,7 +1038,7 @@ Return ONLY valid JSON with no extra text.
   }
 
   // --- 3. BATCH EVALUATOR (Topic-Level Aggregation with Gemini 2.5 Pro) ---
-  async evaluateBatch(history: ChatMessage[]): Promise<QuestionResult[]> {
+  async evaluateBatch(history: ChatMessage[], topics: InterviewTopic[]): Promise<QuestionResult[]> {
     console.log("📊 [BATCH EVAL] Starting topic-level aggregation...");
     console.log(`📊 [BATCH EVAL] Input: ${history.length} messages`);
     
@@ -904,6 +1100,9 @@ Return ONLY valid JSON with no extra text.
       - compositeScore = (accuracy × 0.5) + (depth × 0.3) + (structure × 0.2)
       - Map to level: excellent (9-10) / good (7-8.9) / mediocre (5-6.9) / poor (3-4.9) / fail (0-2.9)
       
+      ===== PLANNED TOPICS (id: name) =====
+      ${topics.map(topic => `${topic.id}: ${topic.topic}`).join('\n      ')}
+      
       ===== INPUT HISTORY =====
       ${JSON.stringify(history, null, 2)}
       
@@ -911,6 +1110,7 @@ Return ONLY valid JSON with no extra text.
       [
         {
           "topic": "string (unique topic name)",
+          "topicId": "string (id of the planned topic this evaluation covers, copied exactly)",
           "userAnswer": "string (summary of ALL attempts)",
           "score": number (0-10),
           "feedback": "string (2-3 sentences)",
@@ -931,28 +1131,17 @@ Return ONLY valid JSON with no extra text.
       4. Return valid JSON array
     `;
 
-    const payload = {
-      contents: [{ role: "user", parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: 0.2,
-        responseMimeType: "application/json"
-      }
-    };
+    const request = promptRequest('evaluate_batch', this.localize(prompt), {
+      tier: 'pro',
+      temperature: 0.2,
+      responseFormat: 'json_array'
+    });
 
     try {
-      // ✅ Use Gemini 2.5 Pro for deeper analysis
-      console.log("📊 [BATCH EVAL] Using model: gemini-2.5-pro");
-      console.log("📊 [BATCH EVAL] Calling Gemini API...");
-      
-      const raw = await this.callGemini(payload, "gemini-2.5-pro");
+      // ✅ Use the pro tier (Gemini 2.5 Pro) for deeper analysis
+      console.log(`📊 [BATCH EVAL] Calling ${this.llm.name} (pro tier)...`);
       
-      console.log(`📊 [BATCH EVAL] Raw response length: ${raw?.length || 0}`);
-      console.log(`📊 [BATCH EVAL] Raw response (first 200 chars):`, raw?.substring(0, 200));
-      
-      const clean = this.cleanJsonArray(raw);
-      console.log(`📊 [BATCH EVAL] Cleaned JSON (first 200 chars):`, clean?.substring(0, 200));
-      
-      const results = JSON.parse(clean) as QuestionResult[];
+      const results = keepPlanTopicIds(await generateStructured(this.llm, request, QuestionResultsSchema), topics);
       
       console.log(`📊 [BATCH EVAL] Parsed ${results.length} topic evaluations`);
 
@@ -960,23 +1149,19 @@ Return ONLY valid JSON with no extra text.
       results.forEach((r, i) => {
         console.log(`📊 [BATCH EVAL] Result ${i + 1}:`, {
           topic: r.topic,
+          topicId: r.topicId,
           score: r.score,
           userAnswer: r.userAnswer?.substring(0, 50) + "..."
         });
       });
 
-      // Validate detailedFeedback exists
-      results.forEach(r => {
-        if (!(r as any).detailedFeedback) {
-          console.warn(`⚠️ [BATCH] Missing detailedFeedback for: ${r.topic}`);
-          (r as any).detailedFeedback = r.feedback;
-        }
-      });
-
       return results;
     } catch (e) {
       console.error("❌ [BATCH EVAL] Error:", e);
       console.error("❌ [BATCH EVAL] Error message:", e instanceof Error ? e.message : String(e));
+      if (e instanceof LLMOutputError) {
+        console.error(`❌ [BATCH EVAL] Raw response (first 200 chars):`, e.raw.substring(0, 200));
+      }
       return [];
     }
   }
@@ -1014,16 +1199,13 @@ Return ONLY valid JSON with no extra text.
       Return ONLY the advice text (no JSON, no markdown, no preamble).
     `;
 
-    const payload = {
-      contents: [{ role: "user", parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: 0.7,
-        maxOutputTokens: 200
-      }
-    };
+    const request = promptRequest('advice', this.localize(prompt), {
+      temperature: 0.7,
+      maxOutputTokens: 200
+    });
 
     try {
-      const response = await this.callGemini(payload, "gemini-2.5-flash");
+      const response = await this.llm.generate(request);
       return response.trim();
     } catch (e) {
       console.error('❌ [ADVICE] Generation failed:', e);
@@ -1150,22 +1332,22 @@ Return ONLY valid JSON with no extra text.
       7. Avoid generic advice like "practice more"—be specific
     `;
 
-    const payload = {
-      contents: [{ role: "user", parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: 0.3,  // Slightly higher for creative feedback
-        responseMimeType: "application/json"
-      }
-    };
+    const request = promptRequest('evaluate_final', this.localize(prompt), {
+      tier: 'pro',
+      temperature: 0.3,  // Slightly higher for creative feedback
+      responseFormat: 'json_object'
+    });
 
     try {
-      // ✅ Use Gemini 2.5 Pro for comprehensive final analysis
-      console.log("📊 [FINAL EVAL] Using model: gemini-2.5-pro");
-      const raw = await this.callGemini(payload, "gemini-2.5-pro");
-      const clean = this.cleanJson(raw);
-      return JSON.parse(clean);
+      // ✅ Use the pro tier (Gemini 2.5 Pro) for comprehensive final analysis
+      console.log(`📊 [FINAL EVAL] Calling ${this.llm.name} (pro tier)`);
+      return await generateStructured(this.llm, request, FinalEvaluationSchema);
     } catch (e) {
-      console.error("❌ [FINAL EVAL] Error:", e);
+      if (e instanceof LLMOutputError) {
+        console.error(`❌ [FINAL EVAL] Invalid ${e.schema} (${e.code}):`, e.issues);
+      } else {
+        console.error("❌ [FINAL EVAL] Error:", e);
+      }
       return {
         finalQuestion: {
           topic: "Final",
@@ -1185,6 +1367,283 @@ Return ONLY valid JSON with no extra text.
     }
   }
 
+  // --- 4b. CODE EVALUATOR (Coding topics: submitted code + spoken explanation) ---
+  /**
+   * Score a code submission for correctness, complexity and style.
+   * Returns null when the evaluation fails - the topic then keeps its regular
+   * batch/final evaluation.
+   */
+  async evaluateCode(topic: InterviewTopic, code: string, explanation: string): Promise<QuestionResult | null> {
+    const problem = topic.problem;
+    const language = problem?.language || "Any";
+
+    const prompt = `
+      ROLE: Senior Engineer grading a live coding exercise (JSON ONLY)
+
+      PROBLEM: ${problem?.title || topic.topic}
+      ${problem?.statement || topic.context}
+      Expected language: ${language}
+
+      CANDIDATE'S CODE:
+      \`\`\`
+      ${code}
+      \`\`\`
+
+      CANDIDATE'S EXPLANATION (spoken or typed): "${explanation}"
+
+      ===== SCORING (0-10 each) =====
+      Code:
+      - correctness: Does it solve the problem, including edge cases (empty input, duplicates, bounds)? Mentally run it on 2-3 inputs.
+      - complexity: Time/space complexity vs. the optimal approach (10 = optimal, 5 = works but clearly suboptimal, 0 = would not finish on realistic input).
+      - style: Readability, naming, idiomatic ${language}, no dead code.
+      Explanation:
+      - accuracy: Does the explanation match what the code actually does?
+      - depth: Are complexity and trade-offs discussed?
+      - structure: Is the explanation clear and ordered?
+
+      Pseudocode or minor syntax slips are fine - judge the algorithm. Empty or unrelated code scores 0 correctness.
+
+      Return JSON:
+      {
+        "metrics": { "correctness": number, "complexity": number, "style": number, "accuracy": number, "depth": number, "structure": number, "reasoning": "string (mention the Big-O you determined)" },
+        "feedback": "string (2-3 sentences)",
+        "detailedFeedback": "string (4-6 sentences: bugs found, complexity, concrete improvements)",
+        "issues": ["WRONG_CONCEPT" | "INCOMPLETE" | "SHALLOW" | "TOO_VAGUE" | "OFF_TOPIC"]
+      }
+    `;
+
+    const request = promptRequest('evaluate_code', this.localize(prompt), {
+      tier: 'pro',
+      temperature: 0.2,
+      responseFormat: 'json_object'
+    });
+
+    try {
+      console.log(`🧑‍💻 [CODE EVAL] Evaluating ${code.length} chars of ${language} for "${topic.topic}"`);
+      const evaluation = await generateStructured(this.llm, request, CodeEvaluationSchema);
+      console.log(`🧑‍💻 [CODE EVAL] Correctness ${evaluation.metrics.correctness}, Complexity ${evaluation.metrics.complexity}, Style ${evaluation.metrics.style} → ${evaluation.compositeScore}`);
+
+      return {
+        topic: topic.topic,
+        topicId: topic.id,
+        userAnswer: explanation,
+        score: evaluation.compositeScore,
+        feedback: evaluation.feedback,
+        detailedFeedback: evaluation.detailedFeedback,
+        metrics: evaluation.metrics,
+        compositeScore: evaluation.compositeScore,
+        level: evaluation.level,
+        issues: evaluation.issues,
+        submittedCode: code,
+        codeLanguage: language
+      };
+    } catch (e) {
+      if (e instanceof LLMOutputError) {
+        console.error(`❌ [CODE EVAL] Invalid ${e.schema} (${e.code}):`, e.issues);
+      } else {
+        console.error("❌ [CODE EVAL] Error:", e);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Prompt block for adaptive difficulty. The engine moves the difficulty
+   * from the rolling score once the topic ends, so the thresholds tell
+   * Victoria which level to open the next topic at for the score she gives.
+   */
+  private buildDifficultyContext(
+    difficulty: DifficultyLevel,
+    rollingScore: number | null,
+    hasNextTopic: boolean,
+    isIntro: boolean
+  ): string {
+    const level = (value: DifficultyLevel) => `${value}/5 (${DIFFICULTY_LABELS[value]})`;
+    const lines = [`Current question difficulty: ${level(difficulty)} - keep follow-ups on this topic at this level.`];
+
+    if (hasNextTopic) {
+      if (isIntro) {
+        lines.push(`Ask the next topic's question at difficulty ${level(difficulty)}.`);
+      } else {
+        const { up, down } = difficultyThresholds(difficulty, rollingScore);
+        const giveUpLevel = nextDifficulty(difficulty, updateRollingScore(rollingScore, 0));
+        lines.push(`If you move to the next topic, pitch its question at:`);
+        if (up !== null) lines.push(`- compositeScore >= ${up.toFixed(1)} → ${level(nextDifficulty(difficulty, 10))} (harder)`);
+        if (down !== null) lines.push(`- compositeScore < ${down.toFixed(1)} → ${level(nextDifficulty(difficulty, 0))} (easier)`);
+        lines.push(`- otherwise → ${level(difficulty)}`);
+        lines.push(`- GIVE_UP or SHOW_ANSWER → ${level(giveUpLevel)}`);
+      }
+    }
+
+    return `
+===== ADAPTIVE DIFFICULTY =====
+${lines.join('\n')}
+Difficulty scale: 1 = fundamentals, 3 = practical mid-level scenarios, 5 = staff-level architecture and trade-offs.
+`;
+  }
+
+  /**
+   * Prompt block for follow-up probes: which probe answers which issue, and
+   * how much of the topic's probe budget is left
+   */
+  private buildProbeContext(topic: InterviewTopic, asked: FollowUpProbe[]): string {
+    const maxDepth = maxProbeDepth(topic);
+    if (maxDepth === 0) return "";
+
+    if (asked.length >= maxDepth) {
+      return `
+===== FOLLOW-UP PROBES =====
+Probe budget for this topic is used up (${asked.length}/${maxDepth}). If you stay on the topic, do NOT drill further - give a short hint or rephrase the question instead.
+`;
+    }
+
+    const askedKinds = asked.map(probe => probe.kind);
+    const rules = (Object.keys(ISSUE_PROBES) as Array<keyof typeof ISSUE_PROBES>)
+      .filter(issue => !askedKinds.includes(ISSUE_PROBES[issue]!))
+      .map(issue => `- ${issue} → ${PROBE_CATALOG[ISSUE_PROBES[issue]!].instruction}`)
+      .join('\n');
+    if (!rules) return "";
+
+    return `
+===== FOLLOW-UP PROBES (${asked.length}/${maxDepth} used) =====
+List "issues" most important first. If you stay on the topic after an attempt, ask ONE targeted probe for the FIRST listed issue that has one below:
+${rules}
+${askedKinds.length > 0 ? `Already asked on this topic (do not repeat): ${askedKinds.map(kind => PROBE_CATALOG[kind].label).join(', ')}` : ""}
+`;
+  }
+
+  /**
+   * Prompt block for a staged topic: current stage goal + hidden checklist,
+   * and how Victoria hands over to the next stage
+   */
+  private buildStageContext(topic: InterviewTopic, stage: DesignStage, stageIndex: number): string {
+    const stages = topic.stages || [];
+    const nextStage = stages[stageIndex + 1] || null;
+
+    return `
+===== STAGED TOPIC: SYSTEM DESIGN =====
+Scenario: ${topic.context}
+Current stage ${stageIndex + 1}/${stages.length}: ${stage.label} - ${stage.goal}
+Expected components for this stage (do NOT read them out): ${stage.checklist.join(', ') || 'use your judgment'}
+
+- Score the answer against THIS stage only: accuracy = correct reasoning, depth = how many expected components were covered, structure = clear progression.
+- Do not penalize the candidate for not covering later stages yet.
+- Score >= 7.0: ${nextStage ? `brief acknowledgment, then move to the next stage "${nextStage.label}" (${nextStage.goal})` : "the design round is complete - follow the normal topic transition"}
+- Score < 7.0: ask about ONE missing expected component of "${stage.label}" without naming the answer
+`;
+  }
+
+  // --- 4c. DESIGN STAGE EVALUATOR (SystemDesign topics: one stage at a time) ---
+  /**
+   * Sub-score one completed design stage against its checklist.
+   * Returns null when the evaluation fails.
+   */
+  async evaluateDesignStage(topic: InterviewTopic, stage: DesignStage, exchanges: ChatMessage[]): Promise<DesignStageResult | null> {
+    const transcript = exchanges
+      .filter(msg => msg.role !== 'system')
+      .map(msg => `${msg.role === 'user' ? 'Candidate' : 'Victoria'}: ${msg.content}`)
+      .join('\n');
+
+    const prompt = `
+      ROLE: Staff Engineer grading one stage of a system-design interview (JSON ONLY)
+
+      SCENARIO: ${topic.context}
+      STAGE: ${stage.label} - ${stage.goal}
+      EXPECTED COMPONENTS: ${JSON.stringify(stage.checklist)}
+
+      TRANSCRIPT OF THIS STAGE:
+      ${transcript}
+
+      TASK:
+      - covered: expected components the candidate addressed (same wording as the list; equivalent terms count)
+      - missed: expected components never mentioned
+      - score (0-10): quality of this stage only - coverage of the expected components, correctness, and reasoning about scale. Good ideas outside the list count too.
+      - feedback: 2-3 sentences on what was strong and what a senior candidate would add
+
+      Return JSON: { "score": number, "covered": ["string"], "missed": ["string"], "feedback": "string" }
+    `;
+
+    const request = promptRequest('evaluate_design_stage', this.localize(prompt), {
+      tier: 'pro',
+      temperature: 0.2,
+      responseFormat: 'json_object'
+    });
+
+    try {
+      console.log(`🏗️ [DESIGN EVAL] Evaluating stage "${stage.label}" of "${topic.topic}" (${exchanges.length} messages)`);
+      const evaluation = await generateStructured(this.llm, request, DesignStageEvaluationSchema);
+      console.log(`🏗️ [DESIGN EVAL] ${stage.label}: ${evaluation.score}/10, covered ${evaluation.covered.length}/${stage.checklist.length}`);
+
+      return { stage: stage.id, label: stage.label, ...evaluation };
+    } catch (e) {
+      if (e instanceof LLMOutputError) {
+        console.error(`❌ [DESIGN EVAL] Invalid ${e.schema} (${e.code}):`, e.issues);
+      } else {
+        console.error("❌ [DESIGN EVAL] Error:", e);
+      }
+      return null;
+    }
+  }
+
+  // --- 4d. STAR ANALYZER (SoftSkill topics: behavioral story breakdown) ---
+  /**
+   * Label each sentence of the candidate's behavioral answer as Situation,
+   * Task, Action or Result. Sentences stay verbatim; the model only labels
+   * them by index. Returns null when there is nothing to analyze or the
+   * analysis fails.
+   */
+  async analyzeStar(topic: InterviewTopic, answers: string[]): Promise<StarAnalysis | null> {
+    const sentences = splitSentences(answers.join(' '));
+    if (sentences.length === 0) return null;
+
+    const numbered = sentences.map((sentence, index) => `[${index}] ${sentence}`).join('\n');
+
+    const prompt = `
+      ROLE: Behavioral interview coach labelling a STAR answer (JSON ONLY)
+
+      QUESTION TOPIC: ${topic.topic}
+      QUESTION: ${topic.context}
+
+      CANDIDATE'S ANSWER (numbered sentences):
+      ${numbered}
+
+      TASK:
+      - Label every sentence index with one segment:
+        "situation" = context, when/where, who was involved
+        "task" = the goal or problem the candidate was responsible for
+        "action" = what was actually done and how
+        "result" = outcome, numbers, what was learned
+        "other" = filler, hedging, remarks unrelated to the story
+      - A sentence that mixes segments gets the one it mostly serves
+      - feedback: 1-2 sentences on the story's structure - which part is missing or thin, and whether the candidate's own role is clear
+      - Do NOT rewrite or translate the sentences
+
+      Return JSON: { "labels": [{ "index": number, "segment": "situation" | "task" | "action" | "result" | "other" }], "feedback": "string" }
+    `;
+
+    const request = promptRequest('analyze_star', this.localize(prompt), {
+      tier: 'fast',
+      temperature: 0.1,
+      responseFormat: 'json_object'
+    });
+
+    try {
+      console.log(`⭐ [STAR] Analyzing ${sentences.length} sentences for "${topic.topic}"`);
+      const labels = await generateStructured(this.llm, request, StarLabelsSchema);
+      const analysis = buildStarAnalysis(sentences, labels, this.language);
+      console.log(`⭐ [STAR] Missing: ${analysis.missing.join(', ') || 'none'}, "I" share ${Math.round(analysis.pronouns.iShare * 100)}%`);
+
+      return analysis;
+    } catch (e) {
+      if (e instanceof LLMOutputError) {
+        console.error(`❌ [STAR] Invalid ${e.schema} (${e.code}):`, e.issues);
+      } else {
+        console.error("❌ [STAR] Error:", e);
+      }
+      return null;
+    }
+  }
+
   // ============================================
   // 5. DEV TOOLS: SIMULATED CANDIDATE (REFACTORED)
   // ============================================
@@ -1308,13 +1767,12 @@ Return ONLY valid JSON with no extra text.
       Return ONLY the spoken answer (no explanations, no quotes, no meta-commentary).
     `;
 
-    const payload = {
-      contents: [{ role: "user", parts: [{ text: prompt }] }],
-      generationConfig: { temperature: 0.9 } // High creativity for varied responses
-    };
+    const request = promptRequest('simulate_answer', this.localize(prompt), {
+      temperature: 0.9 // High creativity for varied responses
+    });
 
     try {
-      const response = await this.callGemini(payload);
+      const response = await this.llm.generate(request);
       console.log(`✅ [SIMULATE] Generated ${level} answer:`, response.substring(0, 100) + '...');
       return response;
     } catch (e) {
@@ -1369,13 +1827,12 @@ Return ONLY valid JSON with no extra text.
       Return ONLY the spoken phrase.
     `;
 
-    const payload = {
-      contents: [{ role: "user", parts: [{ text: prompt }] }],
-      generationConfig: { temperature: 0.8 } // Slightly creative but consistent
-    };
+    const request = promptRequest('special_action', this.localize(prompt), {
+      temperature: 0.8 // Slightly creative but consistent
+    });
 
     try {
-      const response = await this.callGemini(payload);
+      const response = await this.llm.generate(request);
       console.log(`✅ [SPECIAL_ACTION] Generated ${action}:`, response);
       return response;
     } catch (e) {
@@ -1453,7 +1910,19 @@ Return ONLY valid JSON with no extra text.
     
     let questionLogic = "";
     if (context.nextTopic) {
-      if (context.nextTopic.type === 'SoftSkill') {
+      if (context.nextTopic.type === 'SystemDesign') {
+        questionLogic = `
+               NEXT QUESTION STRATEGY (System design: "${context.nextTopic.topic}"):
+               - Instruction: Present the scenario (${context.nextTopic.context}).
+               - Start with the requirements stage: ask what the candidate would clarify first.
+               `;
+      } else if (context.nextTopic.type === 'Coding') {
+        questionLogic = `
+               NEXT QUESTION STRATEGY (Coding exercise: "${context.nextTopic.topic}"):
+               - Instruction: Briefly read out the problem (${context.nextTopic.problem?.statement || context.nextTopic.context}).
+               - Ask the candidate to write the solution in the editor and explain their approach out loud.
+               `;
+      } else if (context.nextTopic.type === 'SoftSkill') {
         questionLogic = `
                NEXT QUESTION STRATEGY (Soft Skill: "${context.nextTopic.topic}"):
                - Constraint: Do NOT ask generic definition questions (e.g., "What is flexibility?").
@@ -1486,6 +1955,9 @@ Return ONLY valid JSON with no extra text.
             behaviorInstruction = `User is still on topic. Ask a follow-up or dig deeper based on history.`;
           }
           break;
+        case 'NEXT_STAGE':
+          behaviorInstruction = `The candidate finished a stage of the system-design round "${context.currentTopic.topic}". Briefly acknowledge it and move to the next stage of the same design. Do NOT change the topic.`;
+          break;
         case 'NEXT_FAIL':
           behaviorInstruction = `Adopt a strict, professional tone. Briefly acknowledge the answer was incorrect/missing. Do NOT lecture. Immediately transition to NEXT TOPIC: "${context.nextTopic?.topic || 'final question'}". ${questionLogic}`;
           break;
@@ -1507,8 +1979,8 @@ Return ONLY valid JSON with no extra text.
     }
 
     const prompt = `
-      You are Victoria, a Principal Software Engineer.
-      Tone: Professional, slightly strict but fair.
+      You are Victoria.
+      ${interviewerProfileInstruction(this.profile)}
       
       ${greetingConstraint}
       ${behaviorInstruction}
@@ -1516,91 +1988,24 @@ Return ONLY valid JSON with no extra text.
       Constraint: Speak naturally as Victoria. Do not repeat robotic phrases. Keep it spoken-word friendly. No markdown. Short and clear.
       `;
 
-    // Convert history to Gemini format
-    const historyParts = (history || []).map(msg => ({
-      role: msg.role === 'user' ? 'user' : 'model',
-      parts: [{ text: msg.content }]
-    }));
-
-    const payload = {
-      contents: [
-        ...historyParts,
-        { role: "user", parts: [{ text: prompt }] }
-      ],
-      generationConfig: { temperature: 0.7 } // Creative for voice
-    };
+    // Conversation history + the current instruction as the final user turn
+    const messages: LLMMessage[] = [
+      ...(history || []).map(msg => ({
+        role: (msg.role === 'user' ? 'user' : 'assistant') as LLMMessage['role'],
+        content: msg.content
+      })),
+      { role: 'user', content: this.localize(prompt) }
+    ];
 
     try {
-      const text = await this.callGemini(payload);
+      const text = await this.llm.generate({
+        task: 'voice_response',
+        messages,
+        temperature: 0.7 // Creative for voice
+      });
       return text;
     } catch (e) {
       return "I'm having trouble speaking right now. Let's move on.";
     }
   }
-
-  /**
-   * Core Gemini API call with optional model override.
-   * 
-   * @param payload - The request payload
-   * @param model - Model to use (default: MODEL_ID which is gemini-2.5-flash)
-   *                Pass "gemini-2.5-pro" for final evaluation and batch processing
-   */
-  private async callGemini(payload: any, model: string = MODEL_ID): Promise<string> {
-    const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${this.apiKey}`;
-
-    console.log(`🤖 [GEMINI] Calling model: ${model}`);
-
-    const response = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(payload)
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`❌ [GEMINI] API error (${response.status}):`, errorText);
-      throw new Error(`Gemini API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    if (data.error) throw new Error(data.error.message);
-    return data.candidates?.[0]?.content?.parts?.[0]?.text || "";
-  }
-
-  private cleanJson(text: string): string {
-    // 1. Remove Markdown Code Blocks (```json ... ```)
-    let cleaned = text.replace(/```json/g, "").replace(/```/g, "");
-
-    // 2. Trim whitespace
-    cleaned = cleaned.trim();
-
-    // 3. (Optional) Remove any text before the first '{' or after the last '}'
-    const firstBrace = cleaned.indexOf('{');
-    const lastBrace = cleaned.lastIndexOf('}');
-
-    if (firstBrace !== -1 && lastBrace !== -1) {
-      // Ensure we are slicing correctly even if there is trailing garbage
-      cleaned = cleaned.substring(firstBrace, lastBrace + 1);
-    }
-
-    return cleaned;
-  }
-
-  private cleanJsonArray(text: string): string {
-    // 1. Remove Markdown Code Blocks
-    let cleaned = text.replace(/```json/g, "").replace(/```/g, "");
-
-    // 2. Trim whitespace
-    cleaned = cleaned.trim();
-
-    // 3. Find Array bounds (robustness)
-    const firstBracket = cleaned.indexOf('[');
-    const lastBracket = cleaned.lastIndexOf(']');
-
-    if (firstBracket !== -1 && lastBracket !== -1) {
-      cleaned = cleaned.substring(firstBracket, lastBracket + 1);
-    }
-
-    return cleaned;
-  }
-}
\ No newline at end of file
+}
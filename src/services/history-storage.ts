@@ -5,7 +5,7 @@
  */
 
 import { File, Paths } from 'expo-file-system';
-import { QuestionResult } from '../types';
+import { QuestionResult, ScoringPolicyId, InterviewLanguage, AnswerInputMode, DesignStageResult, FollowUpProbe, CategoryLevel, DifficultyLevel, StarAnalysis, DeliveryMetrics, AnswerIssue } from '../types';
 import * as Clipboard from 'expo-clipboard';
 import * as Sharing from 'expo-sharing';
 import { Alert } from 'react-native';
@@ -25,6 +25,13 @@ export interface InterviewSession {
     overallSummary: string;          // AI summary
     questions: SessionQuestion[];    // Array of questions with results
     isFavorite: boolean;             // Favorited session
+    scoringPolicyId?: ScoringPolicyId; // Scoring preset used (missing = realistic)
+    language?: InterviewLanguage;    // Interview language (missing = English)
+    inputMode?: AnswerInputMode;     // Typed or spoken answers (missing = voice)
+    categoryLevels?: CategoryLevel[]; // Estimated level per skill category
+    resumeId?: string;               // Library resume used (see resume-library)
+    jobDescriptionId?: string;       // Library job description used (per-target-job progress)
+    jobRole?: string;                // Role the planner extracted from the JD (missing for drills)
 }
 
 export interface SessionQuestion {
@@ -38,7 +45,19 @@ export interface SessionQuestion {
         depth: number;
         structure: number;
         reasoning?: string;  // Optional reasoning for legacy compatibility
+        correctness?: number;  // Coding topics only
+        complexity?: number;
+        style?: number;
     };
+    submittedCode?: string;  // Coding topics: candidate's final code
+    codeLanguage?: string;
+    designStages?: DesignStageResult[];  // SystemDesign topics: per-stage sub-scores
+    probes?: FollowUpProbe[];  // Follow-up drill-down on this topic
+    category?: string;
+    difficulty?: DifficultyLevel;  // Difficulty the topic was asked at
+    starAnalysis?: StarAnalysis;  // SoftSkill topics: STAR breakdown
+    delivery?: DeliveryMetrics;  // Voice answers: pace, fillers, pauses
+    issues?: AnswerIssue[];  // Issues found in the answers (progress analytics)
     rawExchange?: Array<{  // NEW: For debug section
         speaker: 'Victoria' | 'User';
         text: string;
@@ -143,7 +162,14 @@ export const saveSession = async (
     role: string,
     totalScore: number,
     overallSummary: string,
-    questions: QuestionResult[]
+    questions: QuestionResult[],
+    scoringPolicyId?: ScoringPolicyId,
+    language?: InterviewLanguage,
+    inputMode?: AnswerInputMode,
+    categoryLevels?: CategoryLevel[],
+    resumeId?: string,
+    jobDescriptionId?: string,
+    jobRole?: string
 ): Promise<InterviewSession> => {
     const timestamp = Date.now();
 
@@ -202,8 +228,24 @@ export const saveSession = async (
             score: q.score,
             feedback: q.feedback,
             metrics: (q as any).metrics,
+            submittedCode: q.submittedCode,
+            codeLanguage: q.codeLanguage,
+            designStages: q.designStages,
+            probes: q.probes,
+            category: q.category,
+            difficulty: q.difficulty,
+            starAnalysis: q.starAnalysis,
+            delivery: q.delivery,
+            issues: q.issues,
         })),
         isFavorite: false,
+        scoringPolicyId,
+        language,
+        inputMode,
+        categoryLevels,
+        resumeId,
+        jobDescriptionId,
+        jobRole,
     };
 
     try {
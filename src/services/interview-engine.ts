@@ -0,0 +1,351 @@
+import { AnalysisResponse, DifficultyLevel, EvaluationMetrics, ScoringPolicy, VibeConfig, VoiceGenerationContext } from '../types';
+import { VibeCalculator } from './vibe-calculator';
+import { getScoringPolicy } from './scoring-policy';
+import { DEFAULT_DIFFICULTY, nextDifficulty, updateRollingScore } from './adaptive-difficulty';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type TransitionMode = VoiceGenerationContext['transitionMode'];
+
+/**
+ * Phase the candidate's input is evaluated in:
+ * - lobby: waiting room, only READY_CONFIRM matters
+ * - intro: topic 0, every answer (except CLARIFICATION) auto-advances
+ * - topic: regular scored topics (index >= 1)
+ */
+export type InterviewPhase = 'lobby' | 'intro' | 'topic';
+
+export type TopicOutcome = 'PASSED_SUCCESS' | 'FAILED_PATIENCE' | 'EXPLAINED';
+
+export type TerminationReason = 'anger_limit' | 'patience_limit';
+
+/**
+ * Everything the interview rules depend on. Plain data - safe to store,
+ * compare and replay.
+ */
+export interface InterviewEngineState {
+  isLobbyPhase: boolean;
+  isFinished: boolean;
+  topicIndex: number;
+  topicStage: number;     // Stage within a staged topic (SystemDesign), 0 otherwise
+  topicSuccess: number;   // 0-100, reaching 100 passes the topic (or the current stage)
+  topicPatience: number;  // 0-100, reaching 100 fails the topic
+  anger: number;          // 0-100, carries across topics, 100 terminates
+  engagement: number;     // 0-100, drives Victoria's vibe
+  previousTopicResult: TopicOutcome | null;
+  difficulty: DifficultyLevel;  // Difficulty of the current topic's questions
+  rollingScore: number | null;  // Moving average of compositeScore (null before the first scored answer)
+}
+
+export interface EngineStepInput {
+  analysis: AnalysisResponse;
+  userText: string;      // Raw answer (absurd-error detection)
+  totalTopics: number;   // plan.queue.length
+  stageCount?: number;   // Stages of the current topic (default: 1 = single-answer topic)
+  policy?: ScoringPolicy; // Default: realistic
+}
+
+export interface EngineStepResult {
+  phase: InterviewPhase;            // Phase the input was evaluated in
+  state: InterviewEngineState;      // Next state
+  transitionMode: TransitionMode;
+  metrics: EvaluationMetrics | null; // Metrics to display (null = keep current)
+  vibe: VibeConfig | null;           // New vibe (null = keep current)
+  startInterview: boolean;           // Lobby → intro (caller plays the intro greeting)
+  terminationReason: TerminationReason | null;
+  triggerBatchEval: boolean;         // Next topic is the last one - evaluate previous topics now
+}
+
+// ============================================
+// SCORING RULES
+// ============================================
+
+/**
+ * Per-answer arithmetic for success / patience / anger comes from the
+ * ScoringPolicy (see services/scoring-policy.ts). With the realistic preset:
+ * - poor (< 5): patience += (10 - score) × 7
+ * - mediocre (5-6.9): success += score × 7, patience += 10
+ * - good (7+): success += score × 13, patience -= score × 3
+ * Anger only grows on NONSENSE or a failed topic, and only drops on excellent answers.
+ *
+ * Staged topics (SystemDesign) run the same arithmetic per stage: passing or
+ * exhausting a stage moves to the next one (NEXT_STAGE) with fresh
+ * success/patience; only the last stage can pass or fail the topic.
+ *
+ * Difficulty adapts between topics from the rolling compositeScore (see
+ * services/adaptive-difficulty.ts). Giving up or asking for the answer
+ * counts as a 0 for it.
+ */
+const LIMIT = 100; // Success/patience/anger cap (and trigger) - same for every policy
+
+const clamp = (value: number): number => Math.min(Math.max(value, 0), LIMIT);
+
+// ============================================
+// ENGINE
+// ============================================
+
+/**
+ * InterviewEngine: Pure interview state machine
+ *
+ * Takes the current state and one evaluated answer, returns the next state
+ * plus what Victoria should do (transition mode). No React, no I/O - the
+ * useInterviewLogic hook owns speech, reports and timing.
+ */
+export class InterviewEngine {
+  /**
+   * Fresh state for a new interview (starts in the lobby)
+   */
+  static initialState(engagement: number = 50, difficulty: DifficultyLevel = DEFAULT_DIFFICULTY): InterviewEngineState {
+    return {
+      isLobbyPhase: true,
+      isFinished: false,
+      topicIndex: 0,
+      topicStage: 0,
+      topicSuccess: 0,
+      topicPatience: 0,
+      anger: 0,
+      engagement,
+      previousTopicResult: null,
+      difficulty,
+      rollingScore: null
+    };
+  }
+
+  static phaseOf(state: InterviewEngineState): InterviewPhase {
+    if (state.isLobbyPhase) return 'lobby';
+    return state.topicIndex === 0 ? 'intro' : 'topic';
+  }
+
+  /**
+   * Apply one evaluated answer
+   */
+  static step(state: InterviewEngineState, input: EngineStepInput): EngineStepResult {
+    switch (this.phaseOf(state)) {
+      case 'lobby':
+        return this.stepLobby(state, input);
+      case 'intro':
+        return this.stepIntro(state, input);
+      default:
+        return this.stepTopic(state, input);
+    }
+  }
+
+  private static result(phase: InterviewPhase, state: InterviewEngineState, overrides: Partial<EngineStepResult> = {}): EngineStepResult {
+    return {
+      phase,
+      state,
+      transitionMode: 'STAY',
+      metrics: null,
+      vibe: null,
+      startInterview: false,
+      terminationReason: null,
+      triggerBatchEval: false,
+      ...overrides
+    };
+  }
+
+  // --- LOBBY: small talk until the candidate is ready ---
+  private static stepLobby(state: InterviewEngineState, { analysis }: EngineStepInput): EngineStepResult {
+    if (analysis.intent !== 'READY_CONFIRM') {
+      return this.result('lobby', state);
+    }
+
+    return this.result('lobby', { ...state, isLobbyPhase: false, topicIndex: 0 }, { startInterview: true });
+  }
+
+  // --- INTRO (Index 0): always advances, except clarification ---
+  private static stepIntro(state: InterviewEngineState, { analysis, policy = getScoringPolicy() }: EngineStepInput): EngineStepResult {
+    if (analysis.intent === 'CLARIFICATION') {
+      return this.result('intro', state);
+    }
+
+    // NONSENSE still applies the anger penalty but advances
+    const anger = analysis.intent === 'NONSENSE'
+      ? clamp(state.anger + policy.anger.nonsense)
+      : state.anger;
+
+    return this.result('intro', {
+      ...state,
+      topicIndex: 1,
+      topicStage: 0,
+      topicSuccess: 0,
+      topicPatience: 0,
+      anger
+    }, {
+      transitionMode: 'NEXT_PASS',
+      metrics: analysis.metrics
+    });
+  }
+
+  // --- REGULAR TOPICS (Index >= 1) ---
+  private static stepTopic(
+    state: InterviewEngineState,
+    { analysis, userText, totalTopics, stageCount = 1, policy = getScoringPolicy() }: EngineStepInput
+  ): EngineStepResult {
+    const rules = policy.topic;
+
+    // 1. Engagement & vibe (updated even on clarification)
+    const engagementDelta = VibeCalculator.calculateEngagementDelta(analysis.compositeScore, analysis.intent, policy);
+    const engagement = Math.max(0, Math.min(100, state.engagement + engagementDelta));
+    const vibe = VibeCalculator.determineVibe(state.anger, engagement, {
+      isAbsurdError: VibeCalculator.detectAbsurdError(userText, analysis.issues || []),
+      intent: analysis.intent
+    }, policy);
+
+    // 2. Clarification: no game state change
+    if (analysis.intent === 'CLARIFICATION') {
+      return this.result('topic', { ...state, engagement }, { vibe });
+    }
+
+    // 3. Game logic
+    let transitionMode: TransitionMode = 'STAY';
+    let metrics: EvaluationMetrics = analysis.metrics;
+    let success = state.topicSuccess;
+    let patience = state.topicPatience;
+    let anger = state.anger;
+    let topicIndex = state.topicIndex;
+    let topicStage = state.topicStage;
+    let rollingScore = state.rollingScore;
+
+    switch (analysis.intent) {
+      case 'GIVE_UP':
+        patience = rules.skipPatience;
+        rollingScore = updateRollingScore(rollingScore, 0);
+        break;
+
+      case 'SHOW_ANSWER':
+        patience = rules.skipPatience;
+        transitionMode = 'NEXT_EXPLAIN';
+        rollingScore = updateRollingScore(rollingScore, 0);
+        break;
+
+      case 'SHOW_ANSWER_STAY':
+        // Explain and retry the same question - the candidate hasn't answered yet
+        break;
+
+      case 'SHOW_ANSWER_PREVIOUS':
+        // Go back one question (never before the first scored topic) and retry it
+        if (topicIndex > 1) {
+          topicIndex -= 1;
+          topicStage = 0;
+          success = 0;
+          patience = 0;
+        }
+        break;
+
+      case 'NONSENSE':
+        patience += rules.nonsensePatience;
+        anger += policy.anger.nonsense;
+        metrics = { accuracy: 0, depth: 0, structure: 0, reasoning: "Response was identified as nonsense/irrelevant." };
+        break;
+
+      case 'STRONG_ATTEMPT':
+      case 'WEAK_ATTEMPT': {
+        const overall = analysis.compositeScore;
+        rollingScore = updateRollingScore(rollingScore, overall);
+
+        if (overall < rules.poorMax) {
+          // Poor answer - only patience grows, NO anger
+          patience += (10 - overall) * rules.poorPatienceFactor;
+        } else if (overall < rules.mediocreMax) {
+          success += overall * rules.mediocreSuccessFactor;
+          patience += rules.mediocrePatience;
+        } else {
+          success += overall * rules.goodSuccessFactor;
+          patience -= overall * rules.goodPatienceFactor;
+          // Excellent answers are the ONLY way anger goes down
+          if (overall > rules.goodMax) anger -= policy.anger.excellentRelief;
+        }
+        break;
+      }
+    }
+
+    success = clamp(success);
+    patience = clamp(patience);
+    anger = clamp(anger);
+
+    const next: InterviewEngineState = {
+      ...state,
+      engagement,
+      topicIndex,
+      topicStage,
+      topicSuccess: success,
+      topicPatience: patience,
+      anger,
+      rollingScore
+    };
+
+    // 4. Transition check
+    // PRIORITY 1: Global kill switch
+    if (anger >= LIMIT) {
+      return this.result('topic', { ...next, isFinished: true }, {
+        transitionMode: 'TERMINATE_ANGER',
+        metrics,
+        vibe,
+        terminationReason: 'anger_limit'
+      });
+    }
+
+    // PRIORITY 2: Staged topics - a finished non-final stage moves to the next stage
+    const isLastStage = topicStage >= stageCount - 1;
+    if (!isLastStage && (success >= LIMIT || patience >= LIMIT)) {
+      return this.result('topic', { ...next, topicStage: topicStage + 1, topicSuccess: 0, topicPatience: 0 }, {
+        transitionMode: 'NEXT_STAGE',
+        metrics,
+        vibe
+      });
+    }
+
+    if (success >= LIMIT) {
+      transitionMode = 'NEXT_PASS';
+      next.previousTopicResult = 'PASSED_SUCCESS';
+    } else if (patience >= LIMIT) {
+      if (transitionMode === 'NEXT_EXPLAIN') {
+        // SHOW_ANSWER mercy rule: no anger penalty
+        next.previousTopicResult = 'EXPLAINED';
+      } else {
+        // Pre-flight check: would the fail penalty terminate the interview?
+        if (anger + policy.anger.topicFail >= LIMIT) {
+          return this.result('topic', { ...next, anger: LIMIT, isFinished: true }, {
+            transitionMode: 'TERMINATE_ANGER',
+            metrics,
+            vibe,
+            terminationReason: 'patience_limit'
+          });
+        }
+
+        transitionMode = 'NEXT_FAIL';
+        next.previousTopicResult = 'FAILED_PATIENCE';
+        next.anger = anger + policy.anger.topicFail;
+      }
+    }
+
+    const advances = transitionMode === 'NEXT_PASS' || transitionMode === 'NEXT_FAIL' || transitionMode === 'NEXT_EXPLAIN';
+    if (advances) {
+      // Per-topic metrics reset; anger carries through the entire interview
+      next.topicIndex = topicIndex + 1;
+      next.topicStage = 0;
+      next.topicSuccess = 0;
+      next.topicPatience = 0;
+      next.difficulty = nextDifficulty(state.difficulty, rollingScore);
+    }
+
+    // 5. End of interview?
+    if (next.topicIndex >= totalTopics) {
+      return this.result('topic', { ...next, topicIndex: state.topicIndex, isFinished: true }, {
+        transitionMode: 'FINISH_INTERVIEW',
+        metrics,
+        vibe
+      });
+    }
+
+    return this.result('topic', next, {
+      transitionMode,
+      metrics,
+      vibe,
+      triggerBatchEval: advances && next.topicIndex === totalTopics - 1
+    });
+  }
+}
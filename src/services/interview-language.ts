@@ -0,0 +1,116 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DeepgramVoice, InterviewLanguage } from '../types';
+
+const INTERVIEW_LANGUAGE_STORAGE_KEY = 'interview_language';
+
+// ============================================
+// LANGUAGES
+// ============================================
+
+/**
+ * Everything that changes with the interview language
+ */
+export interface InterviewLanguageConfig {
+  code: InterviewLanguage;
+  label: string;                 // Native name (settings UI)
+  promptName: string;            // English name, used inside LLM prompts and TTS instructions
+  stt: {
+    model: string;               // Deepgram listen model
+    language: string;            // Deepgram listen language
+  };
+  cartesiaLanguage: string;      // sonic-3 `language`
+  deepgramVoice: DeepgramVoice | null; // Aura voice for non-English (null = Aura can't speak it)
+  greeting: string;              // Lobby greeting (spoken before any LLM call)
+  introFallback: string;         // Intro question if the LLM call fails
+  softSkillQuestion: (skill: string) => string; // Fallback soft-skill question (skill already localized)
+  fillerWords: string[];         // Filler words/phrases counted in delivery analytics (lowercase)
+}
+
+export const INTERVIEW_LANGUAGES: Record<InterviewLanguage, InterviewLanguageConfig> = {
+  en: {
+    code: 'en',
+    label: 'English',
+    promptName: 'English',
+    stt: { model: 'nova-2', language: 'en' },
+    cartesiaLanguage: 'en',
+    deepgramVoice: null, // Keep the user's chosen English voice
+    greeting: "Hello, I'm Victoria. I'll be conducting your technical interview today. I have your details in front of me. Whenever you're ready to begin, just let me know.",
+    introFallback: "Great, let's begin. Please start by telling me a bit about yourself and your professional background.",
+    softSkillQuestion: (skill) => `Tell me about a time you demonstrated ${skill} in a professional setting.`,
+    fillerWords: ['um', 'uh', 'er', 'ah', 'hmm', 'like', 'you know', 'i mean', 'basically', 'actually', 'kind of', 'sort of']
+  },
+  ru: {
+    code: 'ru',
+    label: 'Русский',
+    promptName: 'Russian',
+    stt: { model: 'nova-2', language: 'ru' },
+    cartesiaLanguage: 'ru',
+    deepgramVoice: null, // No Russian Aura voices - TTSService switches to OpenAI
+    greeting: "Здравствуйте, я Виктория. Сегодня я проведу ваше техническое собеседование. Ваши данные у меня перед глазами. Как будете готовы начать, просто скажите.",
+    introFallback: "Отлично, начнём. Расскажите, пожалуйста, немного о себе и своём профессиональном опыте.",
+    softSkillQuestion: (skill) => `Расскажите о случае из вашей работы, когда вам пришлось проявить навык «${skill}».`,
+    fillerWords: ['э', 'ээ', 'эм', 'ну', 'типа', 'как бы', 'короче', 'в общем', 'так сказать', 'это самое']
+  },
+  es: {
+    code: 'es',
+    label: 'Español',
+    promptName: 'Spanish',
+    stt: { model: 'nova-2', language: 'es' },
+    cartesiaLanguage: 'es',
+    deepgramVoice: 'aura-2-celeste-es',
+    greeting: "Hola, soy Victoria. Hoy voy a realizar tu entrevista técnica. Tengo tus datos delante. Cuando estés listo para empezar, solo avísame.",
+    introFallback: "Perfecto, empecemos. Cuéntame un poco sobre ti y tu trayectoria profesional.",
+    softSkillQuestion: (skill) => `Cuéntame sobre una situación profesional en la que hayas demostrado la habilidad «${skill}».`,
+    fillerWords: ['eh', 'em', 'este', 'pues', 'o sea', 'bueno', 'digamos', 'como que', 'en plan']
+  }
+};
+
+export const DEFAULT_INTERVIEW_LANGUAGE: InterviewLanguage = 'en';
+
+/**
+ * Look up a language (unknown/legacy codes fall back to English)
+ */
+export function getInterviewLanguage(code?: InterviewLanguage | string | null): InterviewLanguageConfig {
+  return INTERVIEW_LANGUAGES[code as InterviewLanguage] || INTERVIEW_LANGUAGES[DEFAULT_INTERVIEW_LANGUAGE];
+}
+
+/**
+ * Prompt block that switches Victoria (and the report) to the interview language.
+ * Empty for English so the original prompts stay untouched.
+ */
+export function languagePromptInstruction(code: InterviewLanguage): string {
+  if (code === 'en') return '';
+  const { promptName } = getInterviewLanguage(code);
+
+  return `
+      LANGUAGE:
+      - The interview is held in ${promptName}. Write everything the candidate will hear or read (spoken lines, questions, feedback, advice, summaries) in ${promptName}.
+      - The candidate's answers are ${promptName} speech transcripts.
+      - JSON keys and enum values (intent, level, issues, etc.) stay in English exactly as specified.
+    `;
+}
+
+// ============================================
+// PERSISTENCE (selected language)
+// ============================================
+
+export async function loadInterviewLanguage(): Promise<InterviewLanguage> {
+  try {
+    const saved = await AsyncStorage.getItem(INTERVIEW_LANGUAGE_STORAGE_KEY);
+    if (saved && saved in INTERVIEW_LANGUAGES) {
+      return saved as InterviewLanguage;
+    }
+  } catch (error) {
+    console.error('❌ [LANGUAGE] Failed to load interview language:', error);
+  }
+  return DEFAULT_INTERVIEW_LANGUAGE;
+}
+
+export async function saveInterviewLanguage(code: InterviewLanguage): Promise<void> {
+  try {
+    await AsyncStorage.setItem(INTERVIEW_LANGUAGE_STORAGE_KEY, code);
+    console.log(`🌐 [LANGUAGE] Interview language saved: ${code}`);
+  } catch (error) {
+    console.error('❌ [LANGUAGE] Failed to save interview language:', error);
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * Interviewer Profiles
+ * Company / interview-style presets for Victoria, stored as JSON so teams
+ * can write and share their own. Built-ins live in src/profiles/, imported
+ * profiles are kept with expo-file-system like history-storage.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { File, Paths } from 'expo-file-system';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import * as Clipboard from 'expo-clipboard';
+import { Alert } from 'react-native';
+import { BehavioralFramework, InterviewerProfile } from '../types';
+import standardProfile from '../profiles/standard.json';
+import amazonProfile from '../profiles/amazon-leadership-principles.json';
+import googleProfile from '../profiles/google-googleyness.json';
+import startupProfile from '../profiles/startup-culture-fit.json';
+import bankProfile from '../profiles/bank-compliance.json';
+
+const INTERVIEWER_PROFILE_STORAGE_KEY = 'interviewer_profile';
+const CUSTOM_PROFILES_FILENAME = 'interviewer_profiles.json';
+
+const FRAMEWORKS: BehavioralFramework[] = ['STAR', 'CAR', 'SOAR', 'none'];
+
+const FRAMEWORK_STEPS: Record<Exclude<BehavioralFramework, 'none'>, string> = {
+  STAR: 'Situation, Task, Action, Result',
+  CAR: 'Challenge, Action, Result',
+  SOAR: 'Situation, Obstacle, Action, Result'
+};
+
+// ============================================
+// VALIDATION
+// ============================================
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter(isString).map(item => item.trim()) : [];
+
+/**
+ * Parse a profile from JSON. Identity, persona and tone are required;
+ * everything else falls back to the standard interview.
+ * @returns The profile, or null if it is not a usable profile
+ */
+export function parseInterviewerProfile(value: unknown): InterviewerProfile | null {
+  if (!value || typeof value !== 'object') return null;
+  const data = value as Record<string, any>;
+
+  if (!isString(data.id) || !isString(data.name) || !isString(data.persona) || !isString(data.tone)) {
+    return null;
+  }
+
+  const share = Number(data.questionBias?.softSkillShare);
+  const weights = data.rubricWeights;
+  const weightValues = weights ? [weights.accuracy, weights.depth, weights.structure].map(Number) : [];
+  // Every weight must be a finite non-negative number (a negative one would invert its metric)
+  const weightSum = weightValues.length > 0 && weightValues.every(weight => Number.isFinite(weight) && weight >= 0)
+    ? weightValues.reduce((sum, weight) => sum + weight, 0)
+    : NaN;
+
+  return {
+    id: data.id.trim(),
+    name: data.name.trim(),
+    description: isString(data.description) ? data.description.trim() : '',
+    persona: data.persona.trim(),
+    tone: data.tone.trim(),
+    questionBias: {
+      softSkillShare: Number.isFinite(share) ? Math.min(Math.max(share, 0), 1) : undefined,
+      focusAreas: toStringList(data.questionBias?.focusAreas)
+    },
+    // Weights are normalized to sum to 1; unusable weights fall back to per-topic-type weights
+    rubricWeights: weightSum > 0
+      ? {
+          accuracy: Number((Number(weights.accuracy) / weightSum).toFixed(2)),
+          depth: Number((Number(weights.depth) / weightSum).toFixed(2)),
+          structure: Number((Number(weights.structure) / weightSum).toFixed(2))
+        }
+      : undefined,
+    behavioralFramework: FRAMEWORKS.includes(data.behavioralFramework) ? data.behavioralFramework : 'none',
+    principles: toStringList(data.principles)
+  };
+}
+
+// ============================================
+// BUILT-IN PROFILES
+// ============================================
+
+export const DEFAULT_INTERVIEWER_PROFILE: InterviewerProfile = parseInterviewerProfile(standardProfile)!;
+
+export const BUILT_IN_PROFILES: InterviewerProfile[] = [
+  DEFAULT_INTERVIEWER_PROFILE,
+  ...[amazonProfile, googleProfile, startupProfile, bankProfile]
+    .map(parseInterviewerProfile)
+    .filter((profile): profile is InterviewerProfile => profile !== null)
+];
+
+const isBuiltIn = (id: string): boolean => BUILT_IN_PROFILES.some(profile => profile.id === id);
+
+// ============================================
+// PROMPTS
+// ============================================
+
+/**
+ * How Victoria interviews under this profile (evaluation and voice prompts)
+ */
+export function interviewerProfileInstruction(profile: InterviewerProfile): string {
+  const lines = [
+    `INTERVIEW STYLE: ${profile.name}`,
+    `You are ${profile.persona}.`,
+    `Tone: ${profile.tone}`
+  ];
+
+  if (profile.behavioralFramework !== 'none') {
+    lines.push(`Behavioral (SoftSkill) answers should follow ${profile.behavioralFramework} (${FRAMEWORK_STEPS[profile.behavioralFramework]}): judge structure by it and ask for the missing part.`);
+  }
+  if (profile.principles && profile.principles.length > 0) {
+    lines.push(`Behavioral answers are judged against: ${profile.principles.join(', ')}.`);
+  }
+  if (profile.rubricWeights) {
+    const { accuracy, depth, structure } = profile.rubricWeights;
+    lines.push(`compositeScore weights for scored topics (except Introduction): accuracy×${accuracy} + depth×${depth} + structure×${structure}.`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * What the planner should favour under this profile ("" for the standard interview)
+ */
+export function interviewerPlanInstruction(profile: InterviewerProfile): string {
+  const lines: string[] = [];
+
+  if (profile.questionBias.focusAreas.length > 0) {
+    lines.push(`Favour skills and scenarios around: ${profile.questionBias.focusAreas.join(', ')}.`);
+  }
+  if (profile.principles && profile.principles.length > 0) {
+    lines.push(`soft_skills must be drawn from these values (use the exact names as "skill"): ${profile.principles.join(', ')}.`);
+  }
+  if (profile.behavioralFramework !== 'none') {
+    lines.push(`Soft-skill "question_script" must ask for one specific past story the candidate can answer in ${profile.behavioralFramework} form.`);
+  }
+
+  if (lines.length === 0) return '';
+  return `INTERVIEW STYLE: ${profile.name} (${profile.persona}).\n  ${lines.join('\n  ')}`;
+}
+
+// ============================================
+// CUSTOM PROFILES (expo-file-system)
+// ============================================
+
+const getCustomProfilesFile = (): File => {
+  return new File(Paths.document, CUSTOM_PROFILES_FILENAME);
+};
+
+const getCustomProfiles = async (): Promise<InterviewerProfile[]> => {
+  try {
+    const file = getCustomProfilesFile();
+    if (!file.info().exists) return [];
+
+    const parsed = JSON.parse(await file.text());
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .map(parseInterviewerProfile)
+      .filter((profile): profile is InterviewerProfile => profile !== null);
+  } catch (error) {
+    console.warn('⚠️ [PROFILES] Invalid custom profiles file, ignoring');
+    return [];
+  }
+};
+
+/**
+ * Built-in profiles followed by imported ones
+ */
+export async function getInterviewerProfiles(): Promise<InterviewerProfile[]> {
+  return [...BUILT_IN_PROFILES, ...await getCustomProfiles()];
+}
+
+/**
+ * Look up a profile (unknown/deleted ids fall back to the standard interview)
+ */
+export async function getInterviewerProfile(id?: string | null): Promise<InterviewerProfile> {
+  const profiles = await getInterviewerProfiles();
+  return profiles.find(profile => profile.id === id) || DEFAULT_INTERVIEWER_PROFILE;
+}
+
+/**
+ * Let the user pick a profile JSON file and keep it (an imported profile
+ * with the same id replaces the previous version)
+ * @returns The profile, or null if cancelled/invalid
+ */
+export const importInterviewerProfile = async (): Promise<InterviewerProfile | null> => {
+  try {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: 'application/json',
+      copyToCacheDirectory: true
+    });
+    if (result.canceled || !result.assets?.[0]) {
+      return null;
+    }
+
+    const profile = parseInterviewerProfile(JSON.parse(await new File(result.assets[0].uri).text()));
+    if (!profile) {
+      Alert.alert('Invalid Profile', 'An interviewer profile needs at least "id", "name", "persona" and "tone".');
+      return null;
+    }
+    if (isBuiltIn(profile.id)) {
+      Alert.alert('Invalid Profile', `"${profile.id}" is a built-in profile id. Give your profile its own id.`);
+      return null;
+    }
+
+    const custom = (await getCustomProfiles()).filter(p => p.id !== profile.id);
+    custom.push(profile);
+    getCustomProfilesFile().write(JSON.stringify(custom, null, 2));
+
+    console.log(`🎭 [PROFILES] Imported "${profile.name}" (${profile.id})`);
+    return profile;
+  } catch (error) {
+    console.error('❌ [PROFILES] Import failed:', error);
+    Alert.alert('Import Failed', 'Could not read the interviewer profile file.');
+    return null;
+  }
+};
+
+/**
+ * Share a profile as a JSON file (clipboard fallback)
+ */
+export const exportInterviewerProfile = async (profile: InterviewerProfile): Promise<void> => {
+  const jsonString = JSON.stringify(profile, null, 2);
+  const file = new File(Paths.cache, `${profile.id}.json`);
+
+  try {
+    file.write(jsonString);
+
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(file.uri, {
+        mimeType: 'application/json',
+        dialogTitle: 'Share Interviewer Profile',
+        UTI: 'public.json'
+      });
+      console.log('✅ [PROFILES] Profile shared');
+    } else {
+      await Clipboard.setStringAsync(jsonString);
+      Alert.alert('Export Complete', 'Profile copied to clipboard. Sharing not available on this device.');
+    }
+  } catch (error) {
+    console.error('❌ [PROFILES] Export failed:', error);
+    try {
+      await Clipboard.setStringAsync(jsonString);
+      Alert.alert('Export Error', 'Profile copied to clipboard as fallback');
+    } catch (e) {
+      Alert.alert('Export Failed', 'Could not export or copy the profile.');
+    }
+  }
+};
+
+// ============================================
+// PERSISTENCE (selected profile)
+// ============================================
+
+export async function loadInterviewerProfileId(): Promise<string> {
+  try {
+    const saved = await AsyncStorage.getItem(INTERVIEWER_PROFILE_STORAGE_KEY);
+    if (saved) return saved;
+  } catch (error) {
+    console.error('❌ [PROFILES] Failed to load interviewer profile:', error);
+  }
+  return DEFAULT_INTERVIEWER_PROFILE.id;
+}
+
+export async function saveInterviewerProfileId(id: string): Promise<void> {
+  try {
+    await AsyncStorage.setItem(INTERVIEWER_PROFILE_STORAGE_KEY, id);
+    console.log(`🎭 [PROFILES] Profile saved: ${id}`);
+  } catch (error) {
+    console.error('❌ [PROFILES] Failed to save interviewer profile:', error);
+  }
+}
@@ -0,0 +1,125 @@
+import { fetch as streamingFetch } from 'expo/fetch';
+import { LLMProvider, LLMRequest, LLMModelTier } from './LLMProvider';
+
+/**
+ * Gemini models per tier.
+ * ⛔️ DO NOT CHANGE THESE MODELS! "gemini-2.5-flash" / "gemini-2.5-pro" are the
+ * only stable models for this API. Using "1.5" or others will BREAK the app.
+ */
+const GEMINI_MODELS: Record<LLMModelTier, string> = {
+  fast: 'gemini-2.5-flash',
+  pro: 'gemini-2.5-pro'
+};
+
+/**
+ * Google Gemini provider (REST generateContent / streamGenerateContent endpoints, raw fetch)
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const;
+  private apiKey: string;
+
+  constructor(apiKey: string = process.env.EXPO_PUBLIC_GEMINI_API_KEY || "") {
+    this.apiKey = apiKey;
+    if (!this.apiKey) console.error("Gemini API Key missing! Check .env file.");
+  }
+
+  async generate(request: LLMRequest): Promise<string> {
+    const model = GEMINI_MODELS[request.tier || 'fast'];
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${this.apiKey}`;
+
+    console.log(`🤖 [GEMINI] Calling model: ${model}`);
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: this.buildBody(request)
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`❌ [GEMINI] API error (${response.status}):`, errorText);
+      throw new Error(`Gemini API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (data.error) throw new Error(data.error.message);
+    return data.candidates?.[0]?.content?.parts?.[0]?.text || "";
+  }
+
+  /**
+   * streamGenerateContent over SSE. RN's built-in fetch has no response body
+   * stream, so this goes through expo/fetch
+   */
+  async *stream(request: LLMRequest): AsyncGenerator<string, void, unknown> {
+    const model = GEMINI_MODELS[request.tier || 'fast'];
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?alt=sse&key=${this.apiKey}`;
+
+    console.log(`🤖 [GEMINI] Streaming model: ${model}`);
+
+    const response = await streamingFetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: this.buildBody(request)
+    });
+
+    if (!response.ok || !response.body) {
+      const errorText = await response.text();
+      console.error(`❌ [GEMINI] API error (${response.status}):`, errorText);
+      throw new Error(`Gemini API error: ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // One GenerateContentResponse per "data:" line
+        let newline = buffer.indexOf('\n');
+        while (newline !== -1) {
+          const line = buffer.slice(0, newline).trim();
+          buffer = buffer.slice(newline + 1);
+          newline = buffer.indexOf('\n');
+
+          if (!line.startsWith('data:')) continue;
+          const data = JSON.parse(line.slice(5));
+          if (data.error) throw new Error(data.error.message);
+
+          const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+          if (text) yield text;
+        }
+      }
+    } finally {
+      // Consumer stopped early (or we threw) - don't keep the connection open
+      reader.cancel().catch(() => {});
+    }
+  }
+
+  private buildBody(request: LLMRequest): string {
+    const contents = request.messages.map((msg, index) => {
+      const parts: any[] = [{ text: msg.content }];
+
+      // Attachments (PDF resume) ride along with the last user message
+      if (index === request.messages.length - 1 && msg.role === 'user' && request.attachments) {
+        request.attachments.forEach(att => {
+          parts.push({ inlineData: { mimeType: att.mimeType, data: att.data } });
+        });
+      }
+
+      return { role: msg.role === 'user' ? 'user' : 'model', parts };
+    });
+
+    const generationConfig: any = {};
+    if (request.temperature !== undefined) generationConfig.temperature = request.temperature;
+    if (request.maxOutputTokens !== undefined) generationConfig.maxOutputTokens = request.maxOutputTokens;
+    if (request.responseFormat === 'json_object' || request.responseFormat === 'json_array') {
+      generationConfig.responseMimeType = "application/json";
+    }
+
+    return JSON.stringify({ contents, generationConfig });
+  }
+}
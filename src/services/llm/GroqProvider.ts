@@ -0,0 +1,42 @@
+import Groq from 'groq-sdk';
+import { LLMProvider, LLMRequest, LLMModelTier } from './LLMProvider';
+
+const GROQ_MODELS: Record<LLMModelTier, string> = {
+  fast: 'llama-3.1-8b-instant',
+  pro: 'llama-3.3-70b-versatile'
+};
+
+/**
+ * Groq Chat Completions provider (OpenAI-compatible API)
+ *
+ * NOTE: Like OpenAI, no inline PDF support - attachments are dropped.
+ */
+export class GroqProvider implements LLMProvider {
+  readonly name = 'groq' as const;
+  private client: Groq;
+
+  constructor(apiKey: string = process.env.EXPO_PUBLIC_GROQ_API_KEY || "") {
+    if (!apiKey) console.error("Groq API Key missing! Check .env file.");
+    this.client = new Groq({ apiKey, dangerouslyAllowBrowser: true });
+  }
+
+  async generate(request: LLMRequest): Promise<string> {
+    const model = GROQ_MODELS[request.tier || 'fast'];
+
+    if (request.attachments && request.attachments.length > 0) {
+      console.warn(`⚠️ [GROQ] ${request.attachments.length} attachment(s) not supported, sending text only`);
+    }
+
+    console.log(`🤖 [GROQ] Calling model: ${model}`);
+
+    const completion = await this.client.chat.completions.create({
+      model,
+      messages: request.messages.map(msg => ({ role: msg.role, content: msg.content })),
+      temperature: request.temperature,
+      max_completion_tokens: request.maxOutputTokens,
+      response_format: request.responseFormat === 'json_object' ? { type: 'json_object' } : undefined
+    });
+
+    return completion.choices[0]?.message?.content || "";
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * LLM Provider Abstraction
+ *
+ * Every prompt in the app (planner, judge, voice actor, simulator) talks to
+ * an LLMProvider instead of a specific vendor endpoint. Providers only have to
+ * turn an LLMRequest into plain response text - JSON cleanup and parsing stay
+ * with the caller, exactly as they did when everything went through callGemini.
+ */
+
+/**
+ * LLMProviderName: Supported LLM backends
+ * ('replay' serves responses from a recorded session log)
+ */
+export type LLMProviderName = 'gemini' | 'openai' | 'groq' | 'mock' | 'replay';
+
+/**
+ * LLMModelTier: Abstract model size
+ * - fast: live turn-by-turn calls (gemini-2.5-flash equivalent)
+ * - pro: deep analysis - planning, batch and final evaluation (gemini-2.5-pro equivalent)
+ */
+export type LLMModelTier = 'fast' | 'pro';
+
+/**
+ * LLMTask: What a request is for.
+ * Real providers ignore it; the mock provider uses it to pick a canned response.
+ */
+export type LLMTask =
+  | 'plan'
+  | 'start_interview'
+  | 'evaluate_and_respond'
+  | 'evaluate_answer'
+  | 'evaluate_batch'
+  | 'evaluate_final'
+  | 'evaluate_code'
+  | 'evaluate_design_stage'
+  | 'analyze_star'
+  | 'advice'
+  | 'voice_response'
+  | 'simulate_answer'
+  | 'special_action';
+
+/**
+ * LLMResponseFormat: Expected shape of the response text
+ * - text: free-form spoken text
+ * - json_object: a single JSON object
+ * - json_array: a top-level JSON array (OpenAI-style JSON mode can't enforce this)
+ */
+export type LLMResponseFormat = 'text' | 'json_object' | 'json_array';
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * LLMAttachment: Inline binary data attached to the last user message (e.g. a PDF resume)
+ */
+export interface LLMAttachment {
+  mimeType: string;
+  data: string; // base64
+}
+
+export interface LLMRequest {
+  task: LLMTask;
+  messages: LLMMessage[];
+  tier?: LLMModelTier;              // Default: 'fast'
+  temperature?: number;
+  maxOutputTokens?: number;
+  responseFormat?: LLMResponseFormat; // Default: 'text'
+  attachments?: LLMAttachment[];
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+
+  /**
+   * Run a single completion and return the raw response text.
+   * Throws on transport or API errors - callers own fallbacks.
+   */
+  generate(request: LLMRequest): Promise<string>;
+
+  /**
+   * Optional: same completion, yielded as text deltas while it is generated
+   * (concatenated, they equal what generate() would return).
+   * Providers without it are used through generate().
+   */
+  stream?(request: LLMRequest): AsyncGenerator<string, void, unknown>;
+}
+
+/**
+ * Build a request containing a single user prompt (the common case)
+ */
+export function promptRequest(
+  task: LLMTask,
+  prompt: string,
+  options: Omit<LLMRequest, 'task' | 'messages'> = {}
+): LLMRequest {
+  return {
+    task,
+    messages: [{ role: 'user', content: prompt }],
+    ...options
+  };
+}
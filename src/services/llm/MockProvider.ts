@@ -0,0 +1,167 @@
+import { LLMProvider, LLMRequest, LLMTask } from './LLMProvider';
+
+/**
+ * MockResponse: Either a fixed response text or a function of the request
+ */
+export type MockResponse = string | ((request: LLMRequest) => string);
+
+export interface MockProviderConfig {
+  responses?: Partial<Record<LLMTask, MockResponse>>;
+  latencyMs?: number; // Simulated network delay (default: 0)
+}
+
+/**
+ * Pull the candidate's answer out of the unified evaluation prompt
+ */
+const extractUserAnswer = (request: LLMRequest): string => {
+  const prompt = request.messages[request.messages.length - 1]?.content || "";
+  const match = prompt.match(/User's Answer: "([\s\S]*?)"\n/);
+  return match ? match[1] : "";
+};
+
+const DEFAULT_EVALUATION = {
+  metrics: { accuracy: 7, depth: 7, structure: 8, reasoning: "Mock evaluation" },
+  compositeScore: 7.2,
+  level: "good",
+  issues: [],
+  intent: "STRONG_ATTEMPT",
+  suggestedFeedback: "Solid answer, let's continue."
+};
+
+const DEFAULT_RESPONSES: Record<LLMTask, MockResponse> = {
+  plan: JSON.stringify({
+    job_role: "Software Engineer",
+    matches: [
+      { skill: "TypeScript", category: "Languages", score: 9, question_script: "Walk me through how you type a complex API layer in TypeScript." },
+      { skill: "React Native", category: "Mobile", score: 9, question_script: "Your list screen drops frames while scrolling. How do you debug it?" },
+      { skill: "State Management", category: "Architecture", score: 8, question_script: "How would you structure global state for an app with 50 screens?" },
+      { skill: "Testing", category: "Quality", score: 7, question_script: "How do you decide what to cover with unit vs. end-to-end tests?" },
+      { skill: "REST APIs", category: "Networking", score: 7, question_script: "A request intermittently times out on mobile networks. What do you do?" }
+    ],
+    gaps: [
+      { skill: "Native Modules", category: "Mobile", score: 7, question_script: "How would you expose a native SDK to JavaScript?" },
+      { skill: "CI/CD", category: "DevOps", score: 6, question_script: "Describe a release pipeline you would build for a mobile app." },
+      { skill: "Accessibility", category: "UX", score: 5, question_script: "How do you make a custom control usable with a screen reader?" }
+    ],
+    cool_skills: [
+      { skill: "Audio Streaming", category: "Media", score: 6, question_script: "How would you play audio chunks as they arrive over a WebSocket?" }
+    ],
+    soft_skills: [
+      { skill: "Conflict Resolution", category: "Teamwork", score: 7, question_script: "Tell me about a disagreement on a code review and how it ended." },
+      { skill: "Prioritization", category: "Professionalism", score: 6, question_script: "Two urgent bugs land at once. How do you decide what to fix first?" }
+    ],
+    coding_problem: {
+      skill: "TypeScript",
+      category: "Algorithms",
+      title: "Debounce",
+      statement: "Implement debounce(fn, waitMs): the returned function delays calling fn until waitMs have passed since its last call.",
+      language: "TypeScript",
+      starter_code: "function debounce<T extends (...args: any[]) => void>(fn: T, waitMs: number) {\n  // ...\n}"
+    },
+    system_design: {
+      skill: "REST APIs",
+      category: "Architecture",
+      title: "Push Notification Service",
+      scenario: "Design a service that delivers push notifications to 10 million mobile devices.",
+      checklists: {
+        requirements: ["Delivery guarantees", "Peak throughput", "Per-user preferences"],
+        high_level: ["API gateway", "Message queue", "APNs/FCM workers"],
+        deep_dive: ["Retry with backoff", "Device token storage", "Rate limiting"],
+        tradeoffs: ["At-least-once vs exactly-once", "Push vs pull"]
+      }
+    }
+  }),
+
+  start_interview: "Great, let's begin. Please tell me a bit about yourself and your background.",
+
+  evaluate_and_respond: (request) => {
+    const answer = extractUserAnswer(request).toLowerCase();
+    const isReady = /\b(ready|let's start|let's begin)\b/.test(answer);
+
+    return JSON.stringify({
+      evaluation: isReady
+        ? { ...DEFAULT_EVALUATION, metrics: { accuracy: 0, depth: 0, structure: 0, reasoning: "User is ready" }, compositeScore: 0, level: "fail", intent: "READY_CONFIRM" }
+        : DEFAULT_EVALUATION,
+      voiceResponse: isReady
+        ? "Great, let's get started."
+        : "Thanks, that's a solid answer. Let's move on to the next topic.",
+      probe: null
+    });
+  },
+
+  evaluate_answer: JSON.stringify(DEFAULT_EVALUATION),
+
+  evaluate_batch: "[]",
+
+  evaluate_final: JSON.stringify({
+    finalQuestion: {
+      topic: "Final",
+      userAnswer: "Mock answer",
+      score: 7,
+      feedback: "Solid answer.",
+      detailedFeedback: "Mock detailed feedback.",
+      ...DEFAULT_EVALUATION
+    },
+    overallSummary: "Mock interview summary."
+  }),
+
+  evaluate_code: JSON.stringify({
+    metrics: { accuracy: 7, depth: 6, structure: 7, correctness: 8, complexity: 7, style: 7, reasoning: "Mock code evaluation" },
+    feedback: "Working solution with clear naming.",
+    detailedFeedback: "Mock detailed code feedback.",
+    issues: []
+  }),
+
+  evaluate_design_stage: JSON.stringify({
+    score: 7,
+    covered: [],
+    missed: [],
+    feedback: "Mock stage feedback."
+  }),
+
+  analyze_star: JSON.stringify({
+    labels: [],
+    feedback: "Mock STAR feedback."
+  }),
+
+  advice: "Build a small project around this topic and read the official documentation end to end.",
+
+  voice_response: "Thanks. Let's continue.",
+
+  simulate_answer: "In my last project I used this extensively, and the main trade-off was performance versus simplicity.",
+
+  special_action: "Could you rephrase that question?"
+};
+
+/**
+ * Local mock provider
+ *
+ * Returns deterministic canned responses per LLMTask so the whole interview
+ * flow can run offline (tests, demos, no API keys). Any task can be overridden
+ * with a fixed string or a function of the request.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+  private responses: Record<LLMTask, MockResponse>;
+  private latencyMs: number;
+
+  // Every request received, in order (handy for assertions)
+  readonly calls: LLMRequest[] = [];
+
+  constructor(config: MockProviderConfig = {}) {
+    this.responses = { ...DEFAULT_RESPONSES, ...config.responses };
+    this.latencyMs = config.latencyMs || 0;
+  }
+
+  async generate(request: LLMRequest): Promise<string> {
+    this.calls.push(request);
+    console.log(`🤖 [MOCK_LLM] Task: ${request.task}`);
+
+    if (this.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+    }
+
+    const response = this.responses[request.task];
+    return typeof response === 'function' ? response(request) : response;
+  }
+}
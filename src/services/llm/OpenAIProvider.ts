@@ -0,0 +1,45 @@
+import OpenAI from 'openai';
+import { LLMProvider, LLMRequest, LLMModelTier } from './LLMProvider';
+
+const OPENAI_MODELS: Record<LLMModelTier, string> = {
+  fast: 'gpt-4o-mini',
+  pro: 'gpt-4o'
+};
+
+/**
+ * OpenAI Chat Completions provider
+ *
+ * NOTE: Chat Completions can't take inline PDFs, so attachments are dropped
+ * and the caller's text fallback (ResumeData.text) is what the model sees.
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  private client: OpenAI;
+
+  constructor(apiKey: string = process.env.EXPO_PUBLIC_OPENAI_API_KEY || "") {
+    if (!apiKey) console.error("OpenAI API Key missing! Check .env file.");
+    // React Native is a "browser" as far as the SDK is concerned
+    this.client = new OpenAI({ apiKey, dangerouslyAllowBrowser: true });
+  }
+
+  async generate(request: LLMRequest): Promise<string> {
+    const model = OPENAI_MODELS[request.tier || 'fast'];
+
+    if (request.attachments && request.attachments.length > 0) {
+      console.warn(`⚠️ [OPENAI] ${request.attachments.length} attachment(s) not supported, sending text only`);
+    }
+
+    console.log(`🤖 [OPENAI] Calling model: ${model}`);
+
+    const completion = await this.client.chat.completions.create({
+      model,
+      messages: request.messages.map(msg => ({ role: msg.role, content: msg.content })),
+      temperature: request.temperature,
+      max_completion_tokens: request.maxOutputTokens,
+      // JSON mode only guarantees an object - arrays are left to extractJson / generateStructured
+      response_format: request.responseFormat === 'json_object' ? { type: 'json_object' } : undefined
+    });
+
+    return completion.choices[0]?.message?.content || "";
+  }
+}
@@ -0,0 +1,87 @@
+import { LLMProvider, LLMProviderName, LLMRequest } from './LLMProvider';
+import { SessionEventData, SessionRecorder, stripRequest } from '../session-recorder';
+
+/**
+ * Calls made through a deferred provider, logged only on commit()
+ */
+export interface DeferredRecording {
+  provider: LLMProvider;
+  commit(): void;
+}
+
+/**
+ * Pass-through provider that logs every request/response pair into a
+ * SessionRecorder (see ReplayProvider for the other half)
+ */
+export class RecordingProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  readonly stream?: (request: LLMRequest) => AsyncGenerator<string, void, unknown>;
+  private inner: LLMProvider;
+  private recorder: SessionRecorder;
+
+  constructor(inner: LLMProvider, recorder: SessionRecorder) {
+    this.inner = inner;
+    this.recorder = recorder;
+    this.name = inner.name;
+
+    // Only stream when the inner provider can (callers check for it)
+    if (inner.stream) {
+      this.stream = (request) => this.streamCall(request, event => this.recorder.record(event));
+    }
+  }
+
+  async generate(request: LLMRequest): Promise<string> {
+    return this.call(request, event => this.recorder.record(event));
+  }
+
+  /**
+   * Provider for speculative calls: discarded ones must stay out of the log,
+   * since replay serves recorded responses per task, in order
+   */
+  deferred(): DeferredRecording {
+    const pending: SessionEventData[] = [];
+    return {
+      provider: {
+        name: this.name,
+        generate: (request) => this.call(request, event => pending.push(event))
+      },
+      commit: () => {
+        pending.splice(0).forEach(event => this.recorder.record(event));
+      }
+    };
+  }
+
+  private async call(request: LLMRequest, record: (event: SessionEventData) => void): Promise<string> {
+    try {
+      const response = await this.inner.generate(request);
+      record({ type: 'llm_call', task: request.task, request: stripRequest(request), response });
+      return response;
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      record({ type: 'llm_call', task: request.task, request: stripRequest(request), response: "", error });
+      throw e;
+    }
+  }
+
+  /**
+   * A streamed call is logged as one llm_call with the full text, so replay
+   * serves it through generate() like any other
+   */
+  private async *streamCall(
+    request: LLMRequest,
+    record: (event: SessionEventData) => void
+  ): AsyncGenerator<string, void, unknown> {
+    let response = "";
+    try {
+      for await (const delta of this.inner.stream!(request)) {
+        response += delta;
+        yield delta;
+      }
+      record({ type: 'llm_call', task: request.task, request: stripRequest(request), response });
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      record({ type: 'llm_call', task: request.task, request: stripRequest(request), response: "", error });
+      throw e;
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { LLMProvider, LLMRequest, LLMTask } from './LLMProvider';
+import { SessionLog, eventsOfType } from '../session-recorder';
+
+/**
+ * Serves LLM responses from a recorded SessionLog instead of the network.
+ *
+ * Responses are queued per task and handed out in recorded order, so
+ * background calls (plan generation, batch eval) can interleave differently
+ * from the original run without shifting anything. Recorded failures are
+ * replayed as throws.
+ */
+export class ReplayProvider implements LLMProvider {
+  readonly name = 'replay' as const;
+  private queues: Map<LLMTask, { response: string; error?: string }[]> = new Map();
+
+  constructor(log: SessionLog) {
+    eventsOfType(log, 'llm_call').forEach(call => {
+      const queue = this.queues.get(call.task) || [];
+      queue.push({ response: call.response, error: call.error });
+      this.queues.set(call.task, queue);
+    });
+  }
+
+  async generate(request: LLMRequest): Promise<string> {
+    const next = this.queues.get(request.task)?.shift();
+
+    if (!next) {
+      // The replay diverged from the recording (e.g. an extra repair round trip)
+      console.warn(`⚠️ [REPLAY] No recorded response left for task "${request.task}"`);
+      throw new Error(`Replay log exhausted for task: ${request.task}`);
+    }
+
+    console.log(`📼 [REPLAY] Serving recorded "${request.task}" response`);
+    if (next.error) throw new Error(next.error);
+    return next.response;
+  }
+
+  /**
+   * Recorded responses that were never requested (per task)
+   */
+  getUnusedCounts(): Partial<Record<LLMTask, number>> {
+    const counts: Partial<Record<LLMTask, number>> = {};
+    this.queues.forEach((queue, task) => {
+      if (queue.length > 0) counts[task] = queue.length;
+    });
+    return counts;
+  }
+}
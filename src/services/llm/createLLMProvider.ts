@@ -0,0 +1,51 @@
+import { LLMProvider, LLMProviderName } from './LLMProvider';
+import { GeminiProvider } from './GeminiProvider';
+import { OpenAIProvider } from './OpenAIProvider';
+import { GroqProvider } from './GroqProvider';
+import { MockProvider } from './MockProvider';
+
+const PROVIDER_NAMES: LLMProviderName[] = ['gemini', 'openai', 'groq', 'mock'];
+
+/**
+ * Pick a provider when none is requested explicitly:
+ * 1. EXPO_PUBLIC_LLM_PROVIDER (if valid)
+ * 2. The first backend with an API key (Gemini → OpenAI → Groq)
+ * 3. Mock (offline)
+ */
+export function resolveLLMProviderName(): LLMProviderName {
+  const configured = (process.env.EXPO_PUBLIC_LLM_PROVIDER || "").trim().toLowerCase();
+  if (PROVIDER_NAMES.includes(configured as LLMProviderName)) {
+    return configured as LLMProviderName;
+  }
+  if (configured) {
+    console.warn(`⚠️ [LLM] Unknown EXPO_PUBLIC_LLM_PROVIDER "${configured}", auto-detecting`);
+  }
+
+  if (process.env.EXPO_PUBLIC_GEMINI_API_KEY) return 'gemini';
+  if (process.env.EXPO_PUBLIC_OPENAI_API_KEY) return 'openai';
+  if (process.env.EXPO_PUBLIC_GROQ_API_KEY) return 'groq';
+
+  console.warn("⚠️ [LLM] No LLM API keys found, using mock provider");
+  return 'mock';
+}
+
+/**
+ * Create an LLM provider by name (auto-detected if omitted)
+ */
+export function createLLMProvider(name: LLMProviderName = resolveLLMProviderName()): LLMProvider {
+  console.log(`🤖 [LLM] Using provider: ${name}`);
+
+  switch (name) {
+    case 'openai':
+      return new OpenAIProvider();
+    case 'groq':
+      return new GroqProvider();
+    case 'mock':
+      return new MockProvider();
+    case 'replay':
+      throw new Error("Replay provider needs a session log - use new ReplayProvider(log)");
+    case 'gemini':
+    default:
+      return new GeminiProvider();
+  }
+}
@@ -0,0 +1,701 @@
+import {
+  AnalysisResponse,
+  AnswerIssue,
+  CategorizedSkill,
+  CodingProblemSuggestion,
+  DesignStageId,
+  EvaluationMetrics,
+  StarSegment,
+  GeminiAnalysisResult,
+  ProbeKind,
+  QualityLevel,
+  QuestionResult,
+  SystemDesignSuggestion,
+  UserIntent
+} from '../../types';
+import { OutputSchema, ValidationResult } from './structuredOutput';
+
+// ============================================
+// ENUM VALUES (mirror the unions in types.ts)
+// ============================================
+
+export const QUALITY_LEVELS: QualityLevel[] = ['excellent', 'good', 'mediocre', 'poor', 'fail'];
+
+export const ANSWER_ISSUES: AnswerIssue[] = [
+  'NO_EXAMPLE', 'WRONG_CONCEPT', 'TOO_VAGUE', 'OFF_TOPIC', 'RAMBLING', 'INCOMPLETE', 'SHALLOW'
+];
+
+export const USER_INTENTS: UserIntent[] = [
+  'STRONG_ATTEMPT', 'WEAK_ATTEMPT', 'CLARIFICATION', 'GIVE_UP', 'SHOW_ANSWER',
+  'SHOW_ANSWER_STAY', 'SHOW_ANSWER_PREVIOUS', 'NONSENSE', 'READY_CONFIRM'
+];
+
+export const PROBE_KINDS: ProbeKind[] = [
+  'CONCRETE_EXAMPLE', 'SCALE', 'SPECIFICS', 'ALTERNATIVE', 'MISSING_PART', 'FOCUS'
+];
+
+/**
+ * Map a 0-10 score to its QualityLevel (same bands as the judge prompt)
+ */
+export function levelForScore(score: number): QualityLevel {
+  if (score >= 9) return 'excellent';
+  if (score >= 7) return 'good';
+  if (score >= 5) return 'mediocre';
+  if (score >= 3) return 'poor';
+  return 'fail';
+}
+
+// ============================================
+// FIELD COERCION HELPERS
+// ============================================
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Accept numbers and numeric strings ("7.5"), clamp to 0-10.
+ * Returns null when the value isn't a number at all.
+ */
+const toScore = (value: unknown): number | null => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof num !== 'number' || !Number.isFinite(num)) return null;
+  return Math.min(10, Math.max(0, num));
+};
+
+const toEnum = <T extends string>(value: unknown, allowed: T[]): T | null => {
+  if (typeof value !== 'string') return null;
+  const normalized = value.trim();
+  const match = allowed.find(option => option.toLowerCase() === normalized.toLowerCase());
+  return match || null;
+};
+
+const coerceMetrics = (
+  value: unknown,
+  path: string,
+  warnings: string[],
+  errors: string[]
+): EvaluationMetrics | null => {
+  if (!isObject(value)) {
+    errors.push(`${path} is missing or not an object`);
+    return null;
+  }
+
+  const accuracy = toScore(value.accuracy);
+  const depth = toScore(value.depth);
+  const structure = toScore(value.structure);
+
+  if (accuracy === null || depth === null || structure === null) {
+    errors.push(`${path} must have numeric accuracy, depth and structure (0-10)`);
+    return null;
+  }
+
+  let reasoning = value.reasoning;
+  if (typeof reasoning !== 'string') {
+    warnings.push(`${path}.reasoning missing, defaulted to ""`);
+    reasoning = "";
+  }
+
+  return { accuracy, depth, structure, reasoning };
+};
+
+const coerceIssues = (value: unknown, path: string, warnings: string[]): AnswerIssue[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    warnings.push(`${path} is not an array, defaulted to []`);
+    return [];
+  }
+
+  const issues: AnswerIssue[] = [];
+  value.forEach(item => {
+    const issue = toEnum(item, ANSWER_ISSUES);
+    if (issue) issues.push(issue);
+    else warnings.push(`${path}: dropped unknown issue ${JSON.stringify(item)}`);
+  });
+  return issues;
+};
+
+// ============================================
+// ANALYSIS RESPONSE (Flash judge)
+// ============================================
+
+/**
+ * Validate one AnalysisResponse.
+ *
+ * Coerced: numeric strings, out-of-range scores, missing compositeScore
+ * (recomputed from metrics), level outside QualityLevel (derived from score),
+ * unknown issues (dropped), missing suggestedFeedback.
+ * Rejected: missing/non-numeric metrics, unknown intent - both drive the
+ * anger/patience math and can't be guessed safely.
+ */
+export function validateAnalysisResponse(data: unknown, path: string = 'evaluation'): ValidationResult<AnalysisResponse> {
+  const warnings: string[] = [];
+  const errors: string[] = [];
+
+  if (!isObject(data)) {
+    return { ok: false, errors: [`${path} is not an object`] };
+  }
+
+  const metrics = coerceMetrics(data.metrics, `${path}.metrics`, warnings, errors);
+
+  const intent = toEnum(data.intent, USER_INTENTS);
+  if (!intent) {
+    errors.push(`${path}.intent ${JSON.stringify(data.intent)} is not one of ${USER_INTENTS.join(', ')}`);
+  }
+
+  if (!metrics || !intent) return { ok: false, errors };
+
+  let compositeScore = toScore(data.compositeScore);
+  if (compositeScore === null) {
+    // Technical weighting (accuracy×0.5 + depth×0.3 + structure×0.2)
+    compositeScore = Math.round((metrics.accuracy * 0.5 + metrics.depth * 0.3 + metrics.structure * 0.2) * 10) / 10;
+    warnings.push(`${path}.compositeScore missing, recomputed as ${compositeScore}`);
+  }
+
+  let level = toEnum(data.level, QUALITY_LEVELS);
+  if (!level) {
+    level = levelForScore(compositeScore);
+    warnings.push(`${path}.level ${JSON.stringify(data.level)} invalid, derived "${level}" from score`);
+  }
+
+  let suggestedFeedback = data.suggestedFeedback;
+  if (typeof suggestedFeedback !== 'string') {
+    warnings.push(`${path}.suggestedFeedback missing, defaulted to ""`);
+    suggestedFeedback = "";
+  }
+
+  return {
+    ok: true,
+    warnings,
+    value: {
+      metrics,
+      compositeScore,
+      level,
+      issues: coerceIssues(data.issues, `${path}.issues`, warnings),
+      intent,
+      suggestedFeedback
+    }
+  };
+}
+
+/**
+ * evaluateAndRespond(): { evaluation, voiceResponse, probe }
+ */
+export interface UnifiedEvaluation {
+  evaluation: AnalysisResponse;
+  voiceResponse: string;
+  probe: { kind: ProbeKind; question: string } | null;  // Follow-up probe voiceResponse asks (null if none)
+}
+
+export function validateUnifiedEvaluation(data: unknown): ValidationResult<UnifiedEvaluation> {
+  if (!isObject(data)) {
+    return { ok: false, errors: ['Response is not an object'] };
+  }
+
+  const evaluation = validateAnalysisResponse(data.evaluation);
+  const errors = evaluation.ok ? [] : [...evaluation.errors];
+
+  const voiceResponse = typeof data.voiceResponse === 'string' ? data.voiceResponse.trim() : "";
+  if (!voiceResponse) errors.push('voiceResponse is missing or empty');
+
+  if (!evaluation.ok || errors.length > 0) return { ok: false, errors };
+
+  // A broken probe only loses the probe bookkeeping - the reply is fine
+  const warnings = [...evaluation.warnings];
+  let probe: UnifiedEvaluation['probe'] = null;
+  if (isObject(data.probe)) {
+    const kind = toEnum(data.probe.kind, PROBE_KINDS);
+    if (kind) {
+      const question = typeof data.probe.question === 'string' ? data.probe.question.trim() : "";
+      probe = { kind, question: question || voiceResponse };
+    } else {
+      warnings.push(`probe.kind ${JSON.stringify(data.probe.kind)} unknown (dropped)`);
+    }
+  } else if (data.probe !== undefined && data.probe !== null) {
+    warnings.push('probe is not an object (dropped)');
+  }
+
+  return { ok: true, warnings, value: { evaluation: evaluation.value, voiceResponse, probe } };
+}
+
+// ============================================
+// QUESTION RESULTS (Pro batch / final evaluation)
+// ============================================
+
+/**
+ * Validate one QuestionResult. topic and score are required; everything
+ * else is optional and coerced the same way as AnalysisResponse fields.
+ */
+export function validateQuestionResult(data: unknown, path: string = 'result'): ValidationResult<QuestionResult> {
+  const warnings: string[] = [];
+  const errors: string[] = [];
+
+  if (!isObject(data)) {
+    return { ok: false, errors: [`${path} is not an object`] };
+  }
+
+  if (typeof data.topic !== 'string' || !data.topic.trim()) {
+    errors.push(`${path}.topic is missing`);
+  }
+
+  const score = toScore(data.score);
+  if (score === null) {
+    errors.push(`${path}.score ${JSON.stringify(data.score)} is not a number`);
+  }
+
+  if (errors.length > 0 || score === null) return { ok: false, errors };
+
+  const result: QuestionResult = {
+    topic: data.topic,
+    userAnswer: typeof data.userAnswer === 'string' ? data.userAnswer : "",
+    score,
+    feedback: typeof data.feedback === 'string' ? data.feedback : ""
+  };
+
+  if (!result.feedback) warnings.push(`${path}.feedback missing`);
+
+  // Older prompts sometimes skip detailedFeedback - fall back to the short one
+  result.detailedFeedback = typeof data.detailedFeedback === 'string' && data.detailedFeedback
+    ? data.detailedFeedback
+    : result.feedback;
+
+  if (data.metrics !== undefined) {
+    const metricErrors: string[] = [];
+    const metrics = coerceMetrics(data.metrics, `${path}.metrics`, warnings, metricErrors);
+    if (metrics) result.metrics = metrics;
+    else warnings.push(...metricErrors.map(e => `${e} (dropped)`));
+  }
+
+  if (data.compositeScore !== undefined) {
+    const compositeScore = toScore(data.compositeScore);
+    if (compositeScore !== null) result.compositeScore = compositeScore;
+    else warnings.push(`${path}.compositeScore invalid (dropped)`);
+  }
+
+  if (data.level !== undefined) {
+    const level = toEnum(data.level, QUALITY_LEVELS);
+    result.level = level || levelForScore(result.compositeScore ?? score);
+    if (!level) warnings.push(`${path}.level ${JSON.stringify(data.level)} invalid, derived "${result.level}" from score`);
+  }
+
+  if (data.issues !== undefined) {
+    result.issues = coerceIssues(data.issues, `${path}.issues`, warnings);
+  }
+
+  if (data.intent !== undefined) {
+    const intent = toEnum(data.intent, USER_INTENTS);
+    if (intent) result.intent = intent;
+    else warnings.push(`${path}.intent ${JSON.stringify(data.intent)} unknown (dropped)`);
+  }
+
+  if (typeof data.suggestedFeedback === 'string') {
+    result.suggestedFeedback = data.suggestedFeedback;
+  }
+
+  if (typeof data.topicId === 'string' && data.topicId.trim()) {
+    result.topicId = data.topicId.trim();
+  }
+
+  return { ok: true, warnings, value: result };
+}
+
+/**
+ * Validate a QuestionResult[]. Individual broken entries are dropped with a
+ * warning; the array is only rejected if it isn't an array or nothing survives.
+ */
+export function validateQuestionResults(data: unknown): ValidationResult<QuestionResult[]> {
+  if (!Array.isArray(data)) {
+    return { ok: false, errors: ['Response is not a JSON array'] };
+  }
+
+  const warnings: string[] = [];
+  const errors: string[] = [];
+  const results: QuestionResult[] = [];
+
+  data.forEach((item, index) => {
+    const result = validateQuestionResult(item, `[${index}]`);
+    if (result.ok) {
+      results.push(result.value);
+      warnings.push(...result.warnings);
+    } else {
+      errors.push(...result.errors);
+    }
+  });
+
+  if (data.length > 0 && results.length === 0) {
+    return { ok: false, errors };
+  }
+
+  warnings.push(...errors.map(e => `${e} (entry dropped)`));
+  return { ok: true, warnings, value: results };
+}
+
+/**
+ * evaluateFinal(): { finalQuestion, overallSummary }
+ */
+export interface FinalEvaluation {
+  finalQuestion: QuestionResult;
+  overallSummary: string;
+}
+
+export function validateFinalEvaluation(data: unknown): ValidationResult<FinalEvaluation> {
+  if (!isObject(data)) {
+    return { ok: false, errors: ['Response is not an object'] };
+  }
+
+  const finalQuestion = validateQuestionResult(data.finalQuestion, 'finalQuestion');
+  const errors = finalQuestion.ok ? [] : [...finalQuestion.errors];
+
+  const overallSummary = typeof data.overallSummary === 'string' ? data.overallSummary.trim() : "";
+  if (!overallSummary) errors.push('overallSummary is missing or empty');
+
+  if (!finalQuestion.ok || errors.length > 0) return { ok: false, errors };
+
+  return { ok: true, warnings: finalQuestion.warnings, value: { finalQuestion: finalQuestion.value, overallSummary } };
+}
+
+// ============================================
+// CODE EVALUATION (Coding topics)
+// ============================================
+
+/**
+ * evaluateCode(): code-aware scores + feedback for one submission
+ */
+export interface CodeEvaluation {
+  metrics: EvaluationMetrics;   // accuracy/depth/structure rate the explanation
+  compositeScore: number;
+  level: QualityLevel;
+  feedback: string;
+  detailedFeedback: string;
+  issues: AnswerIssue[];
+}
+
+/**
+ * Validate a code evaluation. correctness, complexity and style are required;
+ * explanation metrics are coerced like AnalysisResponse metrics.
+ * compositeScore is always recomputed (correctness×0.5 + complexity×0.3 + style×0.2)
+ * so the weighting can't drift with the prompt.
+ */
+export function validateCodeEvaluation(data: unknown): ValidationResult<CodeEvaluation> {
+  const warnings: string[] = [];
+  const errors: string[] = [];
+
+  if (!isObject(data)) {
+    return { ok: false, errors: ['Response is not an object'] };
+  }
+
+  const explanation = coerceMetrics(data.metrics, 'metrics', warnings, errors);
+  const raw = isObject(data.metrics) ? data.metrics : {};
+  const correctness = toScore(raw.correctness);
+  const complexity = toScore(raw.complexity);
+  const style = toScore(raw.style);
+
+  if (correctness === null || complexity === null || style === null) {
+    errors.push('metrics must have numeric correctness, complexity and style (0-10)');
+  }
+
+  if (!explanation || correctness === null || complexity === null || style === null) {
+    return { ok: false, errors };
+  }
+
+  const compositeScore = Math.round((correctness * 0.5 + complexity * 0.3 + style * 0.2) * 10) / 10;
+
+  const feedback = typeof data.feedback === 'string' ? data.feedback : "";
+  if (!feedback) warnings.push('feedback missing');
+
+  return {
+    ok: true,
+    warnings,
+    value: {
+      metrics: { ...explanation, correctness, complexity, style },
+      compositeScore,
+      level: levelForScore(compositeScore),
+      feedback,
+      detailedFeedback: typeof data.detailedFeedback === 'string' && data.detailedFeedback
+        ? data.detailedFeedback
+        : feedback,
+      issues: coerceIssues(data.issues, 'issues', warnings)
+    }
+  };
+}
+
+// ============================================
+// DESIGN STAGE EVALUATION (SystemDesign topics)
+// ============================================
+
+/**
+ * evaluateDesignStage(): sub-score + checklist coverage for one stage
+ */
+export interface DesignStageEvaluation {
+  score: number;
+  covered: string[];
+  missed: string[];
+  feedback: string;
+}
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0).map(item => item.trim())
+    : [];
+
+export function validateDesignStageEvaluation(data: unknown): ValidationResult<DesignStageEvaluation> {
+  const warnings: string[] = [];
+
+  if (!isObject(data)) {
+    return { ok: false, errors: ['Response is not an object'] };
+  }
+
+  const score = toScore(data.score);
+  if (score === null) {
+    return { ok: false, errors: [`score ${JSON.stringify(data.score)} is not a number`] };
+  }
+
+  if (!Array.isArray(data.covered)) warnings.push('covered is not an array, defaulted to []');
+  if (!Array.isArray(data.missed)) warnings.push('missed is not an array, defaulted to []');
+
+  const feedback = typeof data.feedback === 'string' ? data.feedback.trim() : "";
+  if (!feedback) warnings.push('feedback missing');
+
+  return {
+    ok: true,
+    warnings,
+    value: { score, covered: toStringList(data.covered), missed: toStringList(data.missed), feedback }
+  };
+}
+
+// ============================================
+// STAR ANALYSIS (SoftSkill topics)
+// ============================================
+
+/**
+ * analyzeStar(): segment label per numbered sentence of the candidate's story
+ */
+export interface StarLabels {
+  labels: Array<{ index: number; segment: StarSegment | 'other' }>;
+  feedback: string;
+}
+
+export const STAR_SEGMENTS: StarSegment[] = ['situation', 'task', 'action', 'result'];
+
+export function validateStarLabels(data: unknown): ValidationResult<StarLabels> {
+  const warnings: string[] = [];
+
+  if (!isObject(data)) {
+    return { ok: false, errors: ['Response is not an object'] };
+  }
+  if (!Array.isArray(data.labels)) {
+    return { ok: false, errors: ['labels is not an array'] };
+  }
+
+  const labels: StarLabels['labels'] = [];
+  data.labels.forEach((item, i) => {
+    const index = isObject(item) ? Number(item.index) : NaN;
+    if (!Number.isInteger(index) || index < 0) {
+      warnings.push(`labels[${i}].index ${JSON.stringify(isObject(item) ? item.index : item)} dropped`);
+      return;
+    }
+    const segment = typeof item.segment === 'string' ? item.segment.toLowerCase().trim() : '';
+    if (!STAR_SEGMENTS.includes(segment as StarSegment) && segment !== 'other') {
+      warnings.push(`labels[${i}].segment "${item.segment}" defaulted to "other"`);
+    }
+    labels.push({
+      index,
+      segment: STAR_SEGMENTS.includes(segment as StarSegment) ? segment as StarSegment : 'other'
+    });
+  });
+
+  const feedback = typeof data.feedback === 'string' ? data.feedback.trim() : "";
+  if (!feedback) warnings.push('feedback missing');
+
+  return { ok: true, warnings, value: { labels, feedback } };
+}
+
+// ============================================
+// RESUME vs JD ANALYSIS (interview planner)
+// ============================================
+
+const SKILL_LISTS = ['matches', 'gaps', 'cool_skills', 'transferable_skills', 'soft_skills'] as const;
+
+const coerceSkillList = (value: unknown, path: string, warnings: string[]): CategorizedSkill[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    warnings.push(`${path} is not an array, defaulted to []`);
+    return [];
+  }
+
+  const skills: CategorizedSkill[] = [];
+  value.forEach((item, index) => {
+    // Legacy format: plain strings
+    if (typeof item === 'string' && item.trim()) {
+      skills.push({ skill: item.trim(), category: "" });
+      return;
+    }
+    if (!isObject(item) || typeof item.skill !== 'string' || !item.skill.trim()) {
+      warnings.push(`${path}[${index}] has no skill name (dropped)`);
+      return;
+    }
+
+    const skill: CategorizedSkill = {
+      skill: item.skill.trim(),
+      category: typeof item.category === 'string' ? item.category : ""
+    };
+
+    const score = toScore(item.score);
+    if (score !== null) skill.score = score;
+    else if (item.score !== undefined) warnings.push(`${path}[${index}].score invalid (dropped)`);
+
+    if (typeof item.question_script === 'string' && item.question_script.trim()) {
+      skill.question_script = item.question_script;
+    }
+    if (typeof item.study_tip === 'string' && item.study_tip.trim()) {
+      skill.study_tip = item.study_tip.trim();
+    }
+
+    skills.push(skill);
+  });
+  return skills;
+};
+
+/**
+ * Optional coding exercise: dropped (with a warning) unless it has a
+ * skill, a title and a statement
+ */
+const coerceCodingProblem = (value: unknown, warnings: string[]): CodingProblemSuggestion | undefined => {
+  if (value === undefined || value === null) return undefined;
+
+  const isText = (field: unknown): field is string => typeof field === 'string' && field.trim().length > 0;
+  if (!isObject(value) || !isText(value.skill) || !isText(value.title) || !isText(value.statement)) {
+    warnings.push('coding_problem is incomplete (dropped)');
+    return undefined;
+  }
+
+  const problem: CodingProblemSuggestion = {
+    skill: value.skill.trim(),
+    category: isText(value.category) ? value.category : "Coding",
+    title: value.title.trim(),
+    statement: value.statement.trim(),
+    language: isText(value.language) ? value.language.trim() : "Any"
+  };
+  if (isText(value.starter_code)) problem.starter_code = value.starter_code;
+
+  return problem;
+};
+
+const DESIGN_STAGE_IDS: DesignStageId[] = ['requirements', 'high_level', 'deep_dive', 'tradeoffs'];
+
+/**
+ * Optional system-design round: dropped (with a warning) unless it has a
+ * skill, a title and a scenario. Unknown stage keys are ignored.
+ */
+const coerceSystemDesign = (value: unknown, warnings: string[]): SystemDesignSuggestion | undefined => {
+  if (value === undefined || value === null) return undefined;
+
+  const isText = (field: unknown): field is string => typeof field === 'string' && field.trim().length > 0;
+  if (!isObject(value) || !isText(value.skill) || !isText(value.title) || !isText(value.scenario)) {
+    warnings.push('system_design is incomplete (dropped)');
+    return undefined;
+  }
+
+  const rawChecklists = isObject(value.checklists) ? value.checklists : {};
+  const checklists: SystemDesignSuggestion['checklists'] = {};
+  DESIGN_STAGE_IDS.forEach(id => {
+    const items = toStringList(rawChecklists[id]);
+    if (items.length > 0) checklists[id] = items;
+    else warnings.push(`system_design.checklists.${id} missing`);
+  });
+
+  return {
+    skill: value.skill.trim(),
+    category: isText(value.category) ? value.category : "System Design",
+    title: value.title.trim(),
+    scenario: value.scenario.trim(),
+    checklists
+  };
+};
+
+/**
+ * Validate the planner's Resume vs JD analysis. Every list is optional
+ * (defaults to []), but at least one skill must survive - an empty analysis
+ * would silently produce a soft-skills-only interview.
+ */
+export function validateGeminiAnalysisResult(data: unknown): ValidationResult<GeminiAnalysisResult> {
+  if (!isObject(data)) {
+    return { ok: false, errors: ['Response is not an object'] };
+  }
+
+  const warnings: string[] = [];
+  const [matches, gaps, cool_skills, transferable_skills, soft_skills] =
+    SKILL_LISTS.map(key => coerceSkillList(data[key], key, warnings));
+
+  const result: GeminiAnalysisResult = { matches, gaps, cool_skills, transferable_skills, soft_skills };
+
+  if (typeof data.job_role === 'string' && data.job_role.trim()) {
+    result.job_role = data.job_role.trim();
+  } else {
+    warnings.push('job_role missing');
+  }
+
+  const codingProblem = coerceCodingProblem(data.coding_problem, warnings);
+  if (codingProblem) result.coding_problem = codingProblem;
+
+  const systemDesign = coerceSystemDesign(data.system_design, warnings);
+  if (systemDesign) result.system_design = systemDesign;
+
+  const total = SKILL_LISTS.reduce((sum, key) => sum + result[key].length, 0);
+  if (total === 0) {
+    return { ok: false, errors: [`No skills found in ${SKILL_LISTS.join(', ')}`] };
+  }
+
+  return { ok: true, warnings, value: result };
+}
+
+// ============================================
+// SCHEMAS (for generateStructured)
+// ============================================
+
+export const UnifiedEvaluationSchema: OutputSchema<UnifiedEvaluation> = {
+  name: 'UnifiedEvaluation',
+  shape: 'object',
+  validate: validateUnifiedEvaluation
+};
+
+export const AnalysisResponseSchema: OutputSchema<AnalysisResponse> = {
+  name: 'AnalysisResponse',
+  shape: 'object',
+  validate: data => validateAnalysisResponse(data)
+};
+
+export const QuestionResultsSchema: OutputSchema<QuestionResult[]> = {
+  name: 'QuestionResult[]',
+  shape: 'array',
+  validate: validateQuestionResults
+};
+
+export const FinalEvaluationSchema: OutputSchema<FinalEvaluation> = {
+  name: 'FinalEvaluation',
+  shape: 'object',
+  validate: validateFinalEvaluation
+};
+
+export const CodeEvaluationSchema: OutputSchema<CodeEvaluation> = {
+  name: 'CodeEvaluation',
+  shape: 'object',
+  validate: validateCodeEvaluation
+};
+
+export const DesignStageEvaluationSchema: OutputSchema<DesignStageEvaluation> = {
+  name: 'DesignStageEvaluation',
+  shape: 'object',
+  validate: validateDesignStageEvaluation
+};
+
+export const StarLabelsSchema: OutputSchema<StarLabels> = {
+  name: 'StarLabels',
+  shape: 'object',
+  validate: validateStarLabels
+};
+
+export const GeminiAnalysisResultSchema: OutputSchema<GeminiAnalysisResult> = {
+  name: 'GeminiAnalysisResult',
+  shape: 'object',
+  validate: validateGeminiAnalysisResult
+};
@@ -0,0 +1,158 @@
+import { LLMProvider, LLMRequest } from './LLMProvider';
+
+// ============================================
+// TYPED ERRORS
+// ============================================
+
+export type LLMOutputErrorCode = 'INVALID_JSON' | 'SCHEMA_MISMATCH';
+
+/**
+ * Thrown when the model's response can't be turned into the expected shape,
+ * even after the repair round trip.
+ */
+export class LLMOutputError extends Error {
+  readonly code: LLMOutputErrorCode;
+  readonly schema: string;      // Which schema failed (e.g. "AnalysisResponse")
+  readonly issues: string[];    // Human-readable validation problems
+  readonly raw: string;         // Last raw model output (for debugging)
+
+  constructor(code: LLMOutputErrorCode, schema: string, issues: string[], raw: string) {
+    super(`${schema}: ${code} (${issues.join('; ')})`);
+    this.name = 'LLMOutputError';
+    this.code = code;
+    this.schema = schema;
+    this.issues = issues;
+    this.raw = raw;
+  }
+}
+
+// ============================================
+// VALIDATION RESULT
+// ============================================
+
+/**
+ * Validator output: either a coerced value (with warnings about what was fixed)
+ * or a list of errors that make the value unusable.
+ */
+export type ValidationResult<T> =
+  | { ok: true; value: T; warnings: string[] }
+  | { ok: false; errors: string[] };
+
+export interface OutputSchema<T> {
+  name: string;
+  shape: 'object' | 'array';
+  validate: (data: unknown) => ValidationResult<T>;
+}
+
+// ============================================
+// JSON EXTRACTION
+// ============================================
+
+/**
+ * Strip markdown fences and any chatter around the outermost JSON object/array
+ */
+export function extractJson(text: string, shape: 'object' | 'array' = 'object'): string {
+  // 1. Remove Markdown Code Blocks (```json ... ```)
+  let cleaned = (text || "").replace(/```json/g, "").replace(/```/g, "");
+
+  // 2. Trim whitespace
+  cleaned = cleaned.trim();
+
+  // 3. Remove any text before the first opener or after the last closer
+  const [open, close] = shape === 'array' ? ['[', ']'] : ['{', '}'];
+  const first = cleaned.indexOf(open);
+  const last = cleaned.lastIndexOf(close);
+
+  if (first !== -1 && last !== -1) {
+    cleaned = cleaned.substring(first, last + 1);
+  }
+
+  return cleaned;
+}
+
+/**
+ * Parse + validate a raw model response. Never throws.
+ */
+export function parseStructured<T>(raw: string, schema: OutputSchema<T>): ValidationResult<T> & { code?: LLMOutputErrorCode } {
+  let data: unknown;
+  try {
+    data = JSON.parse(extractJson(raw, schema.shape));
+  } catch (e) {
+    return { ok: false, code: 'INVALID_JSON', errors: [`Response is not valid JSON: ${e instanceof Error ? e.message : String(e)}`] };
+  }
+
+  const result = schema.validate(data);
+  return result.ok ? result : { ...result, code: 'SCHEMA_MISMATCH' };
+}
+
+// ============================================
+// GENERATE + VALIDATE (+ ONE REPAIR ROUND TRIP)
+// ============================================
+
+/**
+ * Run a request and validate the response against a schema.
+ *
+ * If the first response is invalid, the model gets exactly one repair attempt:
+ * its own output plus the list of problems, asking for corrected JSON only.
+ * Throws LLMOutputError if the repaired response is still invalid - callers
+ * keep their own fallbacks.
+ */
+export async function generateStructured<T>(
+  llm: LLMProvider,
+  request: LLMRequest,
+  schema: OutputSchema<T>
+): Promise<T> {
+  const raw = await llm.generate(request);
+  const first = parseStructured(raw, schema);
+
+  if (first.ok) {
+    if (first.warnings.length > 0) {
+      console.warn(`⚠️ [STRUCTURED] ${schema.name} coerced: ${first.warnings.join('; ')}`);
+    }
+    return first.value;
+  }
+
+  console.warn(`⚠️ [STRUCTURED] ${schema.name} invalid (${first.code}), requesting repair:`, first.errors);
+  return repairStructured(llm, request, raw, first.errors, schema);
+}
+
+/**
+ * The repair round trip on its own: send the model its invalid output and
+ * the problems found, and validate the corrected response. `instruction` is
+ * added to the repair prompt (e.g. which fields must not change).
+ * Throws LLMOutputError if the repaired response is still invalid.
+ */
+export async function repairStructured<T>(
+  llm: LLMProvider,
+  request: LLMRequest,
+  raw: string,
+  errors: string[],
+  schema: OutputSchema<T>,
+  instruction?: string
+): Promise<T> {
+  const repairRequest: LLMRequest = {
+    ...request,
+    messages: [
+      ...request.messages,
+      { role: 'assistant', content: raw },
+      {
+        role: 'user',
+        content: `Your previous response was invalid:\n- ${errors.join('\n- ')}\n\n${instruction ? instruction + ' ' : ''}Return the corrected ${schema.shape === 'array' ? 'JSON array' : 'JSON object'} ONLY, with no extra text.`
+      }
+    ]
+  };
+
+  const repairedRaw = await llm.generate(repairRequest);
+  const second = parseStructured(repairedRaw, schema);
+
+  if (second.ok) {
+    console.log(`✅ [STRUCTURED] ${schema.name} repaired on retry`);
+    if (second.warnings.length > 0) {
+      console.warn(`⚠️ [STRUCTURED] ${schema.name} coerced: ${second.warnings.join('; ')}`);
+    }
+    return second.value;
+  }
+
+  console.error(`❌ [STRUCTURED] ${schema.name} still invalid after repair:`, second.errors);
+  throw new LLMOutputError(second.code || 'SCHEMA_MISMATCH', schema.name, second.errors, repairedRaw);
+}
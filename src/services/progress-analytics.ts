@@ -0,0 +1,238 @@
+/**
+ * Progress Analytics
+ * Cross-session statistics for the progress dashboard, computed from the
+ * saved history (getHistory). Pure functions - no storage access here.
+ */
+
+import { AnswerIssue } from '../types';
+import { InterviewSession } from './history-storage';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ScorePoint {
+  timestamp: number;
+  score: number;
+  role: string;
+}
+
+export interface CategoryAverage {
+  category: string;
+  average: number;
+  answers: number;
+}
+
+export interface IssueCount {
+  issue: AnswerIssue;
+  count: number;
+}
+
+/**
+ * A skill (topic) practised in more than one session
+ */
+export interface SkillProgress {
+  skill: string;
+  sessions: number;
+  firstScore: number;
+  latestScore: number;
+  change: number;      // latestScore - firstScore
+}
+
+export interface RolePractice {
+  role: string;
+  sessions: number;
+  averageScore: number;
+  lastPractised: number;
+}
+
+/**
+ * Sessions run against one saved job description (see resume-library)
+ */
+export interface TargetJobPractice {
+  jobDescriptionId: string;
+  sessions: number;
+  averageScore: number;
+  latestScore: number;
+  lastPractised: number;
+}
+
+export interface ProgressReport {
+  sessions: number;
+  scoreTrend: ScorePoint[];           // Oldest first
+  categoryAverages: CategoryAverage[];
+  topIssues: IssueCount[];
+  skills: SkillProgress[];            // Biggest change first
+  roles: RolePractice[];              // Most practised first
+  targetJobs: TargetJobPractice[];    // Most recently practised first
+}
+
+export const ISSUE_LABELS: Record<AnswerIssue, string> = {
+  NO_EXAMPLE: 'No concrete example',
+  WRONG_CONCEPT: 'Wrong concept',
+  TOO_VAGUE: 'Too vague',
+  OFF_TOPIC: 'Off topic',
+  RAMBLING: 'Rambling',
+  INCOMPLETE: 'Incomplete',
+  SHALLOW: 'Shallow'
+};
+
+const TOP_ISSUES = 5;
+
+const round = (value: number): number => Number(value.toFixed(1));
+
+const average = (values: number[]): number =>
+  values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+
+// Topic names vary in case/punctuation between sessions ("React Hooks" vs "react hooks.")
+const skillKey = (topic: string): string =>
+  topic.toLowerCase().replace(/[.,!?;:"'()]+/g, '').replace(/\s+/g, ' ').trim();
+
+// ============================================
+// STATISTICS
+// ============================================
+
+/**
+ * Session scores over time (oldest first)
+ */
+export function scoreTrend(sessions: InterviewSession[]): ScorePoint[] {
+  return [...sessions]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(session => ({ timestamp: session.timestamp, score: session.totalScore, role: session.role }));
+}
+
+/**
+ * Average answer score per skill category (answers saved before categories
+ * were recorded are skipped)
+ */
+export function categoryAverages(sessions: InterviewSession[]): CategoryAverage[] {
+  const byCategory = new Map<string, number[]>();
+
+  sessions.forEach(session => session.questions.forEach(question => {
+    if (!question.category) return;
+    const scores = byCategory.get(question.category) || [];
+    scores.push(question.score);
+    byCategory.set(question.category, scores);
+  }));
+
+  return Array.from(byCategory.entries())
+    .map(([category, scores]) => ({ category, average: average(scores), answers: scores.length }))
+    .sort((a, b) => b.answers - a.answers);
+}
+
+/**
+ * Most frequent answer issues across all sessions
+ */
+export function topIssues(sessions: InterviewSession[], limit: number = TOP_ISSUES): IssueCount[] {
+  const counts = new Map<AnswerIssue, number>();
+
+  sessions.forEach(session => session.questions.forEach(question => {
+    question.issues?.forEach(issue => counts.set(issue, (counts.get(issue) || 0) + 1));
+  }));
+
+  return Array.from(counts.entries())
+    .map(([issue, count]) => ({ issue, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+}
+
+/**
+ * Skills asked in two or more sessions: first vs latest score
+ */
+export function skillProgress(sessions: InterviewSession[]): SkillProgress[] {
+  const bySkill = new Map<string, { skill: string; scores: number[] }>();
+
+  [...sessions]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(session => {
+      // One score per skill per session (the best attempt)
+      const sessionScores = new Map<string, { skill: string; score: number }>();
+      session.questions.forEach(question => {
+        const key = skillKey(question.topic);
+        if (!key) return;
+        const existing = sessionScores.get(key);
+        if (!existing || question.score > existing.score) {
+          sessionScores.set(key, { skill: question.topic, score: question.score });
+        }
+      });
+
+      sessionScores.forEach(({ skill, score }, key) => {
+        const entry = bySkill.get(key) || { skill, scores: [] };
+        entry.scores.push(score);
+        bySkill.set(key, entry);
+      });
+    });
+
+  return Array.from(bySkill.values())
+    .filter(({ scores }) => scores.length > 1)
+    .map(({ skill, scores }) => ({
+      skill,
+      sessions: scores.length,
+      firstScore: scores[0],
+      latestScore: scores[scores.length - 1],
+      change: round(scores[scores.length - 1] - scores[0])
+    }))
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+}
+
+/**
+ * Roles practised (as the planner named them), most sessions first.
+ * Sessions without a planner role (drills, older sessions) are skipped
+ */
+export function rolesPractised(sessions: InterviewSession[]): RolePractice[] {
+  const byRole = new Map<string, InterviewSession[]>();
+
+  sessions.forEach(session => {
+    if (!session.jobRole) return;
+    byRole.set(session.jobRole, [...(byRole.get(session.jobRole) || []), session]);
+  });
+
+  return Array.from(byRole.entries())
+    .map(([role, roleSessions]) => ({
+      role,
+      sessions: roleSessions.length,
+      averageScore: average(roleSessions.map(session => session.totalScore)),
+      lastPractised: Math.max(...roleSessions.map(session => session.timestamp))
+    }))
+    .sort((a, b) => b.sessions - a.sessions || b.lastPractised - a.lastPractised);
+}
+
+/**
+ * Performance per saved job description (sessions without one are skipped)
+ */
+export function targetJobPerformance(sessions: InterviewSession[]): TargetJobPractice[] {
+  const byJob = new Map<string, InterviewSession[]>();
+
+  sessions.forEach(session => {
+    if (!session.jobDescriptionId) return;
+    byJob.set(session.jobDescriptionId, [...(byJob.get(session.jobDescriptionId) || []), session]);
+  });
+
+  return Array.from(byJob.entries())
+    .map(([jobDescriptionId, jobSessions]) => {
+      const sorted = [...jobSessions].sort((a, b) => a.timestamp - b.timestamp);
+      return {
+        jobDescriptionId,
+        sessions: sorted.length,
+        averageScore: average(sorted.map(session => session.totalScore)),
+        latestScore: sorted[sorted.length - 1].totalScore,
+        lastPractised: sorted[sorted.length - 1].timestamp
+      };
+    })
+    .sort((a, b) => b.lastPractised - a.lastPractised);
+}
+
+/**
+ * Everything the progress dashboard shows
+ */
+export function buildProgressReport(sessions: InterviewSession[]): ProgressReport {
+  return {
+    sessions: sessions.length,
+    scoreTrend: scoreTrend(sessions),
+    categoryAverages: categoryAverages(sessions),
+    topIssues: topIssues(sessions),
+    skills: skillProgress(sessions),
+    roles: rolesPractised(sessions),
+    targetJobs: targetJobPerformance(sessions)
+  };
+}
@@ -0,0 +1,249 @@
+/**
+ * Question Bank Service
+ * Every planned question_script, keyed by a stable content hash, with how
+ * often it was asked and how the last answer scored. The planner ranks new
+ * plans against it; users can edit, pin or retire questions.
+ * Persisted with expo-file-system like favorites.
+ */
+
+import { File, Paths } from 'expo-file-system';
+import { DifficultyLevel, InterviewPlan, InterviewTopic, QuestionResult } from '../types';
+import { findTopicResult } from './topic-results';
+
+const BANK_FILENAME = 'question_bank.json';
+
+export const WEAK_QUESTION_SCORE = 6;   // Asked questions below this are asked again
+const AVOID_LIST_SIZE = 15;             // Recently asked questions listed in the planner prompt
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface BankQuestion {
+    id: string;                     // Content hash of the generated question (kept when edited)
+    question: string;
+    skill: string;
+    category?: string;
+    type: InterviewTopic['type'];
+    role: string;                   // Job role the planner extracted
+    difficulty?: DifficultyLevel;   // Level it was last asked at
+    relevance?: number;             // Planner relevance score (1-10)
+    timesAsked: number;
+    lastAsked?: number;
+    lastScore?: number;
+    pinned: boolean;                // Always preferred for its role
+    retired: boolean;               // Never planned again
+    createdAt: number;
+}
+
+/**
+ * Planner pool item (a generated skill + question, or one from the bank)
+ */
+export interface PlannedQuestion {
+    type: string;
+    skill: string;
+    category: string;
+    score?: number;
+    question_script?: string;
+    question_id?: string;           // Bank id (set when the question came from, or is already in, the bank)
+}
+
+// ============================================
+// HASHING
+// ============================================
+
+const normalizeText = (text: string): string =>
+    text.toLowerCase().replace(/[.,!?;:"'()«»“”¿¡…]+/g, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Stable id of a question: FNV-1a over the normalized text, so the same
+ * question generated again (different case/punctuation) maps to one entry
+ */
+export function questionHash(text: string): string {
+    const normalized = normalizeText(text);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < normalized.length; i++) {
+        hash ^= normalized.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return `q_${hash.toString(16).padStart(8, '0')}`;
+}
+
+// "Senior React Developer" and "senior react developer." are the same role
+export const roleKey = (role: string): string => normalizeText(role);
+
+// ============================================
+// STORAGE
+// ============================================
+
+const getBankFile = (): File => {
+    return new File(Paths.document, BANK_FILENAME);
+};
+
+export const getQuestionBank = async (): Promise<BankQuestion[]> => {
+    try {
+        const file = getBankFile();
+        if (!file.info().exists) return [];
+
+        const parsed = JSON.parse(await file.text());
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+        console.warn('⚠️ [QUESTION_BANK] Invalid bank file, resetting');
+        return [];
+    }
+};
+
+const saveQuestionBank = (questions: BankQuestion[]): void => {
+    getBankFile().write(JSON.stringify(questions, null, 2));
+};
+
+/**
+ * Edit, pin or retire a question (the id stays, so a regenerated copy of the
+ * original text still maps to the edited entry)
+ */
+export const updateBankQuestion = async (
+    id: string,
+    changes: Partial<Pick<BankQuestion, 'question' | 'pinned' | 'retired'>>
+): Promise<BankQuestion[]> => {
+    const questions = await getQuestionBank();
+    const index = questions.findIndex(q => q.id === id);
+    if (index === -1) return questions;
+
+    questions[index] = { ...questions[index], ...changes };
+    try {
+        saveQuestionBank(questions);
+    } catch (error) {
+        console.error('❌ [QUESTION_BANK] Failed to update question:', error);
+    }
+    return questions;
+};
+
+// ============================================
+// PLANNING
+// ============================================
+
+/**
+ * Recently asked questions (any role) the planner prompt asks the model not to repeat
+ */
+export function recentlyAskedQuestions(bank: BankQuestion[], limit: number = AVOID_LIST_SIZE): string[] {
+    return bank
+        .filter(q => q.timesAsked > 0 && !q.pinned)
+        .sort((a, b) => (b.lastAsked || 0) - (a.lastAsked || 0))
+        .slice(0, limit)
+        .map(q => q.question);
+}
+
+/**
+ * Order a planner pool for one role: pinned bank questions, weak ones (lowest
+ * score first), then unseen questions (generated before banked), then
+ * questions already answered well (least asked first). Retired questions and
+ * repeated skills are dropped.
+ */
+export function rankPlannedQuestions(
+    generated: PlannedQuestion[],
+    bank: BankQuestion[],
+    role: string,
+    types: InterviewTopic['type'][]
+): PlannedQuestion[] {
+    const byId = new Map(bank.map(q => [q.id, q]));
+    const forRole = bank.filter(q => !q.retired && roleKey(q.role) === roleKey(role) && types.includes(q.type));
+    const fromBank = (q: BankQuestion): PlannedQuestion => ({
+        type: q.type,
+        skill: q.skill,
+        category: q.category || 'General',
+        score: q.relevance,
+        question_script: q.question,
+        question_id: q.id
+    });
+
+    const pinned = forRole.filter(q => q.pinned);
+    const weak = forRole
+        .filter(q => !q.pinned && q.timesAsked > 0 && (q.lastScore ?? 0) < WEAK_QUESTION_SCORE)
+        .sort((a, b) => (a.lastScore ?? 0) - (b.lastScore ?? 0));
+    const unseenBanked = forRole.filter(q => !q.pinned && q.timesAsked === 0);
+
+    const unseenGenerated: PlannedQuestion[] = [];
+    const seenGenerated: Array<{ item: PlannedQuestion; timesAsked: number }> = [];
+    generated.forEach(generatedItem => {
+        const banked = generatedItem.question_script ? byId.get(questionHash(generatedItem.question_script)) : undefined;
+        if (banked?.retired) return;
+
+        // A regenerated question is asked the way the user last edited it
+        const item = banked
+            ? { ...generatedItem, question_script: banked.question, question_id: banked.id }
+            : generatedItem;
+        if (banked && banked.timesAsked > 0) seenGenerated.push({ item, timesAsked: banked.timesAsked });
+        else unseenGenerated.push(item);
+    });
+    seenGenerated.sort((a, b) => a.timesAsked - b.timesAsked);
+
+    const skills = new Set<string>();
+    return [
+        ...pinned.map(fromBank),
+        ...weak.map(fromBank),
+        ...unseenGenerated,
+        ...unseenBanked.map(fromBank),
+        ...seenGenerated.map(({ item }) => item)
+    ].filter(item => {
+        const key = normalizeText(item.skill);
+        if (skills.has(key)) return false;
+        skills.add(key);
+        return true;
+    });
+}
+
+// ============================================
+// RECORDING
+// ============================================
+
+/**
+ * Bank every question of a finished plan: asked ones (a result exists) get
+ * their count, score and level updated, unreached ones are kept as unseen.
+ */
+export const recordPlanQuestions = async (plan: InterviewPlan, results: QuestionResult[]): Promise<void> => {
+    const topics = plan.queue.filter(topic => topic.questionId);
+    if (topics.length === 0) return;
+
+    const questions = await getQuestionBank();
+    const now = Date.now();
+    const role = plan.meta.job_role || 'Unknown role';
+
+    topics.forEach(topic => {
+        const result = results[findTopicResult(results, topic.id)];
+
+        let index = questions.findIndex(q => q.id === topic.questionId);
+        if (index === -1) {
+            questions.push({
+                id: topic.questionId!,
+                question: topic.context,
+                skill: topic.topic,
+                category: topic.category,
+                type: topic.type,
+                role,
+                difficulty: topic.difficulty,
+                relevance: topic.score,
+                timesAsked: 0,
+                pinned: false,
+                retired: false,
+                createdAt: now
+            });
+            index = questions.length - 1;
+        }
+        if (!result) return;
+
+        questions[index] = {
+            ...questions[index],
+            timesAsked: questions[index].timesAsked + 1,
+            lastAsked: now,
+            lastScore: result.score,
+            difficulty: result.difficulty ?? questions[index].difficulty
+        };
+    });
+
+    try {
+        saveQuestionBank(questions);
+        console.log(`🗃️ [QUESTION_BANK] Recorded ${topics.length} question(s) for ${role}`);
+    } catch (error) {
+        console.error('❌ [QUESTION_BANK] Failed to save question bank:', error);
+    }
+};
@@ -0,0 +1,230 @@
+/**
+ * Resume Library Service
+ * Named resumes and job descriptions ("Senior RN dev @ fintech") to start
+ * interviews from. Entries persist with expo-file-system, PDF resumes are
+ * copied into the document directory (the picker's cache copy is temporary).
+ * The selected pair is kept in AsyncStorage like the other settings.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+import { ResumeData } from '../types';
+
+const LIBRARY_FILENAME = 'resume_library.json';
+const PDF_DIRECTORY = 'resumes';
+const SELECTED_RESUME_STORAGE_KEY = 'selected_resume';
+const SELECTED_JD_STORAGE_KEY = 'selected_job_description';
+
+const JD_NAME_LENGTH = 40;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SavedResume {
+    id: string;
+    name: string;
+    text?: string;          // Pasted/plain-text resume
+    pdfUri?: string;        // Copy in the document directory
+    fileName?: string;      // Original PDF name
+    fileSize?: number;
+    createdAt: number;
+}
+
+export interface SavedJobDescription {
+    id: string;
+    name: string;
+    text: string;
+    createdAt: number;
+}
+
+export interface ResumeLibrary {
+    resumes: SavedResume[];
+    jobDescriptions: SavedJobDescription[];
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+const getLibraryFile = (): File => {
+    return new File(Paths.document, LIBRARY_FILENAME);
+};
+
+export const getResumeLibrary = async (): Promise<ResumeLibrary> => {
+    try {
+        const file = getLibraryFile();
+        if (!file.info().exists) return { resumes: [], jobDescriptions: [] };
+
+        const parsed = JSON.parse(await file.text());
+        return {
+            resumes: Array.isArray(parsed?.resumes) ? parsed.resumes : [],
+            jobDescriptions: Array.isArray(parsed?.jobDescriptions) ? parsed.jobDescriptions : []
+        };
+    } catch (error) {
+        console.warn('⚠️ [LIBRARY] Invalid library file, resetting');
+        return { resumes: [], jobDescriptions: [] };
+    }
+};
+
+const saveResumeLibrary = (library: ResumeLibrary): void => {
+    getLibraryFile().write(JSON.stringify(library, null, 2));
+};
+
+const generateId = (prefix: string): string =>
+    `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+// ============================================
+// RESUMES
+// ============================================
+
+/**
+ * Add a picked PDF resume (copied out of the picker cache)
+ */
+export const addPdfResume = async (sourceUri: string, fileName: string, fileSize?: number): Promise<SavedResume> => {
+    const id = generateId('resume');
+    const directory = new Directory(Paths.document, PDF_DIRECTORY);
+    directory.create({ idempotent: true });
+
+    const pdf = new File(directory, `${id}.pdf`);
+    new File(sourceUri).copy(pdf);
+
+    const resume: SavedResume = {
+        id,
+        name: fileName.replace(/\.pdf$/i, ''),
+        pdfUri: pdf.uri,
+        fileName,
+        fileSize,
+        createdAt: Date.now()
+    };
+
+    const library = await getResumeLibrary();
+    library.resumes.push(resume);
+    saveResumeLibrary(library);
+    console.log(`📚 [LIBRARY] Added resume "${resume.name}"`);
+    return resume;
+};
+
+/**
+ * What the planner receives for a saved resume (PDF read on demand)
+ */
+export function loadResumeInput(resume: SavedResume): ResumeData | string {
+    if (!resume.pdfUri) return resume.text || '';
+
+    return {
+        text: resume.text || 'PDF Resume Loaded',
+        pdfUri: resume.pdfUri,
+        pdfBase64: new File(resume.pdfUri).base64Sync(),
+        usePdfDirectly: true,
+        fileSize: resume.fileSize
+    };
+}
+
+// ============================================
+// JOB DESCRIPTIONS
+// ============================================
+
+/**
+ * Add a pasted job description, named after its first line until renamed
+ */
+export const addJobDescription = async (text: string): Promise<SavedJobDescription> => {
+    const firstLine = text.trim().split('\n')[0].trim();
+    const jobDescription: SavedJobDescription = {
+        id: generateId('jd'),
+        name: firstLine.length > JD_NAME_LENGTH ? `${firstLine.substring(0, JD_NAME_LENGTH)}…` : firstLine || 'Job description',
+        text,
+        createdAt: Date.now()
+    };
+
+    const library = await getResumeLibrary();
+    library.jobDescriptions.push(jobDescription);
+    saveResumeLibrary(library);
+    console.log(`📚 [LIBRARY] Added job description "${jobDescription.name}"`);
+    return jobDescription;
+};
+
+// ============================================
+// EDITING
+// ============================================
+
+/**
+ * Rename a resume or job description
+ */
+export const renameLibraryEntry = async (id: string, name: string): Promise<ResumeLibrary> => {
+    const library = await getResumeLibrary();
+    const entry = [...library.resumes, ...library.jobDescriptions].find(e => e.id === id);
+    if (!entry || name.trim().length === 0) return library;
+
+    entry.name = name.trim();
+    try {
+        saveResumeLibrary(library);
+    } catch (error) {
+        console.error('❌ [LIBRARY] Failed to rename entry:', error);
+    }
+    return library;
+};
+
+/**
+ * Delete a resume (and its PDF copy) or a job description. Saved sessions
+ * keep the id and show it as deleted.
+ */
+export const deleteLibraryEntry = async (id: string): Promise<ResumeLibrary> => {
+    const library = await getResumeLibrary();
+    const resume = library.resumes.find(r => r.id === id);
+
+    try {
+        if (resume?.pdfUri) {
+            const pdf = new File(resume.pdfUri);
+            if (pdf.exists) pdf.delete();
+        }
+    } catch (error) {
+        console.warn('⚠️ [LIBRARY] Could not delete resume PDF:', error);
+    }
+
+    const updated: ResumeLibrary = {
+        resumes: library.resumes.filter(r => r.id !== id),
+        jobDescriptions: library.jobDescriptions.filter(jd => jd.id !== id)
+    };
+    try {
+        saveResumeLibrary(updated);
+        console.log(`📚 [LIBRARY] Deleted ${id}`);
+    } catch (error) {
+        console.error('❌ [LIBRARY] Failed to delete entry:', error);
+    }
+    return updated;
+};
+
+// ============================================
+// PERSISTENCE (selected resume / JD)
+// ============================================
+
+export async function loadSelectedLibraryIds(): Promise<{ resumeId: string | null; jobDescriptionId: string | null }> {
+    try {
+        const [resumeId, jobDescriptionId] = await Promise.all([
+            AsyncStorage.getItem(SELECTED_RESUME_STORAGE_KEY),
+            AsyncStorage.getItem(SELECTED_JD_STORAGE_KEY)
+        ]);
+        return { resumeId, jobDescriptionId };
+    } catch (error) {
+        console.error('❌ [LIBRARY] Failed to load selection:', error);
+        return { resumeId: null, jobDescriptionId: null };
+    }
+}
+
+export async function saveSelectedResumeId(id: string | null): Promise<void> {
+    try {
+        if (id) await AsyncStorage.setItem(SELECTED_RESUME_STORAGE_KEY, id);
+        else await AsyncStorage.removeItem(SELECTED_RESUME_STORAGE_KEY);
+    } catch (error) {
+        console.error('❌ [LIBRARY] Failed to save selected resume:', error);
+    }
+}
+
+export async function saveSelectedJobDescriptionId(id: string | null): Promise<void> {
+    try {
+        if (id) await AsyncStorage.setItem(SELECTED_JD_STORAGE_KEY, id);
+        else await AsyncStorage.removeItem(SELECTED_JD_STORAGE_KEY);
+    } catch (error) {
+        console.error('❌ [LIBRARY] Failed to save selected job description:', error);
+    }
+}
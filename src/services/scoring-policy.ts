@@ -0,0 +1,177 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ScoringPolicy, ScoringPolicyId } from '../types';
+
+const SCORING_POLICY_STORAGE_KEY = 'scoring_policy';
+
+// ============================================
+// PRESETS
+// ============================================
+
+/**
+ * Realistic: the original interview rules (default)
+ */
+const REALISTIC: ScoringPolicy = {
+  id: 'realistic',
+  label: 'Realistic',
+  description: 'A typical technical interview bar.',
+  topic: {
+    skipPatience: 110,
+    nonsensePatience: 50,
+    poorMax: 5,
+    mediocreMax: 7,
+    goodMax: 8.9,
+    poorPatienceFactor: 7,
+    mediocreSuccessFactor: 7,
+    mediocrePatience: 10,
+    goodSuccessFactor: 13,
+    goodPatienceFactor: 3
+  },
+  anger: {
+    nonsense: 35,
+    topicFail: 35,
+    excellentRelief: 5
+  },
+  angerZones: {
+    terminal: 91,        // 91-100: Furious
+    criticalHigh: 86,    // 86-90: Dismissive
+    critical: 71,        // 71-85: Hostile
+    high: 61,            // 61-70: Frustrated
+    highLow: 41,         // 41-60: Irritated/Skeptical
+    medium: 26,          // 26-40: Concerned/Disappointed
+    low: 10              // 0-10: Impressed/Encouraging
+  },
+  engagementDeltas: {
+    excellent: { minScore: 9, delta: 15 },
+    good: { minScore: 7, delta: 8 },
+    mediocre: { minScore: 5, delta: 0 },
+    poor: { minScore: 3, delta: -10 },
+    fail: { minScore: 0, delta: -15 },
+    nonsense: -20
+  }
+};
+
+/**
+ * Lenient Practice: more attempts per topic, slow-burning anger
+ */
+const LENIENT: ScoringPolicy = {
+  id: 'lenient',
+  label: 'Lenient Practice',
+  description: 'Forgiving practice mode: more attempts per topic, Victoria rarely loses her temper.',
+  topic: {
+    skipPatience: 110,
+    nonsensePatience: 30,
+    poorMax: 4,
+    mediocreMax: 6,
+    goodMax: 8.5,
+    poorPatienceFactor: 5,
+    mediocreSuccessFactor: 10,
+    mediocrePatience: 5,
+    goodSuccessFactor: 15,
+    goodPatienceFactor: 4
+  },
+  anger: {
+    nonsense: 20,
+    topicFail: 15,
+    excellentRelief: 10
+  },
+  angerZones: {
+    terminal: 95,
+    criticalHigh: 90,
+    critical: 80,
+    high: 70,
+    highLow: 50,
+    medium: 35,
+    low: 15
+  },
+  engagementDeltas: {
+    excellent: { minScore: 8.5, delta: 15 },
+    good: { minScore: 6, delta: 10 },
+    mediocre: { minScore: 4, delta: 3 },
+    poor: { minScore: 2, delta: -5 },
+    fail: { minScore: 0, delta: -10 },
+    nonsense: -15
+  }
+};
+
+/**
+ * FAANG Bar-Raiser: higher score bands, fewer attempts, short fuse
+ */
+const BAR_RAISER: ScoringPolicy = {
+  id: 'bar_raiser',
+  label: 'FAANG Bar-Raiser',
+  description: 'Strict bar: only strong answers pass, weak ones burn patience fast.',
+  topic: {
+    skipPatience: 110,
+    nonsensePatience: 70,
+    poorMax: 6,
+    mediocreMax: 8,
+    goodMax: 9.2,
+    poorPatienceFactor: 9,
+    mediocreSuccessFactor: 5,
+    mediocrePatience: 15,
+    goodSuccessFactor: 11,
+    goodPatienceFactor: 2
+  },
+  anger: {
+    nonsense: 45,
+    topicFail: 40,
+    excellentRelief: 3
+  },
+  angerZones: {
+    terminal: 85,
+    criticalHigh: 78,
+    critical: 62,
+    high: 52,
+    highLow: 35,
+    medium: 20,
+    low: 5
+  },
+  engagementDeltas: {
+    excellent: { minScore: 9, delta: 10 },
+    good: { minScore: 8, delta: 5 },
+    mediocre: { minScore: 6, delta: -3 },
+    poor: { minScore: 4, delta: -12 },
+    fail: { minScore: 0, delta: -18 },
+    nonsense: -25
+  }
+};
+
+export const SCORING_POLICIES: Record<ScoringPolicyId, ScoringPolicy> = {
+  lenient: LENIENT,
+  realistic: REALISTIC,
+  bar_raiser: BAR_RAISER
+};
+
+export const DEFAULT_SCORING_POLICY_ID: ScoringPolicyId = 'realistic';
+
+/**
+ * Look up a preset (unknown/legacy ids fall back to the default)
+ */
+export function getScoringPolicy(id?: ScoringPolicyId | string | null): ScoringPolicy {
+  return SCORING_POLICIES[id as ScoringPolicyId] || SCORING_POLICIES[DEFAULT_SCORING_POLICY_ID];
+}
+
+// ============================================
+// PERSISTENCE (selected preset)
+// ============================================
+
+export async function loadScoringPolicyId(): Promise<ScoringPolicyId> {
+  try {
+    const saved = await AsyncStorage.getItem(SCORING_POLICY_STORAGE_KEY);
+    if (saved && saved in SCORING_POLICIES) {
+      return saved as ScoringPolicyId;
+    }
+  } catch (error) {
+    console.error('❌ [SCORING] Failed to load scoring policy:', error);
+  }
+  return DEFAULT_SCORING_POLICY_ID;
+}
+
+export async function saveScoringPolicyId(id: ScoringPolicyId): Promise<void> {
+  try {
+    await AsyncStorage.setItem(SCORING_POLICY_STORAGE_KEY, id);
+    console.log(`⚖️ [SCORING] Policy saved: ${id}`);
+  } catch (error) {
+    console.error('❌ [SCORING] Failed to save scoring policy:', error);
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Session Log Storage
+ * Persists replayable interview logs (see session-recorder.ts)
+ * Uses expo-file-system v19 File/Paths API, like history-storage
+ */
+
+import { File, Paths } from 'expo-file-system';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import * as Clipboard from 'expo-clipboard';
+import { Alert } from 'react-native';
+import { SessionLog } from './session-recorder';
+
+const SESSION_LOGS_FILENAME = 'session_logs.json';
+
+// Logs carry every prompt and response - keep only the most recent ones
+const MAX_SESSION_LOGS = 10;
+
+// ============================================
+// HELPERS
+// ============================================
+
+const getSessionLogsFile = (): File => {
+    return new File(Paths.document, SESSION_LOGS_FILENAME);
+};
+
+/**
+ * Minimal shape check for a log loaded from disk or picked by the user
+ */
+const isSessionLog = (value: any): value is SessionLog => {
+    return !!value
+        && typeof value.id === 'string'
+        && typeof value.startedAt === 'number'
+        && Array.isArray(value.events);
+};
+
+const safeParseJSON = (content: string): SessionLog[] => {
+    try {
+        if (!content || content.trim() === '') {
+            return [];
+        }
+        const parsed = JSON.parse(content);
+        if (!Array.isArray(parsed)) {
+            console.warn('⚠️ [SESSION_LOGS] Data is not an array, resetting');
+            return [];
+        }
+        return parsed.filter(isSessionLog);
+    } catch (error) {
+        console.warn('⚠️ [SESSION_LOGS] Invalid JSON, resetting to empty array');
+        return [];
+    }
+};
+
+// ============================================
+// API
+// ============================================
+
+/**
+ * Get all saved logs (newest first)
+ */
+export const getSessionLogs = async (): Promise<SessionLog[]> => {
+    try {
+        const file = getSessionLogsFile();
+        if (!file.info().exists) {
+            return [];
+        }
+
+        const logs = safeParseJSON(await file.text());
+        logs.sort((a, b) => b.startedAt - a.startedAt);
+        return logs;
+    } catch (error) {
+        console.error('❌ [SESSION_LOGS] Failed to load:', error);
+        return [];
+    }
+};
+
+// Open logs are saved after every turn; keep the read-modify-writes in order
+let pendingSave: Promise<void> = Promise.resolve();
+
+/**
+ * Save (or replace) a log, keeping the newest MAX_SESSION_LOGS
+ */
+export const saveSessionLog = (log: SessionLog): Promise<void> => {
+    pendingSave = pendingSave.then(async () => {
+        try {
+            const logs = (await getSessionLogs()).filter(l => l.id !== log.id);
+            logs.unshift(log);
+
+            getSessionLogsFile().write(JSON.stringify(logs.slice(0, MAX_SESSION_LOGS)));
+            console.log(`📼 [SESSION_LOGS] Saved ${log.id} (${log.events.length} events${log.endedAt === undefined ? ', in progress' : ''})`);
+        } catch (error) {
+            console.error('❌ [SESSION_LOGS] Failed to save:', error);
+        }
+    });
+    return pendingSave;
+};
+
+/**
+ * Most recently saved log, if any
+ */
+export const getLatestSessionLog = async (): Promise<SessionLog | null> => {
+    const logs = await getSessionLogs();
+    return logs[0] || null;
+};
+
+/**
+ * Clear all logs
+ */
+export const clearSessionLogs = async (): Promise<void> => {
+    try {
+        getSessionLogsFile().write('[]');
+        console.log('🗑️ [SESSION_LOGS] Cleared all logs');
+    } catch (error) {
+        console.error('❌ [SESSION_LOGS] Failed to clear:', error);
+    }
+};
+
+/**
+ * Share a log as a JSON file (clipboard fallback), e.g. to attach to a bug report
+ */
+export const exportSessionLog = async (log: SessionLog): Promise<void> => {
+    const jsonString = JSON.stringify(log, null, 2);
+    const file = new File(Paths.cache, `${log.id}.json`);
+
+    try {
+        file.write(jsonString);
+
+        if (await Sharing.isAvailableAsync()) {
+            await Sharing.shareAsync(file.uri, {
+                mimeType: 'application/json',
+                dialogTitle: 'Export Session Log',
+                UTI: 'public.json'
+            });
+            console.log('✅ [SESSION_LOGS] Log shared');
+        } else {
+            await Clipboard.setStringAsync(jsonString);
+            Alert.alert('Export Complete', 'Session log copied to clipboard. Sharing not available on this device.');
+        }
+    } catch (error) {
+        console.error('❌ [SESSION_LOGS] Export failed:', error);
+        try {
+            await Clipboard.setStringAsync(jsonString);
+            Alert.alert('Export Error', 'Session log copied to clipboard as fallback');
+        } catch (e) {
+            Alert.alert('Export Failed', 'Could not export or copy the session log.');
+        }
+    }
+};
+
+/**
+ * Let the user pick an exported log file
+ * @returns The log, or null if cancelled/invalid
+ */
+export const importSessionLog = async (): Promise<SessionLog | null> => {
+    try {
+        const result = await DocumentPicker.getDocumentAsync({
+            type: 'application/json',
+            copyToCacheDirectory: true
+        });
+        if (result.canceled || !result.assets?.[0]) {
+            return null;
+        }
+
+        const parsed = JSON.parse(await new File(result.assets[0].uri).text());
+        if (!isSessionLog(parsed)) {
+            Alert.alert('Invalid Log', 'This file is not an interview session log.');
+            return null;
+        }
+
+        console.log(`📼 [SESSION_LOGS] Imported ${parsed.id} (${parsed.events.length} events)`);
+        return parsed;
+    } catch (error) {
+        console.error('❌ [SESSION_LOGS] Import failed:', error);
+        Alert.alert('Import Failed', 'Could not read the session log file.');
+        return null;
+    }
+};
@@ -0,0 +1,194 @@
+import {
+  AnalysisResponse,
+  AnswerInputMode,
+  FinalInterviewReport,
+  InterviewLanguage,
+  InterviewMode,
+  InterviewPlan,
+  ResumeData,
+  TTSProvider,
+  ScoringPolicyId,
+  VibeConfig,
+  VoiceGenerationContext
+} from '../types';
+import { LLMRequest, LLMTask } from './llm/LLMProvider';
+import { InterviewEngineState, TransitionMode } from './interview-engine';
+import { BankQuestion } from './question-bank';
+import { StreamingSpeakOptions } from './audio/StreamingTTSPlayer';
+import { TTSEngine, TTSFallbackTarget, TTSFailoverReason } from './tts-failover';
+
+// ============================================
+// TYPES
+// ============================================
+
+export const SESSION_LOG_VERSION = 1;
+
+/**
+ * One recorded thing that happened during an interview.
+ * `turn` is the index of the user input the event belongs to (0-based).
+ */
+export type SessionEventData =
+  | {
+    type: 'session_start';
+    resume: string | ResumeData;   // PDF payload stripped (see stripResume)
+    jobDescription: string;
+    mode: InterviewMode;
+    llmProvider: string;
+    scoringPolicyId?: ScoringPolicyId; // Missing in logs recorded before scoring policies
+    language?: InterviewLanguage;      // Missing in logs recorded before multi-language support
+    inputMode?: AnswerInputMode;       // Missing in logs recorded before text mode
+    interviewerProfileId?: string;     // Missing in logs recorded before interviewer profiles
+    presetPlan?: InterviewPlan;        // Review drills / fit-report agendas: plan not built during the session
+    questionBank?: BankQuestion[];     // Bank the planner ranked against (missing in older logs)
+  }
+  | { type: 'plan_ready'; plan: InterviewPlan }
+  | { type: 'user_input'; turn: number; text: string; code?: string }  // code: Coding topic submission
+  | {
+    type: 'llm_call';
+    task: LLMTask;
+    request: LLMRequest;           // Attachment data stripped
+    response: string;
+    error?: string;                // Set if the call threw (replayed as a throw)
+  }
+  | { type: 'evaluation'; turn: number; analysis: AnalysisResponse; voiceResponse: string }
+  | { type: 'voice_context'; turn: number; context: VoiceGenerationContext }
+  | { type: 'transition'; turn: number; transitionMode: TransitionMode; state: InterviewEngineState }
+  | { type: 'vibe_change'; turn: number; vibe: VibeConfig }
+  | { type: 'tts'; text: string; provider: TTSProvider; options: StreamingSpeakOptions }
+  | { type: 'tts_failover'; from: TTSEngine; to: TTSFallbackTarget; reason: TTSFailoverReason; detail?: string }
+  | { type: 'session_end'; report: FinalInterviewReport };
+
+export type SessionEvent = SessionEventData & {
+  at: number; // ms since session start
+};
+
+/**
+ * Replayable interview log
+ */
+export interface SessionLog {
+  version: number;
+  id: string;
+  startedAt: number;       // Unix timestamp
+  endedAt?: number;
+  events: SessionEvent[];
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Drop the base64 PDF from a resume - replays never send it anywhere,
+ * and it would dominate the log size
+ */
+const stripResume = (resume: string | ResumeData): string | ResumeData => {
+  if (typeof resume === 'string') return resume;
+  const { pdfBase64, ...rest } = resume;
+  return rest as ResumeData;
+};
+
+/**
+ * Keep attachment metadata, drop the payload
+ */
+export const stripRequest = (request: LLMRequest): LLMRequest => ({
+  ...request,
+  attachments: request.attachments?.map(att => ({
+    mimeType: att.mimeType,
+    data: `[${att.data.length} chars omitted]`
+  }))
+});
+
+/**
+ * Events of one type, correctly narrowed
+ */
+export function eventsOfType<T extends SessionEvent['type']>(
+  log: SessionLog,
+  type: T
+): Extract<SessionEvent, { type: T }>[] {
+  return log.events.filter(e => e.type === type) as Extract<SessionEvent, { type: T }>[];
+}
+
+// ============================================
+// RECORDER
+// ============================================
+
+/**
+ * SessionRecorder: Collects everything needed to replay an interview
+ *
+ * One recorder per interview. Not recording (start() not called) makes
+ * record() a no-op, so callers never need to check.
+ */
+export class SessionRecorder {
+  private log: SessionLog | null = null;
+  private turn = -1;
+
+  start(meta: {
+    resume: string | ResumeData;
+    jobDescription: string;
+    mode: InterviewMode;
+    llmProvider: string;
+    scoringPolicyId: ScoringPolicyId;
+    language: InterviewLanguage;
+    inputMode: AnswerInputMode;
+    interviewerProfileId: string;
+    presetPlan?: InterviewPlan;
+    questionBank: BankQuestion[];
+  }): void {
+    const startedAt = Date.now();
+    this.log = {
+      version: SESSION_LOG_VERSION,
+      id: `log_${startedAt}_${Math.random().toString(36).substr(2, 9)}`,
+      startedAt,
+      events: []
+    };
+    this.turn = -1;
+    this.record({ type: 'session_start', ...meta, resume: stripResume(meta.resume) });
+    console.log(`📼 [RECORDER] Recording session ${this.log.id}`);
+  }
+
+  get isRecording(): boolean {
+    return this.log !== null && this.log.endedAt === undefined;
+  }
+
+  /**
+   * Index of the current user turn (-1 before the first input)
+   */
+  get currentTurn(): number {
+    return this.turn;
+  }
+
+  record(data: SessionEventData): void {
+    if (!this.log || this.log.endedAt !== undefined) return;
+    if (data.type === 'user_input') this.turn = data.turn;
+
+    // Deep copy so later mutations of live objects don't rewrite history
+    const event = JSON.parse(JSON.stringify({ ...data, at: Date.now() - this.log.startedAt })) as SessionEvent;
+    this.log.events.push(event);
+  }
+
+  /**
+   * Record the next user input and return its turn index
+   */
+  recordUserInput(text: string, code?: string): number {
+    const turn = this.turn + 1;
+    this.record({ type: 'user_input', turn, text, ...(code ? { code } : {}) });
+    return turn;
+  }
+
+  /**
+   * Close the log (optionally with the final report) and return it
+   */
+  finish(report?: FinalInterviewReport): SessionLog | null {
+    if (!this.log) return null;
+    if (this.log.endedAt === undefined) {
+      if (report) this.record({ type: 'session_end', report });
+      this.log.endedAt = Date.now();
+      console.log(`📼 [RECORDER] Session ${this.log.id} closed (${this.log.events.length} events)`);
+    }
+    return this.log;
+  }
+
+  getLog(): SessionLog | null {
+    return this.log;
+  }
+}
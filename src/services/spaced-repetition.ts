@@ -0,0 +1,210 @@
+/**
+ * Spaced Repetition Service
+ * Review drill built from weak answers (history) and favorites, scheduled
+ * SM-2 style. Review items persist with expo-file-system like favorites.
+ */
+
+import { File, Paths } from 'expo-file-system';
+import { InterviewPlan, InterviewTopic, QuestionResult } from '../types';
+import { getHistory } from './history-storage';
+import { getFavorites } from './favorites-storage';
+import { findTopicResult } from './topic-results';
+
+const REVIEW_FILENAME = 'review_queue.json';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const WEAK_SCORE = 6;        // History answers below this become review items
+export const DRILL_SIZE = 3;        // Items per drill session
+
+// SM-2 defaults
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const PASSING_QUALITY = 3;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ReviewItem {
+    id: string;                     // Normalized topic (one item per skill)
+    topic: string;
+    category?: string;
+    source: 'weak' | 'favorite';
+    lastFeedback: string;           // What went wrong last time (drill context)
+    lastScore: number;
+    ease: number;                   // SM-2 easiness factor (>= 1.3)
+    interval: number;               // Days until the next review
+    repetitions: number;            // Passing reviews in a row
+    due: number;                    // Unix timestamp
+    lastReviewed?: number;
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+const getReviewFile = (): File => {
+    return new File(Paths.document, REVIEW_FILENAME);
+};
+
+export const getReviewItems = async (): Promise<ReviewItem[]> => {
+    try {
+        const file = getReviewFile();
+        if (!file.info().exists) return [];
+
+        const parsed = JSON.parse(await file.text());
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+        console.warn('⚠️ [REVIEW] Invalid review file, resetting');
+        return [];
+    }
+};
+
+const saveReviewItems = (items: ReviewItem[]): void => {
+    getReviewFile().write(JSON.stringify(items, null, 2));
+};
+
+// Same skill under slightly different names ("React Hooks" vs "react hooks.")
+const itemId = (topic: string): string =>
+    topic.toLowerCase().replace(/[.,!?;:"'()]+/g, '').replace(/\s+/g, ' ').trim();
+
+// ============================================
+// QUEUE
+// ============================================
+
+/**
+ * Add weak history answers and favorites that aren't review items yet
+ * (due immediately). Existing items keep their schedule.
+ */
+export const syncReviewItems = async (): Promise<ReviewItem[]> => {
+    const items = await getReviewItems();
+    const known = new Set(items.map(item => item.id));
+    const now = Date.now();
+
+    const add = (topic: string, score: number, feedback: string, source: ReviewItem['source'], category?: string) => {
+        const id = itemId(topic);
+        if (!id || known.has(id)) return;
+        known.add(id);
+        items.push({
+            id,
+            topic,
+            category,
+            source,
+            lastFeedback: feedback,
+            lastScore: score,
+            ease: INITIAL_EASE,
+            interval: 0,
+            repetitions: 0,
+            due: now
+        });
+    };
+
+    (await getFavorites()).forEach(fav => add(fav.topic, fav.score, fav.feedback, 'favorite'));
+    (await getHistory()).forEach(session => session.questions
+        .filter(q => q.score < WEAK_SCORE)
+        .forEach(q => add(q.topic, q.score, q.feedback, 'weak', q.category)));
+
+    try {
+        saveReviewItems(items);
+    } catch (error) {
+        console.error('❌ [REVIEW] Failed to save review items:', error);
+    }
+    return items;
+};
+
+/**
+ * Items due now: most overdue first, weakest first on ties
+ */
+export const getDueItems = async (limit: number = DRILL_SIZE): Promise<ReviewItem[]> => {
+    const now = Date.now();
+    return (await syncReviewItems())
+        .filter(item => item.due <= now)
+        .sort((a, b) => a.due - b.due || a.lastScore - b.lastScore)
+        .slice(0, limit);
+};
+
+/**
+ * Plan topic id of the index-th drilled item
+ */
+const drillTopicId = (index: number): string => `review_${index}`;
+
+/**
+ * Short interview plan for a drill: a one-line check-in, then the items
+ */
+export function buildDrillPlan(items: ReviewItem[]): InterviewPlan {
+    const topics: InterviewTopic[] = items.map((item, index) => ({
+        id: drillTopicId(index),
+        type: 'Match',
+        topic: item.topic,
+        category: item.category,
+        context: `Review drill: the candidate answered "${item.topic}" before and scored ${item.lastScore.toFixed(1)}/10. Previous feedback: ${item.lastFeedback} Ask about the same topic again, aimed at what was missing last time.`,
+        estimated_time: '5m'
+    }));
+
+    return {
+        meta: { mode: 'short', total_estimated_time: `${5 * topics.length + 1}m` },
+        queue: [
+            { id: 'intro', topic: 'Review Check-in', type: 'Intro', estimated_time: '1m', context: 'Review drill of earlier weak answers. Ask in one sentence what the candidate has practised since last time - no full self-introduction.' },
+            ...topics
+        ]
+    };
+}
+
+// ============================================
+// SCHEDULING (SM-2)
+// ============================================
+
+/**
+ * Next schedule of an item after a review scored 0-10
+ * (SM-2 quality 0-5 is score / 2)
+ */
+export function scheduleReview(item: ReviewItem, score: number, now: number = Date.now()): ReviewItem {
+    const quality = Math.round(Math.min(Math.max(score, 0), 10) / 2);
+    const ease = Math.max(MIN_EASE, item.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+    let repetitions = 0;
+    let interval = 1;
+    if (quality >= PASSING_QUALITY) {
+        repetitions = item.repetitions + 1;
+        interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(item.interval * ease);
+    }
+
+    return {
+        ...item,
+        ease: Number(ease.toFixed(2)),
+        interval,
+        repetitions,
+        lastScore: score,
+        lastReviewed: now,
+        due: now + interval * DAY_MS
+    };
+}
+
+/**
+ * Reschedule the drilled items from the drill's report
+ */
+export const recordDrillResults = async (drilled: ReviewItem[], results: QuestionResult[]): Promise<ReviewItem[]> => {
+    const items = await getReviewItems();
+    const updated: ReviewItem[] = [];
+
+    drilled.forEach((drilledItem, drillIndex) => {
+        const result = results[findTopicResult(results, drillTopicId(drillIndex))];
+        const index = items.findIndex(item => item.id === drilledItem.id);
+        if (!result || index === -1) return;
+
+        items[index] = {
+            ...scheduleReview(items[index], result.score),
+            lastFeedback: result.feedback || items[index].lastFeedback
+        };
+        updated.push(items[index]);
+        console.log(`🔁 [REVIEW] ${items[index].topic}: ${result.score}/10 → next in ${items[index].interval}d (ease ${items[index].ease})`);
+    });
+
+    try {
+        saveReviewItems(items);
+    } catch (error) {
+        console.error('❌ [REVIEW] Failed to save review results:', error);
+    }
+    return updated;
+};
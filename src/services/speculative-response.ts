@@ -0,0 +1,110 @@
+/**
+ * Speculative Response
+ * While the candidate is still speaking, Victoria's reply is generated from
+ * the interim transcript (and its audio pre-synthesized). When the final
+ * transcript only differs trivially, the turn reuses that work instead of
+ * waiting for evaluation and TTS from scratch.
+ * This module holds the policy (when to speculate, what counts as trivial)
+ * and the time-to-first-audio bookkeeping shown in DebugOverlay.
+ */
+
+// ============================================
+// POLICY
+// ============================================
+
+// Speculate once the transcript has been stable this long (a pause, not every interim)
+export const SPECULATION_DEBOUNCE_MS = 700;
+
+// Too short to say anything about the answer yet
+export const MIN_SPECULATION_WORDS = 4;
+
+// Each speculation is a full evaluation call - cap them per answer
+export const MAX_SPECULATIONS_PER_TURN = 3;
+
+// Up to 1 word in 20 may change between the speculated and the final transcript
+const MAX_REVISION_RATIO = 0.05;
+
+const words = (text: string): string[] =>
+    text.toLowerCase().replace(/[.,!?;:"'()«»“”¿¡…-]+/g, ' ').split(/\s+/).filter(Boolean);
+
+export const countWords = (text: string): number => words(text).length;
+
+/**
+ * Word-level edit distance (insertions, deletions, substitutions)
+ */
+const editDistance = (a: string[], b: string[]): number => {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+/**
+ * Whether the final transcript says the same thing as the speculated one
+ * (case, punctuation and an occasional re-recognized word don't count)
+ */
+export function isTrivialRevision(speculated: string, final: string): boolean {
+    const a = words(speculated);
+    const b = words(final);
+    if (a.length === 0 || b.length === 0) return false;
+
+    const allowed = Math.max(1, Math.floor(Math.max(a.length, b.length) * MAX_REVISION_RATIO));
+    return Math.abs(a.length - b.length) <= allowed && editDistance(a, b) <= allowed;
+}
+
+// ============================================
+// LATENCY
+// ============================================
+
+/**
+ * How a turn's reply was produced
+ * - hit: speculative reply reused
+ * - miss: speculated, but the final transcript differed (or the call failed)
+ * - none: no speculation (short answer, text input, code submission...)
+ */
+export type SpeculationOutcome = 'hit' | 'miss' | 'none';
+
+/**
+ * Final transcript → first audio of Victoria's reply, for one turn
+ */
+export interface TurnLatency {
+    turn: number;
+    outcome: SpeculationOutcome;
+    streamed: boolean;              // Reply spoken sentence by sentence while the LLM was still writing it
+    firstAudioMs: number;
+}
+
+export interface LatencySummary {
+    speculativeMs: number | null;   // Average over hits
+    streamedMs: number | null;      // Average over streamed replies (not hits)
+    baselineMs: number | null;      // Average over the rest: whole reply generated, then synthesized
+    hits: number;
+    streamed: number;
+    turns: number;
+}
+
+const average = (values: number[]): number | null =>
+    values.length > 0 ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : null;
+
+export function summarizeLatency(latencies: TurnLatency[]): LatencySummary {
+    const hits = latencies.filter(l => l.outcome === 'hit');
+    const streamed = latencies.filter(l => l.outcome !== 'hit' && l.streamed);
+    const baseline = latencies.filter(l => l.outcome !== 'hit' && !l.streamed);
+    return {
+        speculativeMs: average(hits.map(l => l.firstAudioMs)),
+        streamedMs: average(streamed.map(l => l.firstAudioMs)),
+        baselineMs: average(baseline.map(l => l.firstAudioMs)),
+        hits: hits.length,
+        streamed: streamed.length,
+        turns: latencies.length
+    };
+}
@@ -0,0 +1,77 @@
+import { InterviewLanguage, StarAnalysis } from '../types';
+import { StarLabels, STAR_SEGMENTS } from './llm/schemas';
+
+// ============================================
+// SENTENCES
+// ============================================
+
+/**
+ * Split a transcript into sentences, keeping the candidate's wording.
+ * Voice transcripts often lack punctuation, so very long runs are also
+ * broken on "and then" / "so" style connectors.
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .replace(/\s+/g, ' ')
+    .split(/(?<=[.!?…])\s+/)
+    .flatMap(sentence => sentence.split(/\s+(?=(?:and then|after that|so then|и потом|после этого|y luego|después de eso)\s)/i))
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+// ============================================
+// "I" vs "WE"
+// ============================================
+
+const PRONOUNS: Record<InterviewLanguage, { i: RegExp; we: RegExp }> = {
+  en: {
+    i: /\b(i|i'm|i've|i'd|i'll|me|my|mine|myself)\b/gi,
+    we: /\b(we|we're|we've|we'd|we'll|us|our|ours|ourselves)\b/gi
+  },
+  ru: {
+    i: /(?<![а-яё])(я|меня|мне|мной|мой|моя|моё|мое|мои|моего|моей|моих|сам|сама)(?![а-яё])/gi,
+    we: /(?<![а-яё])(мы|нас|нам|нами|наш|наша|наше|наши|нашего|нашей|наших)(?![а-яё])/gi
+  },
+  es: {
+    i: /(?<![a-záéíóúñü])(yo|me|mi|mis|mío|mía|conmigo)(?![a-záéíóúñü])/gi,
+    we: /(?<![a-záéíóúñü])(nosotros|nosotras|nos|nuestro|nuestra|nuestros|nuestras)(?![a-záéíóúñü])/gi
+  }
+};
+
+/**
+ * Count first-person singular vs plural mentions
+ */
+export function countPronouns(text: string, language: InterviewLanguage = 'en'): StarAnalysis['pronouns'] {
+  const patterns = PRONOUNS[language];
+  const i = (text.match(patterns.i) || []).length;
+  const we = (text.match(patterns.we) || []).length;
+  const total = i + we;
+  return { i, we, iShare: total > 0 ? Number((i / total).toFixed(2)) : 1 };
+}
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+/**
+ * Put the LLM's per-sentence labels back onto the candidate's sentences.
+ * Unlabelled sentences count as 'other'; a segment is missing when no
+ * sentence carries it.
+ */
+export function buildStarAnalysis(
+  sentences: string[],
+  labels: StarLabels,
+  language: InterviewLanguage = 'en'
+): StarAnalysis {
+  const labelled: StarAnalysis['sentences'] = sentences.map((text, index) => ({
+    text,
+    segment: labels.labels.find(label => label.index === index)?.segment ?? 'other'
+  }));
+
+  return {
+    sentences: labelled,
+    missing: STAR_SEGMENTS.filter(segment => !labelled.some(sentence => sentence.segment === segment)),
+    pronouns: countPronouns(sentences.join(' '), language),
+    feedback: labels.feedback
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Streaming Reply
+ * Victoria's spoken reply, cut into sentences while the LLM is still writing
+ * the evaluate-and-respond JSON, so TTS starts on the first sentence instead
+ * of waiting for the whole blob. The prompt asks for "voiceResponse" before
+ * "evaluation"; the evaluation is parsed once the stream has ended.
+ */
+
+import { SentenceDetector } from '../utils/sentence-detector';
+import { UnifiedEvaluation } from './llm/schemas';
+
+/**
+ * A streamed evaluateAndRespond()
+ */
+export interface StreamedReply {
+    sentences: AsyncIterable<string>;   // Spoken reply, sentence by sentence (for TTS)
+    reply: Promise<UnifiedEvaluation>;  // Full result; voiceResponse is exactly what was streamed
+}
+
+// ============================================
+// SENTENCE QUEUE
+// ============================================
+
+/**
+ * Sentences pushed by the LLM reader, pulled by the TTS player.
+ * The producer never waits for the consumer: a slow or failed player can't
+ * hold up the evaluation. Single consumer.
+ */
+export class SentenceQueue implements AsyncIterable<string> {
+    private sentences: string[] = [];
+    private closed = false;
+    private wake: (() => void) | null = null;
+
+    push(sentence: string): void {
+        if (this.closed) return;
+        this.sentences.push(sentence);
+        this.notify();
+    }
+
+    close(): void {
+        this.closed = true;
+        this.notify();
+    }
+
+    async *[Symbol.asyncIterator](): AsyncGenerator<string, void, unknown> {
+        while (true) {
+            if (this.sentences.length > 0) {
+                yield this.sentences.shift()!;
+            } else if (this.closed) {
+                return;
+            } else {
+                await new Promise<void>(resolve => { this.wake = resolve; });
+            }
+        }
+    }
+
+    private notify(): void {
+        const wake = this.wake;
+        this.wake = null;
+        wake?.();
+    }
+}
+
+// ============================================
+// PARTIAL JSON
+// ============================================
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+/**
+ * Value of a top-level string field in JSON that may still be cut off
+ * (null until the field has started)
+ */
+export function readPartialJsonString(raw: string, key: string): { text: string; complete: boolean } | null {
+    const opening = new RegExp(`"${key}"\\s*:\\s*"`).exec(raw);
+    if (!opening) return null;
+
+    let text = '';
+    for (let i = opening.index + opening[0].length; i < raw.length; i++) {
+        const char = raw[i];
+        if (char === '"') return { text, complete: true };
+        if (char !== '\\') {
+            text += char;
+            continue;
+        }
+
+        // Escape sequence - wait for the rest of it if it was cut off
+        if (i + 1 >= raw.length) break;
+        const escaped = raw[++i];
+        if (escaped === 'u') {
+            if (i + 4 >= raw.length) break;
+            text += String.fromCharCode(parseInt(raw.slice(i + 1, i + 5), 16));
+            i += 4;
+        } else {
+            text += JSON_ESCAPES[escaped] ?? escaped;
+        }
+    }
+
+    return { text, complete: false };
+}
+
+/**
+ * Hands out the sentences of one streamed string field as they complete
+ */
+export class SpokenFieldReader {
+    private readonly key: string;
+    private consumed = 0;       // Characters of the field already handed out
+    private finished = false;
+    private spokenSentences: string[] = [];
+
+    constructor(key: string) {
+        this.key = key;
+    }
+
+    /**
+     * New sentences in the response received so far
+     */
+    read(raw: string): string[] {
+        if (this.finished) return [];
+
+        const field = readPartialJsonString(raw, this.key);
+        if (!field) return [];
+
+        const { sentences, rest } = SentenceDetector.splitCompletedText(field.text.slice(this.consumed));
+        this.consumed = field.text.length - rest.length;
+
+        // The closing quote completes the last sentence, punctuated or not
+        if (field.complete) {
+            if (rest.trim()) sentences.push(rest.trim());
+            this.consumed = field.text.length;
+            this.finished = true;
+        }
+
+        this.spokenSentences.push(...sentences);
+        return sentences;
+    }
+
+    /**
+     * Sentences still to speak once the response is over: the rest of a
+     * truncated field, or all of `finalText` if nothing came through the stream
+     * (parse failure retried without streaming, fallback reply)
+     */
+    finish(raw: string, finalText: string): string[] {
+        const nothingSpoken = this.spokenSentences.length === 0;
+        if (this.finished && !nothingSpoken) return [];
+        this.finished = true;
+
+        const field = nothingSpoken ? null : readPartialJsonString(raw, this.key);
+        const text = field ? field.text.slice(this.consumed) : finalText;
+        const { sentences, rest } = SentenceDetector.splitCompletedText(text);
+        if (rest.trim()) sentences.push(rest.trim());
+
+        this.spokenSentences.push(...sentences);
+        return sentences;
+    }
+
+    /**
+     * Everything handed out so far
+     */
+    get spoken(): string {
+        return this.spokenSentences.join(' ');
+    }
+}
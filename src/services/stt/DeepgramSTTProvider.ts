@@ -0,0 +1,134 @@
+import { getInterviewLanguage } from '../interview-language';
+import { STTOptions, STTProvider, STTProviderName, STTStream, STTStreamHandlers, STTTranscript, STTWord } from './STTProvider';
+
+const DEEPGRAM_BASE_URL = 'https://api.deepgram.com';
+
+/**
+ * Word timings of a Deepgram alternative (filler_words=true keeps "um"/"uh")
+ */
+const toWords = (alternative: any): STTWord[] =>
+  Array.isArray(alternative?.words)
+    ? alternative.words
+        .filter((w: any) => typeof w?.word === 'string' && Number.isFinite(w.start) && Number.isFinite(w.end))
+        .map((w: any) => ({ word: w.word, start: w.start, end: w.end }))
+    : [];
+
+/**
+ * Deepgram listen API: WebSocket streaming + REST batch
+ *
+ * Also used for any server speaking the same protocol (see LocalSTTProvider):
+ * only the base URL and the API key differ.
+ */
+export class DeepgramSTTProvider implements STTProvider {
+  readonly name: STTProviderName = 'deepgram';
+  readonly mode = 'streaming' as const;
+  protected baseUrl: string;
+  protected apiKey: string;
+
+  constructor(
+    apiKey: string = (process.env.EXPO_PUBLIC_DEEPGRAM_API_KEY || '').trim(),
+    baseUrl: string = DEEPGRAM_BASE_URL
+  ) {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * Shared listen query (model/language come from the interview language)
+   */
+  private listenQuery(options: STTOptions, streaming: boolean): string {
+    const { stt } = getInterviewLanguage(options.language);
+    const params = [
+      `model=${stt.model}`,
+      `language=${stt.language}`,
+      'smart_format=true',
+      'filler_words=true'
+    ];
+    if (streaming) {
+      params.push('encoding=linear16', 'sample_rate=16000', 'container=wav', 'interim_results=true');
+    }
+    return params.join('&');
+  }
+
+  protected requireApiKey(): void {
+    if (!this.apiKey) throw new Error('Deepgram API Key is missing');
+  }
+
+  async openStream(options: STTOptions, handlers: STTStreamHandlers): Promise<STTStream> {
+    this.requireApiKey();
+
+    const socketUrl = `${this.baseUrl.replace(/^http/, 'ws')}/v1/listen?${this.listenQuery(options, true)}`;
+    console.log(`🎙️ [STT] Opening ${this.name} stream (${options.language})`);
+
+    const socket = this.apiKey
+      ? new WebSocket(socketUrl, ['token', this.apiKey])
+      : new WebSocket(socketUrl);
+
+    socket.onopen = () => {
+      console.log(`✅ [STT] ${this.name} WebSocket connected`);
+      handlers.onOpen?.();
+    };
+
+    socket.onmessage = (event) => {
+      if (typeof event.data !== 'string') return;
+      try {
+        const msg = JSON.parse(event.data);
+        const alternative = msg.channel?.alternatives?.[0];
+        const text: string | undefined = alternative?.transcript;
+        if (text && text.trim().length > 0) {
+          handlers.onTranscript(text, !!msg.is_final, toWords(alternative));
+        }
+      } catch (e) {
+        handlers.onError?.(e instanceof Error ? e : new Error('STT message parsing failed'));
+      }
+    };
+
+    socket.onerror = () => {
+      handlers.onError?.(new Error(`${this.name} WebSocket connection error`));
+    };
+
+    socket.onclose = () => {
+      console.log(`🔌 [STT] ${this.name} WebSocket closed`);
+      handlers.onClose?.();
+    };
+
+    return {
+      get isOpen() {
+        return socket.readyState === WebSocket.OPEN;
+      },
+      send(chunk) {
+        if (socket.readyState === WebSocket.OPEN) socket.send(chunk);
+      },
+      finish() {
+        if (socket.readyState === WebSocket.OPEN) {
+          socket.send(JSON.stringify({ type: 'CloseStream' }));
+        }
+        socket.close();
+      }
+    };
+  }
+
+  async transcribe(audioUri: string, options: STTOptions): Promise<STTTranscript> {
+    this.requireApiKey();
+
+    const audio = await (await fetch(audioUri)).blob();
+    console.log(`🎙️ [STT] ${this.name} batch transcription (${audio.size} bytes, ${options.language})`);
+
+    const headers: Record<string, string> = { 'Content-Type': audio.type || 'audio/wav' };
+    if (this.apiKey) headers['Authorization'] = `Token ${this.apiKey}`;
+
+    const response = await fetch(`${this.baseUrl}/v1/listen?${this.listenQuery(options, false)}`, {
+      method: 'POST',
+      headers,
+      body: audio
+    });
+
+    if (!response.ok) {
+      throw new Error(`${this.name} STT error ${response.status}: ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    const alternative = data.results?.channels?.[0]?.alternatives?.[0];
+    return { text: alternative?.transcript || '', words: toWords(alternative) };
+  }
+}
@@ -0,0 +1,22 @@
+import { DeepgramSTTProvider } from './DeepgramSTTProvider';
+
+/**
+ * Local stand-in STT server (offline dev, self-hosted models)
+ *
+ * Speaks the Deepgram listen protocol at EXPO_PUBLIC_LOCAL_STT_URL:
+ * - WebSocket /v1/listen: binary audio in, Deepgram-shaped JSON results out,
+ *   {"type":"CloseStream"} ends the session
+ * - POST /v1/listen: audio body in, Deepgram prerecorded JSON out
+ * No API key is sent.
+ */
+export class LocalSTTProvider extends DeepgramSTTProvider {
+  readonly name = 'local' as const;
+
+  constructor(baseUrl: string = process.env.EXPO_PUBLIC_LOCAL_STT_URL || 'http://localhost:8765') {
+    super('', baseUrl);
+  }
+
+  protected requireApiKey(): void {
+    // Local server is unauthenticated
+  }
+}
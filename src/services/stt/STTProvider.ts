@@ -0,0 +1,81 @@
+/**
+ * STT Provider Abstraction
+ *
+ * The recorder hook (useInterviewAudio) talks to an STTProvider instead of a
+ * socket URL. Streaming providers get 16kHz linear16 WAV chunks while the
+ * candidate speaks; batch providers get the finished recording on stop.
+ */
+
+import { InterviewLanguage } from '../../types';
+
+/**
+ * STTProviderName: Supported speech-to-text backends
+ * ('local' is a stand-in server speaking the Deepgram protocol, e.g. for offline dev)
+ */
+export type STTProviderName = 'deepgram' | 'whisper' | 'local';
+
+/**
+ * STTMode: How the provider receives audio
+ * - streaming: live chunks, interim + final transcripts while recording
+ * - batch: whole recording after stop, one final transcript
+ */
+export type STTMode = 'streaming' | 'batch';
+
+export interface STTOptions {
+  language: InterviewLanguage;
+}
+
+/**
+ * One recognized word with its timing (seconds from the start of the audio)
+ */
+export interface STTWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Batch transcription result (words empty when the provider gives no timings)
+ */
+export interface STTTranscript {
+  text: string;
+  words: STTWord[];
+}
+
+export interface STTStreamHandlers {
+  onOpen?: () => void;
+  /** words: timings of this segment, when the provider sends them */
+  onTranscript: (text: string, isFinal: boolean, words?: STTWord[]) => void;
+  onError?: (error: Error) => void;
+  onClose?: () => void;
+}
+
+/**
+ * A live transcription session
+ */
+export interface STTStream {
+  readonly isOpen: boolean;
+
+  /** Send the next chunk of the growing recording */
+  send(chunk: Blob | ArrayBuffer): void;
+
+  /** Flush pending audio and close the session */
+  finish(): void;
+}
+
+export interface STTProvider {
+  readonly name: STTProviderName;
+  readonly mode: STTMode;
+
+  /**
+   * Open a live session (streaming providers only - batch providers throw).
+   * Resolves once the connection is being established; handlers.onOpen fires when ready.
+   */
+  openStream(options: STTOptions, handlers: STTStreamHandlers): Promise<STTStream>;
+
+  /**
+   * Transcribe a finished recording (file URI).
+   * Throws on transport or API errors - callers own fallbacks.
+   */
+  transcribe(audioUri: string, options: STTOptions): Promise<STTTranscript>;
+}
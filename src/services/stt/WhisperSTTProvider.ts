@@ -0,0 +1,60 @@
+import { Platform } from 'react-native';
+import { STTOptions, STTProvider, STTStream, STTTranscript } from './STTProvider';
+
+/**
+ * OpenAI Whisper: batch only (the whole recording is uploaded after stop)
+ */
+export class WhisperSTTProvider implements STTProvider {
+  readonly name = 'whisper' as const;
+  readonly mode = 'batch' as const;
+  private apiKey: string;
+
+  constructor(apiKey: string = process.env.EXPO_PUBLIC_OPENAI_API_KEY || '') {
+    this.apiKey = apiKey;
+  }
+
+  async openStream(): Promise<STTStream> {
+    throw new Error('Whisper does not support streaming - use transcribe()');
+  }
+
+  async transcribe(audioUri: string, options: STTOptions): Promise<STTTranscript> {
+    if (!this.apiKey) throw new Error('OpenAI API Key is missing');
+
+    const formData = new FormData();
+
+    // Determine file type/extension
+    const uriParts = audioUri.split('.');
+    const fileType = uriParts[uriParts.length - 1];
+
+    // Append file correctly for React Native
+    formData.append('file', {
+      uri: Platform.OS === 'ios' ? audioUri.replace('file://', '') : audioUri,
+      name: `recording.${fileType}`,
+      type: `audio/${fileType}`,
+    } as any);
+
+    formData.append('model', 'whisper-1');
+    formData.append('language', options.language);
+    formData.append('response_format', 'verbose_json');
+    formData.append('timestamp_granularities[]', 'word');
+
+    console.log(`🎙️ [STT] whisper batch transcription (${options.language})`);
+
+    const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'multipart/form-data',
+      },
+      body: formData,
+    });
+
+    const data = await response.json();
+    if (data.error) throw new Error(data.error.message);
+
+    const words = Array.isArray(data.words)
+      ? data.words.map((w: any) => ({ word: String(w.word), start: Number(w.start), end: Number(w.end) }))
+      : [];
+    return { text: data.text || '', words };
+  }
+}
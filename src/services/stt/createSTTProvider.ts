@@ -0,0 +1,45 @@
+import { STTProvider, STTProviderName } from './STTProvider';
+import { DeepgramSTTProvider } from './DeepgramSTTProvider';
+import { WhisperSTTProvider } from './WhisperSTTProvider';
+import { LocalSTTProvider } from './LocalSTTProvider';
+
+const PROVIDER_NAMES: STTProviderName[] = ['deepgram', 'whisper', 'local'];
+
+/**
+ * Pick a provider when none is requested explicitly:
+ * 1. EXPO_PUBLIC_STT_PROVIDER (if valid)
+ * 2. Deepgram streaming if keyed, else Whisper batch
+ * 3. Local server (offline)
+ */
+export function resolveSTTProviderName(): STTProviderName {
+  const configured = (process.env.EXPO_PUBLIC_STT_PROVIDER || '').trim().toLowerCase();
+  if (PROVIDER_NAMES.includes(configured as STTProviderName)) {
+    return configured as STTProviderName;
+  }
+  if (configured) {
+    console.warn(`⚠️ [STT] Unknown EXPO_PUBLIC_STT_PROVIDER "${configured}", auto-detecting`);
+  }
+
+  if (process.env.EXPO_PUBLIC_DEEPGRAM_API_KEY) return 'deepgram';
+  if (process.env.EXPO_PUBLIC_OPENAI_API_KEY) return 'whisper';
+
+  console.warn('⚠️ [STT] No STT API keys found, using local server');
+  return 'local';
+}
+
+/**
+ * Create an STT provider by name (auto-detected if omitted)
+ */
+export function createSTTProvider(name: STTProviderName = resolveSTTProviderName()): STTProvider {
+  console.log(`🎙️ [STT] Using provider: ${name}`);
+
+  switch (name) {
+    case 'whisper':
+      return new WhisperSTTProvider();
+    case 'local':
+      return new LocalSTTProvider();
+    case 'deepgram':
+    default:
+      return new DeepgramSTTProvider();
+  }
+}
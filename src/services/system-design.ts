@@ -0,0 +1,58 @@
+import { DesignStage, DesignStageId, InterviewTopic } from '../types';
+
+// ============================================
+// STAGES
+// ============================================
+
+/**
+ * Interview order of a system-design round
+ */
+export const DESIGN_STAGE_ORDER: DesignStageId[] = ['requirements', 'high_level', 'deep_dive', 'tradeoffs'];
+
+const DESIGN_STAGE_INFO: Record<DesignStageId, { label: string; goal: string }> = {
+  requirements: {
+    label: 'Requirements',
+    goal: 'Clarify functional and non-functional requirements, scale estimates and constraints before designing anything.'
+  },
+  high_level: {
+    label: 'High-Level Design',
+    goal: 'Sketch the main components, data flow and APIs end to end.'
+  },
+  deep_dive: {
+    label: 'Deep Dive',
+    goal: 'Go deep on the hardest component: data model, storage, scaling and failure handling.'
+  },
+  tradeoffs: {
+    label: 'Trade-offs',
+    goal: 'Justify the key decisions, name the alternatives and what would change at 10x scale.'
+  }
+};
+
+/**
+ * Build the staged topic model from the planner's per-stage checklists
+ * (a stage without a checklist is still run, just scored without one)
+ */
+export function buildDesignStages(checklists: Partial<Record<DesignStageId, string[]>>): DesignStage[] {
+  return DESIGN_STAGE_ORDER.map(id => ({
+    id,
+    ...DESIGN_STAGE_INFO[id],
+    checklist: checklists[id] || []
+  }));
+}
+
+/**
+ * Number of answer phases the engine walks through for a topic
+ * (1 for every single-answer topic)
+ */
+export function stageCountOf(topic: InterviewTopic | null | undefined): number {
+  return topic?.stages?.length || 1;
+}
+
+/**
+ * Stage at index (clamped), or null for single-answer topics
+ */
+export function getTopicStage(topic: InterviewTopic | null | undefined, stageIndex: number): DesignStage | null {
+  const stages = topic?.stages;
+  if (!stages || stages.length === 0) return null;
+  return stages[Math.min(Math.max(stageIndex, 0), stages.length - 1)];
+}
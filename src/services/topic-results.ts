@@ -0,0 +1,146 @@
+import {
+    AnswerIssue,
+    DeliveryMetrics,
+    DesignStageId,
+    DesignStageResult,
+    DifficultyLevel,
+    FollowUpProbe,
+    InterviewTopic,
+    QuestionResult,
+    StarAnalysis
+} from '../types';
+import { DESIGN_STAGE_ORDER } from './system-design';
+import { combineDelivery } from './delivery-analytics';
+
+// ============================================
+// MATCHING
+// ============================================
+
+/**
+ * Index of the report result evaluated for a plan topic, -1 if the topic
+ * wasn't evaluated. Results are matched by topic id - evaluators paraphrase
+ * topic names, and name matching mixes up related topics ("React" vs
+ * "React Native Performance").
+ */
+export function findTopicResult(results: QuestionResult[], topicId: string): number {
+    return results.findIndex(result => result.topicId === topicId);
+}
+
+/**
+ * Keep only topic ids that exist in the plan (the batch evaluator is asked
+ * to copy them, but may invent or mangle one)
+ */
+export function keepPlanTopicIds(results: QuestionResult[], topics: InterviewTopic[]): QuestionResult[] {
+    const ids = new Set(topics.map(topic => topic.id));
+
+    return results.map(result => {
+        if (result.topicId === undefined || ids.has(result.topicId)) return result;
+        console.warn(`⚠️ [TOPIC RESULTS] Unknown topic id "${result.topicId}" for "${result.topic}" (dropped)`);
+        const { topicId, ...rest } = result;
+        return rest;
+    });
+}
+
+// ============================================
+// TOPIC RECORDS
+// ============================================
+
+/**
+ * Everything learned about one plan topic during the interview outside the
+ * batch evaluation. Background evaluations stay promises until the report.
+ */
+export interface TopicRecord {
+    topic: InterviewTopic;
+    difficulty?: DifficultyLevel;           // Difficulty the topic was asked at
+    code?: {                                // Coding topics: latest submission
+        code: string;
+        evaluation: Promise<QuestionResult | null>;  // null if the code evaluation failed
+    };
+    designStages: Map<DesignStageId, Promise<DesignStageResult | null>>;  // A stage revisited is re-evaluated
+    starAnalysis?: Promise<StarAnalysis | null>;  // SoftSkill topics
+    probes: FollowUpProbe[];                // Answers filled in as they come
+    issues: AnswerIssue[];                  // Each issue once
+    delivery: DeliveryMetrics[];            // One entry per voice answer
+}
+
+export function createTopicRecord(topic: InterviewTopic): TopicRecord {
+    return { topic, designStages: new Map(), probes: [], issues: [], delivery: [] };
+}
+
+/**
+ * Fold one topic record into the topic's report result (null if the topic
+ * wasn't evaluated):
+ * - a code evaluation replaces the conversational scores
+ * - SystemDesign topics score the average of their stage scores
+ * - the rest (difficulty, probes, issues, delivery, STAR) is attached
+ * A topic missing from the report still gets a result from its code or stage evaluations.
+ */
+async function mergeTopicRecord(result: QuestionResult | null, record: TopicRecord): Promise<QuestionResult | null> {
+    const { topic } = record;
+    let merged = result;
+
+    if (record.code) {
+        const evaluation = await record.code.evaluation;
+        if (evaluation) {
+            merged = merged
+                ? { ...merged, ...evaluation, topic: merged.topic, userAnswer: merged.userAnswer || evaluation.userAnswer }
+                : evaluation;
+        } else if (merged) {
+            merged = { ...merged, submittedCode: record.code.code, codeLanguage: topic.problem?.language };
+        }
+    }
+
+    const stageResults = (await Promise.all(Array.from(record.designStages.values())))
+        .filter((stage): stage is DesignStageResult => stage !== null)
+        .sort((a, b) => DESIGN_STAGE_ORDER.indexOf(a.stage) - DESIGN_STAGE_ORDER.indexOf(b.stage));
+    if (stageResults.length > 0) {
+        const score = Number((stageResults.reduce((sum, stage) => sum + stage.score, 0) / stageResults.length).toFixed(1));
+        merged = merged
+            ? { ...merged, score, designStages: stageResults }
+            : {
+                topic: topic.topic,
+                topicId: topic.id,
+                userAnswer: "",
+                score,
+                feedback: stageResults.map(stage => `${stage.label}: ${stage.feedback}`).join(' '),
+                designStages: stageResults
+            };
+    }
+
+    if (!merged) return null;
+    merged = { ...merged };
+
+    if (record.difficulty) {
+        merged.category = topic.category;
+        merged.difficulty = record.difficulty;
+    }
+    if (record.probes.length > 0) merged.probes = record.probes;
+    // The evaluator's own issue list wins
+    if (record.issues.length > 0 && !merged.issues?.length) merged.issues = record.issues;
+
+    const delivery = combineDelivery(record.delivery);
+    if (delivery) merged.delivery = delivery;
+
+    const starAnalysis = record.starAnalysis ? await record.starAnalysis : null;
+    if (starAnalysis) merged.starAnalysis = starAnalysis;
+
+    return merged;
+}
+
+/**
+ * Fold every topic record into the report results
+ */
+export async function mergeTopicRecords(results: QuestionResult[], records: TopicRecord[]): Promise<QuestionResult[]> {
+    const merged = [...results];
+
+    for (const record of records) {
+        const index = findTopicResult(merged, record.topic.id);
+        const result = await mergeTopicRecord(index === -1 ? null : merged[index], record);
+        if (!result) continue;
+
+        if (index === -1) merged.push(result);
+        else merged[index] = result;
+    }
+
+    return merged;
+}
@@ -0,0 +1,197 @@
+/**
+ * TTS Cache
+ * Synthesized replies on disk as WAV, keyed by provider, voice settings and
+ * text, so lines Victoria says every run (lobby greeting, intros, fallback
+ * phrases, transitions) play without a network round trip.
+ * Lives in the cache directory (the OS may purge it) with an LRU size cap.
+ */
+
+import { Directory, File, Paths } from 'expo-file-system';
+import { TTSProvider, WordTimestamp } from '../types';
+import { createWavFile, getWavFileInfo } from '../utils/audio-conversion';
+
+const CACHE_DIRECTORY = 'tts_cache';
+const INDEX_FILENAME = 'index.json';
+const WAV_HEADER_BYTES = 44;
+
+// ~100 minutes of 16kHz mono PCM16 (OpenAI's 24kHz entries are 1.5x larger)
+const MAX_CACHE_BYTES = 50 * 1024 * 1024;
+
+// Long replies are one-off LLM output - only short, repeatable lines are worth keeping
+export const MAX_CACHEABLE_TEXT_LENGTH = 300;
+
+// ============================================
+// TYPES
+// ============================================
+
+interface TTSCacheEntry {
+    key: string;                // Full key (the file name is its hash)
+    file: string;
+    bytes: number;
+    lastUsedAt: number;
+    words?: WordTimestamp[];    // Cartesia word timing, replayed on hits
+}
+
+export interface CachedSpeech {
+    pcm: ArrayBuffer;           // PCM16 mono
+    sampleRate: number;
+    words: WordTimestamp[];
+}
+
+// ============================================
+// KEYS
+// ============================================
+
+// Case and punctuation change the prosody, so only whitespace is normalized
+const normalizeSpeechText = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Cache key for one utterance. `settings` are the resolved speak options
+ * (voice, emotion, speed, instructions...), serialized with sorted keys
+ */
+export function ttsCacheKey(provider: TTSProvider, settings: object, text: string): string {
+    const entries = Object.entries(settings)
+        .filter(([, value]) => value !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b));
+    return `${provider}|${JSON.stringify(entries)}|${normalizeSpeechText(text)}`;
+}
+
+// FNV-1a, like question ids - only names the file, the full key is checked on read
+const fileNameFor = (key: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) {
+        hash ^= key.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return `tts_${hash.toString(16).padStart(8, '0')}_${key.length}.wav`;
+};
+
+export const isCacheableText = (text: string): boolean => {
+    const normalized = normalizeSpeechText(text);
+    return normalized.length > 0 && normalized.length <= MAX_CACHEABLE_TEXT_LENGTH;
+};
+
+// ============================================
+// STORAGE
+// ============================================
+
+const getCacheDirectory = (): Directory => {
+    const directory = new Directory(Paths.cache, CACHE_DIRECTORY);
+    directory.create({ idempotent: true });
+    return directory;
+};
+
+const getIndexFile = (): File => {
+    return new File(getCacheDirectory(), INDEX_FILENAME);
+};
+
+const loadIndex = async (): Promise<TTSCacheEntry[]> => {
+    try {
+        const file = getIndexFile();
+        if (!file.info().exists) return [];
+
+        const parsed = JSON.parse(await file.text());
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+        console.warn('⚠️ [TTS_CACHE] Invalid index, resetting');
+        return [];
+    }
+};
+
+const saveIndex = (entries: TTSCacheEntry[]): void => {
+    getIndexFile().write(JSON.stringify(entries));
+};
+
+const deleteEntryFile = (entry: TTSCacheEntry): void => {
+    const file = new File(getCacheDirectory(), entry.file);
+    if (file.info().exists) file.delete();
+};
+
+// Index writes are read-modify-write; keep them in order
+let pending: Promise<unknown> = Promise.resolve();
+const serialized = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = pending.then(task, task);
+    pending = run.catch(() => undefined);
+    return run;
+};
+
+// ============================================
+// API
+// ============================================
+
+/**
+ * Cached audio for a key (null on miss). Marks the entry as recently used
+ */
+export const getCachedSpeech = (key: string): Promise<CachedSpeech | null> => serialized(async () => {
+    try {
+        const index = await loadIndex();
+        const entry = index.find(e => e.key === key);
+        if (!entry) return null;
+
+        const file = new File(getCacheDirectory(), entry.file);
+        const bytes = file.info().exists ? await file.bytes() : null;
+        const info = bytes ? getWavFileInfo(bytes.buffer) : null;
+        if (!bytes || !info) {
+            // Purged by the OS or truncated - forget it
+            saveIndex(index.filter(e => e !== entry));
+            return null;
+        }
+
+        entry.lastUsedAt = Date.now();
+        saveIndex(index);
+
+        return {
+            pcm: bytes.buffer.slice(WAV_HEADER_BYTES, WAV_HEADER_BYTES + info.dataSize),
+            sampleRate: info.sampleRate,
+            words: entry.words ?? []
+        };
+    } catch (error) {
+        console.warn('⚠️ [TTS_CACHE] Read failed:', error);
+        return null;
+    }
+});
+
+/**
+ * Store a complete utterance, evicting least recently used entries over the cap
+ */
+export const storeCachedSpeech = (
+    key: string,
+    pcmChunks: ArrayBuffer[],
+    sampleRate: number,
+    words: WordTimestamp[] = []
+): Promise<void> => serialized(async () => {
+    try {
+        const wav = createWavFile(pcmChunks, sampleRate);
+        if (wav.byteLength <= WAV_HEADER_BYTES || wav.byteLength > MAX_CACHE_BYTES) return;
+
+        const entry: TTSCacheEntry = {
+            key,
+            file: fileNameFor(key),
+            bytes: wav.byteLength,
+            lastUsedAt: Date.now(),
+            ...(words.length > 0 ? { words } : {})
+        };
+        new File(getCacheDirectory(), entry.file).write(new Uint8Array(wav));
+
+        const index = (await loadIndex()).filter(e => e.key !== key && e.file !== entry.file);
+        index.push(entry);
+
+        // LRU eviction
+        index.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+        let total = 0;
+        const kept = index.filter(e => {
+            if (total + e.bytes <= MAX_CACHE_BYTES) {
+                total += e.bytes;
+                return true;
+            }
+            deleteEntryFile(e);
+            return false;
+        });
+
+        saveIndex(kept);
+        console.log(`💾 [TTS_CACHE] Stored ${(wav.byteLength / 1024).toFixed(0)}KB (${kept.length} entries, ${(total / 1024 / 1024).toFixed(1)}MB)`);
+    } catch (error) {
+        console.warn('⚠️ [TTS_CACHE] Write failed:', error);
+    }
+});
+
@@ -0,0 +1,71 @@
+/**
+ * TTS Failover
+ * When the selected streaming provider fails mid-interview (connection error,
+ * no audio within its first-chunk budget, or repeated buffer underruns) the
+ * interview switches to the next provider in the chain for the rest of the
+ * session. After the last provider the device's own text-to-speech
+ * (expo-speech) reads the replies - no word timings, but always available.
+ * Only if that fails too are replies shown as text only.
+ */
+
+import { TTSProvider } from '../types';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Link of the failover chain: a streaming provider or on-device speech
+ */
+export type TTSEngine = TTSProvider | 'device';
+
+export type TTSFallbackTarget = TTSEngine | 'text';
+
+export type TTSFailoverReason = 'connection_error' | 'first_chunk_timeout' | 'underruns' | 'device_error';
+
+export interface TTSFailover {
+    from: TTSEngine;
+    to: TTSFallbackTarget;
+    reason: TTSFailoverReason;
+    detail?: string;
+    at: number;
+}
+
+// ============================================
+// POLICY
+// ============================================
+
+export const TTS_FAILOVER_ORDER: TTSProvider[] = ['cartesia', 'deepgram', 'openai'];
+
+/**
+ * Time from speak() to the 'playing' event before a provider counts as down.
+ * OpenAI downloads the whole response before the first chunk, so it gets longer.
+ * On-device speech needs no network and starts almost at once.
+ */
+export const FIRST_CHUNK_BUDGET_MS: Record<TTSEngine, number> = {
+    cartesia: 4000,
+    deepgram: 4000,
+    openai: 10000,
+    device: 3000
+};
+
+// Underrun events arrive once per 50ms processing tick while starved (~0.5s of gaps)
+export const MAX_UNDERRUNS_PER_REPLY = 10;
+
+/**
+ * First provider of the chain (the selected one first) that has not failed
+ * this session and can speak, then on-device speech, then 'text'
+ */
+export function nextFallback(
+    selected: TTSProvider,
+    failed: ReadonlySet<TTSEngine>,
+    canStream: (provider: TTSProvider) => boolean
+): TTSFallbackTarget {
+    const chain = [selected, ...TTS_FAILOVER_ORDER.filter(provider => provider !== selected)];
+    const provider = chain.find(p => !failed.has(p) && canStream(p));
+    if (provider) return provider;
+    return failed.has('device') ? 'text' : 'device';
+}
+
+export const describeFailover = (failover: TTSFailover): string =>
+    `${failover.from} → ${failover.to} (${failover.reason.replace(/_/g, ' ')})`;
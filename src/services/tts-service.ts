@@ -1,13 +1,25 @@
 import * as FileSystem from 'expo-file-system/legacy';
 import { Audio, InterruptionModeIOS, InterruptionModeAndroid } from 'expo-av';
-import { TTSProvider, OpenAIVoice, DeepgramVoice, WordTimestamp, VibeConfig } from '../types';  // PHASE 2: Added WordTimestamp, VibeConfig
+import * as Speech from 'expo-speech';
+import { TTSProvider, OpenAIVoice, DeepgramVoice, WordTimestamp, VibeConfig, InterviewLanguage } from '../types';  // PHASE 2: Added WordTimestamp, VibeConfig
 import { STREAMING_CONFIG } from '../config/streaming-config';
 import { cartesiaStreamingService } from './cartesia-streaming-service';
 import { chunkedStreamingPlayer } from './streaming-audio-player';
 import { getCartesiaStreamingPlayer } from './audio/CartesiaStreamingPlayer';
 import { getDeepgramStreamingPlayer } from './audio/DeepgramStreamingPlayer';
 import { getOpenAIStreamingPlayer } from './audio/OpenAIStreamingPlayer';
+import {
+  CartesiaSpeakOptions,
+  CartesiaSpeed,
+  DeepgramSpeakOptions,
+  OpenAISpeakOptions,
+  PlayerErrorEvent,
+  StreamingSpeakOptions,
+  StreamingTTSPlayer,
+} from './audio/StreamingTTSPlayer';
 import Constants from 'expo-constants';
+import { getInterviewLanguage } from './interview-language';
+import { TTSEngine, TTSFallbackTarget, nextFallback } from './tts-failover';
 
 /**
  * Text-to-Speech Service supporting Cartesia and OpenAI APIs
@@ -31,6 +43,12 @@ class TTSService {
   private openaiApiKey?: string;
   private openaiInstructions: string = 'Speak in a professional, business-like tone.';  // Professional tone
 
+  // Interview language (set per interview, not persisted with the voice settings)
+  private language: InterviewLanguage = 'en';
+
+  // Providers that failed during the current interview (see tts-failover)
+  private failedProviders: Set<TTSEngine> = new Set();
+
   // NEW: Streaming state
   private isStreaming: boolean = false;
   private currentStreamContextId: string | null = null;
@@ -158,6 +176,140 @@ class TTSService {
     return this.openaiInstructions;
   }
 
+  // ========================
+  // LANGUAGE
+  // ========================
+
+  /**
+   * Set the language Victoria speaks (called when an interview starts)
+   */
+  setLanguage(language: InterviewLanguage): void {
+    console.log(`🌐 [TTS] Language changed: ${this.language} → ${language}`);
+    this.language = language;
+  }
+
+  getLanguage(): InterviewLanguage {
+    return this.language;
+  }
+
+  /**
+   * Provider actually used for the current language.
+   * Deepgram Aura has no voice for some languages - OpenAI speaks all of them.
+   */
+  private getLanguageProvider(): TTSProvider {
+    if (this.ttsProvider === 'deepgram' && this.language !== 'en' && !getInterviewLanguage(this.language).deepgramVoice) {
+      return 'openai';
+    }
+    return this.ttsProvider;
+  }
+
+  /**
+   * Provider actually used: the language provider, or the failover target
+   * once it failed during this interview
+   */
+  private getActiveProvider(): TTSProvider {
+    const selected = this.getLanguageProvider();
+    if (this.failedProviders.size === 0) return selected;
+
+    const target = nextFallback(selected, this.failedProviders, provider => this.canStream(provider));
+    return target === 'text' || target === 'device' ? selected : target;
+  }
+
+  /**
+   * Whether a provider is configured and has a voice for the current language
+   */
+  private canStream(provider: TTSProvider): boolean {
+    switch (provider) {
+      case 'cartesia':
+        return !!process.env.EXPO_PUBLIC_CARTESIA_API_KEY && !!process.env.EXPO_PUBLIC_CARTESIA_VOICE_ID;
+      case 'deepgram':
+        return !!process.env.EXPO_PUBLIC_DEEPGRAM_API_KEY &&
+          (this.language === 'en' || !!getInterviewLanguage(this.language).deepgramVoice);
+      case 'openai':
+        return !!(Constants.expoConfig?.extra?.openaiApiKey || process.env.EXPO_PUBLIC_OPENAI_API_KEY);
+    }
+  }
+
+  // ========================
+  // FAILOVER
+  // ========================
+
+  /**
+   * Mark a provider (or on-device speech) as failed for the rest of the interview
+   *
+   * @returns What speaks from now on
+   */
+  failover(engine: TTSEngine): TTSFallbackTarget {
+    this.failedProviders.add(engine);
+    const target = this.getFallbackTarget();
+    console.warn(`⚠️ [TTS] Failover: ${engine} → ${target}`);
+    return target;
+  }
+
+  private getFallbackTarget(): TTSFallbackTarget {
+    return nextFallback(this.getLanguageProvider(), this.failedProviders, provider => this.canStream(provider));
+  }
+
+  /**
+   * Every streaming provider failed - the device's own TTS reads the replies
+   */
+  usesDeviceSpeech(): boolean {
+    return this.failedProviders.size > 0 && this.getFallbackTarget() === 'device';
+  }
+
+  /**
+   * On-device speech failed too - replies are shown without audio
+   */
+  isTextOnly(): boolean {
+    return this.failedProviders.size > 0 && this.getFallbackTarget() === 'text';
+  }
+
+  /**
+   * Read a reply with the device's text-to-speech (expo-speech) in the
+   * interview language. Resolves when it has been spoken (or stopped)
+   *
+   * @param onStart - Called when speech actually starts
+   */
+  speakOnDevice(text: string, options?: { speed?: number }, onStart?: () => void): Promise<void> {
+    console.log(`📱 [TTS] Device speech: "${text.substring(0, 30)}..."`);
+
+    return new Promise((resolve, reject) => {
+      Speech.speak(text, {
+        language: this.language,
+        rate: options?.speed ?? 1.0,
+        onStart,
+        onDone: () => resolve(),
+        onStopped: () => resolve(),
+        onError: (error) => reject(error),
+      });
+    });
+  }
+
+  /**
+   * Give every provider a fresh chance (called when an interview starts)
+   */
+  resetFailover(): void {
+    this.failedProviders.clear();
+  }
+
+  /**
+   * The selected Aura voice is English - other languages use their own voice
+   */
+  private getActiveDeepgramVoice(): DeepgramVoice {
+    return this.language === 'en'
+      ? this.deepgramVoice
+      : getInterviewLanguage(this.language).deepgramVoice || this.deepgramVoice;
+  }
+
+  /**
+   * OpenAI voices are multilingual; instructions stay in English and name the language
+   */
+  private withLanguageInstruction(instructions: string): string {
+    if (this.language === 'en') return instructions;
+    const accent = `Speak ${getInterviewLanguage(this.language).promptName} with a natural native accent.`;
+    return instructions ? `${instructions} ${accent}` : accent;
+  }
+
   // ========================
   // SETTINGS PERSISTENCE
   // ========================
@@ -224,11 +376,16 @@ class TTSService {
       return true; // Возвращаем true чтобы не ломать логику
     }
 
+    const provider = this.getActiveProvider();
+
     try {
       console.log(`🎙️ [TTS] Speaking: "${text.substring(0, 50)}..."`);
+      if (provider !== this.ttsProvider) {
+        console.log(`🌐 [TTS] ${this.ttsProvider} can't speak '${this.language}', using ${provider}`);
+      }
 
       // OpenAI: Streaming only, no fallback
-      if (this.ttsProvider === 'openai') {
+      if (provider === 'openai') {
         console.log(`🌊 [TTS] OpenAI streaming only (no REST fallback)`);
         try {
           const success = await this.speakOpenAIStreaming(text, options);
@@ -245,13 +402,13 @@ class TTSService {
       }
 
       // Cartesia/Deepgram: Try streaming first, fallback to REST
-      if (STREAMING_CONFIG.enabled && (this.ttsProvider === 'cartesia' || this.ttsProvider === 'deepgram')) {
-        console.log(`🌊 [TTS] Attempting streaming playback (${this.ttsProvider})...`);
+      if (STREAMING_CONFIG.enabled && (provider === 'cartesia' || provider === 'deepgram')) {
+        console.log(`🌊 [TTS] Attempting streaming playback (${provider})...`);
 
         try {
           let success = false;
 
-          if (this.ttsProvider === 'cartesia') {
+          if (provider === 'cartesia') {
             success = await this.speakCartesiaStreaming(text, options);
           } else {
             success = await this.speakDeepgramStreaming(text, options);
@@ -302,7 +459,7 @@ class TTSService {
   ): Promise<string | null> {
     try {
       // Выбор провайдера (OpenAI streaming only - no REST fallback)
-      if (this.ttsProvider === 'deepgram') {
+      if (this.getActiveProvider() === 'deepgram') {
         console.log(`🎙️ [TTS] Using Deepgram TTS provider (REST fallback)`);
         return await this.fetchDeepgramAudioFile(text, options);
       } else {
@@ -340,10 +497,11 @@ class TTSService {
 
       console.log(`🎙️ [TTS] Deepgram TTS request...`);
       console.log(`🎙️ [TTS] Text: "${text.substring(0, 50)}..."`);
-      console.log(`🎙️ [TTS] Voice: ${this.deepgramVoice}`);
+      const voice = this.getActiveDeepgramVoice();
+      console.log(`🎙️ [TTS] Voice: ${voice}`);
 
       // Deepgram REST API for TTS
-      const response = await fetch(`https://api.deepgram.com/v1/speak?model=${this.deepgramVoice}&encoding=linear16&sample_rate=16000`, {
+      const response = await fetch(`https://api.deepgram.com/v1/speak?model=${voice}&encoding=linear16&sample_rate=16000`, {
         method: 'POST',
         headers: {
           'Authorization': `Token ${API_KEY}`,
@@ -470,7 +628,7 @@ class TTSService {
           mode: "id",
           id: VOICE_ID
         },
-        language: "en",
+        language: getInterviewLanguage(this.language).cartesiaLanguage,
         output_format: {
           container: "mp3",
           encoding: "mp3",
@@ -628,6 +786,7 @@ class TTSService {
         voiceId: VOICE_ID,
         emotion: emotionLevel,
         speed: speedString,
+        language: getInterviewLanguage(this.language).cartesiaLanguage,
       });
 
       console.log('✅ [TTS Streaming] Playback complete');
@@ -671,14 +830,15 @@ class TTSService {
         player.stop();
       }
 
+      const voice = this.getActiveDeepgramVoice();
       console.log('🎙️ [TTS Streaming] Options:', {
-        voiceId: this.deepgramVoice,
+        voiceId: voice,
         textLength: text.length
       });
 
       // Use Deepgram player (uses Sec-WebSocket-Protocol for authentication)
       await player.speak(text, {
-        voiceId: this.deepgramVoice,
+        voiceId: voice,
       });
 
       console.log('✅ [TTS Streaming] Deepgram playback complete');
@@ -749,7 +909,7 @@ class TTSService {
       await player.speak(text, {
         voiceId: this.openaiVoice,
         speed: speed,
-        instructions: instructions || undefined,
+        instructions: this.withLanguageInstruction(instructions) || undefined,
       });
 
       console.log('✅ [TTS Streaming] OpenAI playback complete');
@@ -879,6 +1039,15 @@ class TTSService {
     this.soundObjects = [];
     this.isPlaying = false;
 
+    // Stop on-device speech (last failover link)
+    if (this.usesDeviceSpeech()) {
+      try {
+        await Speech.stop();
+      } catch (error) {
+        console.error("❌ [TTS] Error stopping device speech:", error);
+      }
+    }
+
     console.log("✅ [TTS] All audio stopped");
   }
 
@@ -907,76 +1076,21 @@ class TTSService {
       console.log(`🎙️ [TTS] Preparing audio: "${text.substring(0, 50)}..."`);
 
       // NEW: Try streaming if enabled for Cartesia, Deepgram, or OpenAI
-      if (STREAMING_CONFIG.enabled && (this.ttsProvider === 'cartesia' || this.ttsProvider === 'deepgram' || this.ttsProvider === 'openai')) {
-        console.log(`🌊 [TTS] Using NEW streaming engine for prepareAudio (${this.ttsProvider})...`);
+      const provider = this.getActiveProvider();
+      if (STREAMING_CONFIG.enabled && (provider === 'cartesia' || provider === 'deepgram' || provider === 'openai')) {
+        console.log(`🌊 [TTS] Using NEW streaming engine for prepareAudio (${provider})...`);
 
         try {
           let isPlaybackStarted = false;
           let isPlaybackComplete = false;  // Track completion for race condition fix
           let statusCallback: ((status: any) => void) | null = null;
 
-          // Select appropriate player based on provider
-          const isCartesia = this.ttsProvider === 'cartesia';
-          const isOpenAI = this.ttsProvider === 'openai';
-          const player = isCartesia ? getCartesiaStreamingPlayer() : isOpenAI ? getOpenAIStreamingPlayer(Constants.expoConfig?.extra?.openaiApiKey as string || process.env.EXPO_PUBLIC_OPENAI_API_KEY!) : getDeepgramStreamingPlayer();
+          // Provider's player and speak() options (same mapping as synchronized playback)
+          const player = await this.getStreamingPlayer();
+          const { options: playerOptions } = this.getStreamingPlayerOptions(options);
 
           const playFunction = async () => {
-            if (isCartesia) {
-              const VOICE_ID = process.env.EXPO_PUBLIC_CARTESIA_VOICE_ID;
-              if (!VOICE_ID) throw new Error('VOICE_ID not configured');
-
-              let speedString: 'slowest' | 'slow' | 'normal' | 'fast' | 'fastest' = 'normal';
-              if (options?.speed) {
-                if (options.speed <= 0.75) speedString = 'slowest';
-                else if (options.speed <= 0.9) speedString = 'slow';
-                else if (options.speed >= 1.25) speedString = 'fastest';
-                else if (options.speed >= 1.1) speedString = 'fast';
-              }
-
-              const emotionLevel = options?.emotionLevel || (options?.emotion ? [options.emotion] : undefined);
-
-              await (player as any).speak(text, {
-                voiceId: VOICE_ID,
-                emotion: emotionLevel,
-                speed: speedString,
-              });
-            } else if (isOpenAI) {
-              // OpenAI streaming
-              const OPENAI_API_KEY = Constants.expoConfig?.extra?.openaiApiKey as string || process.env.EXPO_PUBLIC_OPENAI_API_KEY;
-              if (!OPENAI_API_KEY) throw new Error('OPENAI_API_KEY not configured');
-
-              // 🎭 EMOTION: Use vibe-based instructions if provided
-              let instructions = this.openaiInstructions; // fallback to static
-              let speed = options?.speed;
-
-              if (options?.vibe) {
-                // Import here to avoid circular dependency
-                const { VibeCalculator } = require('./vibe-calculator');
-                const openaiConfig = VibeCalculator.getOpenAIConfig(options.vibe.label);
-                instructions = openaiConfig.instructions;
-                speed = speed ?? openaiConfig.speed;
-
-                console.log('🎭 [OpenAI Emotion] prepareAudio: Using vibe-based config:', {
-                  vibe: options.vibe.label,
-                  instructions: instructions,
-                  speed: speed
-                });
-              }
-
-              await (player as any).speak(text, {
-                voiceId: this.openaiVoice,
-                speed: speed,
-                instructions: instructions || undefined,
-              });
-            } else {
-              // Deepgram streaming
-              const DEEPGRAM_API_KEY = process.env.EXPO_PUBLIC_DEEPGRAM_API_KEY;
-              if (!DEEPGRAM_API_KEY) throw new Error('DEEPGRAM_API_KEY not configured');
-
-              await (player as any).speak(text, {
-                voiceId: this.deepgramVoice,
-              });
-            }
+            await player.speak(text, playerOptions);
           };
 
           // Create listener functions for cleanup
@@ -993,7 +1107,7 @@ class TTSService {
             }
           };
 
-          const errorListener = (data: any) => {
+          const errorListener = (data: PlayerErrorEvent) => {
             console.error('❌ [TTS Streaming Mock] Player error:', data);
             isPlaybackComplete = true;
             if (statusCallback) {
@@ -1017,7 +1131,7 @@ class TTSService {
 
           const mockSound = {
             playAsync: async () => {
-              console.log(`🎵 [TTS Streaming Mock] playAsync called (${this.ttsProvider} engine)`);
+              console.log(`🎵 [TTS Streaming Mock] playAsync called (${provider} engine)`);
 
               if (!isPlaybackStarted) {
                 isPlaybackStarted = true;
@@ -1122,8 +1236,8 @@ class TTSService {
    *
    * @returns Streaming player instance (Cartesia, OpenAI, or Deepgram)
    */
-  async getStreamingPlayer(): Promise<any> {
-    const provider = this.getTtsProvider();
+  async getStreamingPlayer(): Promise<StreamingTTSPlayer> {
+    const provider = this.getActiveProvider();
 
     switch (provider) {
       case 'openai': {
@@ -1141,6 +1255,66 @@ class TTSService {
     }
   }
 
+  /**
+   * Provider and speak() options for the player returned by getStreamingPlayer()
+   *
+   * For callers that drive the streaming player directly (synchronized text +
+   * audio in useInterviewLogic). Applies the interview language like speak() does.
+   */
+  getStreamingPlayerOptions(
+    options?: {
+      emotion?: string;
+      speed?: number;
+      emotionLevel?: string[];
+      vibe?: VibeConfig;
+    }
+  ): { provider: TTSProvider; options: StreamingSpeakOptions } {
+    const provider = this.getActiveProvider();
+
+    if (provider === 'cartesia') {
+      // Map speed number to Cartesia speed string
+      let speed: CartesiaSpeed | undefined;
+      if (options?.speed) {
+        if (options.speed <= 0.75) speed = 'slowest';
+        else if (options.speed <= 0.9) speed = 'slow';
+        else if (options.speed >= 1.25) speed = 'fastest';
+        else if (options.speed >= 1.1) speed = 'fast';
+        else speed = 'normal';
+      }
+
+      const playerOptions: CartesiaSpeakOptions = {
+        voiceId: process.env.EXPO_PUBLIC_CARTESIA_VOICE_ID,
+        emotion: options?.emotionLevel || (options?.emotion ? [options.emotion] : undefined),
+        speed,
+        language: getInterviewLanguage(this.language).cartesiaLanguage,
+      };
+      return { provider, options: playerOptions };
+    }
+
+    if (provider === 'openai') {
+      // Vibe-based emotion instructions
+      let instructions = this.openaiInstructions;
+      let speed = options?.speed;
+      if (options?.vibe) {
+        // Import here to avoid circular dependency
+        const { VibeCalculator } = require('./vibe-calculator');
+        const openaiConfig = VibeCalculator.getOpenAIConfig(options.vibe.label);
+        instructions = openaiConfig.instructions;
+        speed = speed ?? openaiConfig.speed;
+      }
+
+      const playerOptions: OpenAISpeakOptions = {
+        voiceId: this.openaiVoice,
+        speed,
+        instructions: this.withLanguageInstruction(instructions) || undefined,
+      };
+      return { provider, options: playerOptions };
+    }
+
+    const playerOptions: DeepgramSpeakOptions = { voiceId: this.getActiveDeepgramVoice() };
+    return { provider, options: playerOptions };
+  }
+
   /**
    * Check if currently playing
    */
@@ -1,18 +1,11 @@
-import { VibeConfig, VibeLabel, CartesiaEmotion, AnswerIssue, UserIntent } from '../types';
+import { VibeConfig, VibeLabel, CartesiaEmotion, AnswerIssue, UserIntent, ScoringPolicy } from '../types';
+import { getScoringPolicy } from './scoring-policy';
 
-/**
- * Anger Zone Thresholds
- * Defines the boundaries for Victoria's emotional state based on anger level (0-100)
+/*
+ * Anger zone thresholds and engagement deltas live in the ScoringPolicy
+ * (services/scoring-policy.ts) so presets can move them together with
+ * the topic scoring rules.
  */
-const ANGER_ZONES = {
-  TERMINAL: 91,        // 91-100: Furious (interview termination)
-  CRITICAL_HIGH: 86,   // 86-90: Dismissive (mentally checked out)
-  CRITICAL: 71,        // 71-85: Hostile (openly critical)
-  HIGH: 61,            // 61-70: Frustrated (visible anger)
-  HIGH_LOW: 41,        // 41-60: Irritated/Skeptical (losing patience)
-  MEDIUM: 26,          // 26-40: Concerned/Disappointed (red flags)
-  LOW: 10              // 0-10: Impressed/Encouraging (positive zone)
-} as const;
 
 /**
  * Engagement Thresholds
@@ -25,18 +18,6 @@ const ENGAGEMENT_THRESHOLDS = {
   LOW: 30          // 0-39: Low engagement
 } as const;
 
-/**
- * Engagement Delta Configuration
- * How much engagement changes based on answer quality
- */
-const ENGAGEMENT_DELTAS = {
-  EXCELLENT: { minScore: 9, delta: 15 },   // Outstanding answer
-  GOOD: { minScore: 7, delta: 8 },         // Good answer
-  MEDIOCRE: { minScore: 5, delta: 0 },     // Acceptable, no change
-  POOR: { minScore: 3, delta: -10 },       // Poor answer
-  FAIL: { minScore: 0, delta: -15 }        // Failed answer
-} as const;
-
 /**
  * Special Intent Constants
  * User intent categories that override normal vibe calculation
@@ -223,12 +204,14 @@ export class VibeCalculator {
    * @param anger - Anger level (0-100), will be clamped to valid range
    * @param engagement - Engagement level (0-100), will be clamped to valid range
    * @param specialContext - Optional special context for intent-based overrides
+   * @param policy - Scoring policy providing the anger zones (default: realistic)
    * @returns VibeConfig for the determined emotional state
    */
   static determineVibe(
     anger: number,
     engagement: number,
-    specialContext?: { isAbsurdError?: boolean; intent?: string }
+    specialContext?: { isAbsurdError?: boolean; intent?: string },
+    policy: ScoringPolicy = getScoringPolicy()
   ): VibeConfig {
     // Validate and clamp inputs to valid ranges
     anger = Math.max(0, Math.min(100, anger));
@@ -241,7 +224,7 @@ export class VibeCalculator {
     }
 
     // PRIORITY 2: Anger-Based Zone Determination
-    return this.determineVibeByZone(anger, engagement);
+    return this.determineVibeByZone(anger, engagement, policy.angerZones);
   }
 
   /**
@@ -297,22 +280,26 @@ export class VibeCalculator {
    *
    * @private
    */
-  private static determineVibeByZone(anger: number, engagement: number): VibeConfig {
-    // Zone 5 (Terminal Anger): 91-100
-    if (anger >= ANGER_ZONES.TERMINAL) {
+  private static determineVibeByZone(
+    anger: number,
+    engagement: number,
+    zones: ScoringPolicy['angerZones']
+  ): VibeConfig {
+    // Zone 5 (Terminal Anger): 91-100 (realistic)
+    if (anger >= zones.terminal) {
       return this.getVibeConfig('Furious');
     }
 
     // Zone 4 (Critical Anger): 71-90
-    if (anger >= ANGER_ZONES.CRITICAL) {
-      return anger >= ANGER_ZONES.CRITICAL_HIGH
+    if (anger >= zones.critical) {
+      return anger >= zones.criticalHigh
         ? this.getVibeConfig('Dismissive')
         : this.getVibeConfig('Hostile');
     }
 
     // Zone 3 (High Anger): 41-70
-    if (anger >= ANGER_ZONES.HIGH_LOW) {
-      if (anger >= ANGER_ZONES.HIGH) {
+    if (anger >= zones.highLow) {
+      if (anger >= zones.high) {
         return this.getVibeConfig('Frustrated');
       }
       return engagement >= ENGAGEMENT_THRESHOLDS.MEDIUM
@@ -321,7 +308,7 @@ export class VibeCalculator {
     }
 
     // Zone 2 (Medium Anger): 26-40
-    if (anger >= ANGER_ZONES.MEDIUM) {
+    if (anger >= zones.medium) {
       if (engagement >= ENGAGEMENT_THRESHOLDS.HIGH) {
         return this.getVibeConfig('Curious');
       }
@@ -331,13 +318,13 @@ export class VibeCalculator {
     }
 
     // Zone 1 (Low Anger): 0-25
-    if (anger <= ANGER_ZONES.LOW && engagement >= ENGAGEMENT_THRESHOLDS.VERY_HIGH) {
+    if (anger <= zones.low && engagement >= ENGAGEMENT_THRESHOLDS.VERY_HIGH) {
       return this.getVibeConfig('Impressed');
     }
-    if (anger <= ANGER_ZONES.LOW && engagement >= 50) {
+    if (anger <= zones.low && engagement >= 50) {
       return this.getVibeConfig('Encouraging');
     }
-    if (anger <= 25 && engagement >= ENGAGEMENT_THRESHOLDS.HIGH) {
+    if (anger < zones.medium && engagement >= ENGAGEMENT_THRESHOLDS.HIGH) {
       return this.getVibeConfig('Professional');
     }
 
@@ -384,9 +371,16 @@ export class VibeCalculator {
    *
    * @param compositeScore - Answer quality score (0-10)
    * @param intent - User's intent (affects engagement differently)
+   * @param policy - Scoring policy providing the deltas (default: realistic)
    * @returns Engagement change amount (can be negative)
    */
-  static calculateEngagementDelta(compositeScore: number, intent: string): number {
+  static calculateEngagementDelta(
+    compositeScore: number,
+    intent: string,
+    policy: ScoringPolicy = getScoringPolicy()
+  ): number {
+    const deltas = policy.engagementDeltas;
+
     // Special intents don't affect engagement
     const neutralIntents = [
       SPECIAL_INTENTS.CLARIFICATION,
@@ -399,24 +393,24 @@ export class VibeCalculator {
 
     // Nonsense drops engagement significantly
     if (intent === SPECIAL_INTENTS.NONSENSE) {
-      return -20;
+      return deltas.nonsense;
     }
 
     // Normal attempts: based on composite score (0-10 scale)
-    if (compositeScore >= ENGAGEMENT_DELTAS.EXCELLENT.minScore) {
-      return ENGAGEMENT_DELTAS.EXCELLENT.delta;
+    if (compositeScore >= deltas.excellent.minScore) {
+      return deltas.excellent.delta;
     }
-    if (compositeScore >= ENGAGEMENT_DELTAS.GOOD.minScore) {
-      return ENGAGEMENT_DELTAS.GOOD.delta;
+    if (compositeScore >= deltas.good.minScore) {
+      return deltas.good.delta;
     }
-    if (compositeScore >= ENGAGEMENT_DELTAS.MEDIOCRE.minScore) {
-      return ENGAGEMENT_DELTAS.MEDIOCRE.delta;
+    if (compositeScore >= deltas.mediocre.minScore) {
+      return deltas.mediocre.delta;
     }
-    if (compositeScore >= ENGAGEMENT_DELTAS.POOR.minScore) {
-      return ENGAGEMENT_DELTAS.POOR.delta;
+    if (compositeScore >= deltas.poor.minScore) {
+      return deltas.poor.delta;
     }
 
-    return ENGAGEMENT_DELTAS.FAIL.delta;
+    return deltas.fail.delta;
   }
 
   /**
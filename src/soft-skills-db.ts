@@ -1,3 +1,5 @@
+import { InterviewLanguage } from "./types";
+
 export const softSkillsDB = {
   "Leadership": ["Delegation", "Team Motivation", "Accountability", "Strategic Thinking", "Mentoring", "Change Management", "Vision Casting", "Public Speaking"],
   "Communication": ["Active Listening", "Negotiation", "Constructive Feedback", "Persuasion", "Empathy", "Clarity", "Presentation Skills", "Non-verbal Communication"],
@@ -6,3 +8,40 @@ export const softSkillsDB = {
   "Adaptability": ["Stress Tolerance", "Flexibility", "Learning Agility", "Time Management", "Self-Organization", "Multitasking", "Resilience", "Openness to Change"],
   "Professionalism": ["Prioritization", "Discipline", "Emotional Intelligence", "Goal Setting (SMART)", "Attention to Detail", "Autonomy", "Ethics & Integrity", "Work Ethic", "Resource Planning", "Continuous Improvement"]
 };
+
+// Skill names shown to the candidate in non-English interviews (keyed by the English name)
+export const softSkillTranslations: Record<Exclude<InterviewLanguage, 'en'>, Record<string, string>> = {
+  ru: {
+    "Delegation": "Делегирование", "Team Motivation": "Мотивация команды", "Accountability": "Ответственность", "Strategic Thinking": "Стратегическое мышление",
+    "Mentoring": "Наставничество", "Change Management": "Управление изменениями", "Vision Casting": "Формирование видения", "Public Speaking": "Публичные выступления",
+    "Active Listening": "Активное слушание", "Negotiation": "Переговоры", "Constructive Feedback": "Конструктивная обратная связь", "Persuasion": "Убеждение",
+    "Empathy": "Эмпатия", "Clarity": "Ясность изложения", "Presentation Skills": "Навыки презентации", "Non-verbal Communication": "Невербальная коммуникация",
+    "Analytical Thinking": "Аналитическое мышление", "Critical Thinking": "Критическое мышление", "Creativity": "Креативность", "Decision Making": "Принятие решений",
+    "Root Cause Analysis": "Анализ первопричин", "Risk Management": "Управление рисками", "Systems Thinking": "Системное мышление", "Initiative": "Инициативность",
+    "Conflict Resolution": "Разрешение конфликтов", "Collaboration": "Сотрудничество", "Reliability": "Надёжность", "Supporting Peers": "Поддержка коллег",
+    "Cultural Awareness": "Межкультурная осведомлённость", "Trust Building": "Построение доверия", "Coordination": "Координация", "Expectation Management": "Управление ожиданиями",
+    "Stress Tolerance": "Стрессоустойчивость", "Flexibility": "Гибкость", "Learning Agility": "Обучаемость", "Time Management": "Тайм-менеджмент",
+    "Self-Organization": "Самоорганизация", "Multitasking": "Многозадачность", "Resilience": "Жизнестойкость", "Openness to Change": "Открытость к изменениям",
+    "Prioritization": "Расстановка приоритетов", "Discipline": "Дисциплина", "Emotional Intelligence": "Эмоциональный интеллект", "Goal Setting (SMART)": "Постановка целей (SMART)",
+    "Attention to Detail": "Внимание к деталям", "Autonomy": "Самостоятельность", "Ethics & Integrity": "Этика и честность", "Work Ethic": "Трудовая этика",
+    "Resource Planning": "Планирование ресурсов", "Continuous Improvement": "Непрерывное улучшение"
+  },
+  es: {
+    "Delegation": "Delegación", "Team Motivation": "Motivación del equipo", "Accountability": "Responsabilidad", "Strategic Thinking": "Pensamiento estratégico",
+    "Mentoring": "Mentoría", "Change Management": "Gestión del cambio", "Vision Casting": "Transmisión de la visión", "Public Speaking": "Hablar en público",
+    "Active Listening": "Escucha activa", "Negotiation": "Negociación", "Constructive Feedback": "Feedback constructivo", "Persuasion": "Persuasión",
+    "Empathy": "Empatía", "Clarity": "Claridad", "Presentation Skills": "Habilidades de presentación", "Non-verbal Communication": "Comunicación no verbal",
+    "Analytical Thinking": "Pensamiento analítico", "Critical Thinking": "Pensamiento crítico", "Creativity": "Creatividad", "Decision Making": "Toma de decisiones",
+    "Root Cause Analysis": "Análisis de causa raíz", "Risk Management": "Gestión de riesgos", "Systems Thinking": "Pensamiento sistémico", "Initiative": "Iniciativa",
+    "Conflict Resolution": "Resolución de conflictos", "Collaboration": "Colaboración", "Reliability": "Fiabilidad", "Supporting Peers": "Apoyo a los compañeros",
+    "Cultural Awareness": "Conciencia cultural", "Trust Building": "Generación de confianza", "Coordination": "Coordinación", "Expectation Management": "Gestión de expectativas",
+    "Stress Tolerance": "Tolerancia al estrés", "Flexibility": "Flexibilidad", "Learning Agility": "Agilidad de aprendizaje", "Time Management": "Gestión del tiempo",
+    "Self-Organization": "Autoorganización", "Multitasking": "Multitarea", "Resilience": "Resiliencia", "Openness to Change": "Apertura al cambio",
+    "Prioritization": "Priorización", "Discipline": "Disciplina", "Emotional Intelligence": "Inteligencia emocional", "Goal Setting (SMART)": "Definición de objetivos (SMART)",
+    "Attention to Detail": "Atención al detalle", "Autonomy": "Autonomía", "Ethics & Integrity": "Ética e integridad", "Work Ethic": "Ética de trabajo",
+    "Resource Planning": "Planificación de recursos", "Continuous Improvement": "Mejora continua"
+  }
+};
+
+export const localizeSoftSkill = (skill: string, language: InterviewLanguage): string =>
+  language === 'en' ? skill : softSkillTranslations[language][skill] || skill;
@@ -1,10 +1,24 @@
 export type InterviewMode = 'short' | 'medium' | 'long' | 'freestyle';
 
+/**
+ * InterviewLanguage: Language the whole interview is held in
+ * (prompts, STT, TTS and the final report). See services/interview-language.ts
+ */
+export type InterviewLanguage = 'en' | 'ru' | 'es';
+
+/**
+ * AnswerInputMode: How the candidate answers
+ * - voice: spoken answers (STT transcripts)
+ * - text: typed answers (open office, commute) - Victoria's audio is optional
+ */
+export type AnswerInputMode = 'voice' | 'text';
+
 export interface CategorizedSkill {
   skill: string;
   category: string;
   score?: number;
   question_script?: string; // <--- NEW: The generated scenario/question
+  study_tip?: string;       // Gaps only: what to study before the interview
 }
 
 export interface GeminiAnalysisResult {
@@ -14,16 +28,108 @@ export interface GeminiAnalysisResult {
   transferable_skills: CategorizedSkill[];
   soft_skills: CategorizedSkill[]; // <--- Changed from string[] to Object
   job_role?: string;
+  coding_problem?: CodingProblemSuggestion; // Only for roles that write code day-to-day
+  system_design?: SystemDesignSuggestion;   // Only for senior roles
+}
+
+/**
+ * FitAnalysis: Planner's resume-vs-JD analysis before it becomes a queue
+ * (shown on the fit report, see interview-planner buildInterviewPlan)
+ */
+export interface FitAnalysis {
+  jobRole: string;
+  analysis: GeminiAnalysisResult;
+}
+
+/**
+ * CodingProblemSuggestion: Planner's raw coding exercise (snake_case like the rest of the analysis)
+ */
+export interface CodingProblemSuggestion {
+  skill: string;
+  category: string;
+  title: string;
+  statement: string;
+  language: string;
+  starter_code?: string;
+}
+
+/**
+ * CodingProblem: Problem shown in the editor during a 'Coding' topic
+ */
+export interface CodingProblem {
+  title: string;
+  statement: string;
+  language: string;      // Programming language, e.g. "TypeScript"
+  starterCode?: string;
+}
+
+/**
+ * DesignStageId: Phases of a system-design round, in interview order
+ */
+export type DesignStageId = 'requirements' | 'high_level' | 'deep_dive' | 'tradeoffs';
+
+/**
+ * SystemDesignSuggestion: Planner's raw system-design round
+ * (checklists = components a strong answer mentions in each stage)
+ */
+export interface SystemDesignSuggestion {
+  skill: string;
+  category: string;
+  title: string;
+  scenario: string;
+  checklists: Partial<Record<DesignStageId, string[]>>;
+}
+
+/**
+ * DesignStage: One phase of a 'SystemDesign' topic
+ */
+export interface DesignStage {
+  id: DesignStageId;
+  label: string;
+  goal: string;          // What the candidate should do in this stage
+  checklist: string[];   // Expected components (hidden from the candidate)
+}
+
+/**
+ * DesignStageResult: Sub-score for one completed design stage
+ */
+export interface DesignStageResult {
+  stage: DesignStageId;
+  label: string;
+  score: number;         // 0-10
+  covered: string[];     // Checklist items the candidate addressed
+  missed: string[];      // Checklist items never mentioned
+  feedback: string;
+}
+
+/**
+ * DifficultyLevel: Question difficulty / candidate level, 1 (entry) to 5 (staff).
+ * See services/adaptive-difficulty.ts
+ */
+export type DifficultyLevel = 1 | 2 | 3 | 4 | 5;
+
+/**
+ * CategoryLevel: Estimated candidate level in one skill category
+ */
+export interface CategoryLevel {
+  category: string;
+  level: number;         // 1.0-5.0 (difficulty scale)
+  label: string;         // Nearest level name, e.g. "Senior"
+  topics: number;        // Scored topics the estimate is based on
 }
 
 export interface InterviewTopic {
   id: string;
-  type: 'Match' | 'Gap' | 'SoftSkill' | 'CoolSkill' | 'Intro' | 'Outro';
+  type: 'Match' | 'Gap' | 'SoftSkill' | 'CoolSkill' | 'Coding' | 'SystemDesign' | 'Intro' | 'Outro';
   topic: string;
   category?: string; // Added for grouping
   context: string; // This field will now store the DEEP SCENARIO generated by Pro
   estimated_time: string;
   score?: number; // Added Relevance Score
+  problem?: CodingProblem; // Coding topics only
+  stages?: DesignStage[];  // SystemDesign topics only (one answer phase per stage)
+  difficulty?: DifficultyLevel; // Planned starting difficulty (adapted live by the engine)
+  questionId?: string; // Question-bank content hash of the context (planner questions only)
 }
 
 export interface InterviewPlan {
@@ -31,7 +137,8 @@ export interface InterviewPlan {
     mode: InterviewMode;
     total_estimated_time: string;
     isInfinite?: boolean;
-    new_question_ids?: string[];
+    new_question_ids?: string[]; // Question-bank ids never asked before
+    job_role?: string;           // Role the planner extracted from the JD
   };
   queue: InterviewTopic[];
 }
@@ -41,6 +148,10 @@ export interface EvaluationMetrics {
   depth: number;
   structure: number;
   reasoning: string;
+  // Coding topics only (submitted code, 0-10)
+  correctness?: number;
+  complexity?: number;   // Time/space complexity vs. the optimal approach
+  style?: number;        // Readability, naming, idiomatic use of the language
 }
 
 // ============================================
@@ -73,6 +184,51 @@ export type AnswerIssue =
   | 'INCOMPLETE'        // Started well but didn't finish thought
   | 'SHALLOW';          // Surface-level, no depth
 
+/**
+ * ProbeKind: Targeted follow-up Victoria drills with while staying on a topic
+ * (chosen from the answer's issues, see services/follow-up-probes.ts)
+ */
+export type ProbeKind =
+  | 'CONCRETE_EXAMPLE'  // "Give me a concrete example"
+  | 'SCALE'             // "What would break at 10x load?"
+  | 'SPECIFICS'         // "Which tool / number / step exactly?"
+  | 'ALTERNATIVE'       // "Why not X instead?"
+  | 'MISSING_PART'      // "You skipped Y - how does that work?"
+  | 'FOCUS';            // "In two sentences: what's the core idea?"
+
+/**
+ * FollowUpProbe: One drill-down question on a topic and the answer it got
+ */
+export interface FollowUpProbe {
+  kind: ProbeKind;
+  issue: AnswerIssue;   // Issue of the previous answer that triggered the probe
+  depth: number;        // 1 = first probe on the topic
+  question: string;     // What Victoria asked
+  answer?: string;      // Candidate's sub-answer (missing if the topic ended first)
+  score?: number;       // compositeScore of the sub-answer (0-10)
+}
+
+/**
+ * StarSegment: Part of a behavioral (STAR) answer
+ */
+export type StarSegment = 'situation' | 'task' | 'action' | 'result';
+
+/**
+ * StarAnalysis: Behavioral answer split into STAR segments.
+ * Sentences are the candidate's own words, in order; 'other' = filler or
+ * off-story remarks.
+ */
+export interface StarAnalysis {
+  sentences: Array<{ text: string; segment: StarSegment | 'other' }>;
+  missing: StarSegment[];     // Segments without a single sentence
+  pronouns: {
+    i: number;                // "I / me / my" mentions
+    we: number;               // "we / us / our" mentions
+    iShare: number;           // i / (i + we), 0-1 (1 when neither is used)
+  };
+  feedback: string;           // 1-2 sentences on the story's structure
+}
+
 /**
  * UserIntent: Extended intent types for more granular classification.
  * Separates quality attempts (STRONG_ATTEMPT vs WEAK_ATTEMPT) from actions.
@@ -135,10 +291,11 @@ export interface AnalysisResponse {
 export interface VoiceGenerationContext {
   currentTopic: InterviewTopic;
   nextTopic: InterviewTopic | null;
-  transitionMode: 'STAY' | 'NEXT_FAIL' | 'NEXT_PASS' | 'NEXT_EXPLAIN' | 'FINISH_INTERVIEW' | 'TERMINATE_ANGER';
+  transitionMode: 'STAY' | 'NEXT_STAGE' | 'NEXT_FAIL' | 'NEXT_PASS' | 'NEXT_EXPLAIN' | 'FINISH_INTERVIEW' | 'TERMINATE_ANGER';
   angerLevel?: number;           // Added for final feedback
   engagementLevel?: number;      // NEW: Engagement metric (0-100)
   vibe?: VibeConfig;             // NEW: Current emotional state
+  isIntro?: boolean;             // Introduction topic (no second greeting)
 }
 
 export interface AiResponse {
@@ -159,8 +316,25 @@ export interface InterviewContext {
   isLastTopic: boolean;
 }
 
+/**
+ * DeliveryMetrics: How the candidate spoke on a topic (voice answers only,
+ * from STT word timings). Summed/averaged over all answers on the topic.
+ */
+export interface DeliveryMetrics {
+  answers: number;                    // Voice answers measured
+  wordsPerMinute: number;             // Over the candidate's speaking time
+  fillerCount: number;
+  fillers: Record<string, number>;    // Filler word/phrase → count
+  longestPauseSec: number;            // Longest silence between two words
+  hesitationSec: number;              // Average wait before the first word (from the end of Victoria's question)
+  talkTimeSec: number;                // Candidate speaking time
+  interviewerTimeSec: number;         // Victoria's speaking time before those answers
+  talkRatio: number;                  // talkTime / (talkTime + interviewerTime), 0-1
+}
+
 export interface QuestionResult {
   topic: string;
+  topicId?: string; // Id of the plan topic this result evaluates (missing if the evaluator didn't say)
   userAnswer: string;
   score: number; // 0-10
   feedback: string;
@@ -177,6 +351,14 @@ export interface QuestionResult {
     text: string;
     timestamp?: number;
   }>;
+  submittedCode?: string; // Coding topics: the candidate's final code
+  codeLanguage?: string;  // Coding topics: programming language of submittedCode
+  designStages?: DesignStageResult[]; // SystemDesign topics: per-stage sub-scores
+  probes?: FollowUpProbe[];           // Follow-up drill-down, in the order asked
+  category?: string;                  // Skill category of the topic
+  difficulty?: DifficultyLevel;       // Difficulty the topic was asked at
+  starAnalysis?: StarAnalysis;        // SoftSkill topics: STAR breakdown of the candidate's story
+  delivery?: DeliveryMetrics;         // Voice answers: how the candidate spoke
 }
 
 export interface FinalInterviewReport {
@@ -186,6 +368,110 @@ export interface FinalInterviewReport {
   timestamp: number;
   wasForceFinished?: boolean; // ✨ NEW: True if manually force-finished via shake menu
   terminationReason?: 'completed' | 'force_finished' | 'anger_limit' | 'patience_limit'; // ✨ NEW: How interview ended
+  scoringPolicyId?: ScoringPolicyId; // Policy the interview was scored with
+  language?: InterviewLanguage;      // Language the interview was held in (missing = 'en')
+  inputMode?: AnswerInputMode;       // Typed or spoken answers (missing = 'voice')
+  categoryLevels?: CategoryLevel[];  // Estimated level per skill category (adaptive difficulty)
+}
+
+// ============================================
+// INTERVIEWER PROFILE TYPES
+// ============================================
+
+/**
+ * BehavioralFramework: Story structure expected from behavioral answers
+ * - STAR: Situation, Task, Action, Result
+ * - CAR: Challenge, Action, Result
+ * - SOAR: Situation, Obstacle, Action, Result
+ */
+export type BehavioralFramework = 'STAR' | 'CAR' | 'SOAR' | 'none';
+
+/**
+ * InterviewerProfile: Company / interview style Victoria plays.
+ * Stored as JSON (built-ins in src/profiles/, custom ones imported by the
+ * user) - see services/interviewer-profiles.ts
+ */
+export interface InterviewerProfile {
+  id: string;
+  name: string;
+  description: string;
+  persona: string;                  // Who Victoria is, e.g. "Bar Raiser at Amazon"
+  tone: string;                     // How she speaks and follows up
+  questionBias: {
+    softSkillShare?: number;        // 0-1 share of behavioral topics (missing = mode default)
+    focusAreas: string[];           // Themes the planner should favour
+  };
+  rubricWeights?: {                 // compositeScore weights (missing = by topic type)
+    accuracy: number;
+    depth: number;
+    structure: number;
+  };
+  behavioralFramework: BehavioralFramework;
+  principles?: string[];            // Values behavioral questions map to (e.g. Leadership Principles)
+}
+
+// ============================================
+// SCORING POLICY TYPES
+// ============================================
+
+/**
+ * ScoringPolicyId: Named presets (see services/scoring-policy.ts)
+ * - lenient: practice mode, forgiving patience and anger
+ * - realistic: the default interview bar
+ * - bar_raiser: FAANG-style, strict thresholds and a short fuse
+ */
+export type ScoringPolicyId = 'lenient' | 'realistic' | 'bar_raiser';
+
+/**
+ * ScoringPolicy: Every number the interview rules depend on.
+ * Success/patience/anger all run 0-100; reaching 100 triggers the transition.
+ */
+export interface ScoringPolicy {
+  id: ScoringPolicyId;
+  label: string;
+  description: string;
+
+  // Per-answer topic arithmetic (score = compositeScore 0-10)
+  topic: {
+    skipPatience: number;          // GIVE_UP / SHOW_ANSWER: patience set to this
+    nonsensePatience: number;      // NONSENSE: patience += this
+    poorMax: number;               // score < poorMax: poor
+    mediocreMax: number;           // score < mediocreMax: mediocre
+    goodMax: number;               // score <= goodMax: good, above: excellent
+    poorPatienceFactor: number;    // poor: patience += (10 - score) × factor
+    mediocreSuccessFactor: number; // mediocre: success += score × factor
+    mediocrePatience: number;      // mediocre: patience += this
+    goodSuccessFactor: number;     // good/excellent: success += score × factor
+    goodPatienceFactor: number;    // good/excellent: patience -= score × factor
+  };
+
+  // Anger changes (anger carries across topics)
+  anger: {
+    nonsense: number;              // NONSENSE answer
+    topicFail: number;             // Running out of patience on a topic
+    excellentRelief: number;       // Excellent answer (the only way anger drops)
+  };
+
+  // Victoria's vibe zones (anger thresholds, see VibeCalculator)
+  angerZones: {
+    terminal: number;
+    criticalHigh: number;
+    critical: number;
+    high: number;
+    highLow: number;
+    medium: number;
+    low: number;
+  };
+
+  // Engagement change per answer quality
+  engagementDeltas: {
+    excellent: { minScore: number; delta: number };
+    good: { minScore: number; delta: number };
+    mediocre: { minScore: number; delta: number };
+    poor: { minScore: number; delta: number };
+    fail: { minScore: number; delta: number };
+    nonsense: number;
+  };
 }
 
 // ============================================
@@ -326,7 +612,9 @@ export type DeepgramVoice =
   | 'aura-2-hermes-en'    // Expressive, Knowledgeable (M)
   | 'aura-2-orion-en'     // Approachable, Calm (M)
   | 'aura-2-luna-en'      // Friendly, Engaging (F)
-  | 'aura-2-arcas-en';    // Natural, Smooth (M)
+  | 'aura-2-arcas-en'     // Natural, Smooth (M)
+  | 'aura-2-celeste-es'   // Clear, Energetic (F) - Spanish
+  | 'aura-2-nestor-es';   // Calm, Professional (M) - Spanish
 
 // ============================================
 // PDF RESUME SUPPORT TYPES
@@ -522,6 +810,7 @@ export interface StreamingPlayerConfig {
 export interface CartesiaStreamingOptions {
   voiceId: string;
   text: string;
+  language?: string;  // ISO 639-1, e.g. 'ru' (Cartesia default: 'en')
   emotion?: string[];
   speed?: 'slowest' | 'slow' | 'normal' | 'fast' | 'fastest';
 
@@ -95,6 +95,30 @@ export class SentenceDetector {
         return boundaries;
     }
 
+    /**
+     * Cut completed sentences off the front of text that is still being written
+     * (streamed LLM output). A sentence only counts as completed once whitespace
+     * follows its ending, so "3." in "3.5" or a cut-off "Mr." isn't split early
+     * @param text Text received so far
+     * @returns Completed sentences and the unfinished rest
+     */
+    static splitCompletedText(text: string): { sentences: string[]; rest: string } {
+        const sentences: string[] = [];
+        let sentenceStart = 0;
+
+        // Ending punctuation (plus closing quotes/brackets) followed by whitespace
+        const pattern = /[.!?…]+["'»”)\]]*\s+/g;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(text)) !== null) {
+            const end = match.index + match[0].length;
+            const sentence = text.slice(sentenceStart, end).trim();
+            if (sentence) sentences.push(sentence);
+            sentenceStart = end;
+        }
+
+        return { sentences, rest: text.slice(sentenceStart) };
+    }
+
     /**
      * Extract sentence text from timestamps range
      */